@@ -0,0 +1,415 @@
+#!/usr/bin/env ts-node
+
+/**
+ * crossy: command-line tool for operating Crossy Robot games
+ *
+ * Creates, connects, drives, ends and inspects games and watches their
+ * events, using the named keys from .env (or the Sui keystore) and the
+ * network profiles from networks.json. Every command takes --json for
+ * scripting.
+ *
+ * Usage:
+ *   npm run crossy -- <command> [options]
+ *   npm run crossy -- --help
+ */
+
+import type { Keypair } from '@mysten/sui/cryptography';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import {
+  CROWD_GAME_STATUS,
+  CrossyRobotClient,
+  CrowdGameStatus,
+  DEFAULT_SUI_KEYSTORE_PATH,
+  DIRECTION_NAMES,
+  Direction,
+  GAME_STATUS,
+  GameEvent,
+  GameEventStream,
+  GameModule,
+  GameStatus,
+  MoveAbortError,
+  directionName,
+  findKeystoreEntry,
+  formatSui,
+  loadNetworkProfile,
+  loadOptionalKeypairFromEnv,
+  parseDirection,
+  readSuiKeystore,
+  roleEnvVar
+} from './src';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: crossy <command> [options]
+
+Commands:
+  game create [--crowd]        Create a crossy_robot game (or a crowd_robot game)
+  game connect <id>            Connect a robot to a waiting game (key: robot)
+  game end <id>                End an expired crowd game
+  game info <id>               Show a game's on-chain state
+  move <id> <direction...>     Send moves; directions are codes 0-7 or names
+                               such as UP or UP_LEFT
+  watch [--game <id>]          Print events as they happen until Ctrl+C
+  balance                      Show the key's address and SUI balance
+
+Options:
+  --network <name>     Network profile (default: SUI_NETWORK, then testnet)
+  --key <name>         Signing key: a role from .env (<ROLE>_PRIVATE_KEY), or an
+                       alias or address in the Sui keystore (default: user,
+                       robot for \`game connect\`)
+  --keystore <path>    Sui keystore for --key lookups
+                       (default: ~/.sui/sui_config/sui.keystore)
+  --json               Machine-readable output (one JSON document per line
+                       for watch)
+  --help               Show this help
+
+Exit codes: 0 success, 1 the command failed, 2 invalid usage.`;
+
+/** Bad command line; exits with code 2 */
+class UsageError extends Error {
+  name = 'UsageError';
+}
+
+interface Options {
+  command: string[];
+  network?: string;
+  key?: string;
+  keystorePath: string;
+  json: boolean;
+  crowd: boolean;
+  gameId?: string;
+  help: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    command: [],
+    keystorePath: DEFAULT_SUI_KEYSTORE_PATH,
+    json: false,
+    crowd: false,
+    help: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) {
+        throw new UsageError(`${arg} needs a value`);
+      }
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--network':
+        options.network = value();
+        break;
+      case '--key':
+        options.key = value();
+        break;
+      case '--keystore':
+        options.keystorePath = value();
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '--crowd':
+        options.crowd = true;
+        break;
+      case '--game':
+        options.gameId = value();
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new UsageError(`Unknown option ${arg}`);
+        }
+        options.command.push(arg);
+    }
+  }
+  return options;
+}
+
+// ===== Output =====
+
+/** JSON with u64 values as strings */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, field) => (typeof field === 'bigint' ? field.toString() : field));
+}
+
+/** Print `data` as JSON with --json, otherwise the human-readable lines */
+function print(options: Options, data: unknown, lines: string[]): void {
+  console.log(options.json ? toJson(data) : lines.join('\n'));
+}
+
+function statusName(module: GameModule, status: GameStatus | CrowdGameStatus): string {
+  const statuses: Record<string, number> = module === 'crossy_robot' ? GAME_STATUS : CROWD_GAME_STATUS;
+  return Object.keys(statuses).find((name) => statuses[name] === status) ?? `UNKNOWN (${status})`;
+}
+
+function formatTime(ms: bigint): string {
+  return new Date(Number(ms)).toISOString();
+}
+
+function describeEvent(event: GameEvent): string {
+  switch (event.type) {
+    case 'crossy_robot::GameCreated':
+      return `🎮 GameCreated ${event.data.game_id} by ${event.data.user} (${formatSui(event.data.payment_amount)} SUI)`;
+    case 'crossy_robot::RobotConnected':
+      return `🔗 RobotConnected ${event.data.game_id}: ${event.data.robot}`;
+    case 'crossy_robot::RobotMoved':
+      return `🎯 RobotMoved ${event.data.game_id}: ${directionName(event.data.direction)}`;
+    case 'crowd_robot::GameCreated':
+      return `🎮 Crowd GameCreated ${event.data.game_id} by ${event.data.creator} (ends ${formatTime(event.data.end_time)})`;
+    case 'crowd_robot::RobotMoved':
+      return `🎯 Crowd RobotMoved ${event.data.game_id}: ${directionName(event.data.direction)} ` +
+        `by ${event.data.player} (move #${event.data.move_number}${event.data.is_new_player ? ', new player' : ''})`;
+    case 'crowd_robot::GameEnded':
+      return `🏁 Crowd GameEnded ${event.data.game_id}: ${event.data.total_moves} moves, ` +
+        `${event.data.unique_players} players`;
+  }
+}
+
+// ===== Keys =====
+
+/** A role's <ROLE>_PRIVATE_KEY, or else a Sui keystore entry with that alias or address */
+function loadKey(options: Options, defaultRole: string): Keypair {
+  const name = options.key ?? defaultRole;
+  const fromEnv = name.startsWith('0x') ? null : loadOptionalKeypairFromEnv(roleEnvVar(name));
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const entry = fs.existsSync(options.keystorePath)
+    ? findKeystoreEntry(readSuiKeystore(options.keystorePath), name)
+    : undefined;
+  if (!entry) {
+    throw new Error(`No key "${name}": set ${roleEnvVar(name)} or add it to ${options.keystorePath}`);
+  }
+  return entry.keypair;
+}
+
+// ===== Commands =====
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`Missing <${name}>`);
+  }
+  return value;
+}
+
+async function createGame(client: CrossyRobotClient, options: Options): Promise<void> {
+  const signer = loadKey(options, 'user');
+  const module: GameModule = options.crowd ? 'crowd_robot' : 'crossy_robot';
+  const { gameId, digest } = options.crowd
+    ? await client.createCrowdGame(signer)
+    : await client.createGame(signer);
+  print(options, { module, gameId, digest }, [
+    `🎮 Created ${module} game ${gameId}`,
+    `   Transaction: ${digest}`,
+  ]);
+}
+
+async function connectRobot(client: CrossyRobotClient, options: Options, gameId: string): Promise<void> {
+  const result = await client.connectRobot(loadKey(options, 'robot'), gameId);
+  print(options, { gameId, digest: result.digest, paymentCoinId: result.paymentCoinId, recipient: result.recipient }, [
+    `🔗 Connected to game ${gameId}`,
+    `   Payment coin: ${result.paymentCoinId} (sent to ${result.recipient})`,
+    `   Transaction: ${result.digest}`,
+  ]);
+}
+
+async function endGame(client: CrossyRobotClient, options: Options, gameId: string): Promise<void> {
+  if (await client.getGameModule(gameId) !== 'crowd_robot') {
+    throw new Error(`${gameId} is a crossy_robot game; only crowd games can be ended`);
+  }
+  const { digest, events } = await client.endCrowdGame(loadKey(options, 'user'), gameId);
+  const ended = events.find((event) => event.type === 'crowd_robot::GameEnded');
+  print(options, { gameId, digest, ended: ended?.data ?? null }, [
+    ended ? `🏁 Ended game ${gameId}` : `🏁 Game ${gameId} had already ended`,
+    `   Transaction: ${digest}`,
+  ]);
+}
+
+async function gameInfo(client: CrossyRobotClient, options: Options, gameId: string): Promise<void> {
+  if (await client.getGameModule(gameId) === 'crossy_robot') {
+    const game = await client.getGame(gameId);
+    print(options, { module: 'crossy_robot', ...game, statusName: statusName('crossy_robot', game.status) }, [
+      `🎮 crossy_robot game ${game.id}`,
+      `   Status: ${statusName('crossy_robot', game.status)}`,
+      `   User: ${game.user}`,
+      `   Robot: ${game.robot ?? '(waiting)'}`,
+      `   Escrow: ${game.payment === null ? 'released' : `${formatSui(game.payment)} SUI`}`,
+      `   Created: ${formatTime(game.created_at)}`,
+    ]);
+    return;
+  }
+
+  const { game, nowMs, expired, timeRemainingMs } = await client.getCrowdGameView(gameId);
+  print(options, {
+    module: 'crowd_robot',
+    ...game,
+    statusName: statusName('crowd_robot', game.status),
+    chainTimeMs: nowMs,
+    expired,
+    timeRemainingMs,
+  }, [
+    `🎮 crowd_robot game ${game.id}`,
+    `   Status: ${statusName('crowd_robot', game.status)}${expired && game.status !== CROWD_GAME_STATUS.ENDED ? ' (expired, not yet ended)' : ''}`,
+    `   Creator: ${game.creator}`,
+    `   Created: ${formatTime(game.created_at)}`,
+    `   Ends: ${formatTime(game.end_time)} (${expired ? 'expired' : `${Number(timeRemainingMs) / 1000}s left by chain time`})`,
+    `   Moves: ${game.total_moves}`,
+    `   Players: ${game.players.length}`,
+    ...game.players.map((player) => `     ${player}`),
+  ]);
+}
+
+function parseDirections(names: string[]): Direction[] {
+  if (names.length === 0) {
+    throw new UsageError('Missing <direction>');
+  }
+  return names.map((name) => {
+    const direction = parseDirection(name);
+    if (direction === null) {
+      throw new UsageError(`Unknown direction "${name}"; use 0-7 or ${DIRECTION_NAMES.join(', ')}`);
+    }
+    return direction;
+  });
+}
+
+async function move(client: CrossyRobotClient, options: Options, gameId: string, directions: Direction[]): Promise<void> {
+  const signer = loadKey(options, 'user');
+  const module = await client.getGameModule(gameId);
+  const moves: { direction: Direction; name: string; digest: string }[] = [];
+  for (const direction of directions) {
+    const { digest } = module === 'crowd_robot'
+      ? await client.moveCrowdRobot(signer, gameId, direction)
+      : await client.moveRobot(signer, gameId, direction);
+    moves.push({ direction, name: DIRECTION_NAMES[direction], digest });
+    if (!options.json) {
+      console.log(`🎯 ${DIRECTION_NAMES[direction]} (${digest})`);
+    }
+  }
+  if (options.json) {
+    print(options, { gameId, module, moves }, []);
+  }
+}
+
+async function watch(client: CrossyRobotClient, options: Options): Promise<void> {
+  const gameId = options.gameId ? normalizeSuiAddress(options.gameId) : null;
+  const modules: GameModule[] = gameId ? [await client.getGameModule(gameId)] : ['crossy_robot', 'crowd_robot'];
+
+  // Only events from now on
+  const streams = await Promise.all(modules.map(async (module) => new GameEventStream(client, {
+    module,
+    cursor: await client.latestEventCursor(module),
+    onError: (error) => console.error('⚠️ ', error instanceof Error ? error.message : error),
+  })));
+  process.once('SIGINT', () => streams.forEach((stream) => stream.close()));
+
+  if (!options.json) {
+    console.log(`👀 Watching ${gameId ? `game ${gameId}` : modules.join(' and ')} events (Ctrl+C to stop)...`);
+  }
+  await Promise.all(streams.map(async (stream) => {
+    for await (const event of stream) {
+      if (gameId && event.data.game_id !== gameId) {
+        continue;
+      }
+      print(options, event, [describeEvent(event)]);
+    }
+  }));
+}
+
+async function balance(client: CrossyRobotClient, options: Options): Promise<void> {
+  const address = loadKey(options, 'user').toSuiAddress();
+  const mist = await client.getBalance(address);
+  print(options, { address, balance: mist }, [`💰 ${address}: ${formatSui(mist, 9)} SUI`]);
+}
+
+type Command = (client: CrossyRobotClient) => Promise<void>;
+
+/** Validate the command line before connecting to the network */
+function resolveCommand(options: Options): Command {
+  const [group, action, ...rest] = options.command;
+  switch (group) {
+    case 'game': {
+      switch (action) {
+        case 'create':
+          return (client) => createGame(client, options);
+        case 'connect': {
+          const gameId = requireArg(rest[0], 'id');
+          return (client) => connectRobot(client, options, gameId);
+        }
+        case 'end': {
+          const gameId = requireArg(rest[0], 'id');
+          return (client) => endGame(client, options, gameId);
+        }
+        case 'info': {
+          const gameId = requireArg(rest[0], 'id');
+          return (client) => gameInfo(client, options, gameId);
+        }
+        default:
+          throw new UsageError(action ? `Unknown game command "${action}"` : 'Missing game command');
+      }
+    }
+    case 'move': {
+      const gameId = requireArg(action, 'id');
+      const directions = parseDirections(rest);
+      return (client) => move(client, options, gameId, directions);
+    }
+    case 'watch':
+      return (client) => watch(client, options);
+    case 'balance':
+      return (client) => balance(client, options);
+    default:
+      throw new UsageError(`Unknown command "${group}"`);
+  }
+}
+
+async function run(options: Options): Promise<void> {
+  if (options.help || options.command.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+  const command = resolveCommand(options);
+  const client = await CrossyRobotClient.connect(loadNetworkProfile({ network: options.network }));
+  await command(client);
+}
+
+async function main() {
+  let options: Options | null = null;
+  try {
+    options = parseArgs(process.argv.slice(2));
+    await run(options);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (options?.json) {
+      console.log(toJson({
+        error: {
+          name: error instanceof Error ? error.name : 'Error',
+          message,
+          abortName: error instanceof MoveAbortError ? error.abortName : undefined,
+        },
+      }));
+    } else {
+      console.error('❌', message);
+    }
+    if (error instanceof UsageError) {
+      if (!options?.json) {
+        console.error('   Run with --help for usage');
+      }
+      process.exit(2);
+    }
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -10,84 +10,76 @@
  * 4. Stress testing with rapid command submission
  * 5. Real-time statistics and performance metrics
  * 6. Complete validation of all crowd robot features
+ *
+ * Move counts, player tracking and game status are asserted against chain
+ * state; JUnit and JSON reports are written to E2E_REPORT_DIR (default: reports).
  */
 
-import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
-import { Transaction } from '@mysten/sui/transactions';
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
-import { fromB64 } from '@mysten/sui/utils';
-import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
-import * as fs from 'fs';
+import type { Keypair } from '@mysten/sui/cryptography';
 import * as dotenv from 'dotenv';
+import {
+  CROWD_GAME_DURATION_MS,
+  CROWD_GAME_STATUS,
+  CreateGameResult,
+  CrossyRobotClient,
+  DIRECTION_NAMES,
+  EndGameResult,
+  GameEvent,
+  LoadGenerator,
+  LoadReport,
+  Scenario,
+  ScenarioResult,
+  assertEqual,
+  assertEvent,
+  assertEventCount,
+  formatStepResult,
+  formatSui,
+  getPlayerCount,
+  loadKeypairFromEnv,
+  loadNetworkProfile,
+  loadOptionalKeypairFromEnv,
+  summarizeLatencies,
+  waitFor,
+  writeScenarioReports
+} from './src';
 
 // Load environment variables
 dotenv.config();
 
 // Configuration
-const DEPLOYMENT_INFO_PATH = './deployment_info.json';
-const GAME_DURATION_MS = 120_000; // 2 minutes
 const STRESS_TEST_COMMANDS = 15; // Number of rapid commands per player
 const MAX_PLAYERS = 4; // Support up to 4 players for comprehensive testing
-
-// Movement directions
-const DIRECTIONS = {
-  UP: 0,
-  DOWN: 1,
-  LEFT: 2,
-  RIGHT: 3,
-  UP_RIGHT: 4,
-  UP_LEFT: 5,
-  DOWN_LEFT: 6,
-  DOWN_RIGHT: 7
-} as const;
-
-const DIRECTION_NAMES = ['UP', 'DOWN', 'LEFT', 'RIGHT', 'UP_RIGHT', 'UP_LEFT', 'DOWN_LEFT', 'DOWN_RIGHT'];
-
-interface DeploymentInfo {
-  package_id: string;
-  transaction_digest: string;
-  network: string;
-}
-
-interface GameInfo {
-  creator: string;
-  players: string[];
-  status: number;
-  created_at: number;
-  end_time: number;
-  total_moves: number;
-}
+const REPORT_DIR = process.env.E2E_REPORT_DIR || 'reports';
 
 interface TestMetrics {
   gameCreated: number;
   totalMoves: number;
   uniquePlayers: number;
   gameEnded: number;
-  averageResponseTime: number;
+  /** Response time of every successful transaction */
+  responseTimes: number[];
   successfulTransactions: number;
   failedTransactions: number;
   eventsProcessed: number;
 }
 
 class CrowdRobotE2ETest {
-  private client: SuiClient;
-  private playerKeypairs: Ed25519Keypair[];
-  private packageId: string;
-  private processedEvents: any[] = [];
+  private client: CrossyRobotClient;
+  private playerKeypairs: Keypair[];
   private testMetrics: TestMetrics;
   private gameStartTime: number = 0;
+  /** Moves that emitted RobotMoved, and the players who made them */
+  private moveCount = 0;
+  private movers = new Set<string>();
 
-  constructor() {
-    // Initialize Sui client
-    this.client = new SuiClient({
-      url: getFullnodeUrl('testnet')
-    });
-
+  constructor(client: CrossyRobotClient) {
     // Initialize multiple player wallets for comprehensive testing
+    // USER_PRIVATE_KEY, PLAYER2_PRIVATE_KEY and PLAYER3_PRIVATE_KEY are required,
+    // PLAYER4_PRIVATE_KEY is optional (for enhanced stress testing)
     this.playerKeypairs = [];
     for (let i = 1; i <= MAX_PLAYERS; i++) {
       const envVar = i === 1 ? 'USER_PRIVATE_KEY' : `PLAYER${i}_PRIVATE_KEY`;
-      const keypair = this.createKeypairFromEnv(envVar, i <= 3); // Only first 3 are required
+      const keypair = i <= 3 ? loadKeypairFromEnv(envVar) : loadOptionalKeypairFromEnv(envVar);
       if (keypair) {
         this.playerKeypairs.push(keypair);
       }
@@ -99,328 +91,148 @@ class CrowdRobotE2ETest {
       totalMoves: 0,
       uniquePlayers: 0,
       gameEnded: 0,
-      averageResponseTime: 0,
+      responseTimes: [],
       successfulTransactions: 0,
       failedTransactions: 0,
       eventsProcessed: 0,
     };
 
-    // Load deployment info
-    this.packageId = this.loadPackageId();
+    this.client = client;
 
     console.log('🎮 Comprehensive Crowd Robot E2E Test');
-    console.log(`📦 Package ID: ${this.packageId}`);
+    console.log(`🌐 Network: ${this.client.network?.name}`);
+    console.log(`📦 Package ID: ${this.client.packageId}`);
     console.log(`👥 Player Addresses (${this.playerKeypairs.length} players):`);
     this.playerKeypairs.forEach((kp, i) => {
-      console.log(`   Player ${i + 1}: ${kp.getPublicKey().toSuiAddress()}`);
+      console.log(`   Player ${i + 1}: ${kp.toSuiAddress()}`);
     });
     console.log('');
   }
 
-  private createKeypairFromEnv(envVar: string, required: boolean = true): Ed25519Keypair | null {
-    const privateKey = process.env[envVar];
-    if (!privateKey) {
-      if (required) {
-        console.error(`❌ ${envVar} not found in environment variables`);
-        console.log('💡 Create a .env file with your wallet private keys');
-        console.log(`💡 Required keys: USER_PRIVATE_KEY, PLAYER2_PRIVATE_KEY, PLAYER3_PRIVATE_KEY`);
-        console.log(`💡 Optional key: PLAYER4_PRIVATE_KEY (for enhanced stress testing)`);
-        process.exit(1);
-      }
-      return null;
-    }
-
-    try {
-      // Handle both Sui CLI format (suiprivkey1...) and base64 format
-      if (privateKey.startsWith('suiprivkey1')) {
-        const { schema, secretKey } = decodeSuiPrivateKey(privateKey);
-        if (schema === 'ED25519') {
-          return Ed25519Keypair.fromSecretKey(secretKey);
-        } else {
-          throw new Error('Only ED25519 keys are supported');
-        }
-      } else {
-        return Ed25519Keypair.fromSecretKey(fromB64(privateKey));
-      }
-    } catch (error) {
-      console.error(`❌ Invalid private key format for ${envVar}:`, error);
-      process.exit(1);
-    }
-  }
-
-  private loadPackageId(): string {
-    try {
-      const deploymentInfo: DeploymentInfo = JSON.parse(
-        fs.readFileSync(DEPLOYMENT_INFO_PATH, 'utf8')
-      );
-      return deploymentInfo.package_id;
-    } catch (error) {
-      console.error('❌ Could not load deployment info');
-      process.exit(1);
-    }
-  }
-
   private async checkWalletBalances(): Promise<void> {
-    console.log('💰 Checking wallet balances...');
-    
     for (let i = 0; i < this.playerKeypairs.length; i++) {
-      const balance = await this.getWalletBalance(this.playerKeypairs[i].getPublicKey().toSuiAddress());
-      console.log(`   Player ${i + 1}: ${(balance / 1_000_000_000).toFixed(3)} SUI`);
-      
-      // Each player needs gas for multiple moves in stress testing
-      if (balance < 50_000_000) { // 0.05 SUI for multiple transactions
-        console.error(`❌ Player ${i + 1} has insufficient balance for stress testing`);
-        process.exit(1);
+      // Each player needs gas for multiple moves in stress testing; localnet tops up from the faucet
+      const balance = await this.client.ensureBalance(this.playerKeypairs[i].toSuiAddress(), 50_000_000n);
+      console.log(`   Player ${i + 1}: ${formatSui(balance)} SUI`);
+
+      // Merge fragmented gas coins so every command can pay from a single coin
+      const coin = await this.client.gas?.mergeCoins(this.playerKeypairs[i]);
+      if (coin) {
+        console.log(`   Player ${i + 1}: gas coin ${coin.objectId}`);
       }
     }
-    
-    console.log('✅ All wallet balances sufficient for stress testing\n');
-  }
-
-  private async getWalletBalance(address: string): Promise<number> {
-    try {
-      const balance = await this.client.getBalance({ owner: address });
-      return parseInt(balance.totalBalance);
-    } catch (error) {
-      console.error(`❌ Could not fetch balance for ${address}`);
-      return 0;
-    }
   }
 
-  private async createGame(): Promise<string> {
-    console.log('🎮 Creating crowd-controlled game...');
-    this.gameStartTime = Date.now();
-    
+  /**
+   * Run a client call, recording its response time and outcome in the metrics
+   */
+  private async timed<T>(operation: () => Promise<T>): Promise<{ result: T; responseTime: number }> {
+    const startTime = Date.now();
     try {
-      const tx = new Transaction();
-      
-      tx.moveCall({
-        target: `${this.packageId}::crowd_robot::create_game`,
-        arguments: [
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      const startTime = Date.now();
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.playerKeypairs[0],
-        transaction: tx,
-        options: {
-          showEffects: true,
-          showObjectChanges: true,
-        },
-      });
+      const result = await operation();
       const responseTime = Date.now() - startTime;
-      
-      if (result.effects?.status?.status !== 'success') {
-        this.testMetrics.failedTransactions++;
-        throw new Error(`Transaction failed: ${result.effects?.status?.error}`);
-      }
-      
       this.testMetrics.successfulTransactions++;
-      this.updateAverageResponseTime(responseTime);
-      
-      const gameObject = result.objectChanges?.find(
-        (change: any) => change.type === 'created' && 
-        change.objectType?.includes('Game')
-      );
-      
-      if (!gameObject) {
-        throw new Error('Game object not found in transaction result');
-      }
-      
-      const gameId = (gameObject as any).objectId;
-      console.log(`✅ Game created successfully!`);
-      console.log(`   Game ID: ${gameId}`);
-      console.log(`   Response Time: ${responseTime}ms`);
-      console.log(`   Free game - no payment required`);
-      console.log('');
-      
-      return gameId;
-      
+      this.testMetrics.responseTimes.push(responseTime);
+      return { result, responseTime };
     } catch (error) {
       this.testMetrics.failedTransactions++;
-      console.error('❌ Failed to create game:', error);
       throw error;
     }
   }
 
+  private async createGame(): Promise<CreateGameResult> {
+    console.log('🎮 Creating crowd-controlled game...');
+    this.gameStartTime = Date.now();
+
+    const { result, responseTime } = await this.timed(() =>
+      this.client.createCrowdGame(this.playerKeypairs[0])
+    );
+
+    console.log(`✅ Game created successfully!`);
+    console.log(`   Game ID: ${result.gameId}`);
+    console.log(`   Response Time: ${responseTime}ms`);
+    console.log(`   Free game - no payment required`);
+    console.log('');
+
+    return result;
+  }
+
   private async sendMovementCommand(
-    gameId: string, 
-    direction: number, 
+    gameId: string,
+    direction: number,
     playerIndex: number
-  ): Promise<number> {
-    try {
-      const tx = new Transaction();
-      
-      tx.moveCall({
-        target: `${this.packageId}::crowd_robot::move_robot`,
-        arguments: [
-          tx.object(gameId),
-          tx.pure.u8(direction),
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      const startTime = Date.now();
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.playerKeypairs[playerIndex],
-        transaction: tx,
-        options: {
-          showEffects: true,
-        },
-      });
-      const responseTime = Date.now() - startTime;
-      
-      if (result.effects?.status?.status !== 'success') {
-        this.testMetrics.failedTransactions++;
-        throw new Error(`Movement command failed: ${result.effects?.status?.error}`);
+  ): Promise<{ events: GameEvent[]; responseTime: number }> {
+    const { result, responseTime } = await this.timed(() =>
+      this.client.moveCrowdRobot(this.playerKeypairs[playerIndex], gameId, direction)
+    );
+    for (const event of result.events) {
+      if (event.type === 'crowd_robot::RobotMoved') {
+        this.recordMove(event.data.player);
       }
-      
-      this.testMetrics.successfulTransactions++;
-      this.updateAverageResponseTime(responseTime);
-      
-      return responseTime;
-      
-    } catch (error) {
-      this.testMetrics.failedTransactions++;
-      throw error;
     }
+    return { events: result.events, responseTime };
   }
 
-  private updateAverageResponseTime(newTime: number): void {
-    const totalTransactions = this.testMetrics.successfulTransactions;
-    this.testMetrics.averageResponseTime = 
-      ((this.testMetrics.averageResponseTime * (totalTransactions - 1)) + newTime) / totalTransactions;
+  private recordMove(player: string): void {
+    this.moveCount++;
+    this.movers.add(player);
   }
 
-  private async performStressTest(gameId: string): Promise<void> {
+  private async performStressTest(gameId: string): Promise<LoadReport> {
     console.log('⚡ Starting stress test with rapid command submission...');
     console.log(`   Sending ${STRESS_TEST_COMMANDS} commands per player across ${this.playerKeypairs.length} players`);
     console.log('   Commands will be sent as rapidly as possible to test network capacity');
     console.log('');
 
-    const stressStartTime = Date.now();
-    const promises: Promise<void>[] = [];
-
-    // Each player sends rapid commands
-    for (let playerIndex = 0; playerIndex < this.playerKeypairs.length; playerIndex++) {
-      const playerPromise = async () => {
-        console.log(`🏃‍♂️ Player ${playerIndex + 1} starting rapid command sequence...`);
-        
-        for (let commandIndex = 0; commandIndex < STRESS_TEST_COMMANDS; commandIndex++) {
-          try {
-            // Random direction for each command
-            const direction = Math.floor(Math.random() * 8);
-            const responseTime = await this.sendMovementCommand(gameId, direction, playerIndex);
-            
-            // Log every 5th command to avoid spam
-            if (commandIndex % 5 === 0 || commandIndex === STRESS_TEST_COMMANDS - 1) {
-              console.log(`   Player ${playerIndex + 1}: Command ${commandIndex + 1}/${STRESS_TEST_COMMANDS} - ${DIRECTION_NAMES[direction]} (${responseTime}ms)`);
-            }
-            
-            // Small delay to prevent overwhelming the network (but still stress testing)
-            await this.delay(150); // 150ms between commands per player
-            
-          } catch (error) {
-            console.error(`   ❌ Player ${playerIndex + 1} command ${commandIndex + 1} failed:`, error);
+    const players = this.playerKeypairs.map((kp) => kp.toSuiAddress());
+    const generator = new LoadGenerator({
+      client: this.client,
+      players: this.playerKeypairs,
+      mode: 'closed',
+      gameId,
+      movesPerPlayer: STRESS_TEST_COMMANDS,
+      thinkTimeMs: 150, // Small delay to prevent overwhelming the network (but still stress testing)
+      handlers: {
+        onSample: (sample) => {
+          if (sample.outcome === 'failed') {
+            this.testMetrics.failedTransactions++;
+            console.error(`   ❌ Player ${sample.player + 1}: ${sample.cause}: ${sample.error}`);
+            return;
+          }
+          this.testMetrics.successfulTransactions++;
+          this.testMetrics.responseTimes.push(sample.latencyMs);
+          if (sample.outcome === 'moved') {
+            this.recordMove(players[sample.player]);
           }
-        }
-        
-        console.log(`✅ Player ${playerIndex + 1} completed ${STRESS_TEST_COMMANDS} commands`);
-      };
-      
-      promises.push(playerPromise());
-    }
-
-    // Wait for all players to complete their commands
-    await Promise.all(promises);
-    
-    const stressDuration = Date.now() - stressStartTime;
-    const totalCommands = STRESS_TEST_COMMANDS * this.playerKeypairs.length;
-    const commandsPerSecond = (totalCommands / (stressDuration / 1000)).toFixed(2);
-    
-    console.log('');
-    console.log('⚡ Stress Test Results:');
-    console.log(`   Total Commands Sent: ${totalCommands}`);
-    console.log(`   Test Duration: ${(stressDuration / 1000).toFixed(2)} seconds`);
-    console.log(`   Commands per Second: ${commandsPerSecond}`);
-    console.log(`   Average Response Time: ${this.testMetrics.averageResponseTime.toFixed(2)}ms`);
-    console.log(`   Success Rate: ${(this.testMetrics.successfulTransactions / (this.testMetrics.successfulTransactions + this.testMetrics.failedTransactions) * 100).toFixed(2)}%`);
-    console.log('');
-  }
-
-  private async getGameInfo(gameId: string): Promise<GameInfo> {
-    try {
-      const gameObject = await this.client.getObject({
-        id: gameId,
-        options: {
-          showContent: true,
         },
-      });
-
-      if (!gameObject.data?.content || gameObject.data.content.dataType !== 'moveObject') {
-        throw new Error('Failed to fetch game object');
-      }
+      },
+    });
+    const report = await generator.run();
 
-      const fields = (gameObject.data.content as any).fields;
-      
-      return {
-        creator: fields.creator,
-        players: fields.players || [],
-        status: parseInt(fields.status),
-        created_at: parseInt(fields.created_at),
-        end_time: parseInt(fields.end_time),
-        total_moves: parseInt(fields.total_moves),
-      };
-    } catch (error) {
-      console.error('❌ Failed to get game info:', error);
-      throw error;
+    const { latency, totals } = report;
+    console.log('⚡ Stress Test Results:');
+    console.log(`   Total Commands Sent: ${totals.attempted}`);
+    console.log(`   Moved / Expired / Failed: ${totals.moved} / ${totals.expired} / ${totals.failed}`);
+    console.log(`   Test Duration: ${(report.elapsedMs / 1000).toFixed(2)} seconds`);
+    console.log(`   Commands per Second: ${report.throughput.attemptedPerSecond.toFixed(2)}`);
+    console.log(`   Latency p50 / p95 / p99: ${latency.p50Ms} / ${latency.p95Ms} / ${latency.p99Ms}ms`);
+    for (const [cause, { count }] of Object.entries(report.failures)) {
+      console.log(`   Failures (${cause}): ${count}`);
     }
+    return report;
   }
 
-  private async endGame(gameId: string): Promise<void> {
+  private async endGame(gameId: string): Promise<EndGameResult> {
     console.log('🏁 Manually ending the game...');
-    
-    try {
-      const tx = new Transaction();
-      
-      tx.moveCall({
-        target: `${this.packageId}::crowd_robot::end_game`,
-        arguments: [
-          tx.object(gameId),
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      const startTime = Date.now();
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.playerKeypairs[0],
-        transaction: tx,
-        options: {
-          showEffects: true,
-        },
-      });
-      const responseTime = Date.now() - startTime;
-      
-      if (result.effects?.status?.status !== 'success') {
-        this.testMetrics.failedTransactions++;
-        throw new Error(`Game ending failed: ${result.effects?.status?.error}`);
-      }
-      
-      this.testMetrics.successfulTransactions++;
-      this.updateAverageResponseTime(responseTime);
-      
-      console.log(`✅ Game ended successfully!`);
-      console.log(`   Response Time: ${responseTime}ms`);
-      console.log(`   Transaction: ${result.digest}`);
-      console.log('');
-      
-    } catch (error) {
-      this.testMetrics.failedTransactions++;
-      console.error('❌ Failed to end game:', error);
-      throw error;
-    }
+
+    const { result, responseTime } = await this.timed(() =>
+      this.client.endCrowdGame(this.playerKeypairs[0], gameId)
+    );
+
+    console.log(`✅ Game ended successfully!`);
+    console.log(`   Response Time: ${responseTime}ms`);
+    console.log(`   Transaction: ${result.digest}`);
+    return result;
   }
 
   private delay(ms: number): Promise<void> {
@@ -429,131 +241,150 @@ class CrowdRobotE2ETest {
 
   private printTestMetrics(): void {
     const totalDuration = Date.now() - this.gameStartTime;
+    const latency = summarizeLatencies(this.testMetrics.responseTimes);
     
     console.log('📊 Comprehensive Test Metrics:');
     console.log('');
     console.log('🎮 Game Statistics:');
     console.log(`   Games Created: 1`);
-    console.log(`   Games Ended: 1`);
+    console.log(`   Games Ended: ${this.testMetrics.gameEnded}`);
     console.log(`   Total Duration: ${(totalDuration / 1000).toFixed(2)} seconds`);
     console.log('');
     console.log('👥 Player Statistics:');
     console.log(`   Players Participated: ${this.playerKeypairs.length}`);
     console.log('');
     console.log('🎯 Movement Statistics:');
-    console.log(`   Total Moves Executed: ${this.testMetrics.totalMoves || this.testMetrics.successfulTransactions - 2}`); // Subtract create & end game
-    console.log(`   Moves per Player: ${((this.testMetrics.totalMoves || this.testMetrics.successfulTransactions - 2) / this.playerKeypairs.length).toFixed(1)}`);
+    console.log(`   Total Moves Executed: ${this.moveCount}`);
+    console.log(`   Moves per Player: ${(this.moveCount / this.playerKeypairs.length).toFixed(1)}`);
     console.log('');
     console.log('⚡ Performance Metrics:');
     console.log(`   Successful Transactions: ${this.testMetrics.successfulTransactions}`);
     console.log(`   Failed Transactions: ${this.testMetrics.failedTransactions}`);
     console.log(`   Success Rate: ${(this.testMetrics.successfulTransactions / (this.testMetrics.successfulTransactions + this.testMetrics.failedTransactions) * 100).toFixed(2)}%`);
-    console.log(`   Average Response Time: ${this.testMetrics.averageResponseTime.toFixed(2)}ms`);
+    console.log(`   Response Time p50 / p95 / p99: ${latency.p50Ms} / ${latency.p95Ms} / ${latency.p99Ms}ms`);
     console.log(`   Transactions per Second: ${(this.testMetrics.successfulTransactions / (totalDuration / 1000)).toFixed(2)}`);
     console.log('');
   }
 
-  public async runTest(): Promise<void> {
-    try {
-      console.log('🚀 Starting Comprehensive Crowd Robot E2E Test...\n');
-      
-      // Setup phase
-      await this.checkWalletBalances();
-      
-      // Test Phase 1: Game Creation
-      console.log('📋 Phase 1: Game Creation and Setup');
-      const gameId = await this.createGame();
-      
-      // Give some time for blockchain processing
-      await this.delay(2000);
-      
-      // Test Phase 2: Basic Crowd Control
-      console.log('📋 Phase 2: Basic Crowd Control Validation');
+  public async runTest(): Promise<ScenarioResult> {
+    console.log('🚀 Starting Comprehensive Crowd Robot E2E Test...\n');
+
+    const players = this.playerKeypairs.map((kp) => kp.toSuiAddress());
+    let gameId = '';
+
+    const scenario = new Scenario('crowd-e2e', {
+      onStepStart: (name) => console.log(`📋 ${name}`),
+      onStepEnd: (result) => console.log(`${formatStepResult(result)}\n`),
+    });
+
+    scenario.step('Check wallet balances', () => this.checkWalletBalances());
+
+    scenario.step('Game creation and setup', async () => {
+      const created = await this.createGame();
+      gameId = created.gameId;
+      const event = assertEvent(created.events, 'crowd_robot::GameCreated');
+      assertEqual(event.data.creator, players[0], 'GameCreated creator');
+    });
+
+    scenario.step('Basic crowd control validation', async () => {
       console.log('   Each player sends one command to validate basic functionality...');
-      
       for (let i = 0; i < Math.min(3, this.playerKeypairs.length); i++) {
         const direction = i * 2; // Use different directions: UP, LEFT, UP_RIGHT
-        const responseTime = await this.sendMovementCommand(gameId, direction, i);
+        const { events, responseTime } = await this.sendMovementCommand(gameId, direction, i);
         console.log(`   Player ${i + 1}: ${DIRECTION_NAMES[direction]} command sent (${responseTime}ms)`);
+
+        const [moved] = assertEventCount(events, 'crowd_robot::RobotMoved', 1);
+        assertEqual(moved.data.player, players[i], 'RobotMoved player');
+        assertEqual(moved.data.direction, direction, 'RobotMoved direction');
+        assertEqual(moved.data.is_new_player, true, 'RobotMoved is_new_player');
         await this.delay(1000); // 1 second between basic commands
       }
-      
-      await this.delay(2000);
-      console.log('');
-      
-      // Test Phase 3: Stress Testing
-      console.log('📋 Phase 3: Network Stress Testing');
-      await this.performStressTest(gameId);
-      
-      // Test Phase 4: Game State Validation
-      console.log('📋 Phase 4: Game State and Player Tracking Validation');
-      let gameInfo = await this.getGameInfo(gameId);
-      
-      console.log(`   Game Status: ${gameInfo.status} (${gameInfo.status === 1 ? 'ACTIVE' : 'OTHER'})`);
+    });
+
+    scenario.step('Network stress testing', async () => {
+      const report = await this.performStressTest(gameId);
+      assertEqual(report.totals.failed, 0, 'Failed stress test commands');
+    }, { timeoutMs: 600_000 });
+
+    scenario.step('Game state and player tracking validation', async () => {
+      const gameInfo = await this.client.getCrowdGame(gameId);
+      console.log(`   Game Status: ${gameInfo.status}`);
       console.log(`   Total Moves: ${gameInfo.total_moves}`);
-      console.log(`   Unique Players: ${gameInfo.players.length}`);
-      console.log(`   Game Creator: ${gameInfo.creator.slice(0, 12)}...`);
-      console.log(`   Game End Time: ${new Date(gameInfo.end_time).toLocaleTimeString()}`);
-      console.log('');
-      
-      // Test Phase 5: Time-Based Expiration Note
-      console.log('📋 Phase 5: Time-Based Game Expiration Testing');
-      console.log('   Note: For comprehensive testing, we skip waiting 2 full minutes');
-      console.log('   In production, games automatically expire after exactly 2 minutes');
-      console.log('   Current game will expire at:', new Date(gameInfo.end_time).toLocaleTimeString());
-      console.log('');
-      
-      // Simulate time passage - in a real test you could wait for actual expiration
-      await this.delay(3000);
-      
-      // Test Phase 6: Manual Game Ending
-      console.log('📋 Phase 6: Manual Game Ending');
-      await this.endGame(gameId);
-      
-      // Final validation
-      console.log('📋 Phase 7: Final State Validation');
-      gameInfo = await this.getGameInfo(gameId);
-      console.log(`   Final Status: ${gameInfo.status} (${gameInfo.status === 2 ? 'ENDED' : 'OTHER'})`);
+      console.log(`   Unique Players: ${getPlayerCount(gameInfo)}`);
+      console.log(`   Game End Time: ${new Date(Number(gameInfo.end_time)).toLocaleTimeString()}`);
+
+      // Every RobotMoved event the players got back must be counted on-chain
+      assertEqual(gameInfo.total_moves, BigInt(this.moveCount), 'Total moves');
+      assertEqual([...gameInfo.players].sort(), [...this.movers].sort(), 'Tracked players');
+      assertEqual(getPlayerCount(gameInfo), this.playerKeypairs.length, 'Unique players');
+      assertEqual(gameInfo.creator, players[0], 'Game creator');
+      this.testMetrics.totalMoves = Number(gameInfo.total_moves);
+      this.testMetrics.uniquePlayers = getPlayerCount(gameInfo);
+    });
+
+    // end_game aborts until the game has expired, so wait out the full duration
+    scenario.step('Time-based game expiration', async ({ signal }) => {
+      // Expiry is judged by the chain's Clock, as end_game judges it
+      const { timeRemainingMs } = await this.client.getCrowdGameView(gameId);
+      if (timeRemainingMs > 0n) {
+        console.log(`   ⏳ Waiting ${Math.ceil(Number(timeRemainingMs) / 1000)} seconds for game to expire...`);
+      }
+      const { nowMs } = await waitFor(async () => {
+        const view = await this.client.getCrowdGameView(gameId);
+        return view.expired && view;
+      }, { timeoutMs: CROWD_GAME_DURATION_MS + 60_000, intervalMs: 2000, signal, description: 'game expiry' });
+      console.log(`   Expired at chain time ${new Date(Number(nowMs)).toLocaleTimeString()}`);
+    }, { timeoutMs: CROWD_GAME_DURATION_MS + 90_000 });
+
+    scenario.step('Manual game ending', async () => {
+      // A move submitted after end_time already ended the game without emitting RobotMoved
+      const alreadyEnded = (await this.client.getCrowdGame(gameId)).status === CROWD_GAME_STATUS.ENDED;
+      const { events } = await this.endGame(gameId);
+      if (alreadyEnded) {
+        console.log('   Game had already auto-ended');
+        return;
+      }
+      const ended = assertEvent(events, 'crowd_robot::GameEnded');
+      assertEqual(ended.data.total_moves, BigInt(this.moveCount), 'GameEnded total_moves');
+      assertEqual(ended.data.unique_players, BigInt(this.playerKeypairs.length), 'GameEnded unique_players');
+    });
+
+    scenario.step('Final state validation', async () => {
+      const gameInfo = await this.client.getCrowdGame(gameId);
+      console.log(`   Final Status: ${gameInfo.status}`);
       console.log(`   Final Move Count: ${gameInfo.total_moves}`);
-      console.log(`   Final Player Count: ${gameInfo.players.length}`);
-      console.log('');
-      
-      // Wait for final processing
-      await this.delay(2000);
-      
-      // Test Results
-      console.log('🎉 All Test Phases Completed Successfully!');
-      console.log('');
-      
-      this.printTestMetrics();
-      
-      console.log('✅ Test Validation Results:');
-      console.log(`   ✅ Free game creation: PASSED`);
-      console.log(`   ✅ Multi-player crowd control: PASSED (${this.playerKeypairs.length} players)`);
-      console.log(`   ✅ Player tracking: PASSED (${gameInfo.players.length} unique players recorded)`);
-      console.log(`   ✅ Movement commands: PASSED (${gameInfo.total_moves} total moves)`);
-      console.log(`   ✅ Game state management: PASSED`);
-      console.log(`   ✅ Performance metrics: PASSED (${this.testMetrics.averageResponseTime.toFixed(2)}ms avg response)`);
-      console.log(`   ✅ Stress testing: PASSED (high transaction volume handled)`);
-      console.log('');
-      console.log('🎊 Crowd Robot contract passed comprehensive E2E testing! 🎊');
-      console.log('🎊 Ready for production deployment and network stress testing! 🎊');
-      
-    } catch (error) {
-      console.error('❌ Comprehensive test failed:', error);
-      this.printTestMetrics();
-      process.exit(1);
-    }
+      console.log(`   Final Player Count: ${getPlayerCount(gameInfo)}`);
+      assertEqual(gameInfo.status, CROWD_GAME_STATUS.ENDED, 'Final game status');
+      assertEqual(gameInfo.total_moves, BigInt(this.moveCount), 'Final move count');
+      this.testMetrics.gameEnded = 1;
+    });
+
+    const result = await scenario.run();
+    this.printTestMetrics();
+    return result;
   }
 }
 
 // Main execution
 async function main() {
-  const test = new CrowdRobotE2ETest();
-  await test.runTest();
+  const client = await CrossyRobotClient.connect(loadNetworkProfile());
+  const test = new CrowdRobotE2ETest(client);
+  const result = await test.runTest();
+
+  const { junitPath, jsonPath } = writeScenarioReports([result], REPORT_DIR, 'crowd-e2e');
+  console.log(`📄 Reports: ${junitPath}, ${jsonPath}`);
+
+  if (result.status !== 'passed') {
+    console.error('❌ Comprehensive crowd E2E test failed');
+    process.exit(1);
+  }
+  console.log('🎊 Crowd Robot contract passed comprehensive E2E testing! 🎊');
 }
 
 // Run the test
 if (require.main === module) {
-  main().catch(console.error);
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
 } 
\ No newline at end of file
@@ -2,542 +2,258 @@
 
 /**
  * Crossy Robot E2E Test
- * 
+ *
  * This script simulates the complete game flow:
  * 1. User creates a game
  * 2. Robot listens for GameCreated event and connects
  * 3. User sends movement commands
  * 4. Robot listens for RobotMoved events and simulates movement
+ *
+ * Every step asserts the events seen by the robot's event stream; JUnit and
+ * JSON reports are written to E2E_REPORT_DIR (default: reports).
  */
 
-import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
-import { Transaction } from '@mysten/sui/transactions';
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
-import { fromB64 } from '@mysten/sui/utils';
-import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
-import * as fs from 'fs';
-import * as path from 'path';
+import type { Keypair } from '@mysten/sui/cryptography';
 import * as dotenv from 'dotenv';
+import {
+  CrossyRobotClient,
+  CrossyRobotEvent,
+  DIRECTIONS,
+  DIRECTION_NAMES,
+  GAME_COST,
+  GameCreatedEvent,
+  GameEventStream,
+  RobotConnectedEvent,
+  RobotMovedEvent,
+  Scenario,
+  ScenarioResult,
+  assertEqual,
+  assertEvent,
+  assertEventCount,
+  formatStepResult,
+  formatSui,
+  isCrossyRobotEvent,
+  loadKeypairFromEnv,
+  loadNetworkProfile,
+  waitFor,
+  writeScenarioReports
+} from './src';
 
 // Load environment variables
 dotenv.config();
 
 // Configuration
-const DEPLOYMENT_INFO_PATH = './deployment_info.json';
-const GAME_COST = 50_000_000; // 0.05 SUI in MIST
-const GAS_BUDGET = parseInt(process.env.GAS_BUDGET || '10000000');
 const TEST_TIMEOUT = parseInt(process.env.TEST_TIMEOUT_MS || '30000');
 const MOVEMENT_DELAY = parseInt(process.env.MOVEMENT_DELAY_MS || '2000');
-
-// Movement directions
-const DIRECTIONS = {
-  UP: 0,
-  DOWN: 1,
-  LEFT: 2,
-  RIGHT: 3,
-  UP_RIGHT: 4,
-  UP_LEFT: 5,
-  DOWN_LEFT: 6,
-  DOWN_RIGHT: 7
-} as const;
-
-const DIRECTION_NAMES = ['UP', 'DOWN', 'LEFT', 'RIGHT', 'UP_RIGHT', 'UP_LEFT', 'DOWN_LEFT', 'DOWN_RIGHT'];
-
-interface DeploymentInfo {
-  package_id: string;
-  transaction_digest: string;
-  network: string;
-}
-
-interface GameState {
-  gameId: string;
-  user: string;
-  robot?: string;
-  status: number;
-  createdAt: number;
-}
+const REPORT_DIR = process.env.E2E_REPORT_DIR || 'reports';
 
 class CrossyRobotE2ETest {
-  private client: SuiClient;
-  private userKeypair: Ed25519Keypair;
-  private robotKeypair: Ed25519Keypair;
-  private packageId: string;
-  private gameState: GameState | null = null;
-  private eventSubscription: any = null;
-  private pollingInterval: NodeJS.Timeout | null = null;
-  private testResults = {
-    gameCreated: false,
-    robotConnected: false,
-    movementsExecuted: 0,
-    eventsReceived: 0
-  };
-
-  constructor() {
-    // Initialize Sui client
-    this.client = new SuiClient({
-      url: process.env.SUI_RPC_URL || getFullnodeUrl('testnet')
-    });
-
+  private client: CrossyRobotClient;
+  private userKeypair: Keypair;
+  private robotKeypair: Keypair;
+  private gameId: string | null = null;
+  private eventStream: GameEventStream | null = null;
+  private eventLoop: Promise<void> | null = null;
+  /** Every crossy_robot event the stream delivered, in order */
+  private receivedEvents: CrossyRobotEvent[] = [];
+  private connectError: unknown = null;
+
+  constructor(client: CrossyRobotClient) {
     // Initialize wallets
-    this.userKeypair = this.createKeypairFromEnv('USER_PRIVATE_KEY');
-    this.robotKeypair = this.createKeypairFromEnv('ROBOT_PRIVATE_KEY');
+    this.userKeypair = loadKeypairFromEnv('USER_PRIVATE_KEY');
+    this.robotKeypair = loadKeypairFromEnv('ROBOT_PRIVATE_KEY');
 
-    // Load deployment info
-    this.packageId = this.loadPackageId();
+    this.client = client;
 
     console.log('🤖 Crossy Robot E2E Test Initialized');
-    console.log(`📦 Package ID: ${this.packageId}`);
-    console.log(`👤 User Address: ${this.userKeypair.getPublicKey().toSuiAddress()}`);
-    console.log(`🤖 Robot Address: ${this.robotKeypair.getPublicKey().toSuiAddress()}`);
+    console.log(`🌐 Network: ${this.client.network?.name}`);
+    console.log(`📦 Package ID: ${this.client.packageId}`);
+    console.log(`👤 User Address: ${this.userKeypair.toSuiAddress()}`);
+    console.log(`🤖 Robot Address: ${this.robotKeypair.toSuiAddress()}`);
     console.log('');
   }
 
-  private createKeypairFromEnv(envVar: string): Ed25519Keypair {
-    const privateKey = process.env[envVar];
-    if (!privateKey) {
-      console.error(`❌ ${envVar} not found in environment variables`);
-      console.log('💡 Create a .env file with your wallet private keys');
-      console.log('💡 You can export private keys from Sui wallet or generate new ones');
-      process.exit(1);
-    }
-
-    try {
-      // Handle both Sui CLI format (suiprivkey1...) and base64 format
-      if (privateKey.startsWith('suiprivkey1')) {
-        const { schema, secretKey } = decodeSuiPrivateKey(privateKey);
-        if (schema === 'ED25519') {
-          return Ed25519Keypair.fromSecretKey(secretKey);
-        } else {
-          throw new Error('Only ED25519 keys are supported');
-        }
-      } else {
-        return Ed25519Keypair.fromSecretKey(fromB64(privateKey));
-      }
-    } catch (error) {
-      console.error(`❌ Invalid private key format for ${envVar}:`, error);
-      console.log('💡 Private key should be either Sui CLI format (suiprivkey1...) or base64 encoded');
-      process.exit(1);
-    }
-  }
-
-  private loadPackageId(): string {
-    try {
-      const deploymentInfo: DeploymentInfo = JSON.parse(
-        fs.readFileSync(DEPLOYMENT_INFO_PATH, 'utf8')
-      );
-      return deploymentInfo.package_id;
-    } catch (error) {
-      console.error('❌ Could not load deployment info');
-      console.log('💡 Make sure deployment_info.json exists and contains package_id');
-      process.exit(1);
-    }
-  }
-
   private async checkWalletBalances(): Promise<void> {
-    console.log('💰 Checking wallet balances...');
-    
-    const userBalance = await this.getWalletBalance(this.userKeypair.getPublicKey().toSuiAddress());
-    const robotBalance = await this.getWalletBalance(this.robotKeypair.getPublicKey().toSuiAddress());
-    
-    console.log(`👤 User balance: ${(userBalance / 1_000_000_000).toFixed(3)} SUI`);
-    console.log(`🤖 Robot balance: ${(robotBalance / 1_000_000_000).toFixed(3)} SUI`);
-    
-    if (userBalance < GAME_COST + GAS_BUDGET) {
-      console.error('❌ User wallet has insufficient balance for game creation');
-      console.log('💡 Need at least 0.06 SUI (0.05 for game + gas)');
-      process.exit(1);
-    }
-    
-    console.log('✅ Wallet balances sufficient');
-    console.log('');
-  }
+    // Game cost plus one transaction's gas for the user, gas for the robot; localnet tops up from the faucet
+    const gasBudget = this.client.gas?.settings.budget ?? 10_000_000n;
+    const userBalance = await this.client.ensureBalance(this.userKeypair.toSuiAddress(), GAME_COST + gasBudget);
+    const robotBalance = await this.client.ensureBalance(this.robotKeypair.toSuiAddress(), gasBudget);
 
-  private async getWalletBalance(address: string): Promise<number> {
-    try {
-      const balance = await this.client.getBalance({ owner: address });
-      return parseInt(balance.totalBalance);
-    } catch (error) {
-      console.error(`❌ Could not fetch balance for ${address}`);
-      return 0;
-    }
+    console.log(`   👤 User balance: ${formatSui(userBalance)} SUI`);
+    console.log(`   🤖 Robot balance: ${formatSui(robotBalance)} SUI`);
   }
 
   private async startEventListener(): Promise<void> {
-    console.log('👂 Starting event listener...');
-    
-    try {
-      // Start polling for events from our package
-      this.pollForEvents();
-      console.log('✅ Event listener started (using polling mode)');
-      console.log('');
-    } catch (error) {
-      console.error('❌ Failed to start event listener:', error);
-      throw error;
-    }
+    // Only react to events emitted after the test starts
+    const cursor = await this.client.latestEventCursor('crossy_robot');
+    this.eventStream = new GameEventStream(this.client, {
+      module: 'crossy_robot',
+      cursor,
+      onTransportChange: (transport) => console.log(`   📡 Event transport: ${transport}`),
+      onError: (error) => console.error('   ❌ Error reading events:', error),
+    });
+    this.eventLoop = this.consumeEvents(this.eventStream);
   }
 
-  private async pollForEvents(): Promise<void> {
-    let cursor: any = null;
-    
-    this.pollingInterval = setInterval(async () => {
-      try {
-        // Query events from our package
-        const { data, hasNextPage, nextCursor } = await this.client.queryEvents({
-          query: {
-            MoveEventModule: {
-              module: 'crossy_robot',
-              package: this.packageId,
-            },
-          },
-          cursor,
-          order: 'ascending',
-        });
-
-        // Process any new events
-        if (data.length > 0) {
-          for (const event of data) {
-            this.handleEvent(event);
-          }
-          
-          // Update cursor for next poll
-          if (nextCursor) {
-            cursor = nextCursor;
-          }
-        }
-
-        // Stop polling if we have completed the test
-        if (this.testResults.gameCreated && 
-            this.testResults.robotConnected && 
-            this.testResults.movementsExecuted >= 4) {
-          if (this.pollingInterval) {
-            clearInterval(this.pollingInterval);
-            this.pollingInterval = null;
-          }
-        }
+  private async stopEventListener(): Promise<void> {
+    this.eventStream?.close();
+    await this.eventLoop;
+  }
 
-      } catch (error) {
-        console.error('❌ Error polling for events:', error);
+  private async consumeEvents(stream: GameEventStream): Promise<void> {
+    for await (const event of stream) {
+      if (isCrossyRobotEvent(event)) {
+        await this.handleEvent(event);
       }
-    }, 1000); // Poll every second
+    }
   }
 
-  private handleEvent(event: any): void {
-    this.testResults.eventsReceived++;
-    
-    const eventType = event.type.split('::').pop();
-    console.log(`📡 Event received: ${eventType}`);
-    
-    switch (eventType) {
-      case 'GameCreated':
-        this.handleGameCreatedEvent(event);
+  private async handleEvent(event: CrossyRobotEvent): Promise<void> {
+    this.receivedEvents.push(event);
+    console.log(`   📡 Event received: ${event.type}`);
+
+    switch (event.type) {
+      case 'crossy_robot::GameCreated':
+        await this.handleGameCreatedEvent(event);
         break;
-      case 'RobotConnected':
+      case 'crossy_robot::RobotConnected':
         this.handleRobotConnectedEvent(event);
         break;
-      case 'RobotMoved':
+      case 'crossy_robot::RobotMoved':
         this.handleRobotMovedEvent(event);
         break;
-      default:
-        console.log(`❓ Unknown event type: ${eventType}`);
     }
   }
 
-  private async handleGameCreatedEvent(event: any): Promise<void> {
-    const { game_id, user, payment_amount } = event.parsedJson;
-    
-    console.log(`🎮 GameCreated event detected!`);
-    console.log(`   Game ID: ${game_id}`);
-    console.log(`   User: ${user}`);
-    console.log(`   Payment: ${payment_amount / 1_000_000_000} SUI`);
-    
-    // Store game state
-    this.gameState = {
-      gameId: game_id,
-      user: user,
-      status: 0, // WAITING_FOR_ROBOT
-      createdAt: Date.now()
-    };
-    
-    // Robot automatically connects
-    console.log('🤖 Robot: Detected new game, connecting...');
-    await this.robotConnectToGame(game_id);
-  }
-
-  private handleRobotConnectedEvent(event: any): void {
-    const { game_id, robot, timestamp } = event.parsedJson;
-    
-    console.log(`🔗 RobotConnected event detected!`);
-    console.log(`   Game ID: ${game_id}`);
-    console.log(`   Robot: ${robot}`);
-    console.log(`   Timestamp: ${timestamp}`);
-    
-    if (this.gameState && this.gameState.gameId === game_id) {
-      this.gameState.robot = robot;
-      this.gameState.status = 1; // ACTIVE
-      this.testResults.robotConnected = true;
+  private async handleGameCreatedEvent(event: GameCreatedEvent): Promise<void> {
+    const { game_id, user, payment_amount } = event.data;
+    if (user !== this.userKeypair.toSuiAddress()) {
+      return; // Someone else's game
     }
-    
-    console.log('✅ Robot successfully connected and received payment!');
-    console.log('');
-  }
 
-  private handleRobotMovedEvent(event: any): void {
-    const { game_id, direction, timestamp } = event.parsedJson;
-    
-    const directionName = DIRECTION_NAMES[direction] || 'UNKNOWN';
-    console.log(`🎯 RobotMoved event detected!`);
-    console.log(`   Game ID: ${game_id}`);
-    console.log(`   Direction: ${direction} (${directionName})`);
-    console.log(`   Timestamp: ${timestamp}`);
-    
-    // Simulate robot physical movement
-    console.log(`🤖 Robot: Executing physical movement: ${directionName}`);
-    this.testResults.movementsExecuted++;
-    console.log('');
-  }
+    console.log(`   🎮 GameCreated: ${game_id} (${formatSui(payment_amount)} SUI)`);
 
-  private async createGame(): Promise<string> {
-    console.log('🎮 User: Creating new game...');
-    
+    // Robot automatically connects
+    console.log('   🤖 Robot: Detected new game, connecting...');
     try {
-      const tx = new Transaction();
-      
-      // Split coins for exact payment
-      const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(GAME_COST)]);
-      
-      // Create game
-      tx.moveCall({
-        target: `${this.packageId}::crossy_robot::create_game`,
-        arguments: [
-          coin,
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      // Execute transaction
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.userKeypair,
-        transaction: tx,
-        options: {
-          showEffects: true,
-          showObjectChanges: true,
-        },
-      });
-      
-      if (result.effects?.status?.status !== 'success') {
-        throw new Error(`Transaction failed: ${result.effects?.status?.error}`);
-      }
-      
-      // Extract game object ID
-      const gameObject = result.objectChanges?.find(
-        (change: any) => change.type === 'created' && 
-        change.objectType.includes('Game')
-      );
-      
-      if (!gameObject) {
-        throw new Error('Game object not found in transaction result');
-      }
-      
-      const gameId = (gameObject as any).objectId;
-      console.log(`✅ Game created successfully!`);
-      console.log(`   Game ID: ${gameId}`);
-      console.log(`   Transaction: ${result.digest}`);
-      console.log('');
-      
-      this.testResults.gameCreated = true;
-      return gameId;
-      
+      const { digest, paymentCoinId } = await this.client.connectRobot(this.robotKeypair, game_id);
+      console.log(`   ✅ Robot connected (payment coin ${paymentCoinId}, transaction ${digest})`);
     } catch (error) {
-      console.error('❌ Failed to create game:', error);
-      throw error;
+      this.connectError = error;
     }
   }
 
-  private async robotConnectToGame(gameId: string): Promise<void> {
-    try {
-      const tx = new Transaction();
-      
-      // Connect robot and capture the returned payment coin
-      const [receivedCoin] = tx.moveCall({
-        target: `${this.packageId}::crossy_robot::connect_robot`,
-        arguments: [
-          tx.object(gameId),
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      // Transfer the payment coin to the robot
-      tx.transferObjects([receivedCoin], tx.pure.address(this.robotKeypair.getPublicKey().toSuiAddress()));
-      
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.robotKeypair,
-        transaction: tx,
-        options: {
-          showEffects: true,
-        },
-      });
-      
-      if (result.effects?.status?.status !== 'success') {
-        throw new Error(`Robot connection failed: ${result.effects?.status?.error}`);
-      }
-      
-      console.log(`✅ Robot connected to game!`);
-      console.log(`   Transaction: ${result.digest}`);
-      console.log('');
-      
-    } catch (error) {
-      console.error('❌ Robot failed to connect:', error);
-      throw error;
-    }
+  private handleRobotConnectedEvent(event: RobotConnectedEvent): void {
+    const { game_id, robot } = event.data;
+    console.log(`   🔗 RobotConnected: ${robot} joined ${game_id}`);
   }
 
-  private async sendMovementCommand(gameId: string, direction: number): Promise<void> {
-    const directionName = DIRECTION_NAMES[direction];
-    console.log(`👤 User: Sending movement command: ${directionName}...`);
-    
-    try {
-      const tx = new Transaction();
-      
-      tx.moveCall({
-        target: `${this.packageId}::crossy_robot::move_robot`,
-        arguments: [
-          tx.object(gameId),
-          tx.pure.u8(direction),
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.userKeypair,
-        transaction: tx,
-        options: {
-          showEffects: true,
-        },
-      });
-      
-      if (result.effects?.status?.status !== 'success') {
-        throw new Error(`Movement command failed: ${result.effects?.status?.error}`);
-      }
-      
-      console.log(`✅ Movement command sent: ${directionName}`);
-      console.log(`   Transaction: ${result.digest}`);
-      console.log('');
-      
-    } catch (error) {
-      console.error(`❌ Failed to send movement command:`, error);
-      throw error;
-    }
+  private handleRobotMovedEvent(event: RobotMovedEvent): void {
+    // Simulate robot physical movement
+    console.log(`   🤖 Robot: Executing physical movement: ${DIRECTION_NAMES[event.data.direction]}`);
   }
 
-  private async waitForCondition(
-    condition: () => boolean,
-    timeoutMs: number,
-    description: string
-  ): Promise<void> {
-    const startTime = Date.now();
-    
-    while (!condition() && (Date.now() - startTime) < timeoutMs) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-    
-    if (!condition()) {
-      throw new Error(`Timeout waiting for: ${description}`);
-    }
+  /** Events the stream delivered for this test's game */
+  private gameEvents(): CrossyRobotEvent[] {
+    return this.receivedEvents.filter((event) => event.data.game_id === this.gameId);
   }
 
   private async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  public async runTest(): Promise<void> {
-    try {
-      console.log('🚀 Starting Crossy Robot E2E Test...');
-      console.log('');
-      
-      // Check wallet balances
-      await this.checkWalletBalances();
-      
-      // Start event listener
+  public async runTest(): Promise<ScenarioResult> {
+    console.log('🚀 Starting Crossy Robot E2E Test...');
+    console.log('');
+
+    const userAddress = this.userKeypair.toSuiAddress();
+    const robotAddress = this.robotKeypair.toSuiAddress();
+    const testMovements = [DIRECTIONS.UP, DIRECTIONS.RIGHT, DIRECTIONS.DOWN, DIRECTIONS.LEFT];
+
+    const scenario = new Scenario('full-e2e', {
+      defaultTimeoutMs: TEST_TIMEOUT + MOVEMENT_DELAY,
+      onStepStart: (name) => console.log(`▶️  ${name}`),
+      onStepEnd: (result) => console.log(`${formatStepResult(result)}\n`),
+    });
+
+    scenario.step('Check wallet balances', () => this.checkWalletBalances());
+
+    scenario.step('Start event listener', async () => {
       await this.startEventListener();
-      
-      // Step 1: User creates game
-      const gameId = await this.createGame();
-      
-      // Step 2: Wait for robot to connect (triggered by GameCreated event)
-      console.log('⏳ Waiting for robot to connect...');
-      await this.waitForCondition(
-        () => this.testResults.robotConnected,
-        TEST_TIMEOUT,
-        'robot connection'
-      );
-      
-      // Step 3: Send movement commands
-      const testMovements = [DIRECTIONS.UP, DIRECTIONS.RIGHT, DIRECTIONS.DOWN, DIRECTIONS.LEFT];
-      
-      for (const direction of testMovements) {
+      scenario.cleanup('Stop event listener', () => this.stopEventListener());
+    });
+
+    scenario.step('User creates game', async () => {
+      const { gameId, digest } = await this.client.createGame(this.userKeypair);
+      this.gameId = gameId;
+      console.log(`   Game ID: ${gameId}`);
+      console.log(`   Transaction: ${digest}`);
+    });
+
+    // The robot connects from its GameCreated handler
+    scenario.step('Robot connects after GameCreated event', async ({ signal }) => {
+      const connected = await waitFor(() => {
+        if (this.connectError) {
+          throw this.connectError;
+        }
+        return this.gameEvents().find((event) => event.type === 'crossy_robot::RobotConnected');
+      }, { timeoutMs: TEST_TIMEOUT, signal, description: 'RobotConnected event' });
+
+      const created = assertEvent(this.gameEvents(), 'crossy_robot::GameCreated');
+      assertEqual(created.data.user, userAddress, 'GameCreated user');
+      assertEqual(created.data.payment_amount, GAME_COST, 'GameCreated payment_amount');
+      assertEqual(connected.data.robot, robotAddress, 'RobotConnected robot');
+    });
+
+    testMovements.forEach((direction, i) => {
+      scenario.step(`User sends ${DIRECTION_NAMES[direction]}`, async ({ signal }) => {
         await this.delay(MOVEMENT_DELAY);
-        await this.sendMovementCommand(gameId, direction);
-        
-        // Wait a bit for the event to be processed
-        await this.delay(500);
-      }
-      
-      // Wait for all movement events to be processed
-      console.log('⏳ Waiting for all movement events...');
-      await this.delay(2000);
-      
-      // Display results
-      this.displayResults();
-      
-    } catch (error) {
-      console.error('❌ Test failed:', error);
-      process.exit(1);
-    } finally {
-      // Cleanup
-      if (this.pollingInterval) {
-        clearInterval(this.pollingInterval);
-        this.pollingInterval = null;
-      }
-      if (this.eventSubscription) {
-        await this.eventSubscription.unsubscribe();
-      }
-    }
-  }
+        const { digest } = await this.client.moveRobot(this.userKeypair, this.gameId!, direction);
+        console.log(`   Transaction: ${digest}`);
+
+        // Wait for the robot to see the move
+        const moved = await waitFor(() => {
+          const moves = this.gameEvents().filter((event) => event.type === 'crossy_robot::RobotMoved');
+          return moves.length > i ? moves[i] : undefined;
+        }, { timeoutMs: TEST_TIMEOUT, signal, description: `RobotMoved event #${i + 1}` });
+        assertEqual(moved.data.direction, direction, `Direction of move #${i + 1}`);
+      });
+    });
 
-  private displayResults(): void {
-    console.log('');
-    console.log('🎉 E2E Test Complete!');
-    console.log('');
-    console.log('📊 Test Results:');
-    console.log(`   ✅ Game created: ${this.testResults.gameCreated ? 'YES' : 'NO'}`);
-    console.log(`   ✅ Robot connected: ${this.testResults.robotConnected ? 'YES' : 'NO'}`);
-    console.log(`   ✅ Movements executed: ${this.testResults.movementsExecuted}`);
-    console.log(`   ✅ Events received: ${this.testResults.eventsReceived}`);
-    console.log('');
-    
-    const allTestsPassed = 
-      this.testResults.gameCreated &&
-      this.testResults.robotConnected &&
-      this.testResults.movementsExecuted > 0 &&
-      this.testResults.eventsReceived >= 3; // GameCreated + RobotConnected + RobotMoved events
-    
-    if (allTestsPassed) {
-      console.log('🎊 ALL TESTS PASSED! 🎊');
-      console.log('🤖 Crossy Robot contract is working perfectly!');
-    } else {
-      console.log('❌ Some tests failed. Check the logs above.');
-      process.exit(1);
-    }
+    scenario.step('Verify received events', () => {
+      const events = this.gameEvents();
+      assertEventCount(events, 'crossy_robot::GameCreated', 1);
+      assertEventCount(events, 'crossy_robot::RobotConnected', 1);
+      const moves = assertEventCount(events, 'crossy_robot::RobotMoved', testMovements.length);
+      assertEqual(moves.map((event) => event.data.direction), testMovements, 'Move directions');
+      console.log(`   ${events.length} events for game ${this.gameId}`);
+    });
+
+    return scenario.run();
   }
 }
 
 // Main execution
 async function main() {
-  const test = new CrossyRobotE2ETest();
-  await test.runTest();
+  const client = await CrossyRobotClient.connect(loadNetworkProfile());
+  const test = new CrossyRobotE2ETest(client);
+  const result = await test.runTest();
+
+  const { junitPath, jsonPath } = writeScenarioReports([result], REPORT_DIR, 'full-e2e');
+  console.log(`📄 Reports: ${junitPath}, ${jsonPath}`);
+
+  if (result.status !== 'passed') {
+    console.error('❌ E2E test failed');
+    process.exit(1);
+  }
+  console.log('🎊 ALL TESTS PASSED! 🎊');
+  console.log('🤖 Crossy Robot contract is working perfectly!');
 }
 
 // Run the test
 if (require.main === module) {
-  main().catch(console.error);
-} 
\ No newline at end of file
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,172 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Crossy Robot Game Gateway
+ *
+ * HTTP service for web and mobile frontends that do not embed the Sui SDK.
+ * It serves REST endpoints for games and moves, and Server-Sent Events of
+ * game events. The OpenAPI description is at /openapi.json.
+ *
+ * Usage:
+ *   npx ts-node gateway.ts [options]
+ *
+ * Options:
+ *   --port <n>         Port to listen on (default: GATEWAY_PORT, then 8787)
+ *   --host <addr>      Address to bind (default: GATEWAY_HOST, then 127.0.0.1)
+ *   --keys <roles>     Custodial keys from .env, e.g. user,player2
+ *                      (default: GATEWAY_KEYS; none means signed moves only)
+ *   --sponsor <role>   Key from .env that pays gas for crowd_robot moves on
+ *                      /sponsor (default: GATEWAY_SPONSOR; none disables it).
+ *                      GATEWAY_SPONSOR_POOL small gas coins (default: 20) are
+ *                      split off its balance at startup
+ *   --network <name>   Network profile (default: SUI_NETWORK, then testnet)
+ *
+ * GATEWAY_TOKEN is required with custodial keys: requests that use one must
+ * send `Authorization: Bearer <token>`. Browsers on other origins are only
+ * let in when GATEWAY_CORS_ORIGIN names their origin. Stops gracefully on
+ * SIGINT / SIGTERM.
+ */
+
+import * as dotenv from 'dotenv';
+import type { Signer } from '@mysten/sui/cryptography';
+import {
+  CrossyRobotClient,
+  GameGateway,
+  MoveSponsor,
+  loadKeypairFromEnv,
+  loadNetworkProfile,
+  roleEnvVar
+} from './src';
+
+// Load environment variables
+dotenv.config();
+
+interface Options {
+  port: number;
+  host: string;
+  keys: string[];
+  sponsor?: string;
+  network?: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    port: parseInt(process.env.GATEWAY_PORT || '8787'),
+    host: process.env.GATEWAY_HOST || '127.0.0.1',
+    keys: (process.env.GATEWAY_KEYS || '').split(',').map((role) => role.trim()).filter(Boolean),
+    sponsor: process.env.GATEWAY_SPONSOR || undefined,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--port':
+        options.port = parseInt(value());
+        break;
+      case '--host':
+        options.host = value();
+        break;
+      case '--keys':
+        options.keys = value().split(',').map((role) => role.trim()).filter(Boolean);
+        break;
+      case '--sponsor':
+        options.sponsor = value();
+        break;
+      case '--network':
+        options.network = value();
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  if (!Number.isInteger(options.port) || options.port < 0 || options.port > 65535) {
+    throw new Error('--port must be an integer from 0 to 65535');
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const apiToken = process.env.GATEWAY_TOKEN;
+  if (options.keys.length > 0 && !apiToken) {
+    throw new Error('Set GATEWAY_TOKEN to serve custodial keys');
+  }
+  const network = loadNetworkProfile({ network: options.network });
+  const client = await CrossyRobotClient.connect(network);
+
+  const signers: Record<string, Signer> = {};
+  for (const role of options.keys) {
+    signers[role] = loadKeypairFromEnv(roleEnvVar(role));
+  }
+
+  const sponsor = options.sponsor
+    ? new MoveSponsor({
+      client,
+      sponsor: loadKeypairFromEnv(roleEnvVar(options.sponsor)),
+      handlers: {
+        onRejected: (sender, error) => {
+          console.log(`🚫 Sponsorship for ${sender.slice(0, 10)}... rejected: ${error.message}`);
+        },
+        onExecuted: (transaction, outcome) => {
+          console.log(`⛽ Sponsored ${transaction.function} for ${transaction.sender.slice(0, 10)}...: ${outcome.digest}`);
+        },
+      },
+    })
+    : undefined;
+  if (sponsor) {
+    const pooled = await sponsor.fillGasPool(parseInt(process.env.GATEWAY_SPONSOR_POOL || '20'));
+    console.log(`⛽ Sponsor gas pool: ${pooled} coins`);
+  }
+
+  const gateway = new GameGateway({
+    client,
+    signers,
+    sponsor,
+    apiToken,
+    corsOrigin: process.env.GATEWAY_CORS_ORIGIN,
+    handlers: {
+      onRequest: (method, path, status, durationMs) => {
+        console.log(`${status < 400 ? '✅' : '⚠️ '} ${method} ${path} → ${status} (${durationMs}ms)`);
+      },
+      onError: (error) => {
+        console.error('❌ Gateway error:', error instanceof Error ? error.message : error);
+      },
+    },
+  });
+  const address = await gateway.listen(options.port, options.host);
+
+  console.log('🌉 Crossy Robot Game Gateway');
+  console.log(`🌐 Network: ${network.name} (${network.rpcUrl})`);
+  console.log(`📦 Package ID: ${client.packageId}`);
+  for (const [role, signer] of Object.entries(signers)) {
+    console.log(`🔑 Custodial key ${role}: ${signer.toSuiAddress()}`);
+  }
+  if (sponsor) {
+    console.log(`⛽ Sponsoring crowd_robot moves from ${options.sponsor}: ${sponsor.address}`);
+  }
+  console.log(`🚪 Listening on http://${address.address}:${address.port} (OpenAPI at /openapi.json)`);
+  console.log('');
+
+  const shutdown = (signal: string) => {
+    console.log(`\n🛑 ${signal} received, stopping gateway...`);
+    sponsor?.close();
+    gateway.close().then(() => console.log('✅ Gateway stopped'));
+  };
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
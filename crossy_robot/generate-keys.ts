@@ -2,106 +2,282 @@
 
 /**
  * Key Generation Utility for Crossy Robot E2E Testing
- * 
- * This script generates Ed25519 keypairs and displays:
- * - Private key (base64 encoded, for .env file)
- * - Public key (hex encoded)
- * - Sui address (for wallet identification)
+ *
+ * Creates (or imports) one key per named role and writes a matching .env:
+ * - Roles: `user robot player2 ...`, each becomes <ROLE>_PRIVATE_KEY
+ * - Schemes: ED25519 (default), Secp256k1, Secp256r1
+ * - Import: `role=<address|alias>` takes the key from a Sui CLI keystore
+ * - Export: `--export` appends the keys to the Sui CLI keystore
+ *
+ * Usage:
+ *   npx ts-node generate-keys.ts [role[:scheme][=address|alias] ...] [options]
+ *
+ * Options:
+ *   --players <n>      Add player2..player<n> roles for the crowd tests
+ *   --scheme <scheme>  Default scheme for generated keys (default: ed25519)
+ *   --keystore <path>  Sui keystore to import from / export to
+ *                      (default: ~/.sui/sui_config/sui.keystore)
+ *   --export           Append the keys to the keystore with their role as alias
+ *   --env <path>       Where to write the .env file (default: .env)
+ *   --force            Overwrite an existing .env file
+ *   --print            Print the .env content instead of writing it
  */
 
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import type { Keypair } from '@mysten/sui/cryptography';
+import * as fs from 'fs';
+import {
+  DEFAULT_SUI_KEYSTORE_PATH,
+  KeyScheme,
+  KeystoreEntry,
+  exportToSuiKeystore,
+  findKeystoreEntry,
+  generateKeypair,
+  parseKeyScheme,
+  readSuiKeystore,
+  roleEnvVar
+} from './src';
+
+interface RoleSpec {
+  role: string;
+  scheme?: KeyScheme;
+  /** Address or alias to import from the keystore */
+  importFrom?: string;
+}
 
 interface KeyInfo {
   role: string;
+  envVar: string;
+  scheme: string;
+  source: 'generated' | 'imported';
   privateKey: string;
   publicKey: string;
   suiAddress: string;
+  keypair: Keypair;
+}
+
+interface Options {
+  roles: RoleSpec[];
+  scheme: KeyScheme;
+  keystorePath: string;
+  exportKeystore: boolean;
+  envPath: string;
+  force: boolean;
+  print: boolean;
+}
+
+const ROLE_DESCRIPTIONS: Record<string, string> = {
+  user: 'User wallet private key (creates games)',
+  robot: 'Robot wallet private key (connects to games)',
+};
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    roles: [],
+    scheme: 'ED25519',
+    keystorePath: DEFAULT_SUI_KEYSTORE_PATH,
+    exportKeystore: false,
+    envPath: '.env',
+    force: false,
+    print: false,
+  };
+  let players = 0;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--players':
+        players = parseInt(value());
+        if (!Number.isInteger(players) || players < 2) {
+          throw new Error('--players must be at least 2');
+        }
+        break;
+      case '--scheme':
+        options.scheme = parseKeyScheme(value());
+        break;
+      case '--keystore':
+        options.keystorePath = value();
+        break;
+      case '--export':
+        options.exportKeystore = true;
+        break;
+      case '--env':
+        options.envPath = value();
+        break;
+      case '--force':
+        options.force = true;
+        break;
+      case '--print':
+        options.print = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown option ${arg}`);
+        }
+        options.roles.push(parseRoleSpec(arg));
+    }
+  }
+
+  if (options.roles.length === 0) {
+    options.roles.push({ role: 'user' }, { role: 'robot' });
+  }
+  for (let i = 2; i <= players; i++) {
+    if (!options.roles.some((spec) => spec.role === `player${i}`)) {
+      options.roles.push({ role: `player${i}` });
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const { role } of options.roles) {
+    if (seen.has(roleEnvVar(role))) {
+      throw new Error(`Role ${role} is listed twice`);
+    }
+    seen.add(roleEnvVar(role));
+  }
+  return options;
 }
 
-function generateKeypair(role: string): KeyInfo {
-  const keypair = new Ed25519Keypair();
-  
+/** `name[:scheme][=address|alias]` */
+function parseRoleSpec(arg: string): RoleSpec {
+  const [nameAndScheme, importFrom] = arg.split('=', 2);
+  const [role, scheme] = nameAndScheme.split(':', 2);
+  if (!/^[A-Za-z][A-Za-z0-9_-]*$/.test(role)) {
+    throw new Error(`Invalid role name "${role}"`);
+  }
   return {
-    role,
+    role: role.toLowerCase(),
+    scheme: scheme ? parseKeyScheme(scheme) : undefined,
+    importFrom: importFrom || undefined,
+  };
+}
+
+function resolveKey(spec: RoleSpec, options: Options, keystore: () => KeystoreEntry[]): KeyInfo {
+  let keypair: Keypair;
+  let source: KeyInfo['source'];
+
+  if (spec.importFrom) {
+    const entry = findKeystoreEntry(keystore(), spec.importFrom);
+    if (!entry) {
+      throw new Error(`No key for ${spec.importFrom} in ${options.keystorePath}`);
+    }
+    if (spec.scheme && entry.keypair.getKeyScheme() !== spec.scheme) {
+      throw new Error(`${spec.importFrom} is a ${entry.keypair.getKeyScheme()} key, not ${spec.scheme}`);
+    }
+    keypair = entry.keypair;
+    source = 'imported';
+  } else {
+    keypair = generateKeypair(spec.scheme ?? options.scheme);
+    source = 'generated';
+  }
+
+  return {
+    role: spec.role,
+    envVar: roleEnvVar(spec.role),
+    scheme: keypair.getKeyScheme(),
+    source,
     privateKey: keypair.getSecretKey(),
     publicKey: keypair.getPublicKey().toBase64(),
-    suiAddress: keypair.getPublicKey().toSuiAddress()
+    suiAddress: keypair.toSuiAddress(),
+    keypair,
   };
 }
 
 function displayKeyInfo(keyInfo: KeyInfo): void {
-  console.log(`🔑 ${keyInfo.role} Wallet:`);
-  console.log(`   Private Key: ${keyInfo.privateKey}`);
+  console.log(`🔑 ${keyInfo.role} wallet (${keyInfo.scheme}, ${keyInfo.source}):`);
+  console.log(`   Env Var:     ${keyInfo.envVar}`);
   console.log(`   Public Key:  ${keyInfo.publicKey}`);
   console.log(`   Sui Address: ${keyInfo.suiAddress}`);
   console.log('');
 }
 
-function generateEnvFile(userKey: KeyInfo, robotKey: KeyInfo): string {
+function generateEnvFile(keys: KeyInfo[]): string {
+  const keyLines = keys.map((key) => {
+    const description = ROLE_DESCRIPTIONS[key.role] ?? `${key.role} wallet private key`;
+    return `# ${description}\n${key.envVar}=${key.privateKey}\n`;
+  });
+  const width = Math.max(...keys.map((key) => key.role.length));
+  const addressLines = keys.map((key) => `# ${`${key.role}:`.padEnd(width + 2)}${key.suiAddress}`);
+
   return `# Crossy Robot E2E Test Configuration
 # Generated on ${new Date().toISOString()}
 
-# User wallet private key (creates games)
-USER_PRIVATE_KEY=${userKey.privateKey}
-
-# Robot wallet private key (connects to games)
-ROBOT_PRIVATE_KEY=${robotKey.privateKey}
-
-# Sui network configuration
+${keyLines.join('\n')}
+# Sui network profile from networks.json (localnet, devnet, testnet, mainnet)
 SUI_NETWORK=testnet
-SUI_RPC_URL=https://fullnode.testnet.sui.io:443
 
-# Optional: Custom gas budget (default: 10000000)
-GAS_BUDGET=10000000
+# Optional: Another RPC node for the same network (default: the profile's rpcUrl)
+# SUI_RPC_URL=https://fullnode.testnet.sui.io:443
+
+# Optional: Gas budget cap per transaction in MIST (default: the network profile's)
+# GAS_BUDGET=10000000
 
 # Optional: Test configuration
 TEST_TIMEOUT_MS=30000
 MOVEMENT_DELAY_MS=2000
 
 # Wallet addresses for reference:
-# User Address:  ${userKey.suiAddress}
-# Robot Address: ${robotKey.suiAddress}
+${addressLines.join('\n')}
 `;
 }
 
 async function main() {
   console.log('🤖 Crossy Robot Key Generator\n');
-  
-  // Generate keypairs
-  console.log('🔐 Generating new keypairs...\n');
-  
-  const userKey = generateKeypair('User');
-  const robotKey = generateKeypair('Robot');
-  
-  // Display key information
-  displayKeyInfo(userKey);
-  displayKeyInfo(robotKey);
-  
-  // Generate .env file content
-  const envContent = generateEnvFile(userKey, robotKey);
-  
-  console.log('📄 .env file content:');
-  console.log('─'.repeat(60));
-  console.log(envContent);
-  console.log('─'.repeat(60));
+
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.print && !options.force && fs.existsSync(options.envPath)) {
+    throw new Error(`${options.envPath} already exists; use --force to overwrite or --print to only display it`);
+  }
+
+  // Only touch the keystore if a role imports from it
+  let keystoreEntries: KeystoreEntry[] | null = null;
+  const keystore = () => (keystoreEntries ??= readSuiKeystore(options.keystorePath));
+
+  console.log('🔐 Preparing keypairs...\n');
+  const keys = options.roles.map((spec) => resolveKey(spec, options, keystore));
+  keys.forEach(displayKeyInfo);
+
+  const envContent = generateEnvFile(keys);
+  if (options.print) {
+    console.log('📄 .env file content:');
+    console.log('─'.repeat(60));
+    console.log(envContent);
+    console.log('─'.repeat(60));
+  } else {
+    fs.writeFileSync(options.envPath, envContent, { mode: 0o600 });
+    console.log(`📄 Wrote ${keys.length} keys to ${options.envPath}`);
+  }
+
+  if (options.exportKeystore) {
+    const { added, skipped } = exportToSuiKeystore(
+      keys.map((key) => ({ keypair: key.keypair, alias: `crossy-${key.role}` })),
+      options.keystorePath
+    );
+    console.log(`🗝️  Exported ${added.length} keys to ${options.keystorePath}` +
+      (skipped.length > 0 ? ` (${skipped.length} already present)` : ''));
+  }
   console.log('');
-  
+
   // Instructions
   console.log('📋 Next Steps:');
   console.log('');
-  console.log('1. Copy the .env content above to a .env file:');
-  console.log('   echo "..." > .env');
-  console.log('');
-  console.log('2. Fund both wallets with testnet SUI:');
+  console.log('1. Fund the wallets with testnet SUI:');
   console.log('   🌐 Visit: https://faucet.sui.io/');
-  console.log(`   👤 User Address:  ${userKey.suiAddress}`);
-  console.log(`   🤖 Robot Address: ${robotKey.suiAddress}`);
+  for (const key of keys) {
+    console.log(`   ${key.role}: ${key.suiAddress}`);
+  }
   console.log('');
-  console.log('3. Required balances:');
+  console.log('2. Required balances:');
   console.log('   👤 User wallet:  ~0.1 SUI (0.05 for game + gas)');
   console.log('   🤖 Robot wallet: ~0.05 SUI (for gas)');
+  console.log('   👥 Player wallets: ~0.05 SUI each (for gas)');
   console.log('');
-  console.log('4. Run the E2E test:');
+  console.log('3. Run the E2E test:');
   console.log('   npm test');
   console.log('');
   console.log('🔒 Security Note:');
@@ -111,5 +287,8 @@ async function main() {
 
 // Run the generator
 if (require.main === module) {
-  main().catch(console.error);
-} 
\ No newline at end of file
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
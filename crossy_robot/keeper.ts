@@ -0,0 +1,120 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Crowd Game Keeper
+ *
+ * Background process that ends expired crowd_robot games:
+ * 1. Tracks every crowd_robot::GameCreated and its end_time
+ * 2. Calls end_game once the game has expired by chain time
+ * 3. Records the GameEnded stats, whether it or someone else ended the game
+ *
+ * Tracked games and the event cursor are saved to KEEPER_STATE_PATH, and
+ * every ended game is appended as a JSON line to KEEPER_RESULTS_PATH.
+ * Stops gracefully on SIGINT / SIGTERM.
+ */
+
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import {
+  CrossyRobotClient,
+  CrowdGameKeeper,
+  CrowdGameKeeperState,
+  INITIAL_CROWD_GAME_KEEPER_STATE,
+  JsonStateStore,
+  KeeperGameEnded,
+  loadKeypairFromEnv,
+  loadNetworkProfile
+} from './src';
+
+// Load environment variables
+dotenv.config();
+
+// Configuration
+const STATE_PATH = process.env.KEEPER_STATE_PATH || './.keeper-state.json';
+const RESULTS_PATH = process.env.KEEPER_RESULTS_PATH || './keeper-results.jsonl';
+const POLL_INTERVAL = parseInt(process.env.KEEPER_POLL_INTERVAL_MS || '5000');
+const GRACE = parseInt(process.env.KEEPER_GRACE_MS || '1000');
+const START_FROM = process.env.KEEPER_START_FROM === 'latest' ? 'latest' : 'beginning';
+
+function recordResult(result: KeeperGameEnded): void {
+  const stats = result.event?.data;
+  fs.appendFileSync(RESULTS_PATH, JSON.stringify({
+    gameId: result.gameId,
+    endedBy: result.endedBy,
+    endGameDigest: result.digest ?? null,
+    gameEndedDigest: result.event?.id.txDigest ?? null,
+    endedAt: stats ? Number(stats.ended_at) : null,
+    durationMs: stats ? Number(stats.duration_ms) : null,
+    totalMoves: stats ? Number(stats.total_moves) : null,
+    uniquePlayers: stats ? Number(stats.unique_players) : null,
+    creator: stats?.creator ?? null,
+  }) + '\n');
+}
+
+async function main() {
+  const keeperKeypair = loadKeypairFromEnv('KEEPER_PRIVATE_KEY');
+  const network = loadNetworkProfile();
+  const client = await CrossyRobotClient.connect(network);
+
+  const keeper = new CrowdGameKeeper({
+    client,
+    signer: keeperKeypair,
+    stateStore: new JsonStateStore<CrowdGameKeeperState>(STATE_PATH, INITIAL_CROWD_GAME_KEEPER_STATE),
+    streamOptions: {
+      maxPollIntervalMs: POLL_INTERVAL,
+      onTransportChange: (transport) => console.log(`📡 Event transport: ${transport}`),
+    },
+    graceMs: GRACE,
+    startFrom: START_FROM,
+    handlers: {
+      onGameTracked: (gameId, endTime) => {
+        console.log(`👀 Tracking game ${gameId}, ends at ${new Date(Number(endTime)).toISOString()}`);
+      },
+      onGameEnded: (result) => {
+        recordResult(result);
+        const by = result.endedBy === 'keeper' ? `by keeper (${result.digest})` : 'by someone else';
+        console.log(`🏁 Game ${result.gameId} ended ${by}`);
+        if (result.event) {
+          const { total_moves, unique_players, duration_ms } = result.event.data;
+          console.log(`   ${total_moves} moves by ${unique_players} players in ${Number(duration_ms) / 1000}s`);
+        }
+      },
+      onEndFailed: (gameId, error) => {
+        console.error(`⚠️  Could not end game ${gameId}, will retry:`, error instanceof Error ? error.message : error);
+      },
+      onError: (error) => {
+        console.error('❌ Keeper error:', error instanceof Error ? error.message : error);
+      },
+    },
+  });
+
+  console.log('🧹 Crowd Game Keeper');
+  console.log(`🌐 Network: ${network.name} (${network.rpcUrl})`);
+  console.log(`📦 Package ID: ${client.packageId}`);
+  console.log(`🔑 Keeper Address: ${keeperKeypair.toSuiAddress()}`);
+  console.log(`💾 State: ${STATE_PATH}`);
+  console.log(`📄 Results: ${RESULTS_PATH}`);
+  if (keeper.pendingGames.size > 0) {
+    console.log(`🎮 Resuming with ${keeper.pendingGames.size} tracked games`);
+  }
+  console.log('');
+
+  const shutdown = (signal: string) => {
+    console.log(`\n🛑 ${signal} received, stopping keeper...`);
+    keeper.stop().then(() => {
+      const { endedByKeeper, endedByOthers } = keeper.stats;
+      console.log(`✅ Keeper stopped, state saved (${endedByKeeper} games ended by keeper, ${endedByOthers} by others)`);
+    });
+  };
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+
+  await keeper.start();
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
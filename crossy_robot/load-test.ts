@@ -0,0 +1,273 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Crowd Robot Load Test
+ *
+ * Sends crowd_robot::move_robot commands from many players to shared Game
+ * objects and reports latency percentiles, a latency histogram and failures
+ * grouped by cause. Use it to size how many concurrent players one game
+ * supports.
+ *
+ * Usage:
+ *   npx ts-node load-test.ts [options]
+ *
+ * Options:
+ *   --players <n>           Virtual players (default: 3)
+ *   --mode <closed|open>    Closed loop waits for each move; open loop sends at
+ *                           a fixed rate (default: closed)
+ *   --rate <moves/s>        Open loop: target rate across all players (default: 5)
+ *   --think-ms <ms>         Closed loop: pause between a player's moves (default: 0)
+ *   --moves <n>             Closed loop: stop each player after n moves
+ *   --ramp-up <s>           Seconds to reach full load (default: 0)
+ *   --duration <s>          Seconds to run, including ramp-up (default: 60)
+ *   --in-flight <n>         Open loop: concurrent moves per player; splits
+ *                           gas coins to match (default: 1)
+ *   --game <id>             Use an existing game instead of creating games
+ *   --generate              Use fresh keys funded from the faucet instead of
+ *                           USER_PRIVATE_KEY / PLAYER<n>_PRIVATE_KEY (localnet, devnet)
+ *   --out <path>            JSON report path (default: reports/load-<timestamp>.json)
+ *
+ * Games last two minutes; longer runs roll over to a new game automatically.
+ */
+
+import type { Keypair } from '@mysten/sui/cryptography';
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CrossyRobotClient,
+  LoadGenerator,
+  LoadMode,
+  LoadReport,
+  MIST_PER_SUI,
+  formatSui,
+  generateKeypair,
+  loadNetworkProfile,
+  loadOptionalKeypairFromEnv,
+  roleEnvVar
+} from './src';
+
+// Load environment variables
+dotenv.config();
+
+const GENERATED_FUNDING = MIST_PER_SUI;
+
+interface Options {
+  players: number;
+  mode: LoadMode;
+  rate?: number;
+  thinkTimeMs?: number;
+  movesPerPlayer?: number;
+  rampUpMs: number;
+  durationMs?: number;
+  inFlight: number;
+  gameId?: string;
+  generate: boolean;
+  out: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    players: 3,
+    mode: 'closed',
+    rampUpMs: 0,
+    inFlight: 1,
+    generate: false,
+    out: path.join(process.env.E2E_REPORT_DIR || 'reports', `load-${new Date().toISOString().replace(/[:.]/g, '-')}.json`),
+  };
+  let duration: number | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return argv[++i];
+    };
+    const number = (min: number) => {
+      const parsed = Number(value());
+      if (!Number.isFinite(parsed) || parsed < min) {
+        throw new Error(`${arg} must be a number of at least ${min}`);
+      }
+      return parsed;
+    };
+
+    switch (arg) {
+      case '--players':
+        options.players = Math.floor(number(1));
+        break;
+      case '--mode': {
+        const mode = value();
+        if (mode !== 'closed' && mode !== 'open') {
+          throw new Error('--mode must be closed or open');
+        }
+        options.mode = mode;
+        break;
+      }
+      case '--rate':
+        options.rate = number(0.01);
+        break;
+      case '--think-ms':
+        options.thinkTimeMs = number(0);
+        break;
+      case '--moves':
+        options.movesPerPlayer = Math.floor(number(1));
+        break;
+      case '--ramp-up':
+        options.rampUpMs = number(0) * 1000;
+        break;
+      case '--duration':
+        duration = number(1);
+        break;
+      case '--in-flight':
+        options.inFlight = Math.floor(number(1));
+        break;
+      case '--game':
+        options.gameId = value();
+        break;
+      case '--generate':
+        options.generate = true;
+        break;
+      case '--out':
+        options.out = value();
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  if (duration !== undefined) {
+    options.durationMs = duration * 1000;
+  } else if (options.movesPerPlayer === undefined) {
+    options.durationMs = 60_000;
+  }
+  if (options.durationMs !== undefined && options.rampUpMs > options.durationMs) {
+    throw new Error('--ramp-up cannot be longer than --duration');
+  }
+  return options;
+}
+
+/** USER_PRIVATE_KEY is player 1, PLAYER<n>_PRIVATE_KEY the others */
+function loadPlayers(count: number): Keypair[] {
+  const players: Keypair[] = [];
+  for (let i = 1; i <= count; i++) {
+    const envVar = i === 1 ? roleEnvVar('user') : roleEnvVar(`player${i}`);
+    const keypair = loadOptionalKeypairFromEnv(envVar);
+    if (!keypair) {
+      throw new Error(`${envVar} is not set; generate keys with --players ${count} or run with --generate`);
+    }
+    players.push(keypair);
+  }
+  return players;
+}
+
+async function preparePlayers(client: CrossyRobotClient, players: Keypair[], options: Options): Promise<void> {
+  // Generated keys get a fixed top-up; existing wallets must at least cover one move per coin
+  const gasBudget = client.gas?.settings.budget ?? 10_000_000n;
+  const required = options.generate ? GENERATED_FUNDING : gasBudget * BigInt(options.inFlight);
+
+  for (let i = 0; i < players.length; i++) {
+    const balance = await client.ensureBalance(players[i].toSuiAddress(), required);
+    console.log(`   Player ${i + 1}: ${players[i].toSuiAddress()} (${formatSui(balance)} SUI)`);
+
+    // One gas coin per concurrent move, so in-flight moves never compete for a coin
+    await client.gas?.mergeCoins(players[i]);
+    if (options.mode === 'open' && options.inFlight > 1) {
+      await client.gas?.splitGasCoins(players[i], options.inFlight - 1, balance / BigInt(options.inFlight + 1));
+    }
+  }
+}
+
+function printReport(report: LoadReport): void {
+  const { totals, latency, throughput } = report;
+
+  console.log('');
+  console.log('📊 Load Test Results:');
+  console.log(`   Mode: ${report.config.mode}, players: ${report.config.players}, games: ${report.games.length}`);
+  console.log(`   Elapsed: ${(report.elapsedMs / 1000).toFixed(1)}s`);
+  console.log(`   Attempted: ${totals.attempted} (${throughput.attemptedPerSecond.toFixed(2)}/s)`);
+  console.log(`   Moved: ${totals.moved} (${throughput.movedPerSecond.toFixed(2)}/s)`);
+  console.log(`   Expired: ${totals.expired}, failed: ${totals.failed}, dropped: ${totals.dropped}`);
+  console.log('');
+  console.log('⏱️  Latency (executed moves):');
+  console.log(`   min ${latency.minMs}ms  mean ${latency.meanMs.toFixed(0)}ms  p50 ${latency.p50Ms}ms  ` +
+    `p95 ${latency.p95Ms}ms  p99 ${latency.p99Ms}ms  max ${latency.maxMs}ms`);
+
+  const widest = Math.max(...latency.histogram.map((bucket) => bucket.count), 1);
+  latency.histogram.forEach((bucket, i) => {
+    const label = bucket.upToMs === null ? `> ${latency.histogram[i - 1]?.upToMs ?? 0}ms` : `≤ ${bucket.upToMs}ms`;
+    const bar = '█'.repeat(Math.round((bucket.count / widest) * 40));
+    console.log(`   ${label.padStart(10)} ${String(bucket.count).padStart(6)} ${bar}`);
+  });
+
+  const failures = Object.entries(report.failures);
+  if (failures.length > 0) {
+    console.log('');
+    console.log('❌ Failures by cause:');
+    for (const [cause, { count, examples }] of failures) {
+      console.log(`   ${cause}: ${count}`);
+      examples.forEach((example) => console.log(`     e.g. ${example.slice(0, 160)}`));
+    }
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  // No retries: congestion and conflicts are what the report should show
+  const client = await CrossyRobotClient.connect(loadNetworkProfile(), { retry: false });
+
+  console.log('⚡ Crowd Robot Load Test');
+  console.log(`🌐 Network: ${client.network?.name}`);
+  console.log(`📦 Package ID: ${client.packageId}`);
+  console.log('');
+
+  const players = options.generate
+    ? Array.from({ length: options.players }, () => generateKeypair())
+    : loadPlayers(options.players);
+  console.log('💰 Preparing player wallets...');
+  await preparePlayers(client, players, options);
+  console.log('');
+
+  const generator = new LoadGenerator({
+    client,
+    players,
+    mode: options.mode,
+    ratePerSecond: options.rate,
+    thinkTimeMs: options.thinkTimeMs,
+    movesPerPlayer: options.movesPerPlayer,
+    rampUpMs: options.rampUpMs,
+    durationMs: options.durationMs,
+    maxInFlightPerPlayer: options.inFlight,
+    gameId: options.gameId,
+    handlers: {
+      onGameCreated: (gameId, endTime) =>
+        console.log(`🎮 Game ${gameId} (ends ${new Date(endTime).toLocaleTimeString()})`),
+      onSample: (sample) => {
+        if (sample.outcome === 'failed') {
+          console.log(`   ❌ Player ${sample.player + 1}: ${sample.cause} after ${sample.latencyMs}ms`);
+        }
+      },
+    },
+  });
+  process.once('SIGINT', () => {
+    console.log('\n🛑 Stopping; waiting for moves in flight...');
+    generator.stop();
+  });
+
+  console.log(`🚀 Running ${options.mode}-loop load...`);
+  const report = await generator.run();
+  printReport(report);
+
+  fs.mkdirSync(path.dirname(options.out), { recursive: true });
+  fs.writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`);
+  console.log('');
+  console.log(`📄 Report written to ${options.out}`);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
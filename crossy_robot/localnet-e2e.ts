@@ -0,0 +1,266 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Localnet E2E Harness
+ *
+ * Runs the E2E scenarios against a throwaway local network:
+ * 1. Starts `sui start --with-faucet --force-regenesis`
+ * 2. Publishes crossy_robot (and optionally suibotics_did / swarm_logistics)
+ * 3. Records the package IDs in a temporary networks.json localnet profile
+ * 4. Generates and funds the user, robot and player keys
+ * 5. Runs the selected scenarios with SUI_NETWORK=localnet
+ * 6. Stops the network and removes the temporary files
+ *
+ * Usage:
+ *   npx ts-node localnet-e2e.ts [options]
+ *
+ * Options:
+ *   --scenarios <list>  Comma-separated: simple, full, crowd-simple, crowd
+ *                       (default: all)
+ *   --with-did          Also publish suibotics_did
+ *   --with-swarm        Also publish swarm_logistics
+ *   --keep              Leave the network running and keep the work directory
+ *
+ * Environment: SUI_BINARY (default: sui), LOCALNET_SCENARIO_TIMEOUT_MS
+ * (default: 900000).
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  GasManager,
+  Localnet,
+  MIST_PER_SUI,
+  MovePackageName,
+  NetworkProfile,
+  buildMovePackage,
+  formatSui,
+  generateKeypair,
+  publishPackage,
+  readNetworkProfiles,
+  roleEnvVar,
+  writeNetworkProfiles
+} from './src';
+
+const SCENARIOS: Record<string, string> = {
+  'simple': 'simple-e2e-test.ts',
+  'full': 'e2e-test.ts',
+  'crowd-simple': 'simple-crowd-e2e-test.ts',
+  'crowd': 'crowd-e2e-test.ts',
+};
+
+const PACKAGE_PATHS: Record<MovePackageName, string> = {
+  crossy_robot: __dirname,
+  suibotics_did: path.join(__dirname, '..', 'suibotics_did'),
+  swarm_logistics: path.join(__dirname, '..', 'swarm_logistics'),
+};
+
+const ROLES = ['user', 'robot', 'player2', 'player3', 'player4'];
+const ROLE_FUNDING = 10n * MIST_PER_SUI;
+const PUBLISHER_FUNDING = 5n * MIST_PER_SUI;
+const SCENARIO_TIMEOUT = parseInt(process.env.LOCALNET_SCENARIO_TIMEOUT_MS || '900000');
+
+interface HarnessOptions {
+  scenarios: string[];
+  packages: MovePackageName[];
+  keep: boolean;
+}
+
+interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  durationMs: number;
+  detail: string;
+}
+
+function parseArgs(argv: string[]): HarnessOptions {
+  const options: HarnessOptions = {
+    scenarios: Object.keys(SCENARIOS),
+    packages: ['crossy_robot'],
+    keep: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--scenarios':
+        options.scenarios = (argv[++i] ?? '').split(',').map((name) => name.trim()).filter(Boolean);
+        for (const name of options.scenarios) {
+          if (!SCENARIOS[name]) {
+            throw new Error(`Unknown scenario "${name}"; expected ${Object.keys(SCENARIOS).join(', ')}`);
+          }
+        }
+        break;
+      case '--with-did':
+        options.packages.push('suibotics_did');
+        break;
+      case '--with-swarm':
+        options.packages.push('swarm_logistics');
+        break;
+      case '--keep':
+        options.keep = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+/** Run one scenario script in a child process with the localnet environment */
+function runScenario(name: string, env: NodeJS.ProcessEnv, track: (child: ChildProcess | null) => void): Promise<ScenarioResult> {
+  const startTime = Date.now();
+  return new Promise((resolve) => {
+    // Run ts-node directly (not through npx) so a timeout kill reaches the scenario itself
+    const child = spawn(process.execPath, [require.resolve('ts-node/dist/bin'), SCENARIOS[name]], {
+      cwd: __dirname,
+      env,
+      stdio: 'inherit',
+    });
+    track(child);
+
+    const timer = setTimeout(() => child.kill('SIGTERM'), SCENARIO_TIMEOUT);
+    const finish = (passed: boolean, detail: string) => {
+      clearTimeout(timer);
+      track(null);
+      resolve({ name, passed, durationMs: Date.now() - startTime, detail });
+    };
+    child.once('error', (error) => finish(false, error.message));
+    child.once('exit', (code, signal) => {
+      if (signal) {
+        finish(false, `killed by ${signal}${Date.now() - startTime >= SCENARIO_TIMEOUT ? ' (timeout)' : ''}`);
+      } else {
+        finish(code === 0, `exit code ${code}`);
+      }
+    });
+  });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'crossy-localnet-'));
+  const logPath = path.join(workDir, 'localnet.log');
+  const log = fs.createWriteStream(logPath);
+
+  const localnet = new Localnet({
+    suiBinary: process.env.SUI_BINARY,
+    onOutput: (line) => log.write(`${line}\n`),
+  });
+  let runningScenario: ChildProcess | null = null;
+
+  const teardown = async (keepFiles: boolean = false) => {
+    runningScenario?.kill('SIGTERM');
+    if (options.keep) {
+      console.log(`🧷 Leaving localnet running; work directory ${workDir}`);
+      return;
+    }
+    console.log('🧹 Stopping localnet...');
+    await localnet.stop();
+    log.end();
+    if (!keepFiles) {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  };
+  const interrupt = (signal: string) => {
+    console.log(`\n🛑 ${signal} received`);
+    teardown().finally(() => process.exit(130));
+  };
+  process.once('SIGINT', () => interrupt('SIGINT'));
+  process.once('SIGTERM', () => interrupt('SIGTERM'));
+
+  console.log('🧪 Crossy Robot Localnet E2E Harness');
+  console.log(`📁 Work directory: ${workDir}`);
+  console.log(`🎬 Scenarios: ${options.scenarios.join(', ')}`);
+  console.log('');
+
+  const results: ScenarioResult[] = [];
+  try {
+    // Step 1: Fresh network
+    console.log('🚀 Starting localnet (this can take a minute)...');
+    const client = await localnet.start();
+    console.log(`✅ Localnet ready at ${localnet.rpcUrl} (faucet ${localnet.faucetHost})\n`);
+
+    const profiles = readNetworkProfiles(path.join(__dirname, 'networks.json'));
+    if (!profiles.localnet) {
+      throw new Error('networks.json has no localnet profile');
+    }
+    const profile: NetworkProfile = {
+      ...profiles.localnet,
+      rpcUrl: localnet.rpcUrl,
+      faucetHost: localnet.faucetHost,
+      packages: {},
+    };
+    const gas = GasManager.forNetwork(client, { ...profile, gas: { ...profile.gas, autoFund: true } });
+
+    // Step 2: Publish packages
+    const publisher = generateKeypair();
+    await gas.ensureBalance(publisher.toSuiAddress(), PUBLISHER_FUNDING);
+    for (const packageName of options.packages) {
+      console.log(`📦 Publishing ${packageName}...`);
+      const compiled = await buildMovePackage(PACKAGE_PATHS[packageName], { suiBinary: process.env.SUI_BINARY });
+      const { digest, ...deployment } = await publishPackage(client, publisher, compiled);
+      profile.packages[packageName] = deployment;
+      console.log(`   Package ID: ${deployment.packageId}`);
+      for (const [name, objectId] of Object.entries(deployment.sharedObjects)) {
+        console.log(`   ${name}: ${objectId}`);
+      }
+      console.log(`   Transaction: ${digest}`);
+    }
+
+    // Step 3: Record package IDs
+    const networksPath = path.join(workDir, 'networks.json');
+    writeNetworkProfiles(networksPath, { ...profiles, localnet: profile });
+    console.log(`📝 Localnet profile written to ${networksPath}\n`);
+
+    // Step 4: Fund role keys
+    const env: NodeJS.ProcessEnv = {
+      ...process.env,
+      SUI_NETWORK: 'localnet',
+      NETWORKS_PATH: networksPath,
+      SUI_RPC_URL: localnet.rpcUrl,
+      // Set explicitly so values from a local .env do not leak in
+      GAS_BUDGET: '',
+    };
+    console.log('💰 Funding wallets...');
+    for (const role of ROLES) {
+      const keypair = generateKeypair();
+      const { balance } = await gas.ensureBalance(keypair.toSuiAddress(), ROLE_FUNDING);
+      env[roleEnvVar(role)] = keypair.getSecretKey();
+      console.log(`   ${role}: ${keypair.toSuiAddress()} (${formatSui(balance)} SUI)`);
+    }
+    console.log('');
+
+    // Step 5: Scenarios
+    for (const name of options.scenarios) {
+      console.log(`━━━ ${name} (${SCENARIOS[name]}) ━━━`);
+      const result = await runScenario(name, env, (child) => { runningScenario = child; });
+      results.push(result);
+      console.log(`${result.passed ? '✅' : '❌'} ${name}: ${result.detail} in ${(result.durationMs / 1000).toFixed(1)}s\n`);
+    }
+  } catch (error) {
+    console.error('❌ Harness failed:', error instanceof Error ? error.message : error);
+    await teardown(true);
+    console.error(`   Localnet log kept at ${logPath}`);
+    process.exit(1);
+  }
+
+  await teardown();
+
+  // Summary
+  console.log('');
+  console.log('📊 Localnet E2E Summary:');
+  for (const result of results) {
+    console.log(`   ${result.passed ? '✅' : '❌'} ${result.name.padEnd(12)} ${(result.durationMs / 1000).toFixed(1)}s  ${result.detail}`);
+  }
+  const failed = results.filter((result) => !result.passed).length;
+  console.log(`   ${results.length - failed}/${results.length} scenarios passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,178 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Fleet Provisioning
+ *
+ * Registers the DIDs of a fleet of robots from a manifest, then adds their
+ * extra keys and service endpoints and issues their credentials, in
+ * suibotics_did batch transactions of at most 50 entries. The provisioner
+ * wallet (PROVISIONER_PRIVATE_KEY) controls every DID and issues every
+ * credential.
+ *
+ * Writes a per-row report. Run again with --retry-failed <report> to submit
+ * only the steps that did not succeed.
+ *
+ * Usage:
+ *   npx ts-node provision.ts <manifest.json|manifest.csv> [options]
+ *
+ * Options:
+ *   --format <json|csv>       Manifest format (default: from the file extension)
+ *   --report <file>           Report to write (default: E2E_REPORT_DIR, then reports, /provisioning-report.json)
+ *   --retry-failed <report>   Keep the steps that succeeded in this report; submit the rest
+ *   --batch-size <n>          Entries per transaction, 1-50 (default: 50)
+ *   --strict                  Exit with code 1 when any row failed
+ *   --network <name>          Network profile (default: SUI_NETWORK, then testnet)
+ */
+
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CredentialRegistryClient,
+  DidRegistryClient,
+  FleetProvisioner,
+  ManifestFormat,
+  ProvisioningBatch,
+  ProvisioningReport,
+  loadKeypairFromEnv,
+  loadNetworkProfile,
+  parseProvisioningManifest
+} from './src';
+
+// Load environment variables
+dotenv.config();
+
+interface Options {
+  manifest: string;
+  format?: ManifestFormat;
+  report: string;
+  retryFailed?: string;
+  batchSize?: number;
+  strict: boolean;
+  network?: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Partial<Options> & Omit<Options, 'manifest'> = {
+    report: path.join(process.env.E2E_REPORT_DIR || 'reports', 'provisioning-report.json'),
+    strict: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--format': {
+        const format = value();
+        if (format !== 'json' && format !== 'csv') {
+          throw new Error(`Unknown format ${format}; expected json or csv`);
+        }
+        options.format = format;
+        break;
+      }
+      case '--report':
+        options.report = value();
+        break;
+      case '--retry-failed':
+        options.retryFailed = value();
+        break;
+      case '--batch-size':
+        options.batchSize = parseInt(value());
+        break;
+      case '--strict':
+        options.strict = true;
+        break;
+      case '--network':
+        options.network = value();
+        break;
+      default:
+        if (arg.startsWith('--') || options.manifest) {
+          throw new Error(`Unknown argument ${arg}`);
+        }
+        options.manifest = arg;
+    }
+  }
+
+  if (!options.manifest) {
+    throw new Error('Usage: npx ts-node provision.ts <manifest.json|manifest.csv> [--retry-failed report.json] [--report file]');
+  }
+  return options as Options;
+}
+
+function printBatch(batch: ProvisioningBatch): void {
+  const rows = `rows ${batch.rows[0]}${batch.rows.length > 1 ? `-${batch.rows[batch.rows.length - 1]}` : ''}`;
+  if (batch.error) {
+    console.log(`❌ ${batch.operation} batch (${rows}) failed: ${batch.error}`);
+    return;
+  }
+  const icon = batch.failed === 0 ? '✅' : '⚠️ ';
+  console.log(`${icon} ${batch.operation} batch (${rows}): ${batch.succeeded} succeeded, ${batch.failed} failed` +
+    (batch.digest ? ` (${batch.digest})` : ' (nothing executed)'));
+}
+
+function printSummary(report: ProvisioningReport): void {
+  console.log('');
+  console.log(`📊 ${report.succeeded} of ${report.rows.length} robots fully provisioned`);
+  for (const row of report.rows.filter((row) => row.status === 'failed')) {
+    const problems = row.steps
+      .filter((step) => step.status !== 'succeeded')
+      .map((step) => `${step.step}: ${step.error}`);
+    console.log(`   row ${row.row} ${row.name}: ${problems.join('; ')}`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const format = options.format ?? (options.manifest.toLowerCase().endsWith('.csv') ? 'csv' : 'json');
+  const robots = parseProvisioningManifest(fs.readFileSync(options.manifest, 'utf8'), format);
+  const previous: ProvisioningReport | undefined = options.retryFailed
+    ? JSON.parse(fs.readFileSync(options.retryFailed, 'utf8'))
+    : undefined;
+
+  const signer = loadKeypairFromEnv('PROVISIONER_PRIVATE_KEY');
+  const network = loadNetworkProfile({ network: options.network });
+  const dids = await DidRegistryClient.connect(network);
+  const credentials = robots.some((robot) => robot.credentials.length > 0)
+    ? await CredentialRegistryClient.connect(network)
+    : undefined;
+
+  console.log('🤖 Fleet Provisioning');
+  console.log(`🌐 Network: ${network.name}`);
+  console.log(`🔑 Controller: ${signer.toSuiAddress()}`);
+  console.log(`📋 Manifest: ${options.manifest} (${robots.length} robots)`);
+  if (previous) {
+    console.log(`🔁 Retrying what did not succeed in ${options.retryFailed}`);
+  }
+  console.log('');
+
+  const provisioner = new FleetProvisioner({
+    dids,
+    credentials,
+    signer,
+    batchSize: options.batchSize,
+    handlers: { onBatch: printBatch },
+  });
+  const report = await provisioner.provision(robots, previous);
+  printSummary(report);
+
+  fs.mkdirSync(path.dirname(options.report), { recursive: true });
+  fs.writeFileSync(options.report, JSON.stringify(report, null, 2) + '\n');
+  console.log(`📄 ${options.report}`);
+
+  if (options.strict && report.failed > 0) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
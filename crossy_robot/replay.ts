@@ -0,0 +1,171 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Crossy Robot Game Replay
+ *
+ * Collects a game's full on-chain event history, rebuilds the ordered
+ * trajectory on the 8-direction grid and writes a post-game summary. The
+ * summary flags gaps or duplicate move numbers and records the transaction
+ * digest of every move as proof of what the robot was told to do.
+ *
+ * Usage:
+ *   npx ts-node replay.ts <game-id> [options]
+ *
+ * Options:
+ *   --format <list>    Files to write: json, csv, svg (default: json,csv,svg)
+ *   --out-dir <dir>    Output directory (default: E2E_REPORT_DIR, then reports)
+ *   --strict           Exit with code 1 when the history has issues
+ *   --network <name>   Network profile (default: SUI_NETWORK, then testnet)
+ */
+
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CrossyRobotClient,
+  GameReplay,
+  loadNetworkProfile,
+  loadReplay,
+  renderAsciiPath,
+  renderSvgPath,
+  replayToCsv,
+  replayToJson
+} from './src';
+
+// Load environment variables
+dotenv.config();
+
+const FORMATS = ['json', 'csv', 'svg'] as const;
+type Format = typeof FORMATS[number];
+
+interface Options {
+  gameId: string;
+  formats: Format[];
+  outDir: string;
+  strict: boolean;
+  network?: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Partial<Options> & Omit<Options, 'gameId'> = {
+    formats: [...FORMATS],
+    outDir: process.env.E2E_REPORT_DIR || 'reports',
+    strict: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--format':
+        options.formats = value().split(',').map((format) => {
+          if (!(FORMATS as readonly string[]).includes(format)) {
+            throw new Error(`Unknown format ${format}; expected ${FORMATS.join(', ')}`);
+          }
+          return format as Format;
+        });
+        break;
+      case '--out-dir':
+        options.outDir = value();
+        break;
+      case '--strict':
+        options.strict = true;
+        break;
+      case '--network':
+        options.network = value();
+        break;
+      default:
+        if (arg.startsWith('--') || options.gameId) {
+          throw new Error(`Unknown argument ${arg}`);
+        }
+        options.gameId = arg;
+    }
+  }
+
+  if (!options.gameId) {
+    throw new Error('Usage: npx ts-node replay.ts <game-id> [--format json,csv,svg] [--out-dir dir] [--strict]');
+  }
+  return options as Options;
+}
+
+function formatTime(ms: bigint | null): string {
+  return ms === null ? 'unknown' : new Date(Number(ms)).toISOString();
+}
+
+function printSummary(replay: GameReplay): void {
+  const first = replay.steps[0];
+  const last = replay.steps[replay.steps.length - 1];
+
+  console.log('📊 Game Summary:');
+  console.log(`   Module: ${replay.module}`);
+  console.log(`   Creator: ${replay.creator ?? 'unknown'}`);
+  if (replay.module === 'crossy_robot') {
+    console.log(`   Robot: ${replay.robot ?? 'never connected'}`);
+  }
+  console.log(`   Created: ${formatTime(replay.createdAt)}`);
+  if (replay.endTime !== null) {
+    console.log(`   End time: ${formatTime(replay.endTime)}${replay.ended ? '' : ' (not ended on-chain yet)'}`);
+  }
+  console.log(`   Moves: ${replay.steps.length}` +
+    (first && last ? ` between ${formatTime(first.timestamp)} and ${formatTime(last.timestamp)}` : ''));
+  console.log(`   Final position: (${replay.finalPose.x}, ${replay.finalPose.y}) heading ${replay.finalPose.heading}°`);
+  console.log(`   Players: ${replay.players.length}`);
+  replay.players.forEach(({ player, moves }) => console.log(`     ${player}: ${moves} moves`));
+  console.log('');
+
+  if (replay.steps.length > 0) {
+    console.log('🗺️  Path (S start, E end, digits = visits):');
+    renderAsciiPath(replay).trimEnd().split('\n').forEach((line) => console.log(`   ${line}`));
+    console.log('');
+  }
+
+  if (replay.issues.length === 0) {
+    console.log('✅ Move history is complete and consistent');
+  } else {
+    console.log(`⚠️  ${replay.issues.length} issue(s) in the move history:`);
+    replay.issues.forEach((issue) => console.log(`   [${issue.kind}] ${issue.message}`));
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const client = await CrossyRobotClient.connect(loadNetworkProfile({ network: options.network }));
+
+  console.log('🎬 Crossy Robot Game Replay');
+  console.log(`🌐 Network: ${client.network?.name}`);
+  console.log(`🎮 Game: ${options.gameId}`);
+  console.log('');
+
+  const replay = await loadReplay(client, options.gameId);
+  printSummary(replay);
+
+  const writers: Record<Format, (replay: GameReplay) => string> = {
+    json: replayToJson,
+    csv: replayToCsv,
+    svg: (replay) => renderSvgPath(replay),
+  };
+  fs.mkdirSync(options.outDir, { recursive: true });
+  console.log('');
+  for (const format of options.formats) {
+    const file = path.join(options.outDir, `replay-${replay.gameId.slice(2, 10)}.${format}`);
+    fs.writeFileSync(file, writers[format](replay));
+    console.log(`📄 ${file}`);
+  }
+
+  if (options.strict && replay.issues.length > 0) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
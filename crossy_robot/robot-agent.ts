@@ -0,0 +1,126 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Crossy Robot Agent
+ *
+ * The process deployed on the robots:
+ * 1. Watches for GameCreated events and connects to new games
+ * 2. Collects the game payment into the robot wallet
+ * 3. Follows RobotMoved events for the active game and drives the actuator
+ *
+ * The event cursor and active game are saved to AGENT_STATE_PATH, so a
+ * restarted agent resumes without replaying or missing commands.
+ * Stops gracefully on SIGINT / SIGTERM.
+ */
+
+import * as dotenv from 'dotenv';
+import {
+  Actuator,
+  CrossyRobotClient,
+  DIRECTION_NAMES,
+  GridSimulatorActuator,
+  INITIAL_ROBOT_AGENT_STATE,
+  JsonStateStore,
+  RobotAgent,
+  RobotAgentState,
+  createMoveHandler,
+  formatSui,
+  isAbort,
+  loadKeypairFromEnv,
+  loadNetworkProfile
+} from './src';
+
+// Load environment variables
+dotenv.config();
+
+// Configuration
+const STATE_PATH = process.env.AGENT_STATE_PATH || './.robot-agent-state.json';
+const POLL_INTERVAL = parseInt(process.env.AGENT_POLL_INTERVAL_MS || '5000');
+const IDLE_TIMEOUT = parseInt(process.env.AGENT_IDLE_TIMEOUT_MS || '300000');
+const ACTUATOR_TIMEOUT = parseInt(process.env.ACTUATOR_TIMEOUT_MS || '5000');
+const SIMULATOR_STEP = parseInt(process.env.SIMULATOR_STEP_MS || '250');
+
+async function main() {
+  const robotKeypair = loadKeypairFromEnv('ROBOT_PRIVATE_KEY');
+  const network = loadNetworkProfile();
+  const client = await CrossyRobotClient.connect(network);
+
+  // Only the grid simulator backend exists so far; hardware drivers plug in here
+  const actuator: Actuator = new GridSimulatorActuator({ stepDurationMs: SIMULATOR_STEP });
+  const drive = createMoveHandler(actuator, {
+    timeoutMs: ACTUATOR_TIMEOUT,
+    onAck: (ack) => {
+      const pose = ack.pose ? ` → (${ack.pose.x}, ${ack.pose.y}) heading ${ack.pose.heading}°` : '';
+      console.log(`   ✅ ${ack.actuator} done in ${ack.completedAt - ack.startedAt}ms${pose}`);
+    },
+    onError: (error) => {
+      console.error(`   ❌ Actuator ${error.code}: ${error.message}`);
+    },
+  });
+
+  const agent = new RobotAgent({
+    client,
+    signer: robotKeypair,
+    stateStore: new JsonStateStore<RobotAgentState>(STATE_PATH, INITIAL_ROBOT_AGENT_STATE),
+    streamOptions: {
+      maxPollIntervalMs: POLL_INTERVAL,
+      onTransportChange: (transport) => console.log(`📡 Event transport: ${transport}`),
+    },
+    idleTimeoutMs: IDLE_TIMEOUT,
+    handlers: {
+      onGameConnected: (result, event) => {
+        console.log(`🔗 Connected to game ${result.gameId}`);
+        console.log(`   User: ${event.data.user}`);
+        console.log(`   Payment: ${formatSui(event.data.payment_amount)} SUI (coin ${result.paymentCoinId})`);
+        console.log(`   Transaction: ${result.digest}`);
+      },
+      onConnectFailed: (gameId, error) => {
+        if (isAbort(error, 'E_GAME_NOT_WAITING', 'E_GAME_ALREADY_ACTIVE')) {
+          console.log(`⏭️  Game ${gameId} was taken by another robot`);
+          return;
+        }
+        console.log(`⏭️  Could not connect to game ${gameId}: ${error instanceof Error ? error.message : error}`);
+      },
+      onMove: async (event) => {
+        const { direction, timestamp } = event.data;
+        console.log(`🎯 Move ${DIRECTION_NAMES[direction]} (${direction}) at ${timestamp}`);
+        await drive(event);
+      },
+      onGameReleased: (gameId, reason) => {
+        console.log(`🏁 Released game ${gameId} (${reason})`);
+      },
+      onError: (error) => {
+        console.error('❌ Agent error:', error instanceof Error ? error.message : error);
+      },
+    },
+  });
+
+  console.log('🤖 Crossy Robot Agent');
+  console.log(`🌐 Network: ${network.name} (${network.rpcUrl})`);
+  console.log(`📦 Package ID: ${client.packageId}`);
+  console.log(`🤖 Robot Address: ${robotKeypair.toSuiAddress()}`);
+  console.log(`💾 State: ${STATE_PATH}`);
+  console.log(`⚙️  Actuator: ${actuator.name}`);
+  if (agent.activeGameId) {
+    console.log(`🎮 Resuming game ${agent.activeGameId}`);
+  }
+  console.log('');
+
+  const shutdown = (signal: string) => {
+    console.log(`\n🛑 ${signal} received, stopping agent...`);
+    agent.stop()
+      .then(() => actuator.close?.())
+      .then(() => console.log('✅ Agent stopped, state saved'));
+  };
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+
+  await agent.start();
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
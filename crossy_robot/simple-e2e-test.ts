@@ -2,320 +2,150 @@
 
 /**
  * Simple Crossy Robot E2E Test
- * 
+ *
  * A simplified test that validates the core contract functionality:
  * 1. User creates a game
  * 2. Robot connects to the game
  * 3. User sends movement commands
+ *
+ * Every step asserts the emitted events; JUnit and JSON reports are written
+ * to E2E_REPORT_DIR (default: reports).
  */
 
-import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
-import { Transaction } from '@mysten/sui/transactions';
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
-import { fromB64 } from '@mysten/sui/utils';
-import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
-import * as fs from 'fs';
+import type { Keypair } from '@mysten/sui/cryptography';
 import * as dotenv from 'dotenv';
+import {
+  CrossyRobotClient,
+  DIRECTIONS,
+  DIRECTION_NAMES,
+  GAME_COST,
+  Scenario,
+  ScenarioResult,
+  assert,
+  assertEqual,
+  assertEvent,
+  assertEventCount,
+  formatStepResult,
+  formatSui,
+  loadKeypairFromEnv,
+  loadNetworkProfile,
+  writeScenarioReports
+} from './src';
 
 // Load environment variables
 dotenv.config();
 
-// Configuration
-const DEPLOYMENT_INFO_PATH = './deployment_info.json';
-const GAME_COST = 50_000_000; // 0.05 SUI in MIST
-
-// Movement directions
-const DIRECTIONS = {
-  UP: 0,
-  DOWN: 1,
-  LEFT: 2,
-  RIGHT: 3,
-  UP_RIGHT: 4,
-  UP_LEFT: 5,
-  DOWN_LEFT: 6,
-  DOWN_RIGHT: 7
-} as const;
-
-const DIRECTION_NAMES = ['UP', 'DOWN', 'LEFT', 'RIGHT', 'UP_RIGHT', 'UP_LEFT', 'DOWN_LEFT', 'DOWN_RIGHT'];
-
-interface DeploymentInfo {
-  package_id: string;
-  transaction_digest: string;
-  network: string;
-}
+const REPORT_DIR = process.env.E2E_REPORT_DIR || 'reports';
 
 class SimpleCrossyRobotTest {
-  private client: SuiClient;
-  private userKeypair: Ed25519Keypair;
-  private robotKeypair: Ed25519Keypair;
-  private packageId: string;
-
-  constructor() {
-    // Initialize Sui client
-    this.client = new SuiClient({
-      url: getFullnodeUrl('testnet')
-    });
+  private client: CrossyRobotClient;
+  private userKeypair: Keypair;
+  private robotKeypair: Keypair;
 
+  constructor(client: CrossyRobotClient) {
     // Initialize wallets
-    this.userKeypair = this.createKeypairFromEnv('USER_PRIVATE_KEY');
-    this.robotKeypair = this.createKeypairFromEnv('ROBOT_PRIVATE_KEY');
+    this.userKeypair = loadKeypairFromEnv('USER_PRIVATE_KEY');
+    this.robotKeypair = loadKeypairFromEnv('ROBOT_PRIVATE_KEY');
 
-    // Load deployment info
-    this.packageId = this.loadPackageId();
+    this.client = client;
 
     console.log('🤖 Simple Crossy Robot E2E Test');
-    console.log(`📦 Package ID: ${this.packageId}`);
-    console.log(`👤 User Address: ${this.userKeypair.getPublicKey().toSuiAddress()}`);
-    console.log(`🤖 Robot Address: ${this.robotKeypair.getPublicKey().toSuiAddress()}`);
+    console.log(`🌐 Network: ${this.client.network?.name}`);
+    console.log(`📦 Package ID: ${this.client.packageId}`);
+    console.log(`👤 User Address: ${this.userKeypair.toSuiAddress()}`);
+    console.log(`🤖 Robot Address: ${this.robotKeypair.toSuiAddress()}`);
     console.log('');
   }
 
-  private createKeypairFromEnv(envVar: string): Ed25519Keypair {
-    const privateKey = process.env[envVar];
-    if (!privateKey) {
-      console.error(`❌ ${envVar} not found in environment variables`);
-      console.log('💡 Create a .env file with your wallet private keys');
-      process.exit(1);
-    }
+  private async checkWalletBalances(): Promise<void> {
+    // Game cost plus one transaction's gas for the user, gas for the robot; localnet tops up from the faucet
+    const gasBudget = this.client.gas?.settings.budget ?? 10_000_000n;
+    const userBalance = await this.client.ensureBalance(this.userKeypair.toSuiAddress(), GAME_COST + gasBudget);
+    const robotBalance = await this.client.ensureBalance(this.robotKeypair.toSuiAddress(), gasBudget);
 
-    try {
-      // Handle both Sui CLI format (suiprivkey1...) and base64 format
-      if (privateKey.startsWith('suiprivkey1')) {
-        const { schema, secretKey } = decodeSuiPrivateKey(privateKey);
-        if (schema === 'ED25519') {
-          return Ed25519Keypair.fromSecretKey(secretKey);
-        } else {
-          throw new Error('Only ED25519 keys are supported');
-        }
-      } else {
-        return Ed25519Keypair.fromSecretKey(fromB64(privateKey));
-      }
-    } catch (error) {
-      console.error(`❌ Invalid private key format for ${envVar}:`, error);
-      console.log('💡 Private key should be either Sui CLI format (suiprivkey1...) or base64 encoded');
-      process.exit(1);
-    }
+    console.log(`   👤 User balance: ${formatSui(userBalance)} SUI`);
+    console.log(`   🤖 Robot balance: ${formatSui(robotBalance)} SUI`);
   }
 
-  private loadPackageId(): string {
-    try {
-      const deploymentInfo: DeploymentInfo = JSON.parse(
-        fs.readFileSync(DEPLOYMENT_INFO_PATH, 'utf8')
-      );
-      return deploymentInfo.package_id;
-    } catch (error) {
-      console.error('❌ Could not load deployment info');
-      process.exit(1);
-    }
-  }
+  public async runTest(): Promise<ScenarioResult> {
+    console.log('🚀 Starting Simple Crossy Robot E2E Test...\n');
 
-  private async checkWalletBalances(): Promise<void> {
-    console.log('💰 Checking wallet balances...');
-    
-    const userBalance = await this.getWalletBalance(this.userKeypair.getPublicKey().toSuiAddress());
-    const robotBalance = await this.getWalletBalance(this.robotKeypair.getPublicKey().toSuiAddress());
-    
-    console.log(`👤 User balance: ${(userBalance / 1_000_000_000).toFixed(3)} SUI`);
-    console.log(`🤖 Robot balance: ${(robotBalance / 1_000_000_000).toFixed(3)} SUI`);
-    
-    if (userBalance < GAME_COST + 10_000_000) { // Game cost + gas
-      console.error('❌ User wallet has insufficient balance');
-      process.exit(1);
-    }
-    
-    console.log('✅ Wallet balances sufficient\n');
-  }
+    const userAddress = this.userKeypair.toSuiAddress();
+    const robotAddress = this.robotKeypair.toSuiAddress();
+    const testMovements = [DIRECTIONS.UP, DIRECTIONS.RIGHT, DIRECTIONS.DOWN, DIRECTIONS.LEFT];
+    let gameId = '';
 
-  private async getWalletBalance(address: string): Promise<number> {
-    try {
-      const balance = await this.client.getBalance({ owner: address });
-      return parseInt(balance.totalBalance);
-    } catch (error) {
-      console.error(`❌ Could not fetch balance for ${address}`);
-      return 0;
-    }
-  }
+    const scenario = new Scenario('simple-e2e', {
+      onStepStart: (name) => console.log(`▶️  ${name}`),
+      onStepEnd: (result) => console.log(`${formatStepResult(result)}\n`),
+    });
 
-  private async createGame(): Promise<string> {
-    console.log('🎮 Step 1: User creating game...');
-    
-    try {
-      const tx = new Transaction();
-      
-      // Split coins for exact payment
-      const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(GAME_COST)]);
-      
-      // Create game (now shared object)
-      tx.moveCall({
-        target: `${this.packageId}::crossy_robot::create_game`,
-        arguments: [
-          coin,
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      // Execute transaction
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.userKeypair,
-        transaction: tx,
-        options: {
-          showEffects: true,
-          showObjectChanges: true,
-        },
-      });
-      
-      if (result.effects?.status?.status !== 'success') {
-        throw new Error(`Transaction failed: ${result.effects?.status?.error}`);
-      }
-      
-      // Extract game object ID (now a shared object)
-      const gameObject = result.objectChanges?.find(
-        (change: any) => change.type === 'created' && 
-        change.objectType?.includes('Game')
-      );
-      
-      if (!gameObject) {
-        throw new Error('Game object not found in transaction result');
-      }
-      
-      const gameId = (gameObject as any).objectId;
-      console.log(`✅ Game created successfully!`);
+    scenario.step('Check wallet balances', () => this.checkWalletBalances());
+
+    scenario.step('User creates game', async () => {
+      const { gameId: createdId, digest, events } = await this.client.createGame(this.userKeypair);
+      gameId = createdId;
       console.log(`   Game ID: ${gameId}`);
-      console.log(`   Transaction: ${result.digest}\n`);
-      
-      return gameId;
-      
-    } catch (error) {
-      console.error('❌ Failed to create game:', error);
-      throw error;
-    }
-  }
+      console.log(`   Transaction: ${digest}`);
 
-  private async robotConnectToGame(gameId: string): Promise<void> {
-    console.log('🤖 Step 2: Robot connecting to game...');
-    
-    try {
-      const tx = new Transaction();
-      
-      // Connect robot and capture the returned payment coin
-      const [receivedCoin] = tx.moveCall({
-        target: `${this.packageId}::crossy_robot::connect_robot`,
-        arguments: [
-          tx.object(gameId),
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      // Transfer the payment coin to the robot
-      tx.transferObjects([receivedCoin], tx.pure.address(this.robotKeypair.getPublicKey().toSuiAddress()));
-      
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.robotKeypair,
-        transaction: tx,
-        options: {
-          showEffects: true,
-        },
-      });
-      
-      if (result.effects?.status?.status !== 'success') {
-        throw new Error(`Robot connection failed: ${result.effects?.status?.error}`);
-      }
-      
-      console.log(`✅ Robot connected to game!`);
-      console.log(`   Transaction: ${result.digest}\n`);
-      
-    } catch (error) {
-      console.error('❌ Robot failed to connect:', error);
-      throw error;
-    }
-  }
+      const created = assertEvent(events, 'crossy_robot::GameCreated');
+      assertEqual(created.data.game_id, gameId, 'GameCreated game_id');
+      assertEqual(created.data.user, userAddress, 'GameCreated user');
+      assertEqual(created.data.payment_amount, GAME_COST, 'GameCreated payment_amount');
+    });
 
-  private async sendMovementCommand(gameId: string, direction: number): Promise<void> {
-    const directionName = DIRECTION_NAMES[direction];
-    console.log(`👤 Step 3.${direction + 1}: User sending movement: ${directionName}...`);
-    
-    try {
-      const tx = new Transaction();
-      
-      tx.moveCall({
-        target: `${this.packageId}::crossy_robot::move_robot`,
-        arguments: [
-          tx.object(gameId),
-          tx.pure.u8(direction),
-          tx.object('0x6'), // Clock object
-        ],
-      });
-      
-      const result = await this.client.signAndExecuteTransaction({
-        signer: this.userKeypair,
-        transaction: tx,
-        options: {
-          showEffects: true,
-        },
+    scenario.step('Robot connects to game', async () => {
+      const connection = await this.client.connectRobot(this.robotKeypair, gameId);
+      console.log(`   Payment Coin: ${connection.paymentCoinId}`);
+      console.log(`   Transaction: ${connection.digest}`);
+
+      const connected = assertEvent(connection.events, 'crossy_robot::RobotConnected');
+      assertEqual(connected.data.game_id, gameId, 'RobotConnected game_id');
+      assertEqual(connected.data.robot, robotAddress, 'RobotConnected robot');
+      assertEqual(connection.recipient, robotAddress, 'Payment recipient');
+      assert(connection.paymentCoinId, 'Robot received no payment coin');
+    });
+
+    for (const direction of testMovements) {
+      scenario.step(`User sends ${DIRECTION_NAMES[direction]}`, async () => {
+        await delay(1000); // Wait 1 second between movements
+        const { digest, events } = await this.client.moveRobot(this.userKeypair, gameId, direction);
+        console.log(`   Transaction: ${digest}`);
+
+        const [moved] = assertEventCount(events, 'crossy_robot::RobotMoved', 1);
+        assertEqual(moved.data.game_id, gameId, 'RobotMoved game_id');
+        assertEqual(moved.data.direction, direction, 'RobotMoved direction');
       });
-      
-      if (result.effects?.status?.status !== 'success') {
-        throw new Error(`Movement command failed: ${result.effects?.status?.error}`);
-      }
-      
-      console.log(`✅ Movement command sent: ${directionName}`);
-      console.log(`   Transaction: ${result.digest}`);
-      
-    } catch (error) {
-      console.error(`❌ Failed to send movement command:`, error);
-      throw error;
     }
-  }
 
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return scenario.run();
   }
+}
 
-  public async runTest(): Promise<void> {
-    try {
-      console.log('🚀 Starting Simple Crossy Robot E2E Test...\n');
-      
-      // Check wallet balances
-      await this.checkWalletBalances();
-      
-      // Step 1: User creates game
-      const gameId = await this.createGame();
-      
-      // Step 2: Robot connects to game
-      await this.robotConnectToGame(gameId);
-      
-      // Step 3: Send movement commands
-      const testMovements = [DIRECTIONS.UP, DIRECTIONS.RIGHT, DIRECTIONS.DOWN, DIRECTIONS.LEFT];
-      
-      for (let i = 0; i < testMovements.length; i++) {
-        await this.delay(1000); // Wait 1 second between movements
-        await this.sendMovementCommand(gameId, testMovements[i]);
-      }
-      
-      console.log('\n🎉 All Tests Completed Successfully!');
-      console.log('');
-      console.log('📊 Test Summary:');
-      console.log('   ✅ Game created with 0.05 SUI payment');
-      console.log('   ✅ Robot connected and received payment');
-      console.log(`   ✅ ${testMovements.length} movement commands executed`);
-      console.log('   ✅ All transactions successful');
-      console.log('');
-      console.log('🎊 Crossy Robot contract is working perfectly! 🎊');
-      
-    } catch (error) {
-      console.error('❌ Test failed:', error);
-      process.exit(1);
-    }
-  }
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 // Main execution
 async function main() {
-  const test = new SimpleCrossyRobotTest();
-  await test.runTest();
+  const client = await CrossyRobotClient.connect(loadNetworkProfile());
+  const test = new SimpleCrossyRobotTest(client);
+  const result = await test.runTest();
+
+  const { junitPath, jsonPath } = writeScenarioReports([result], REPORT_DIR, 'simple-e2e');
+  console.log(`📄 Reports: ${junitPath}, ${jsonPath}`);
+
+  if (result.status !== 'passed') {
+    console.error('❌ Simple E2E test failed');
+    process.exit(1);
+  }
+  console.log('🎊 Crossy Robot contract is working perfectly! 🎊');
 }
 
 // Run the test
 if (require.main === module) {
-  main().catch(console.error);
-} 
\ No newline at end of file
+  main().catch((error) => {
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
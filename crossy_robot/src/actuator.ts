@@ -0,0 +1,168 @@
+/**
+ * Robot actuator abstraction.
+ *
+ * Maps the eight on-chain direction codes to driver calls. Backends (grid
+ * simulator, serial, GPIO, ROS, ...) implement {@link Actuator}; the move
+ * handler turns RobotMoved events into acknowledged motion commands.
+ */
+
+import { DIRECTIONS, Direction, DIRECTION_NAMES, isDirection } from './constants';
+import { CrossyRobotError } from './errors';
+import type { CrowdRobotMovedEvent, RobotMovedEvent } from './events';
+
+/** Unit step on the grid; +y is UP */
+export interface DirectionVector {
+  dx: -1 | 0 | 1;
+  dy: -1 | 0 | 1;
+}
+
+export const DIRECTION_VECTORS: Readonly<Record<Direction, DirectionVector>> = {
+  [DIRECTIONS.UP]: { dx: 0, dy: 1 },
+  [DIRECTIONS.DOWN]: { dx: 0, dy: -1 },
+  [DIRECTIONS.LEFT]: { dx: -1, dy: 0 },
+  [DIRECTIONS.RIGHT]: { dx: 1, dy: 0 },
+  [DIRECTIONS.UP_RIGHT]: { dx: 1, dy: 1 },
+  [DIRECTIONS.UP_LEFT]: { dx: -1, dy: 1 },
+  [DIRECTIONS.DOWN_LEFT]: { dx: -1, dy: -1 },
+  [DIRECTIONS.DOWN_RIGHT]: { dx: 1, dy: -1 },
+};
+
+/** Heading in degrees clockwise from UP */
+export const DIRECTION_HEADINGS: Readonly<Record<Direction, number>> = {
+  [DIRECTIONS.UP]: 0,
+  [DIRECTIONS.UP_RIGHT]: 45,
+  [DIRECTIONS.RIGHT]: 90,
+  [DIRECTIONS.DOWN_RIGHT]: 135,
+  [DIRECTIONS.DOWN]: 180,
+  [DIRECTIONS.DOWN_LEFT]: 225,
+  [DIRECTIONS.LEFT]: 270,
+  [DIRECTIONS.UP_LEFT]: 315,
+};
+
+export interface Pose {
+  x: number;
+  y: number;
+  /** Degrees clockwise from UP */
+  heading: number;
+}
+
+export interface MotionCommand {
+  direction: Direction;
+  gameId: string;
+  /** On-chain timestamp of the move */
+  timestamp: bigint;
+  /** crowd_robot move_number, when available */
+  moveNumber?: bigint;
+}
+
+/** Acknowledgement returned by a driver once a command has completed */
+export interface MotionAck {
+  command: MotionCommand;
+  actuator: string;
+  startedAt: number;
+  completedAt: number;
+  /** Pose after the motion, if the backend can report it */
+  pose?: Pose;
+  /** True if the backend shortened the motion (e.g. at a boundary) */
+  truncated?: boolean;
+}
+
+export type ActuatorErrorCode = 'INVALID_DIRECTION' | 'OUT_OF_BOUNDS' | 'BUSY' | 'TIMEOUT' | 'DRIVER_FAILURE';
+
+/** A driver rejected or failed to complete a motion command */
+export class ActuatorError extends CrossyRobotError {
+  constructor(
+    public readonly code: ActuatorErrorCode,
+    public readonly command: MotionCommand,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`${DIRECTION_NAMES[command.direction] ?? command.direction}: ${message}`, options);
+  }
+}
+
+export interface Actuator {
+  /** Backend name used in acknowledgements and logs */
+  readonly name: string;
+  /** Perform one motion; resolves with an ack or throws {@link ActuatorError} */
+  execute(command: MotionCommand): Promise<MotionAck>;
+  /** Halt any motion in progress */
+  stop?(): Promise<void>;
+  /** Release hardware resources */
+  close?(): Promise<void>;
+}
+
+export function motionCommandFromEvent(event: RobotMovedEvent | CrowdRobotMovedEvent): MotionCommand {
+  const command: MotionCommand = {
+    direction: event.data.direction,
+    gameId: event.data.game_id,
+    timestamp: event.data.timestamp,
+  };
+  if (event.type === 'crowd_robot::RobotMoved') {
+    command.moveNumber = event.data.move_number;
+  }
+  return command;
+}
+
+export interface MoveHandlerOptions {
+  /** Fail commands that take longer than this (default: no timeout) */
+  timeoutMs?: number;
+  onAck?(ack: MotionAck): void | Promise<void>;
+  onError?(error: ActuatorError): void | Promise<void>;
+}
+
+/**
+ * Build a RobotMoved handler that drives an actuator, e.g. for
+ * {@link RobotAgentHandlers.onMove}. Driver errors are reported through
+ * `onError` rather than thrown.
+ */
+export function createMoveHandler(
+  actuator: Actuator,
+  options: MoveHandlerOptions = {}
+): (event: RobotMovedEvent | CrowdRobotMovedEvent) => Promise<void> {
+  return async (event) => {
+    const command = motionCommandFromEvent(event);
+    try {
+      const ack = await executeMotion(actuator, command, options.timeoutMs);
+      await options.onAck?.(ack);
+    } catch (error) {
+      const actuatorError = error instanceof ActuatorError
+        ? error
+        : new ActuatorError('DRIVER_FAILURE', command, (error as Error)?.message ?? String(error), { cause: error });
+      await options.onError?.(actuatorError);
+    }
+  };
+}
+
+/**
+ * Validate and run a single command, optionally bounded by a timeout.
+ */
+export async function executeMotion(
+  actuator: Actuator,
+  command: MotionCommand,
+  timeoutMs?: number
+): Promise<MotionAck> {
+  if (!isDirection(command.direction)) {
+    throw new ActuatorError('INVALID_DIRECTION', command, 'direction must be 0-7');
+  }
+  if (!timeoutMs) {
+    return actuator.execute(command);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new ActuatorError('TIMEOUT', command, `${actuator.name} did not acknowledge within ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([actuator.execute(command), timeout]);
+  } catch (error) {
+    if (error instanceof ActuatorError && error.code === 'TIMEOUT') {
+      await actuator.stop?.();
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,495 @@
+/**
+ * Crossy Robot Client
+ *
+ * Typed wrapper around the crossy_robot (pay-to-play) and crowd_robot
+ * (free, crowd-controlled) Move modules. Every method either returns a typed
+ * result or throws a {@link CrossyRobotError}; nothing here logs or exits.
+ */
+
+import { SuiClient } from '@mysten/sui/client';
+import type {
+  EventId,
+  SuiObjectChange,
+  SuiObjectData,
+  SuiTransactionBlockResponse
+} from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { CLOCK_OBJECT_ID, Direction, GAME_COST, GameModule, isDirection } from './constants';
+import {
+  InsufficientGasError,
+  InvalidDirectionError,
+  ObjectDecodeError,
+  ObjectNotFoundError,
+  SignedTransactionError
+} from './errors';
+import { GameEvent, decodeGameEvent, decodeGameEvents } from './events';
+import {
+  CrowdGameState,
+  CrowdGameView,
+  GameState,
+  crowdGameView,
+  decodeClockTimestamp,
+  decodeCrowdGameState,
+  decodeGameState,
+  gameModuleOf
+} from './game-state';
+import { executeTransaction } from './execute';
+import { GasManager } from './gas';
+import { transactionFailure } from './move-abort';
+import { MoveCallSummary, TransactionContents, summarizeMoveCalls } from './move-calls';
+import { NetworkProfile, connectNetwork, requirePackage } from './network';
+import { RetryPolicy } from './retry';
+
+export interface CrossyRobotClientOptions {
+  client: SuiClient;
+  packageId: string;
+  /** Profile the client was built from, if any */
+  network?: NetworkProfile;
+  /** Dry-run budgets and coin selection; without it the SDK defaults apply */
+  gas?: GasManager;
+  /** How retryable failures are retried (default: DEFAULT_RETRY_POLICY); false disables retries */
+  retry?: RetryPolicy | false;
+}
+
+/** Common fields of every executed transaction */
+export interface TransactionOutcome {
+  digest: string;
+  events: GameEvent[];
+}
+
+export interface CreateGameResult extends TransactionOutcome {
+  gameId: string;
+}
+
+export interface ConnectRobotResult extends TransactionOutcome {
+  gameId: string;
+  /** Coin<SUI> released from the game's escrow */
+  paymentCoinId: string;
+  /** Address the payment coin was transferred to */
+  recipient: string;
+}
+
+export type MoveRobotResult = TransactionOutcome;
+
+export type EndGameResult = TransactionOutcome;
+
+export interface ConnectRobotOptions {
+  /** Where to send the payment coin (defaults to the signer) */
+  recipient?: string;
+}
+
+export interface QueryGameEventsOptions {
+  cursor?: EventId | null;
+  limit?: number;
+  /** Only events of one struct of the module, e.g. 'GameCreated' */
+  eventName?: string;
+  /** 'descending' pages newest first (default: 'ascending') */
+  order?: 'ascending' | 'descending';
+}
+
+export interface GameEventPage {
+  data: GameEvent[];
+  nextCursor: EventId | null;
+  hasNextPage: boolean;
+}
+
+export interface QueryGameHistoryOptions {
+  /** Digest of the last transaction of the previous page */
+  cursor?: string | null;
+  /** Transactions per page */
+  limit?: number;
+  /** 'descending' pages newest first (default: 'ascending') */
+  order?: 'ascending' | 'descending';
+}
+
+export interface GameHistoryPage {
+  data: GameEvent[];
+  nextCursor: string | null;
+  hasNextPage: boolean;
+}
+
+const SUI_COIN_TYPE = '0x2::coin::Coin<0x2::sui::SUI>';
+
+export class CrossyRobotClient {
+  public readonly suiClient: SuiClient;
+  public readonly packageId: string;
+  public readonly network: NetworkProfile | null;
+  public readonly gas: GasManager | null;
+  private readonly retry: RetryPolicy;
+
+  constructor(options: CrossyRobotClientOptions) {
+    this.suiClient = options.client;
+    this.packageId = normalizeSuiAddress(options.packageId);
+    this.network = options.network ?? null;
+    this.gas = options.gas ?? null;
+    this.retry = options.retry === false ? { maxAttempts: 1 } : options.retry ?? {};
+  }
+
+  /** Client for a network profile's crossy_robot deployment, after verifying the node serves that network */
+  static async connect(
+    profile: NetworkProfile,
+    options: Pick<CrossyRobotClientOptions, 'retry'> = {}
+  ): Promise<CrossyRobotClient> {
+    const client = await connectNetwork(profile, ['crossy_robot']);
+    return new CrossyRobotClient({
+      client,
+      packageId: requirePackage(profile, 'crossy_robot').packageId,
+      network: profile,
+      gas: GasManager.forNetwork(client, profile),
+      retry: options.retry,
+    });
+  }
+
+  // ===== crossy_robot =====
+
+  /** Create a pay-to-play game, paying GAME_COST from the signer's gas coin */
+  async createGame(signer: Signer): Promise<CreateGameResult> {
+    const result = await this.execute('Create game', signer, (tx) => {
+      const [coin] = tx.splitCoins(tx.gas, [tx.pure.u64(GAME_COST)]);
+      tx.moveCall({
+        target: this.target('crossy_robot', 'create_game'),
+        arguments: [coin, tx.object(CLOCK_OBJECT_ID)],
+      });
+    });
+    return {
+      ...this.outcome(result),
+      gameId: this.findCreatedGame(result, 'crossy_robot'),
+    };
+  }
+
+  /** Connect the signing robot to a waiting game and collect the payment */
+  async connectRobot(
+    signer: Signer,
+    gameId: string,
+    options: ConnectRobotOptions = {}
+  ): Promise<ConnectRobotResult> {
+    const recipient = options.recipient ?? signer.toSuiAddress();
+
+    const result = await this.execute('Robot connection', signer, (tx) => {
+      const [receivedCoin] = tx.moveCall({
+        target: this.target('crossy_robot', 'connect_robot'),
+        arguments: [tx.object(gameId), tx.object(CLOCK_OBJECT_ID)],
+      });
+      tx.transferObjects([receivedCoin], tx.pure.address(recipient));
+    });
+    const paymentCoin = result.objectChanges?.find(
+      (change) =>
+        change.type === 'created' &&
+        change.objectType === SUI_COIN_TYPE &&
+        ownerAddress(change) === normalizeSuiAddress(recipient)
+    );
+    if (!paymentCoin || paymentCoin.type !== 'created') {
+      throw new ObjectNotFoundError(`Payment coin not found in transaction ${result.digest}`);
+    }
+
+    return {
+      ...this.outcome(result),
+      gameId,
+      paymentCoinId: paymentCoin.objectId,
+      recipient,
+    };
+  }
+
+  /** Send a movement command to an active crossy_robot game */
+  async moveRobot(signer: Signer, gameId: string, direction: number): Promise<MoveRobotResult> {
+    return this.move('crossy_robot', signer, gameId, direction);
+  }
+
+  /** Whether a game is a crossy_robot or a crowd_robot Game */
+  async getGameModule(gameId: string): Promise<GameModule> {
+    const module = gameModuleOf(await this.getObject(gameId, 'Game'), this.packageId);
+    if (!module) {
+      throw new ObjectDecodeError(gameId, `Not a Game of package ${this.packageId}`);
+    }
+    return module;
+  }
+
+  /** Current crossy_robot::Game state */
+  async getGame(gameId: string): Promise<GameState> {
+    return decodeGameState(await this.getObject(gameId, 'Game'), this.packageId);
+  }
+
+  // ===== crowd_robot =====
+
+  /** Create a free crowd-controlled game */
+  async createCrowdGame(signer: Signer): Promise<CreateGameResult> {
+    const result = await this.execute('Create crowd game', signer, (tx) => {
+      tx.moveCall({
+        target: this.target('crowd_robot', 'create_game'),
+        arguments: [tx.object(CLOCK_OBJECT_ID)],
+      });
+    });
+    return {
+      ...this.outcome(result),
+      gameId: this.findCreatedGame(result, 'crowd_robot'),
+    };
+  }
+
+  /** Send a movement command to a crowd_robot game (any address may call) */
+  async moveCrowdRobot(signer: Signer, gameId: string, direction: number): Promise<MoveRobotResult> {
+    return this.move('crowd_robot', signer, gameId, direction);
+  }
+
+  /** End an expired crowd_robot game */
+  async endCrowdGame(signer: Signer, gameId: string): Promise<EndGameResult> {
+    const result = await this.execute('Game ending', signer, (tx) => {
+      tx.moveCall({
+        target: this.target('crowd_robot', 'end_game'),
+        arguments: [tx.object(gameId), tx.object(CLOCK_OBJECT_ID)],
+      });
+    });
+    return this.outcome(result);
+  }
+
+  /** Current crowd_robot::Game state */
+  async getCrowdGame(gameId: string): Promise<CrowdGameState> {
+    return decodeCrowdGameState(await this.getObject(gameId, 'Game'), this.packageId);
+  }
+
+  /**
+   * A crowd game and the Clock, read in one request so `expired` and
+   * `timeRemainingMs` match what `end_game` and `move_robot` would see.
+   */
+  async getCrowdGameView(gameId: string): Promise<CrowdGameView> {
+    const [game, clock] = await this.getObjects([gameId, CLOCK_OBJECT_ID], ['Game', 'Clock']);
+    return crowdGameView(decodeCrowdGameState(game, this.packageId), decodeClockTimestamp(clock));
+  }
+
+  // ===== Moves signed by the player =====
+
+  /**
+   * Unsigned move_robot transaction for a player who signs with their own
+   * wallet. The sender pays gas. Submit the signed bytes with
+   * `executeSignedMove`.
+   */
+  async buildMoveTransaction(
+    module: GameModule,
+    sender: string,
+    gameId: string,
+    direction: number
+  ): Promise<Uint8Array> {
+    if (!isDirection(direction)) {
+      throw new InvalidDirectionError(direction);
+    }
+    const tx = new Transaction();
+    tx.setSender(sender);
+    this.addMoveCall(tx, module, gameId, direction);
+    return tx.build({ client: this.suiClient });
+  }
+
+  /**
+   * Transaction kind (commands without gas or sender) of a crowd_robot move,
+   * for a player whose gas is paid by a sponsor (see MoveSponsor)
+   */
+  async buildCrowdMoveKind(gameId: string, direction: number): Promise<Uint8Array> {
+    if (!isDirection(direction)) {
+      throw new InvalidDirectionError(direction);
+    }
+    const tx = new Transaction();
+    this.addMoveCall(tx, 'crowd_robot', gameId, direction);
+    return tx.build({ client: this.suiClient, onlyTransactionKind: true });
+  }
+
+  /**
+   * Execute a move transaction signed by the player. Anything other than
+   * move_robot calls on `gameId` is rejected before it reaches the network.
+   * Signed bytes are fixed, so failures are not retried.
+   */
+  async executeSignedMove(
+    gameId: string,
+    transactionBytes: Uint8Array,
+    signature: string | string[]
+  ): Promise<MoveRobotResult> {
+    this.assertMoveTransaction(gameId, transactionBytes);
+    const result = await this.suiClient.executeTransactionBlock({
+      transactionBlock: transactionBytes,
+      signature,
+      options: { showEffects: true, showEvents: true },
+    });
+    if (result.effects?.status?.status !== 'success') {
+      throw transactionFailure('Movement command', result.digest, result.effects?.status?.error);
+    }
+    return this.outcome(result);
+  }
+
+  // ===== Shared helpers =====
+
+  /** `clock::timestamp_ms` of the shared Clock object */
+  async getChainTime(): Promise<bigint> {
+    return decodeClockTimestamp(await this.getObject(CLOCK_OBJECT_ID, 'Clock'));
+  }
+
+  /** Total SUI balance of an address in MIST */
+  async getBalance(address: string): Promise<bigint> {
+    const balance = await this.suiClient.getBalance({ owner: address });
+    return BigInt(balance.totalBalance);
+  }
+
+  /**
+   * Make sure an address holds at least `amount` MIST, topping it up from
+   * the faucet where the network profile allows it. Returns the balance.
+   */
+  async ensureBalance(address: string, amount: bigint): Promise<bigint> {
+    if (this.gas) {
+      return (await this.gas.ensureBalance(address, amount)).balance;
+    }
+    const balance = await this.getBalance(address);
+    if (balance < amount) {
+      throw new InsufficientGasError(address, amount, balance);
+    }
+    return balance;
+  }
+
+  /** Page through events emitted by one of the package's modules, oldest first by default */
+  async queryGameEvents(module: GameModule, options: QueryGameEventsOptions = {}): Promise<GameEventPage> {
+    const page = await this.suiClient.queryEvents({
+      query: options.eventName
+        ? { MoveEventType: `${this.packageId}::${module}::${options.eventName}` }
+        : { MoveEventModule: { package: this.packageId, module } },
+      cursor: options.cursor ?? null,
+      limit: options.limit,
+      order: options.order ?? 'ascending',
+    });
+
+    return {
+      data: page.data.map((event) => decodeGameEvent(event, this.packageId)),
+      nextCursor: page.nextCursor ?? null,
+      hasNextPage: page.hasNextPage,
+    };
+  }
+
+  /**
+   * Page through the events of one game, oldest first by default. Reads the
+   * transactions that changed the Game object, so no module-wide scan is
+   * needed. The cursor is a transaction digest.
+   */
+  async queryGameHistory(gameId: string, options: QueryGameHistoryOptions = {}): Promise<GameHistoryPage> {
+    const id = normalizeSuiAddress(gameId);
+    const page = await this.suiClient.queryTransactionBlocks({
+      filter: { ChangedObject: id },
+      options: { showEvents: true },
+      cursor: options.cursor ?? null,
+      limit: options.limit,
+      order: options.order ?? 'ascending',
+    });
+
+    return {
+      data: page.data.flatMap((transaction) =>
+        decodeGameEvents(transaction.events ?? [], this.packageId).filter((event) => event.data.game_id === id)
+      ),
+      nextCursor: page.nextCursor ?? null,
+      hasNextPage: page.hasNextPage,
+    };
+  }
+
+  /** Cursor of the newest event emitted by a module, or null if it has none */
+  async latestEventCursor(module: GameModule): Promise<EventId | null> {
+    const page = await this.suiClient.queryEvents({
+      query: { MoveEventModule: { package: this.packageId, module } },
+      limit: 1,
+      order: 'descending',
+    });
+    return page.data[0]?.id ?? null;
+  }
+
+  private async move(
+    module: GameModule,
+    signer: Signer,
+    gameId: string,
+    direction: number
+  ): Promise<MoveRobotResult> {
+    if (!isDirection(direction)) {
+      throw new InvalidDirectionError(direction);
+    }
+
+    const result = await this.execute('Movement command', signer, (tx) => {
+      this.addMoveCall(tx, module, gameId, direction);
+    });
+    return this.outcome(result);
+  }
+
+  private addMoveCall(tx: Transaction, module: GameModule, gameId: string, direction: Direction): void {
+    tx.moveCall({
+      target: this.target(module, 'move_robot'),
+      arguments: [tx.object(gameId), tx.pure.u8(direction), tx.object(CLOCK_OBJECT_ID)],
+    });
+  }
+
+  /** Throws unless every command of the transaction is move_robot on the given game */
+  private assertMoveTransaction(gameId: string, transactionBytes: Uint8Array): void {
+    let data: TransactionContents;
+    try {
+      data = Transaction.from(transactionBytes).getData();
+    } catch (error) {
+      throw new SignedTransactionError('Transaction bytes could not be decoded', { cause: error });
+    }
+
+    const id = normalizeSuiAddress(gameId);
+    const calls = summarizeMoveCalls(data);
+    const isGameMove = (call: MoveCallSummary | null): boolean =>
+      call !== null &&
+      call.package === this.packageId &&
+      (call.module === 'crossy_robot' || call.module === 'crowd_robot') &&
+      call.function === 'move_robot' &&
+      call.objectArguments[0] === id;
+    if (calls.length === 0 || !calls.every(isGameMove)) {
+      throw new SignedTransactionError(`Transaction does not only call move_robot on game ${id}`);
+    }
+  }
+
+  private target(module: GameModule, fn: string): `${string}::${string}::${string}` {
+    return `${this.packageId}::${module}::${fn}`;
+  }
+
+  private async execute(
+    action: string,
+    signer: Signer,
+    build: (tx: Transaction) => void
+  ): Promise<SuiTransactionBlockResponse> {
+    return executeTransaction({ suiClient: this.suiClient, gas: this.gas, retry: this.retry }, action, signer, build);
+  }
+
+  private outcome(result: SuiTransactionBlockResponse): TransactionOutcome {
+    return {
+      digest: result.digest,
+      events: decodeGameEvents(result.events ?? [], this.packageId),
+    };
+  }
+
+  private findCreatedGame(result: SuiTransactionBlockResponse, module: GameModule): string {
+    const gameType = `${this.packageId}::${module}::Game`;
+    const gameObject = result.objectChanges?.find(
+      (change) => change.type === 'created' && change.objectType === gameType
+    );
+    if (!gameObject || gameObject.type !== 'created') {
+      throw new ObjectNotFoundError(`Game object not found in transaction ${result.digest}`);
+    }
+    return gameObject.objectId;
+  }
+
+  private async getObject(id: string, label: string): Promise<SuiObjectData> {
+    const [object] = await this.getObjects([id], [label]);
+    return object;
+  }
+
+  /** Fetch objects with their content in one request, in the order given */
+  private async getObjects(ids: string[], labels: string[]): Promise<SuiObjectData[]> {
+    const responses = await this.suiClient.multiGetObjects({ ids, options: { showContent: true } });
+    return responses.map((response, i) => {
+      if (!response.data) {
+        throw new ObjectNotFoundError(`${labels[i]} object ${ids[i]} not found`);
+      }
+      return response.data;
+    });
+  }
+}
+
+function ownerAddress(change: SuiObjectChange): string | null {
+  if (change.type !== 'created') {
+    return null;
+  }
+  const owner = change.owner;
+  return typeof owner === 'object' && 'AddressOwner' in owner ? owner.AddressOwner : null;
+}
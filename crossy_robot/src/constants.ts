@@ -0,0 +1,78 @@
+/**
+ * Constants mirrored from the crossy_robot and crowd_robot Move modules.
+ *
+ * Keep these in sync with `sources/crossy_robot.move` and `sources/crowd_robot.move`.
+ */
+
+/** Shared Sui Clock object */
+export const CLOCK_OBJECT_ID = '0x6';
+
+/** Cost of a crossy_robot game (0.05 SUI in MIST) */
+export const GAME_COST = 50_000_000n;
+
+/** Duration of a crowd_robot game in milliseconds (2 minutes) */
+export const CROWD_GAME_DURATION_MS = 120_000;
+
+export const MIST_PER_SUI = 1_000_000_000n;
+
+// Movement directions (MOVE_UP through MOVE_DOWN_RIGHT)
+export const DIRECTIONS = {
+  UP: 0,
+  DOWN: 1,
+  LEFT: 2,
+  RIGHT: 3,
+  UP_RIGHT: 4,
+  UP_LEFT: 5,
+  DOWN_LEFT: 6,
+  DOWN_RIGHT: 7
+} as const;
+
+export type DirectionName = keyof typeof DIRECTIONS;
+export type Direction = (typeof DIRECTIONS)[DirectionName];
+
+export const DIRECTION_NAMES: readonly DirectionName[] = [
+  'UP', 'DOWN', 'LEFT', 'RIGHT', 'UP_RIGHT', 'UP_LEFT', 'DOWN_LEFT', 'DOWN_RIGHT'
+];
+
+// crossy_robot::Game status
+export const GAME_STATUS = {
+  WAITING_FOR_ROBOT: 0,
+  ACTIVE: 1
+} as const;
+
+export type GameStatus = (typeof GAME_STATUS)[keyof typeof GAME_STATUS];
+
+// crowd_robot::Game status
+export const CROWD_GAME_STATUS = {
+  WAITING: 0,
+  ACTIVE: 1,
+  ENDED: 2
+} as const;
+
+export type CrowdGameStatus = (typeof CROWD_GAME_STATUS)[keyof typeof CROWD_GAME_STATUS];
+
+/** Move modules published by the crossy_robot package */
+export type GameModule = 'crossy_robot' | 'crowd_robot';
+
+export function isDirection(value: number): value is Direction {
+  return Number.isInteger(value) && value >= 0 && value < DIRECTION_NAMES.length;
+}
+
+export function directionName(direction: number): DirectionName | 'UNKNOWN' {
+  return isDirection(direction) ? DIRECTION_NAMES[direction] : 'UNKNOWN';
+}
+
+/** Direction from a code ('4') or a name ('UP_RIGHT', 'up-right'); null if it is neither */
+export function parseDirection(value: string): Direction | null {
+  if (/^\d+$/.test(value)) {
+    const code = Number(value);
+    return isDirection(code) ? code : null;
+  }
+  const name = value.toUpperCase().replace(/-/g, '_');
+  return (DIRECTION_NAMES as readonly string[]).includes(name) ? DIRECTIONS[name as DirectionName] : null;
+}
+
+/** Format a MIST amount as SUI for display */
+export function formatSui(mist: bigint | number, fractionDigits: number = 3): string {
+  return (Number(mist) / Number(MIST_PER_SUI)).toFixed(fractionDigits);
+}
@@ -0,0 +1,295 @@
+/**
+ * Credential Registry Client
+ *
+ * Typed wrapper around the suibotics_did credential_registry module. An
+ * issuer anchors a credential by its schema and the SHA-256 of its
+ * off-chain JSON; the CredentialInfo object goes to the subject. Writes go
+ * through the shared executor like DidRegistryClient. Nothing here logs or
+ * exits.
+ */
+
+import { bcs } from '@mysten/sui/bcs';
+import { SuiClient } from '@mysten/sui/client';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import type { IdentityOutcome } from './did-client';
+import { ObjectNotFoundError } from './errors';
+import { Executor, checkBatchSize, confirmBatchResults, executeBatch, executeTransaction } from './execute';
+import { GasManager } from './gas';
+import { IdentityBatchOutcome } from './identity-batch';
+import { decodeIdentityEvents } from './identity-events';
+import { CredentialInfoState, credentialInfoType, decodeCredentialInfo } from './identity-state';
+import { MoveBytes, moveBytesToString, toMoveBytes } from './move-bytes';
+import { NetworkProfile, connectNetwork, requirePackage, requireSharedObject } from './network';
+import { RetryPolicy } from './retry';
+
+/** Length identity_types requires of a credential data hash */
+export const CREDENTIAL_HASH_LENGTH = 32;
+
+export interface CredentialRegistryClientOptions {
+  client: SuiClient;
+  packageId: string;
+  /** Shared credential_registry::CredentialRegistry object */
+  registryId: string;
+  /** Profile the client was built from, if any */
+  network?: NetworkProfile;
+  /** Dry-run budgets and coin selection; without it the SDK defaults apply */
+  gas?: GasManager;
+  /** How retryable failures are retried (default: DEFAULT_RETRY_POLICY); false disables retries */
+  retry?: RetryPolicy | false;
+}
+
+export interface IssueCredentialOptions {
+  /** Address controlling the subject's DID; receives the CredentialInfo */
+  subject: string;
+  /** e.g. 'FirmwareCertV1' */
+  schema: MoveBytes;
+  /** SHA-256 of the off-chain credential */
+  dataHash: Uint8Array;
+}
+
+export interface IssueCredentialResult extends IdentityOutcome {
+  /** ID of the CredentialInfo object transferred to the subject */
+  credentialId: string;
+  /** The signer's address */
+  issuer: string;
+}
+
+export interface IssueCredentialsBatchResult extends IdentityBatchOutcome {
+  /** CredentialInfo ID of each entry; null for entries that failed */
+  credentialIds: (string | null)[];
+  /** The signer's address, recorded as the issuer of every entry */
+  issuer: string;
+}
+
+/** Largest schema identity_types accepts */
+const MAX_SCHEMA_LENGTH = 255;
+
+export class CredentialRegistryClient {
+  public readonly suiClient: SuiClient;
+  public readonly packageId: string;
+  public readonly registryId: string;
+  public readonly network: NetworkProfile | null;
+  public readonly gas: GasManager | null;
+  private readonly retry: RetryPolicy;
+
+  constructor(options: CredentialRegistryClientOptions) {
+    this.suiClient = options.client;
+    this.packageId = normalizeSuiAddress(options.packageId);
+    this.registryId = normalizeSuiAddress(options.registryId);
+    this.network = options.network ?? null;
+    this.gas = options.gas ?? null;
+    this.retry = options.retry === false ? { maxAttempts: 1 } : options.retry ?? {};
+  }
+
+  /**
+   * Client for a network profile's suibotics_did deployment, after verifying
+   * the node serves that network. The profile must record the
+   * `credential_registry` shared object.
+   */
+  static async connect(
+    profile: NetworkProfile,
+    options: Pick<CredentialRegistryClientOptions, 'retry'> = {}
+  ): Promise<CredentialRegistryClient> {
+    const registryId = requireSharedObject(profile, 'suibotics_did', 'credential_registry');
+    const client = await connectNetwork(profile, ['suibotics_did']);
+    return new CredentialRegistryClient({
+      client,
+      packageId: requirePackage(profile, 'suibotics_did').packageId,
+      registryId,
+      network: profile,
+      gas: GasManager.forNetwork(client, profile),
+      retry: options.retry,
+    });
+  }
+
+  /**
+   * Issue a credential signed by the issuer's address.
+   *
+   * @throws RangeError if the hash is not CREDENTIAL_HASH_LENGTH bytes
+   */
+  async issueCredential(signer: Signer, options: IssueCredentialOptions): Promise<IssueCredentialResult> {
+    if (options.dataHash.length !== CREDENTIAL_HASH_LENGTH) {
+      throw new RangeError(`dataHash must be ${CREDENTIAL_HASH_LENGTH} bytes; got ${options.dataHash.length}`);
+    }
+    const result = await this.execute('Credential issuance', signer, (tx) => {
+      tx.moveCall({
+        target: this.target('issue_credential'),
+        arguments: [
+          tx.object(this.registryId),
+          tx.pure.address(options.subject),
+          tx.pure.vector('u8', toMoveBytes(options.schema)),
+          tx.pure.vector('u8', options.dataHash),
+        ],
+      });
+    });
+
+    const expectedType = credentialInfoType(this.packageId);
+    const credential = result.objectChanges?.find(
+      (change) => change.type === 'created' && normalizeStructTag(change.objectType) === expectedType
+    );
+    if (!credential || credential.type !== 'created') {
+      throw new ObjectNotFoundError(`CredentialInfo object not found in transaction ${result.digest}`);
+    }
+    return {
+      ...this.outcome(result),
+      credentialId: credential.objectId,
+      issuer: normalizeSuiAddress(signer.toSuiAddress()),
+    };
+  }
+
+  /**
+   * Issue up to MAX_IDENTITY_BATCH_SIZE credentials in one transaction.
+   * issue_credentials_batch takes the issuer of each entry as an argument
+   * without checking it; this always passes the signer's address.
+   *
+   * @throws RangeError if the batch is empty or too large, or an entry would
+   * abort the whole transaction (a hash that is not CREDENTIAL_HASH_LENGTH
+   * bytes, a schema over 255 bytes, the zero subject address)
+   */
+  async issueCredentialsBatch(signer: Signer, entries: IssueCredentialOptions[]): Promise<IssueCredentialsBatchResult> {
+    checkBatchSize(entries);
+    entries.forEach((entry, index) => {
+      if (entry.dataHash.length !== CREDENTIAL_HASH_LENGTH) {
+        throw new RangeError(`Entry ${index}: dataHash must be ${CREDENTIAL_HASH_LENGTH} bytes`);
+      }
+      if (toMoveBytes(entry.schema).length > MAX_SCHEMA_LENGTH) {
+        throw new RangeError(`Entry ${index}: schema must be at most ${MAX_SCHEMA_LENGTH} bytes`);
+      }
+      if (normalizeSuiAddress(entry.subject) === normalizeSuiAddress('0x0')) {
+        throw new RangeError(`Entry ${index}: subject cannot be the zero address`);
+      }
+    });
+    const issuer = normalizeSuiAddress(signer.toSuiAddress());
+    const bytesVector = bcs.vector(bcs.vector(bcs.u8()));
+
+    const { results, response } = await executeBatch(this.executor(), 'Credential batch issuance', signer, (tx) => {
+      tx.moveCall({
+        target: this.target('issue_credentials_batch'),
+        arguments: [
+          tx.object(this.registryId),
+          tx.pure.vector('address', entries.map((entry) => entry.subject)),
+          tx.pure.vector('address', entries.map(() => issuer)),
+          tx.pure(bytesVector.serialize(entries.map((entry) => toMoveBytes(entry.schema)))),
+          tx.pure(bytesVector.serialize(entries.map((entry) => entry.dataHash))),
+        ],
+      });
+      return 0;
+    });
+
+    // Each issued entry emits identity_types::CredentialIssued, in entry order
+    const events = response ? decodeIdentityEvents(response.events ?? [], this.packageId) : [];
+    const issued = events.flatMap((event) => (event.type === 'identity_types::CredentialIssued' ? [event.data] : []));
+    const credentialIds = new Map<number, string>();
+    results.filter((result) => result.success).forEach((result, i) => {
+      const event = issued[i];
+      const entry = entries[result.index];
+      if (event && event.subject === normalizeSuiAddress(entry.subject) && event.schema === moveBytesToString(toMoveBytes(entry.schema))) {
+        credentialIds.set(result.index, event.credential_id);
+      }
+    });
+    const confirmed = confirmBatchResults(results, (index) => credentialIds.has(index));
+    return {
+      digest: response?.digest ?? null,
+      events,
+      results: confirmed,
+      credentialIds: confirmed.map((result) => credentialIds.get(result.index) ?? null),
+      issuer,
+    };
+  }
+
+  /**
+   * Mark a credential as revoked. The CredentialInfo is owned by its subject,
+   * so the subject must sign; the module also lets the issuer revoke an
+   * object it holds.
+   */
+  async revokeCredential(signer: Signer, credentialId: string): Promise<IdentityOutcome> {
+    const result = await this.execute('Credential revocation', signer, (tx) => {
+      tx.moveCall({
+        target: this.target('revoke_credential'),
+        arguments: [tx.object(this.registryId), tx.object(credentialId)],
+      });
+    });
+    return this.outcome(result);
+  }
+
+  /** A CredentialInfo object */
+  async getCredential(credentialId: string): Promise<CredentialInfoState> {
+    const response = await this.suiClient.getObject({ id: credentialId, options: { showContent: true } });
+    if (!response.data) {
+      throw new ObjectNotFoundError(`CredentialInfo object ${credentialId} not found`);
+    }
+    return decodeCredentialInfo(response.data, this.packageId);
+  }
+
+  /**
+   * CredentialInfo objects currently owned by a subject. Issuance sends the
+   * CredentialInfo to the subject, so this lists what was issued to it
+   * unless the subject has since transferred the object away.
+   */
+  async findCredentials(subject: string): Promise<CredentialInfoState[]> {
+    const infos: CredentialInfoState[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.suiClient.getOwnedObjects({
+        owner: subject,
+        filter: { StructType: credentialInfoType(this.packageId) },
+        options: { showContent: true },
+        cursor,
+      });
+      for (const item of page.data) {
+        if (item.data) {
+          infos.push(decodeCredentialInfo(item.data, this.packageId));
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+    } while (cursor);
+    return infos;
+  }
+
+  /**
+   * Sender of the transaction that created a CredentialInfo, or null if the
+   * node does not know that transaction. issue_credentials_batch records
+   * whatever issuer its caller passes, so CredentialInfo.issuer alone does
+   * not show who issued a credential.
+   */
+  async getCredentialIssuer(credentialId: string): Promise<string | null> {
+    const id = normalizeSuiAddress(credentialId);
+    const page = await this.suiClient.queryTransactionBlocks({
+      filter: { ChangedObject: id },
+      options: { showInput: true, showObjectChanges: true },
+      limit: 1,
+      order: 'ascending',
+    });
+    const creation = page.data[0];
+    const created = creation?.objectChanges?.some(
+      (change) => change.type === 'created' && normalizeSuiAddress(change.objectId) === id
+    );
+    return created && creation.transaction ? normalizeSuiAddress(creation.transaction.data.sender) : null;
+  }
+
+  private target(fn: string): `${string}::${string}::${string}` {
+    return `${this.packageId}::credential_registry::${fn}`;
+  }
+
+  private async execute(
+    action: string,
+    signer: Signer,
+    build: (tx: Transaction) => void
+  ): Promise<SuiTransactionBlockResponse> {
+    return executeTransaction(this.executor(), action, signer, build);
+  }
+
+  private executor(): Executor {
+    return { suiClient: this.suiClient, gas: this.gas, retry: this.retry };
+  }
+
+  private outcome(result: SuiTransactionBlockResponse): IdentityOutcome {
+    return {
+      digest: result.digest,
+      events: decodeIdentityEvents(result.events ?? [], this.packageId),
+    };
+  }
+}
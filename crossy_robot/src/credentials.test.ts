@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict';
+import * as crypto from 'node:crypto';
+import { describe, it } from 'node:test';
+import type { SuiClient } from '@mysten/sui/client';
+import { toHex } from '@mysten/sui/utils';
+import { CredentialRegistryClient } from './credential-client';
+import {
+  FIRMWARE_CERT_V1,
+  VerifiableCredential,
+  anchorCredential,
+  buildCredential,
+  canonicalizeJson,
+  credentialDataHash,
+  verifyAnchoredCredential,
+} from './credentials';
+import type { DidRegistryClient } from './did-client';
+import { didForObject } from './did-resolver';
+
+const packageId = `0x${'5d'.repeat(32)}`;
+const address = (byte: string) => `0x${byte.repeat(32)}`;
+
+const certifier = address('c1');
+const robot = address('a7');
+const attacker = address('ee');
+const issuerDid = didForObject(address('01'));
+const subjectDid = didForObject(address('02'));
+const controllers: Record<string, string> = { [address('01')]: certifier, [address('02')]: robot };
+
+const credential = buildCredential({
+  schema: FIRMWARE_CERT_V1,
+  issuer: issuerDid,
+  subject: subjectDid,
+  claims: { firmwareName: 'nav-stack', version: '2.4.1', imageHash: 'ab'.repeat(32) },
+  id: 'urn:uuid:7a3c1f52-0d0e-4c51-9a51-2f7ac3d9b6e1',
+  validFrom: new Date('2026-01-01T00:00:00Z'),
+  validUntil: new Date('2027-01-01T00:00:00Z'),
+});
+const now = new Date('2026-06-01T00:00:00Z');
+
+describe('canonicalizeJson', () => {
+  it('serializes the RFC 8785 example', () => {
+    const value = {
+      numbers: [333333333.33333329, 1e30, 4.5, 2e-3, 0.000000000000000000000000001],
+      string: '\u20ac$\u000f\nA\'B"\\\\"/',
+      literals: [null, true, false],
+    };
+    assert.equal(
+      canonicalizeJson(value),
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],' +
+      '"string":"\u20ac$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    );
+  });
+
+  it('sorts members by UTF-16 code units', () => {
+    const value = { '\u20ac': 'Euro', '\r': 'Carriage', '\ufb33': 'Hebrew', '1': 'One', '\ud83d\ude00': 'Emoji', '\u0080': 'Control', '\u00f6': 'Latin' };
+    assert.equal(
+      canonicalizeJson(value),
+      '{"\\r":"Carriage","1":"One","\u0080":"Control","\u00f6":"Latin","\u20ac":"Euro","\ud83d\ude00":"Emoji","\ufb33":"Hebrew"}'
+    );
+  });
+
+  it('sorts nested objects and drops undefined members', () => {
+    assert.equal(canonicalizeJson({ b: [{ z: 1, a: undefined, y: { d: 0, c: -0 } }], a: 'x' }), '{"a":"x","b":[{"y":{"c":0,"d":0},"z":1}]}');
+  });
+
+  it('rejects values JSON cannot represent', () => {
+    for (const value of [NaN, Infinity, 1n, () => 0, Symbol('s'), { nested: [undefined, 1n] }]) {
+      assert.throws(() => canonicalizeJson(value), TypeError);
+    }
+  });
+});
+
+describe('credentialDataHash', () => {
+  it('does not depend on member order or whitespace', () => {
+    const reordered = JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(credential).reverse()), null, 2));
+    assert.deepEqual(credentialDataHash(reordered), credentialDataHash(credential));
+  });
+
+  it('is the SHA-256 of the canonical JSON', () => {
+    const expected = crypto.createHash('sha256').update(canonicalizeJson(credential), 'utf8').digest('hex');
+    assert.equal(toHex(credentialDataHash(credential)), expected);
+  });
+
+  it('changes with any claim', () => {
+    const tampered = { ...credential, credentialSubject: { ...credential.credentialSubject, version: '2.4.2' } };
+    assert.notDeepEqual(credentialDataHash(tampered), credentialDataHash(credential));
+  });
+});
+
+describe('verifyAnchoredCredential', () => {
+  const credentialId = address('cc');
+
+  /** Registry client over a node holding one CredentialInfo created by `sender` */
+  function registry(onChain: { issuer: string; sender: string; revoked?: boolean }) {
+    const bytes = (value: Uint8Array | string) => Array.from(typeof value === 'string' ? new TextEncoder().encode(value) : value);
+    const suiClient = {
+      async getObject() {
+        return {
+          data: {
+            objectId: credentialId,
+            version: '1',
+            digest: '1'.repeat(32),
+            content: {
+              dataType: 'moveObject',
+              type: `${packageId}::identity_types::CredentialInfo`,
+              hasPublicTransfer: false,
+              fields: {
+                id: { id: credentialId },
+                subject: robot,
+                issuer: onChain.issuer,
+                schema: bytes('FirmwareCertV1'),
+                data_hash: bytes(credentialDataHash(credential)),
+                revoked: onChain.revoked ?? false,
+                issued_at: '1767225600000',
+              },
+            },
+          },
+        };
+      },
+      async queryTransactionBlocks() {
+        return {
+          data: [{
+            digest: 'creation',
+            transaction: { data: { sender: onChain.sender } },
+            objectChanges: [{ type: 'created', objectId: credentialId }],
+          }],
+          hasNextPage: false,
+          nextCursor: null,
+        };
+      },
+    };
+    return new CredentialRegistryClient({
+      client: suiClient as unknown as SuiClient,
+      packageId,
+      registryId: address('77'),
+    });
+  }
+
+  const dids = {
+    async getDidInfo(didId: string) {
+      return { id: didId, controller: controllers[didId], created_at: 0n };
+    },
+  } as unknown as DidRegistryClient;
+
+  const codes = async (client: CredentialRegistryClient, presented: VerifiableCredential = credential) =>
+    (await verifyAnchoredCredential(client, dids, { credential: presented, credentialId }, { now })).problems
+      .map((problem) => problem.code);
+
+  it('accepts a credential anchored by its issuer', async () => {
+    assert.deepEqual(await codes(registry({ issuer: certifier, sender: certifier })), []);
+  });
+
+  it('rejects a batch anchor that names another issuer', async () => {
+    // issue_credentials_batch lets the attacker record the certifier as issuer
+    const verification = await verifyAnchoredCredential(
+      registry({ issuer: certifier, sender: attacker }),
+      dids,
+      { credential, credentialId },
+      { now }
+    );
+    assert.equal(verification.valid, false);
+    assert.deepEqual(verification.problems.map((problem) => problem.code), ['issuer_mismatch']);
+    assert.match(verification.problems[0].message, new RegExp(`created by ${attacker}`));
+  });
+
+  it("rejects an anchor the issuer DID's controller did not create", async () => {
+    assert.deepEqual(await codes(registry({ issuer: attacker, sender: attacker })), ['issuer_mismatch']);
+  });
+
+  it('reports tampering, revocation and expiry', async () => {
+    const tampered = { ...credential, credentialSubject: { ...credential.credentialSubject, version: '9.9.9' } };
+    assert.deepEqual(await codes(registry({ issuer: certifier, sender: certifier }), tampered), ['hash_mismatch']);
+    assert.deepEqual(await codes(registry({ issuer: certifier, sender: certifier, revoked: true })), ['revoked']);
+
+    const expired = await verifyAnchoredCredential(
+      registry({ issuer: certifier, sender: certifier }),
+      dids,
+      { credential, credentialId },
+      { now: new Date('2027-01-01T00:00:00Z') }
+    );
+    assert.deepEqual(expired.problems.map((problem) => problem.code), ['expired']);
+  });
+
+  it('reports presented JSON that is not a credential object', async () => {
+    for (const presented of [null, 'credential', 42, { ...credential, type: 'FirmwareCertV1' }]) {
+      assert.deepEqual(
+        await codes(registry({ issuer: certifier, sender: certifier }), presented as unknown as VerifiableCredential),
+        ['invalid_credential']
+      );
+    }
+  });
+});
+
+describe('anchorCredential', () => {
+  it('rejects a malformed credential before any lookup', async () => {
+    const unused = {} as never;
+    for (const malformed of [null, 'credential', { ...credential, credentialSubject: undefined }]) {
+      await assert.rejects(
+        anchorCredential(unused, unused, unused, malformed as unknown as VerifiableCredential),
+        (error) => error instanceof RangeError && /Credential is malformed: /.test(error.message)
+      );
+    }
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Verifiable Credentials
+ *
+ * W3C Verifiable Credentials (data model 2.0) whose integrity is anchored on
+ * chain instead of by an embedded proof. The issuer builds the credential
+ * JSON, and `anchorCredential` records its schema and SHA-256 in a
+ * CredentialInfo sent to the subject. The hash is taken over the JSON
+ * Canonicalization Scheme (RFC 8785) form, so any holder can re-serialize
+ * the JSON without breaking it. `verifyAnchoredCredential` recomputes the
+ * hash and checks the CredentialInfo: the schema, that it is not revoked,
+ * and that the issuer and subject addresses control the credential's DIDs.
+ * The issuer is the sender of the transaction that created the
+ * CredentialInfo; the issuer it records must be the same address.
+ */
+
+import * as crypto from 'crypto';
+import type { Signer } from '@mysten/sui/cryptography';
+import { normalizeSuiAddress, toHex } from '@mysten/sui/utils';
+import { CredentialRegistryClient, IssueCredentialResult } from './credential-client';
+import { DidRegistryClient } from './did-client';
+import { findSuiDidId, parseSuiDid } from './did-resolver';
+import { ObjectDecodeError, ObjectNotFoundError } from './errors';
+import { CredentialInfoState } from './identity-state';
+
+export const VC_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+export const VC_BASE_TYPE = 'VerifiableCredential';
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  /** VC_BASE_TYPE followed by the schema name */
+  type: string[];
+  /** Issuer DID */
+  issuer: string;
+  /** ISO 8601 */
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: { id: string; [claim: string]: unknown };
+}
+
+/** A credential as presented by its holder, with the CredentialInfo anchoring it */
+export interface AnchoredCredential {
+  credential: VerifiableCredential;
+  /** CredentialInfo object ID */
+  credentialId: string;
+}
+
+/** Claims a credential type carries; the name is recorded on chain */
+export interface CredentialSchema {
+  /** e.g. 'FirmwareCertV1'; at most 255 bytes */
+  name: string;
+  /** Problems with the claims; empty if they are valid */
+  validate(claims: Record<string, unknown>): string[];
+}
+
+/** Claims of FIRMWARE_CERT_V1 */
+export interface FirmwareCertClaims {
+  firmwareName: string;
+  version: string;
+  /** SHA-256 of the firmware image, hex encoded */
+  imageHash: string;
+}
+
+/** Certifies the firmware image a robot runs */
+export const FIRMWARE_CERT_V1: CredentialSchema = {
+  name: 'FirmwareCertV1',
+  validate(claims) {
+    const problems: string[] = [];
+    for (const name of ['firmwareName', 'version'] as const) {
+      if (typeof claims[name] !== 'string' || claims[name] === '') {
+        problems.push(`${name} must be a non-empty string`);
+      }
+    }
+    if (typeof claims.imageHash !== 'string' || !/^[0-9a-f]{64}$/.test(claims.imageHash)) {
+      problems.push('imageHash must be 64 lowercase hex characters');
+    }
+    return problems;
+  },
+};
+
+export interface BuildCredentialOptions {
+  schema: CredentialSchema;
+  /** did:sui DID of the issuer */
+  issuer: string;
+  /** did:sui DID of the subject, e.g. a robot */
+  subject: string;
+  claims: Record<string, unknown>;
+  /** default: a random urn:uuid */
+  id?: string;
+  /** default: now */
+  validFrom?: Date;
+  validUntil?: Date;
+}
+
+export interface AnchorCredentialResult extends IssueCredentialResult {
+  anchored: AnchoredCredential;
+}
+
+export type CredentialProblemCode =
+  | 'invalid_credential'
+  | 'not_found'
+  | 'hash_mismatch'
+  | 'schema_mismatch'
+  | 'issuer_mismatch'
+  | 'subject_mismatch'
+  | 'revoked'
+  | 'not_yet_valid'
+  | 'expired';
+
+export interface CredentialProblem {
+  code: CredentialProblemCode;
+  message: string;
+}
+
+export interface CredentialVerification {
+  /** True when there are no problems */
+  valid: boolean;
+  problems: CredentialProblem[];
+  /** The anchoring CredentialInfo, or null if it could not be read */
+  onChain: CredentialInfoState | null;
+}
+
+export interface VerifyCredentialOptions {
+  /** Schemas whose claims are validated; others are only checked on chain (default: [FIRMWARE_CERT_V1]) */
+  schemas?: CredentialSchema[];
+  /** default: now */
+  now?: Date;
+}
+
+// ===== Building and hashing =====
+
+/**
+ * Build an unanchored credential.
+ *
+ * @throws RangeError if a DID is not a did:sui DID or the claims do not fit the schema
+ */
+export function buildCredential(options: BuildCredentialOptions): VerifiableCredential {
+  for (const [role, did] of [['issuer', options.issuer], ['subject', options.subject]] as const) {
+    if (!parseSuiDid(did)) {
+      throw new RangeError(`${role} ${did} is not a did:sui DID`);
+    }
+  }
+  if ('id' in options.claims) {
+    throw new RangeError('claims cannot contain id; it is the subject DID');
+  }
+  const problems = options.schema.validate(options.claims);
+  if (problems.length > 0) {
+    throw new RangeError(`Invalid ${options.schema.name} claims: ${problems.join('; ')}`);
+  }
+  const validFrom = options.validFrom ?? new Date();
+  if (options.validUntil && options.validUntil <= validFrom) {
+    throw new RangeError('validUntil must be after validFrom');
+  }
+
+  return {
+    '@context': [VC_CONTEXT],
+    id: options.id ?? `urn:uuid:${crypto.randomUUID()}`,
+    type: [VC_BASE_TYPE, options.schema.name],
+    issuer: options.issuer,
+    validFrom: validFrom.toISOString(),
+    ...(options.validUntil ? { validUntil: options.validUntil.toISOString() } : {}),
+    credentialSubject: { id: options.subject, ...options.claims },
+  };
+}
+
+/**
+ * RFC 8785 canonical JSON: object members sorted by UTF-16 code units, no
+ * whitespace, ECMAScript number and string serialization. Members whose
+ * value is undefined are dropped, as JSON.stringify drops them.
+ *
+ * @throws TypeError for values JSON cannot represent (NaN, bigint, functions, ...)
+ */
+export function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new TypeError(`${value} cannot be represented in JSON`);
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalizeJson(item)).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const members = Object.keys(value as object)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalizeJson((value as Record<string, unknown>)[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  throw new TypeError(`A ${typeof value} cannot be represented in JSON`);
+}
+
+/** SHA-256 of the canonical JSON of a credential; the CredentialInfo data_hash */
+export function credentialDataHash(credential: VerifiableCredential): Uint8Array {
+  return new Uint8Array(crypto.createHash('sha256').update(canonicalizeJson(credential), 'utf8').digest());
+}
+
+/** Schema name of a credential: its one type besides VC_BASE_TYPE, or null */
+export function credentialSchemaName(credential: VerifiableCredential): string | null {
+  const types = Array.isArray(credential.type) ? credential.type.filter((type) => type !== VC_BASE_TYPE) : [];
+  return types.length === 1 && typeof types[0] === 'string' ? types[0] : null;
+}
+
+// ===== Anchoring =====
+
+/**
+ * Record a credential's schema and hash on chain. The signer must control
+ * the issuer DID; the CredentialInfo goes to the controller of the subject DID.
+ *
+ * @throws RangeError if the credential is malformed or the signer does not
+ *   control the issuer DID
+ * @throws ObjectNotFoundError if a DID cannot be found
+ */
+export async function anchorCredential(
+  registry: CredentialRegistryClient,
+  dids: DidRegistryClient,
+  signer: Signer,
+  credential: VerifiableCredential
+): Promise<AnchorCredentialResult> {
+  const shapeProblems = credentialShapeProblems(credential, []);
+  if (shapeProblems.length > 0) {
+    throw new RangeError(`Credential is malformed: ${shapeProblems.join('; ')}`);
+  }
+  const schema = credentialSchemaName(credential)!;
+  const issuer = await didController(dids, credential.issuer);
+  const signerAddress = normalizeSuiAddress(signer.toSuiAddress());
+  if (issuer !== signerAddress) {
+    throw new RangeError(`${credential.issuer} is controlled by ${issuer}, not the signer ${signerAddress}`);
+  }
+  const subject = await didController(dids, credential.credentialSubject.id);
+
+  const result = await registry.issueCredential(signer, {
+    subject,
+    schema,
+    dataHash: credentialDataHash(credential),
+  });
+  return { ...result, anchored: { credential, credentialId: result.credentialId } };
+}
+
+// ===== Verification =====
+
+/**
+ * Check a presented credential against the CredentialInfo anchoring it.
+ * Problems with the credential are reported, not thrown; RPC failures
+ * other than missing objects pass through.
+ */
+export async function verifyAnchoredCredential(
+  registry: CredentialRegistryClient,
+  dids: DidRegistryClient,
+  presented: AnchoredCredential,
+  options: VerifyCredentialOptions = {}
+): Promise<CredentialVerification> {
+  const problems: CredentialProblem[] = [];
+  const report = (code: CredentialProblemCode, message: string) => problems.push({ code, message });
+  const { credential } = presented;
+
+  let onChain: CredentialInfoState | null = null;
+  try {
+    onChain = await registry.getCredential(presented.credentialId);
+  } catch (error) {
+    if (!(error instanceof ObjectNotFoundError || error instanceof ObjectDecodeError)) {
+      throw error;
+    }
+    report('not_found', error.message);
+  }
+
+  const shapeProblems = credentialShapeProblems(credential, options.schemas ?? [FIRMWARE_CERT_V1]);
+  shapeProblems.forEach((message) => report('invalid_credential', message));
+  if (!onChain || shapeProblems.length > 0) {
+    return { valid: false, problems, onChain };
+  }
+  const schemaName = credentialSchemaName(credential);
+
+  let hash: Uint8Array | null = null;
+  try {
+    hash = credentialDataHash(credential);
+  } catch (error) {
+    report('invalid_credential', error instanceof Error ? error.message : String(error));
+  }
+  if (hash && toHex(hash) !== toHex(onChain.data_hash)) {
+    report('hash_mismatch', 'Credential does not match the data_hash recorded on chain');
+  }
+  if (schemaName !== onChain.schema) {
+    report('schema_mismatch', `Credential is a ${schemaName}; the chain records ${onChain.schema}`);
+  }
+  if (onChain.revoked) {
+    report('revoked', `Credential ${onChain.id} is revoked`);
+  }
+
+  // issue_credentials_batch takes the recorded issuer from its caller
+  const issuer = await registry.getCredentialIssuer(onChain.id);
+  if (issuer === null) {
+    report('issuer_mismatch', `The transaction that created ${onChain.id} was not found, so its issuer is unknown`);
+  } else if (issuer !== onChain.issuer) {
+    report('issuer_mismatch', `${onChain.id} records issuer ${onChain.issuer} but was created by ${issuer}`);
+  }
+
+  for (const [role, did, address] of [
+    ['issuer', credential.issuer, issuer === onChain.issuer ? issuer : null],
+    ['subject', credential.credentialSubject.id, onChain.subject],
+  ] as const) {
+    if (address === null) {
+      continue;
+    }
+    const code = role === 'issuer' ? 'issuer_mismatch' : 'subject_mismatch';
+    try {
+      const controller = await didController(dids, did);
+      if (controller !== address) {
+        report(code, `${did} is controlled by ${controller}, but the chain records ${role} ${address}`);
+      }
+    } catch (error) {
+      if (!(error instanceof ObjectNotFoundError || error instanceof ObjectDecodeError)) {
+        throw error;
+      }
+      report(code, error.message);
+    }
+  }
+
+  const now = (options.now ?? new Date()).getTime();
+  if (now < Date.parse(credential.validFrom)) {
+    report('not_yet_valid', `Credential is valid from ${credential.validFrom}`);
+  }
+  if (credential.validUntil !== undefined && now >= Date.parse(credential.validUntil)) {
+    report('expired', `Credential expired at ${credential.validUntil}`);
+  }
+
+  return { valid: problems.length === 0, problems, onChain };
+}
+
+/** Address controlling a did:sui DID */
+async function didController(dids: DidRegistryClient, did: string): Promise<string> {
+  return (await dids.getDidInfo(await findSuiDidId(dids, did))).controller;
+}
+
+/** What keeps presented JSON from being checked as a credential */
+function credentialShapeProblems(credential: VerifiableCredential, schemas: CredentialSchema[]): string[] {
+  if (typeof credential !== 'object' || credential === null) {
+    return ['Credential is not a JSON object'];
+  }
+  const schemaName = credentialSchemaName(credential);
+  const problems: string[] = [];
+  if (!Array.isArray(credential['@context']) || credential['@context'][0] !== VC_CONTEXT) {
+    problems.push(`@context must start with ${VC_CONTEXT}`);
+  }
+  if (schemaName === null || credential.type[0] !== VC_BASE_TYPE) {
+    problems.push(`type must be [${VC_BASE_TYPE}, <schema>]`);
+  }
+  if (typeof credential.issuer !== 'string' || !parseSuiDid(credential.issuer)) {
+    problems.push('issuer must be a did:sui DID');
+  }
+  const subject = credential.credentialSubject;
+  if (typeof subject !== 'object' || subject === null || typeof subject.id !== 'string' || !parseSuiDid(subject.id)) {
+    problems.push('credentialSubject.id must be a did:sui DID');
+  }
+  for (const name of ['validFrom', 'validUntil'] as const) {
+    const value = credential[name];
+    if ((value !== undefined || name === 'validFrom') && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+      problems.push(`${name} must be an ISO 8601 date`);
+    }
+  }
+  const schema = schemas.find((candidate) => candidate.name === schemaName);
+  if (schema && typeof subject === 'object' && subject !== null) {
+    const { id: _id, ...claims } = subject;
+    problems.push(...schema.validate(claims).map((problem) => `${schema.name}: ${problem}`));
+  }
+  return problems;
+}
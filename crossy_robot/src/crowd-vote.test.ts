@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DIRECTIONS, Direction } from './constants';
+import { CrowdVote, resolveVotes } from './crowd-vote';
+
+const { UP, DOWN, LEFT, RIGHT, UP_RIGHT, UP_LEFT } = DIRECTIONS;
+
+function votes(...entries: (Direction | [Direction, boolean])[]): CrowdVote[] {
+  return entries.map((entry, i) => {
+    const [direction, isNewPlayer] = Array.isArray(entry) ? entry : [entry, false];
+    return {
+      moveNumber: BigInt(i + 1),
+      player: `0x${(i + 1).toString(16)}`,
+      direction,
+      timestamp: BigInt(1_700_000_000_000 + i),
+      isNewPlayer,
+    };
+  });
+}
+
+describe('resolveVotes', () => {
+  it('resolves no votes to no direction', () => {
+    for (const strategy of ['majority', 'weighted-new-player', 'first-come', 'vector-sum'] as const) {
+      assert.deepEqual(resolveVotes([], strategy), { direction: null, tally: {} });
+    }
+  });
+
+  describe('first-come', () => {
+    it('picks the lowest move_number and counts every vote', () => {
+      const result = resolveVotes(votes(LEFT, UP, UP, UP), 'first-come');
+      assert.equal(result.direction, LEFT);
+      assert.deepEqual(result.tally, { [LEFT]: 1, [UP]: 3 });
+    });
+  });
+
+  describe('majority', () => {
+    it('picks the most voted direction', () => {
+      const result = resolveVotes(votes(LEFT, UP, UP, RIGHT), 'majority');
+      assert.equal(result.direction, UP);
+      assert.deepEqual(result.tally, { [LEFT]: 1, [UP]: 2, [RIGHT]: 1 });
+    });
+
+    it('breaks ties by the earliest vote', () => {
+      assert.equal(resolveVotes(votes(RIGHT, UP, UP, RIGHT), 'majority').direction, RIGHT);
+      assert.equal(resolveVotes(votes(UP, RIGHT, RIGHT, UP), 'majority').direction, UP);
+    });
+
+    it('ignores new players', () => {
+      const result = resolveVotes(votes([LEFT, true], UP, UP), 'majority');
+      assert.equal(result.direction, UP);
+    });
+  });
+
+  describe('weighted-new-player', () => {
+    it('counts new players with the default weight of 2', () => {
+      const result = resolveVotes(votes(UP, [LEFT, true]), 'weighted-new-player');
+      assert.equal(result.direction, LEFT);
+      assert.deepEqual(result.tally, { [UP]: 1, [LEFT]: 2 });
+    });
+
+    it('uses the given weight', () => {
+      const result = resolveVotes(votes(UP, UP, UP, [LEFT, true]), 'weighted-new-player', 3);
+      assert.equal(result.direction, UP);
+      assert.deepEqual(result.tally, { [UP]: 3, [LEFT]: 3 });
+    });
+  });
+
+  describe('vector-sum', () => {
+    it('picks the direction nearest the summed unit vectors', () => {
+      assert.equal(resolveVotes(votes(UP, RIGHT), 'vector-sum').direction, UP_RIGHT);
+      assert.equal(resolveVotes(votes(UP, UP, UP, LEFT), 'vector-sum').direction, UP);
+      assert.equal(resolveVotes(votes(UP_LEFT, UP_RIGHT), 'vector-sum').direction, UP);
+    });
+
+    it('resolves votes that cancel out to no direction', () => {
+      const result = resolveVotes(votes(UP, DOWN, LEFT, RIGHT), 'vector-sum');
+      assert.equal(result.direction, null);
+      assert.deepEqual(result.tally, { [UP]: 1, [DOWN]: 1, [LEFT]: 1, [RIGHT]: 1 });
+    });
+
+    it('breaks a vector halfway between two directions by the earliest vote', () => {
+      assert.equal(resolveVotes(votes(UP, UP_RIGHT), 'vector-sum').direction, UP);
+      assert.equal(resolveVotes(votes(UP_RIGHT, UP), 'vector-sum').direction, UP_RIGHT);
+      assert.equal(resolveVotes(votes(LEFT, UP_LEFT), 'vector-sum').direction, LEFT);
+      assert.equal(resolveVotes(votes(UP_LEFT, LEFT), 'vector-sum').direction, UP_LEFT);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Crowd Vote Controller
+ *
+ * Turns many simultaneous crowd_robot move commands into one physical motion
+ * per window. Moves are grouped into time or move-count windows, ordered by
+ * move_number, and resolved with a configurable strategy. Every decision is
+ * emitted together with the votes behind it for auditing and display.
+ */
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DIRECTION_HEADINGS, DIRECTION_VECTORS, MotionCommand } from './actuator';
+import { DIRECTION_NAMES, Direction } from './constants';
+import type { CrowdRobotMovedEvent } from './events';
+
+export type VoteStrategy = 'majority' | 'weighted-new-player' | 'first-come' | 'vector-sum';
+
+export type VoteWindow =
+  /** Close a window this long after its first vote arrives */
+  | { kind: 'time'; durationMs: number }
+  /** Close a window once it holds this many votes */
+  | { kind: 'count'; moves: number };
+
+export interface CrowdVote {
+  moveNumber: bigint;
+  player: string;
+  direction: Direction;
+  timestamp: bigint;
+  isNewPlayer: boolean;
+}
+
+export interface VoteDecision {
+  gameId: string;
+  /** Sequential window index, starting at 0 */
+  window: number;
+  strategy: VoteStrategy;
+  /** Winning direction, or null if the votes cancel out (vector-sum) */
+  direction: Direction | null;
+  /** Votes in move_number order */
+  votes: CrowdVote[];
+  /** Score per direction under the chosen strategy */
+  tally: Partial<Record<Direction, number>>;
+  openedAt: number;
+  closedAt: number;
+}
+
+export interface CrowdVoteControllerOptions {
+  gameId: string;
+  window: VoteWindow;
+  strategy: VoteStrategy;
+  /** Weight of a player's first move under 'weighted-new-player' (default: 2) */
+  newPlayerWeight?: number;
+  onDecision(decision: VoteDecision): void | Promise<void>;
+  /** A vote arrived for a move_number that was already resolved or seen */
+  onLateVote?(vote: CrowdVote): void;
+  onError?(error: unknown): void;
+}
+
+export class CrowdVoteController {
+  private readonly gameId: string;
+  private readonly windowConfig: VoteWindow;
+  private readonly strategy: VoteStrategy;
+  private readonly newPlayerWeight: number;
+  private readonly options: CrowdVoteControllerOptions;
+  private pending: CrowdVote[] = [];
+  private seen = new Set<bigint>();
+  private resolvedThrough: bigint = 0n;
+  private windowIndex = 0;
+  private openedAt: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(options: CrowdVoteControllerOptions) {
+    if (options.window.kind === 'time' && options.window.durationMs <= 0) {
+      throw new RangeError('Time window duration must be positive');
+    }
+    if (options.window.kind === 'count' && options.window.moves < 1) {
+      throw new RangeError('Count window must hold at least one move');
+    }
+    this.gameId = normalizeSuiAddress(options.gameId);
+    this.windowConfig = options.window;
+    this.strategy = options.strategy;
+    this.newPlayerWeight = options.newPlayerWeight ?? 2;
+    this.options = options;
+  }
+
+  /** Add a RobotMoved event; events for other games are ignored */
+  submit(event: CrowdRobotMovedEvent): void {
+    if (this.closed || event.data.game_id !== this.gameId) {
+      return;
+    }
+
+    const vote: CrowdVote = {
+      moveNumber: event.data.move_number,
+      player: event.data.player,
+      direction: event.data.direction,
+      timestamp: event.data.timestamp,
+      isNewPlayer: event.data.is_new_player,
+    };
+
+    if (vote.moveNumber <= this.resolvedThrough || this.seen.has(vote.moveNumber)) {
+      this.options.onLateVote?.(vote);
+      return;
+    }
+    this.seen.add(vote.moveNumber);
+    this.pending.push(vote);
+
+    if (this.openedAt === null) {
+      this.openedAt = Date.now();
+      if (this.windowConfig.kind === 'time') {
+        this.timer = setTimeout(() => this.resolveWindow(), this.windowConfig.durationMs);
+      }
+    }
+
+    if (this.windowConfig.kind === 'count' && this.pending.length >= this.windowConfig.moves) {
+      this.resolveWindow();
+    }
+  }
+
+  /** Resolve the current window now, even if it is not full */
+  flush(): VoteDecision | null {
+    return this.resolveWindow();
+  }
+
+  /** Flush the open window and stop accepting votes */
+  close(): VoteDecision | null {
+    const decision = this.resolveWindow();
+    this.closed = true;
+    return decision;
+  }
+
+  private resolveWindow(): VoteDecision | null {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.length === 0 || this.openedAt === null) {
+      return null;
+    }
+
+    const votes = [...this.pending].sort((a, b) => (a.moveNumber < b.moveNumber ? -1 : 1));
+    const { direction, tally } = resolveVotes(votes, this.strategy, this.newPlayerWeight);
+    const decision: VoteDecision = {
+      gameId: this.gameId,
+      window: this.windowIndex++,
+      strategy: this.strategy,
+      direction,
+      votes,
+      tally,
+      openedAt: this.openedAt,
+      closedAt: Date.now(),
+    };
+
+    const lastMove = votes[votes.length - 1].moveNumber;
+    this.resolvedThrough = lastMove > this.resolvedThrough ? lastMove : this.resolvedThrough;
+    this.pending = [];
+    this.seen = new Set([...this.seen].filter((moveNumber) => moveNumber > this.resolvedThrough));
+    this.openedAt = null;
+
+    Promise.resolve()
+      .then(() => this.options.onDecision(decision))
+      .catch((error) => this.options.onError?.(error));
+    return decision;
+  }
+}
+
+/**
+ * Apply a strategy to votes sorted by move_number.
+ *
+ * Ties go to the direction whose earliest vote has the lowest move_number.
+ */
+export function resolveVotes(
+  votes: CrowdVote[],
+  strategy: VoteStrategy,
+  newPlayerWeight: number = 2
+): { direction: Direction | null; tally: Partial<Record<Direction, number>> } {
+  const tally: Partial<Record<Direction, number>> = {};
+  if (votes.length === 0) {
+    return { direction: null, tally };
+  }
+
+  switch (strategy) {
+    case 'first-come':
+      for (const vote of votes) {
+        tally[vote.direction] = (tally[vote.direction] ?? 0) + 1;
+      }
+      return { direction: votes[0].direction, tally };
+
+    case 'majority':
+    case 'weighted-new-player': {
+      const firstSeen: Direction[] = [];
+      for (const vote of votes) {
+        const weight = strategy === 'weighted-new-player' && vote.isNewPlayer ? newPlayerWeight : 1;
+        if (tally[vote.direction] === undefined) {
+          firstSeen.push(vote.direction);
+        }
+        tally[vote.direction] = (tally[vote.direction] ?? 0) + weight;
+      }
+      let best = firstSeen[0];
+      for (const direction of firstSeen) {
+        if (tally[direction]! > tally[best]!) {
+          best = direction;
+        }
+      }
+      return { direction: best, tally };
+    }
+
+    case 'vector-sum': {
+      let sx = 0;
+      let sy = 0;
+      for (const vote of votes) {
+        const { dx, dy } = DIRECTION_VECTORS[vote.direction];
+        const length = Math.hypot(dx, dy);
+        sx += dx / length;
+        sy += dy / length;
+        tally[vote.direction] = (tally[vote.direction] ?? 0) + 1;
+      }
+      return { direction: nearestDirection(sx, sy, votes), tally };
+    }
+  }
+}
+
+const DIRECTION_BY_HEADING = new Map<number, Direction>(
+  Object.entries(DIRECTION_HEADINGS).map(([direction, heading]) => [heading, Number(direction) as Direction])
+);
+
+/**
+ * Direction closest to a vector, or null for a (near) zero vector. A vector
+ * halfway between two directions goes to the one voted first; if neither
+ * was voted, to the clockwise one.
+ */
+function nearestDirection(x: number, y: number, votes: CrowdVote[]): Direction | null {
+  if (Math.hypot(x, y) < 1e-9) {
+    return null;
+  }
+  const sector = (((Math.atan2(x, y) * 180) / Math.PI + 360) % 360) / 45;
+  const lower = DIRECTION_BY_HEADING.get((Math.floor(sector) * 45) % 360)!;
+  const upper = DIRECTION_BY_HEADING.get((Math.ceil(sector) * 45) % 360)!;
+  if (Math.abs(sector - Math.floor(sector) - 0.5) < 1e-9) {
+    return votes.find((vote) => vote.direction === lower || vote.direction === upper)?.direction ?? upper;
+  }
+  return sector - Math.floor(sector) < 0.5 ? lower : upper;
+}
+
+/** Motion command for a decision, or null when no motion was chosen */
+export function motionCommandFromDecision(decision: VoteDecision): MotionCommand | null {
+  if (decision.direction === null) {
+    return null;
+  }
+  const last = decision.votes[decision.votes.length - 1];
+  return {
+    direction: decision.direction,
+    gameId: decision.gameId,
+    timestamp: last.timestamp,
+    moveNumber: last.moveNumber,
+  };
+}
+
+/** One-line summary of a decision for logs and displays */
+export function describeDecision(decision: VoteDecision): string {
+  const winner = decision.direction === null ? 'NO MOVE' : DIRECTION_NAMES[decision.direction];
+  const first = decision.votes[0].moveNumber;
+  const last = decision.votes[decision.votes.length - 1].moveNumber;
+  return `window ${decision.window} (moves ${first}-${last}, ${decision.votes.length} votes, ${decision.strategy}): ${winner}`;
+}
@@ -0,0 +1,30 @@
+/**
+ * Access to deployment_info.json written by the deploy scripts.
+ */
+
+import * as fs from 'fs';
+import { ConfigurationError } from './errors';
+
+export const DEFAULT_DEPLOYMENT_INFO_PATH = './deployment_info.json';
+
+export interface DeploymentInfo {
+  package_id: string;
+  transaction_digest: string;
+  network: string;
+  upgrade_cap?: string;
+  shared_objects?: Record<string, string>;
+}
+
+export function loadDeploymentInfo(filePath: string = DEFAULT_DEPLOYMENT_INFO_PATH): DeploymentInfo {
+  let deploymentInfo: DeploymentInfo;
+  try {
+    deploymentInfo = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new ConfigurationError(`Could not load deployment info from ${filePath}`, { cause: error });
+  }
+
+  if (!deploymentInfo.package_id) {
+    throw new ConfigurationError(`${filePath} does not contain package_id`);
+  }
+  return deploymentInfo;
+}
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { DidAuthVerifier, answerDidChallenge } from './did-auth';
+import type { DidRegistryClient, OnChainDid } from './did-client';
+import { didForObject } from './did-resolver';
+import { DidAuthenticationError } from './errors';
+
+const didId = `0x${'d1'.repeat(32)}`;
+const did = didForObject(didId);
+const robot = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(1));
+const secret = 'a'.repeat(32);
+
+function fakeClient(keys: Partial<OnChainDid['keys'][number]>[] = [{}]): DidRegistryClient {
+  const onChain: OnChainDid = {
+    info: { id: didId, controller: `0x${'c0'.repeat(32)}`, created_at: 0n },
+    keys: keys.map((key, i) => ({
+      key_id: `key_${i}`,
+      pubkey: robot.getPublicKey().toRawBytes(),
+      purpose: 'authentication',
+      revoked: false,
+      ...key,
+    })),
+    services: [],
+  };
+  return { getDid: async () => onChain } as unknown as DidRegistryClient;
+}
+
+function verifier(options: { audience?: string; sessionTtlMs?: number; keys?: Parameters<typeof fakeClient>[0] } = {}) {
+  return new DidAuthVerifier({
+    client: fakeClient(options.keys),
+    audience: options.audience ?? 'https://fleet.example.com',
+    sessionSecret: secret,
+    sessionTtlMs: options.sessionTtlMs,
+  });
+}
+
+async function rejection(promise: Promise<unknown> | (() => unknown)): Promise<string> {
+  try {
+    await (typeof promise === 'function' ? promise() : promise);
+  } catch (error) {
+    assert.ok(error instanceof DidAuthenticationError);
+    return error.reason;
+  }
+  assert.fail('expected a DidAuthenticationError');
+}
+
+describe('DidAuthVerifier', () => {
+  it('opens a session for a valid answer', async () => {
+    const auth = verifier();
+    const challenge = auth.createChallenge(did);
+    const { token, session } = await auth.verifyResponse(await answerDidChallenge(challenge, robot, 'key_0'));
+    assert.equal(session.did, did);
+    assert.equal(session.didId, didId);
+    assert.equal(session.keyId, 'key_0');
+    assert.deepEqual(auth.verifySession(token), session);
+    assert.equal(auth.pendingChallenges, 0);
+  });
+
+  it('uses a challenge up', async () => {
+    const auth = verifier();
+    const response = await answerDidChallenge(auth.createChallenge(did), robot, 'key_0');
+    await auth.verifyResponse(response);
+    assert.equal(await rejection(auth.verifyResponse(response)), 'unknown_challenge');
+  });
+
+  it('refuses answers that do not match a usable key', async () => {
+    const other = Ed25519Keypair.generate();
+    const auth = verifier({
+      keys: [{}, { revoked: true }, { purpose: 'assertion' }, { pubkey: other.getPublicKey().toRawBytes() }],
+    });
+    const answer = async (keyId: string) =>
+      rejection(auth.verifyResponse(await answerDidChallenge(auth.createChallenge(did), robot, keyId)));
+    assert.equal(await answer('key_1'), 'key_revoked');
+    assert.equal(await answer('key_2'), 'wrong_purpose');
+    assert.equal(await answer('key_3'), 'bad_signature');
+    assert.equal(await answer('key_9'), 'key_not_found');
+  });
+
+  it('refuses non did:sui DIDs', async () => {
+    assert.equal(await rejection(() => verifier().createChallenge('did:key:z6Mk')), 'did_not_found');
+  });
+});
+
+describe('DidAuthVerifier.verifySession', () => {
+  async function token(auth: DidAuthVerifier): Promise<string> {
+    const challenge = auth.createChallenge(did);
+    return (await auth.verifyResponse(await answerDidChallenge(challenge, robot, 'key_0'))).token;
+  }
+
+  it('accepts tokens of another verifier with the same secret and audience', async () => {
+    const session = verifier().verifySession(await token(verifier()));
+    assert.equal(session.did, did);
+  });
+
+  it('rejects malformed tokens', async () => {
+    const auth = verifier();
+    for (const malformed of ['', 'payload', 'payload.', '.mac', 'a.b.c']) {
+      assert.equal(await rejection(() => auth.verifySession(malformed)), 'invalid_session', malformed);
+    }
+  });
+
+  it('rejects a tampered payload or signature', async () => {
+    const auth = verifier();
+    const [payload, mac] = (await token(auth)).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...claims, did: 'did:sui:someone-else' })).toString('base64url');
+    assert.equal(await rejection(() => auth.verifySession(`${forged}.${mac}`)), 'invalid_session');
+    assert.equal(await rejection(() => auth.verifySession(`${payload}.${mac.slice(0, -2)}`)), 'invalid_session');
+    assert.equal(await rejection(() => auth.verifySession(`${payload}.${Buffer.alloc(32).toString('base64url')}`)), 'invalid_session');
+  });
+
+  it('rejects tokens signed with another secret', async () => {
+    const other = new DidAuthVerifier({ client: fakeClient(), audience: 'https://fleet.example.com' });
+    assert.equal(await rejection(async () => verifier().verifySession(await token(other))), 'invalid_session');
+  });
+
+  it('rejects tokens for another audience', async () => {
+    const issued = await token(verifier({ audience: 'https://other.example.com' }));
+    assert.equal(await rejection(() => verifier().verifySession(issued)), 'invalid_session');
+  });
+
+  it('rejects expired sessions', async () => {
+    const auth = verifier({ sessionTtlMs: 1 });
+    const issued = await token(auth);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    assert.equal(await rejection(() => auth.verifySession(issued)), 'expired_session');
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * DID Authentication
+ *
+ * Challenge/response authentication of robots against their on-chain DID
+ * keys. A control backend (`DidAuthVerifier`) issues a single-use nonce
+ * challenge for a DID. The robot signs the challenge message with the
+ * Ed25519 key it holds for one of the DID's key IDs (`answerDidChallenge`).
+ * The verifier reads that KeyInfo from chain, so a key revoked a moment ago
+ * is already refused. It requires the purpose `authentication`, checks the
+ * signature, and issues a short-lived HMAC session token.
+ *
+ * Challenges live in memory of the verifier that issued them. Session
+ * tokens are stateless and valid at every verifier sharing the secret.
+ */
+
+import * as crypto from 'crypto';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Ed25519PublicKey } from '@mysten/sui/keypairs/ed25519';
+import { fromBase64, toBase64 } from '@mysten/sui/utils';
+import { DEFAULT_KEY_PURPOSE, DidRegistryClient, OnChainDid } from './did-client';
+import { SUI_DID_METHOD, findSuiDidId, parseSuiDid } from './did-resolver';
+import { DidAuthenticationError, ObjectDecodeError, ObjectNotFoundError } from './errors';
+
+/** First line of every challenge message, so the signature cannot be reused elsewhere */
+export const DID_AUTH_DOMAIN = 'suibotics DID authentication';
+
+export interface DidChallenge {
+  did: string;
+  /** Verifier the response is meant for, e.g. its URL */
+  audience: string;
+  /** Random, hex encoded; identifies the challenge */
+  nonce: string;
+  /** Local time in milliseconds */
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface DidChallengeResponse {
+  nonce: string;
+  /** DID key ID the robot signed with, e.g. 'key_0' */
+  keyId: string;
+  /** Base64 raw Ed25519 signature of `didChallengeMessage(challenge)` */
+  signature: string;
+}
+
+/** Claims of a session token */
+export interface DidSession {
+  /** Random, hex encoded */
+  sessionId: string;
+  did: string;
+  /** DIDInfo object ID */
+  didId: string;
+  keyId: string;
+  /** Sui address controlling the DID */
+  controller: string;
+  audience: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface DidAuthResult {
+  /** Bearer token for the session, checked with `verifySession` */
+  token: string;
+  session: DidSession;
+}
+
+/** Callbacks through which the verifier reports authentication attempts */
+export interface DidAuthHandlers {
+  onAuthenticated?(session: DidSession): void;
+  onRejected?(did: string | null, error: DidAuthenticationError): void;
+}
+
+export interface DidAuthVerifierOptions {
+  client: DidRegistryClient;
+  /** Name of this verifier, signed into every challenge */
+  audience: string;
+  /** HMAC key for session tokens, at least 32 bytes (default: random per instance) */
+  sessionSecret?: Uint8Array | string;
+  /** default: 60000 */
+  challengeTtlMs?: number;
+  /** default: 900000 (15 minutes) */
+  sessionTtlMs?: number;
+  /** Outstanding challenges kept; the oldest are dropped beyond this (default: 10000) */
+  maxPendingChallenges?: number;
+  handlers?: DidAuthHandlers;
+}
+
+// ===== Robot side =====
+
+/** Bytes a robot signs to answer a challenge */
+export function didChallengeMessage(challenge: DidChallenge): Uint8Array {
+  return new TextEncoder().encode(
+    [
+      DID_AUTH_DOMAIN,
+      `audience: ${challenge.audience}`,
+      `did: ${challenge.did}`,
+      `nonce: ${challenge.nonce}`,
+      `issued: ${new Date(challenge.issuedAt).toISOString()}`,
+      `expires: ${new Date(challenge.expiresAt).toISOString()}`,
+    ].join('\n')
+  );
+}
+
+/**
+ * Answer a challenge with the Ed25519 key registered on the DID under `keyId`.
+ *
+ * @throws RangeError if the signer is not an Ed25519 key
+ */
+export async function answerDidChallenge(
+  challenge: DidChallenge,
+  signer: Signer,
+  keyId: string
+): Promise<DidChallengeResponse> {
+  if (signer.getKeyScheme() !== 'ED25519') {
+    throw new RangeError(`DID keys are Ed25519; got a ${signer.getKeyScheme()} signer`);
+  }
+  const signature = await signer.sign(didChallengeMessage(challenge));
+  return { nonce: challenge.nonce, keyId, signature: toBase64(signature) };
+}
+
+// ===== Verifier side =====
+
+export class DidAuthVerifier {
+  public readonly audience: string;
+  private readonly client: DidRegistryClient;
+  private readonly secret: Buffer;
+  private readonly challengeTtlMs: number;
+  private readonly sessionTtlMs: number;
+  private readonly maxPendingChallenges: number;
+  private readonly handlers: DidAuthHandlers;
+  /** Outstanding challenges by nonce, oldest first */
+  private readonly challenges = new Map<string, DidChallenge>();
+
+  constructor(options: DidAuthVerifierOptions) {
+    const secret = options.sessionSecret === undefined
+      ? crypto.randomBytes(32)
+      : Buffer.from(options.sessionSecret);
+    if (secret.length < 32) {
+      throw new RangeError('sessionSecret must be at least 32 bytes');
+    }
+    for (const [name, value] of [
+      ['challengeTtlMs', options.challengeTtlMs],
+      ['sessionTtlMs', options.sessionTtlMs],
+      ['maxPendingChallenges', options.maxPendingChallenges],
+    ] as const) {
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        throw new RangeError(`${name} must be a positive integer`);
+      }
+    }
+    this.client = options.client;
+    this.audience = options.audience;
+    this.secret = secret;
+    this.challengeTtlMs = options.challengeTtlMs ?? 60_000;
+    this.sessionTtlMs = options.sessionTtlMs ?? 900_000;
+    this.maxPendingChallenges = options.maxPendingChallenges ?? 10_000;
+    this.handlers = options.handlers ?? {};
+  }
+
+  /** Outstanding challenges that have not expired or been answered */
+  get pendingChallenges(): number {
+    this.pruneChallenges(Date.now());
+    return this.challenges.size;
+  }
+
+  /**
+   * Issue a single-use challenge for a DID.
+   *
+   * @throws DidAuthenticationError ('did_not_found') if `did` is not a did:sui DID
+   */
+  createChallenge(did: string): DidChallenge {
+    if (!parseSuiDid(did)) {
+      throw this.reject(did, 'did_not_found', `${did} is not a did:${SUI_DID_METHOD} DID`);
+    }
+    const now = Date.now();
+    this.pruneChallenges(now);
+    while (this.challenges.size >= this.maxPendingChallenges) {
+      this.challenges.delete(this.challenges.keys().next().value as string);
+    }
+
+    const challenge: DidChallenge = {
+      did,
+      audience: this.audience,
+      nonce: crypto.randomBytes(32).toString('hex'),
+      issuedAt: now,
+      expiresAt: now + this.challengeTtlMs,
+    };
+    this.challenges.set(challenge.nonce, { ...challenge });
+    return challenge;
+  }
+
+  /**
+   * Check a robot's answer against the key as it is on chain now, and open
+   * a session. The challenge is used up whether or not the answer is valid.
+   *
+   * @throws DidAuthenticationError with the reason the robot was refused
+   */
+  async verifyResponse(response: DidChallengeResponse): Promise<DidAuthResult> {
+    const challenge = this.challenges.get(response.nonce);
+    if (!challenge) {
+      throw this.reject(null, 'unknown_challenge', 'Challenge was not issued here or was already used');
+    }
+    this.challenges.delete(response.nonce);
+    if (Date.now() > challenge.expiresAt) {
+      throw this.reject(challenge.did, 'expired_challenge', 'Challenge expired');
+    }
+
+    const onChain = await this.loadDid(challenge.did);
+    const key = onChain.keys.find((candidate) => candidate.key_id === response.keyId);
+    if (!key) {
+      throw this.reject(challenge.did, 'key_not_found', `${challenge.did} has no key ${response.keyId}`);
+    }
+    if (key.revoked) {
+      throw this.reject(challenge.did, 'key_revoked', `Key ${response.keyId} of ${challenge.did} is revoked`);
+    }
+    if (key.purpose !== DEFAULT_KEY_PURPOSE) {
+      throw this.reject(
+        challenge.did,
+        'wrong_purpose',
+        `Key ${response.keyId} of ${challenge.did} is for ${key.purpose}, not ${DEFAULT_KEY_PURPOSE}`
+      );
+    }
+
+    let valid: boolean;
+    try {
+      valid = await new Ed25519PublicKey(key.pubkey).verify(didChallengeMessage(challenge), fromBase64(response.signature));
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      throw this.reject(challenge.did, 'bad_signature', `Signature does not match key ${response.keyId}`);
+    }
+
+    const now = Date.now();
+    const session: DidSession = {
+      sessionId: crypto.randomBytes(16).toString('hex'),
+      did: challenge.did,
+      didId: onChain.info.id,
+      keyId: response.keyId,
+      controller: onChain.info.controller,
+      audience: this.audience,
+      issuedAt: now,
+      expiresAt: now + this.sessionTtlMs,
+    };
+    this.handlers.onAuthenticated?.(session);
+    return { token: this.signSession(session), session };
+  }
+
+  /**
+   * Claims of a session token issued by a verifier with the same secret and
+   * audience. Tokens are not re-checked against chain; keep `sessionTtlMs`
+   * short enough that a revoked key's sessions end soon.
+   *
+   * @throws DidAuthenticationError ('invalid_session' or 'expired_session')
+   */
+  verifySession(token: string): DidSession {
+    const [payload, mac, extra] = token.split('.');
+    if (!payload || !mac || extra !== undefined) {
+      throw new DidAuthenticationError('invalid_session', 'Malformed session token');
+    }
+    const expected = this.mac(payload);
+    const actual = Buffer.from(mac, 'base64url');
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      throw new DidAuthenticationError('invalid_session', 'Session token signature is invalid');
+    }
+
+    let session: DidSession;
+    try {
+      session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+      throw new DidAuthenticationError('invalid_session', 'Session token payload is not JSON');
+    }
+    if (session.audience !== this.audience) {
+      throw new DidAuthenticationError('invalid_session', `Session is for ${session.audience}, not ${this.audience}`);
+    }
+    if (!(Date.now() < session.expiresAt)) {
+      throw new DidAuthenticationError('expired_session', 'Session expired');
+    }
+    return session;
+  }
+
+  private async loadDid(did: string): Promise<OnChainDid> {
+    try {
+      return await this.client.getDid(await findSuiDidId(this.client, did));
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError || error instanceof ObjectDecodeError) {
+        throw this.reject(did, 'did_not_found', error.message);
+      }
+      throw error;
+    }
+  }
+
+  private signSession(session: DidSession): string {
+    const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+    return `${payload}.${this.mac(payload).toString('base64url')}`;
+  }
+
+  private mac(payload: string): Buffer {
+    return crypto.createHmac('sha256', this.secret).update(payload).digest();
+  }
+
+  private pruneChallenges(now: number): void {
+    for (const [nonce, challenge] of this.challenges) {
+      if (challenge.expiresAt < now) {
+        this.challenges.delete(nonce);
+      }
+    }
+  }
+
+  private reject(did: string | null, reason: DidAuthenticationError['reason'], message: string): DidAuthenticationError {
+    const error = new DidAuthenticationError(reason, message);
+    this.handlers.onRejected?.(did, error);
+    return error;
+  }
+}
@@ -0,0 +1,625 @@
+/**
+ * DID Registry Client
+ *
+ * Typed wrapper around the suibotics_did did_registry module. Robots use it
+ * to register a DID, rotate and revoke keys, and publish service endpoints.
+ * Writes go through the shared executor (gas dry runs, retries, typed
+ * IdentityAbortError aborts). The registry's read functions run as
+ * devInspect calls, so they cost nothing and need no signer. Nothing here
+ * logs or exits.
+ */
+
+import { bcs } from '@mysten/sui/bcs';
+import { SuiClient } from '@mysten/sui/client';
+import type { EventId, SuiObjectData, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { PublicKey, Signer } from '@mysten/sui/cryptography';
+import { Transaction, TransactionArgument } from '@mysten/sui/transactions';
+import { normalizeStructTag, normalizeSuiAddress, toHex } from '@mysten/sui/utils';
+import { ObjectDecodeError, ObjectNotFoundError } from './errors';
+import { Executor, checkBatchSize, confirmBatchResults, executeBatch, executeTransaction } from './execute';
+import { GasManager } from './gas';
+import { IdentityBatchOutcome, IdentityBatchResult } from './identity-batch';
+import { IdentityEvent, decodeIdentityEvent, decodeIdentityEvents } from './identity-events';
+import {
+  DidInfoState,
+  DidKeyState,
+  DidServiceState,
+  decodeDidInfo,
+  decodeDidKeyField,
+  decodeDidServiceField,
+  didFieldKeyType,
+  didInfoType
+} from './identity-state';
+import { transactionFailure } from './move-abort';
+import { MoveBytes, moveBytesToString, toMoveBytes } from './move-bytes';
+import { NetworkProfile, connectNetwork, requirePackage, requireSharedObject } from './network';
+import { RetryPolicy } from './retry';
+
+/** Key ID that register_did gives the initial key */
+export const INITIAL_KEY_ID = 'key_0';
+
+export const DEFAULT_KEY_PURPOSE = 'authentication';
+
+/** An Ed25519 public key as raw bytes or an SDK PublicKey */
+export type PublicKeyInput = Uint8Array | PublicKey;
+
+export interface DidRegistryClientOptions {
+  client: SuiClient;
+  packageId: string;
+  /** Shared did_registry::DIDRegistry object */
+  registryId: string;
+  /** Profile the client was built from, if any */
+  network?: NetworkProfile;
+  /** Dry-run budgets and coin selection; without it the SDK defaults apply */
+  gas?: GasManager;
+  /** How retryable failures are retried (default: DEFAULT_RETRY_POLICY); false disables retries */
+  retry?: RetryPolicy | false;
+}
+
+/** Common fields of every executed identity transaction */
+export interface IdentityOutcome {
+  digest: string;
+  events: IdentityEvent[];
+}
+
+export interface RegisterDidOptions {
+  /** Human-readable name, unique in the registry */
+  name: MoveBytes;
+  /** Initial Ed25519 key, stored as INITIAL_KEY_ID */
+  publicKey: PublicKeyInput;
+  /** Purpose of the initial key (default: DEFAULT_KEY_PURPOSE) */
+  purpose?: MoveBytes;
+}
+
+export interface RegisterDidResult extends IdentityOutcome {
+  /** ID of the DIDInfo object transferred to the controller */
+  didId: string;
+  controller: string;
+}
+
+export interface AddKeyOptions {
+  keyId: MoveBytes;
+  publicKey: PublicKeyInput;
+  /** default: DEFAULT_KEY_PURPOSE */
+  purpose?: MoveBytes;
+}
+
+export interface ServiceOptions {
+  /** Fragment, e.g. 'mqtt1' */
+  serviceId: MoveBytes;
+  /** e.g. 'MQTTBroker' */
+  type: MoveBytes;
+  /** e.g. 'wss://broker.example.com:8883' */
+  endpoint: MoveBytes;
+}
+
+export interface RegisterDidsBatchResult extends IdentityBatchOutcome {
+  /** DIDInfo ID of each entry; null for entries that failed */
+  didIds: (string | null)[];
+  controller: string;
+}
+
+export interface KeyBatchEntry extends AddKeyOptions {
+  didId: string;
+}
+
+export interface ServiceBatchEntry extends ServiceOptions {
+  didId: string;
+}
+
+/** A DIDInfo with every key and service attached to it */
+export interface OnChainDid {
+  info: DidInfoState;
+  /** All keys, revoked ones included, ordered by key ID */
+  keys: DidKeyState[];
+  /** Ordered by service ID */
+  services: DidServiceState[];
+}
+
+/** Sender of read-only inspect calls; the read functions do not check it */
+const INSPECT_SENDER = normalizeSuiAddress('0x0');
+
+/** multiGetObjects limit of the JSON-RPC API */
+const MAX_OBJECTS_PER_REQUEST = 50;
+
+export class DidRegistryClient {
+  public readonly suiClient: SuiClient;
+  public readonly packageId: string;
+  public readonly registryId: string;
+  public readonly network: NetworkProfile | null;
+  public readonly gas: GasManager | null;
+  private readonly retry: RetryPolicy;
+
+  constructor(options: DidRegistryClientOptions) {
+    this.suiClient = options.client;
+    this.packageId = normalizeSuiAddress(options.packageId);
+    this.registryId = normalizeSuiAddress(options.registryId);
+    this.network = options.network ?? null;
+    this.gas = options.gas ?? null;
+    this.retry = options.retry === false ? { maxAttempts: 1 } : options.retry ?? {};
+  }
+
+  /** Client for a network profile's suibotics_did deployment, after verifying the node serves that network */
+  static async connect(
+    profile: NetworkProfile,
+    options: Pick<DidRegistryClientOptions, 'retry'> = {}
+  ): Promise<DidRegistryClient> {
+    const client = await connectNetwork(profile, ['suibotics_did']);
+    return new DidRegistryClient({
+      client,
+      packageId: requirePackage(profile, 'suibotics_did').packageId,
+      registryId: requireSharedObject(profile, 'suibotics_did', 'did_registry'),
+      network: profile,
+      gas: GasManager.forNetwork(client, profile),
+      retry: options.retry,
+    });
+  }
+
+  // ===== DIDs =====
+
+  /** Register a DID controlled by the signer, with its first key */
+  async registerDid(signer: Signer, options: RegisterDidOptions): Promise<RegisterDidResult> {
+    const result = await this.execute('DID registration', signer, (tx) => {
+      tx.moveCall({
+        target: this.target('register_did'),
+        arguments: [
+          tx.object(this.registryId),
+          bytesArgument(tx, options.name),
+          bytesArgument(tx, publicKeyBytes(options.publicKey)),
+          bytesArgument(tx, options.purpose ?? DEFAULT_KEY_PURPOSE),
+        ],
+      });
+    });
+
+    const expectedType = didInfoType(this.packageId);
+    const didObject = result.objectChanges?.find(
+      (change) => change.type === 'created' && normalizeStructTag(change.objectType) === expectedType
+    );
+    if (!didObject || didObject.type !== 'created') {
+      throw new ObjectNotFoundError(`DIDInfo object not found in transaction ${result.digest}`);
+    }
+    return {
+      ...this.outcome(result),
+      didId: didObject.objectId,
+      controller: normalizeSuiAddress(signer.toSuiAddress()),
+    };
+  }
+
+  // ===== Keys =====
+
+  /** Add a key to a DID; fails with E_KEY_ALREADY_EXISTS if the key ID is taken */
+  async addKey(signer: Signer, didId: string, options: AddKeyOptions): Promise<IdentityOutcome> {
+    return this.update('Key addition', 'add_key', signer, didId, (tx) => [
+      bytesArgument(tx, options.keyId),
+      bytesArgument(tx, publicKeyBytes(options.publicKey)),
+      bytesArgument(tx, options.purpose ?? DEFAULT_KEY_PURPOSE),
+    ]);
+  }
+
+  /** Mark a key as revoked; it stays on the DID */
+  async revokeKey(signer: Signer, didId: string, keyId: MoveBytes): Promise<IdentityOutcome> {
+    return this.update('Key revocation', 'revoke_key', signer, didId, (tx) => [bytesArgument(tx, keyId)]);
+  }
+
+  // ===== Services =====
+
+  async addService(signer: Signer, didId: string, options: ServiceOptions): Promise<IdentityOutcome> {
+    return this.update('Service addition', 'add_service', signer, didId, (tx) => serviceArguments(tx, options));
+  }
+
+  /** Replace the type and endpoint of an existing service */
+  async updateService(signer: Signer, didId: string, options: ServiceOptions): Promise<IdentityOutcome> {
+    return this.update('Service update', 'update_service', signer, didId, (tx) => serviceArguments(tx, options));
+  }
+
+  async removeService(signer: Signer, didId: string, serviceId: MoveBytes): Promise<IdentityOutcome> {
+    return this.update('Service removal', 'remove_service', signer, didId, (tx) => [bytesArgument(tx, serviceId)]);
+  }
+
+  // ===== Batches =====
+
+  /**
+   * Register up to MAX_IDENTITY_BATCH_SIZE DIDs controlled by the signer in
+   * one transaction. An entry with a taken name or a malformed key fails on
+   * its own; the others are still registered.
+   *
+   * @throws RangeError if the batch is empty or too large
+   */
+  async registerDidsBatch(signer: Signer, entries: RegisterDidOptions[]): Promise<RegisterDidsBatchResult> {
+    checkBatchSize(entries);
+    const { results, response } = await executeBatch(this.executor(), 'DID batch registration', signer, (tx) => {
+      tx.moveCall({
+        target: this.target('register_dids_batch'),
+        arguments: [
+          tx.object(this.registryId),
+          bytesVectorArgument(tx, entries.map((entry) => entry.name)),
+          bytesVectorArgument(tx, entries.map((entry) => publicKeyBytes(entry.publicKey))),
+          bytesVectorArgument(tx, entries.map((entry) => entry.purpose ?? DEFAULT_KEY_PURPOSE)),
+        ],
+      });
+      return 0;
+    });
+
+    const outcome = this.batchOutcome(results, response);
+    const registered = new Map<string, string>();
+    for (const event of outcome.events) {
+      if (event.type === 'identity_types::DIDRegistered') {
+        registered.set(toHex(toMoveBytes(event.data.name)), event.data.did_id);
+      }
+    }
+    const didIdOf = (index: number) => registered.get(toHex(toMoveBytes(entries[index].name))) ?? null;
+    const confirmed = confirmBatchResults(outcome.results, (index) => didIdOf(index) !== null);
+    return {
+      ...outcome,
+      results: confirmed,
+      didIds: confirmed.map((result) => (result.success ? didIdOf(result.index) : null)),
+      controller: normalizeSuiAddress(signer.toSuiAddress()),
+    };
+  }
+
+  /**
+   * Add one key to each of up to MAX_IDENTITY_BATCH_SIZE DIDs. The signer
+   * must own every DIDInfo, and each DID may appear once per batch.
+   *
+   * @throws RangeError if the batch is empty, too large or repeats a DID
+   */
+  async addKeysBatch(signer: Signer, entries: KeyBatchEntry[]): Promise<IdentityBatchOutcome> {
+    const outcome = await this.updateBatch('Key batch addition', 'add_keys_batch', signer, entries, (tx) => [
+      bytesVectorArgument(tx, entries.map((entry) => entry.keyId)),
+      bytesVectorArgument(tx, entries.map((entry) => publicKeyBytes(entry.publicKey))),
+      bytesVectorArgument(tx, entries.map((entry) => entry.purpose ?? DEFAULT_KEY_PURPOSE)),
+    ]);
+    const added = new Set(
+      outcome.events.flatMap((event) =>
+        event.type === 'identity_types::KeyAdded' ? [`${event.data.did_id}/${event.data.key_id}`] : []
+      )
+    );
+    return {
+      ...outcome,
+      results: confirmBatchResults(outcome.results, (index) =>
+        added.has(`${normalizeSuiAddress(entries[index].didId)}/${moveBytesToString(toMoveBytes(entries[index].keyId))}`)
+      ),
+    };
+  }
+
+  /**
+   * Add one service to each of up to MAX_IDENTITY_BATCH_SIZE DIDs. The
+   * signer must own every DIDInfo, and each DID may appear once per batch.
+   *
+   * @throws RangeError if the batch is empty, too large or repeats a DID
+   */
+  async addServicesBatch(signer: Signer, entries: ServiceBatchEntry[]): Promise<IdentityBatchOutcome> {
+    const outcome = await this.updateBatch('Service batch addition', 'add_services_batch', signer, entries, (tx) => [
+      bytesVectorArgument(tx, entries.map((entry) => entry.serviceId)),
+      bytesVectorArgument(tx, entries.map((entry) => entry.type)),
+      bytesVectorArgument(tx, entries.map((entry) => entry.endpoint)),
+    ]);
+    const added = new Set(
+      outcome.events.flatMap((event) =>
+        event.type === 'identity_types::ServiceAdded' ? [`${event.data.did_id}/${event.data.service_id}`] : []
+      )
+    );
+    return {
+      ...outcome,
+      results: confirmBatchResults(outcome.results, (index) =>
+        added.has(`${normalizeSuiAddress(entries[index].didId)}/${moveBytesToString(toMoveBytes(entries[index].serviceId))}`)
+      ),
+    };
+  }
+
+  // ===== Registry lookups (devInspect) =====
+
+  /** Controller that registered a name, or null if the name is free */
+  async getDidControllerByName(name: MoveBytes): Promise<string | null> {
+    const value = await this.inspect('get_did_controller_by_name', (tx) => [bytesArgument(tx, name)]);
+    const controller = bcs.option(bcs.Address).parse(value);
+    return controller === null ? null : normalizeSuiAddress(controller);
+  }
+
+  /** IDs of every DID registered by a controller, oldest first */
+  async getDidsByController(controller: string): Promise<string[]> {
+    const value = await this.inspect('get_dids_by_controller', (tx) => [tx.pure.address(controller)]);
+    return bcs.vector(bcs.Address).parse(value).map((id) => normalizeSuiAddress(id));
+  }
+
+  async didNameExists(name: MoveBytes): Promise<boolean> {
+    const value = await this.inspect('did_name_exists', (tx) => [bytesArgument(tx, name)]);
+    return bcs.bool().parse(value);
+  }
+
+  // ===== DIDInfo objects =====
+
+  /** A DIDInfo object */
+  async getDidInfo(didId: string): Promise<DidInfoState> {
+    const response = await this.suiClient.getObject({ id: didId, options: { showContent: true } });
+    if (!response.data) {
+      throw new ObjectNotFoundError(`DIDInfo object ${didId} not found`);
+    }
+    return decodeDidInfo(response.data, this.packageId);
+  }
+
+  /**
+   * DIDInfo objects currently owned by a controller. register_did sends the
+   * DIDInfo to its controller, so this lists the controller's DIDs without
+   * the registry; the controller must sign with the owning key to update one.
+   */
+  async findDidInfos(controller: string): Promise<DidInfoState[]> {
+    const infos: DidInfoState[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.suiClient.getOwnedObjects({
+        owner: controller,
+        filter: { StructType: didInfoType(this.packageId) },
+        options: { showContent: true },
+        cursor,
+      });
+      for (const item of page.data) {
+        if (item.data) {
+          infos.push(decodeDidInfo(item.data, this.packageId));
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+    } while (cursor);
+    return infos;
+  }
+
+  /**
+   * The controller's DIDInfo object. Pass `didId` to pick one of several;
+   * otherwise the first one the registry lists for the controller is
+   * returned (created_at is the epoch start, so it cannot order them).
+   *
+   * @throws ObjectNotFoundError if the controller owns no (matching) DIDInfo
+   */
+  async findDidInfo(controller: string, didId?: string): Promise<DidInfoState> {
+    const wanted = didId === undefined ? null : normalizeSuiAddress(didId);
+    const matching = (await this.findDidInfos(controller)).filter((info) => wanted === null || info.id === wanted);
+    if (matching.length === 0) {
+      throw new ObjectNotFoundError(
+        `${controller} owns no DIDInfo${wanted ? ` ${wanted}` : ''} of package ${this.packageId}`
+      );
+    }
+    if (matching.length === 1) {
+      return matching[0];
+    }
+
+    const registered = await this.getDidsByController(controller);
+    const rank = (info: DidInfoState) => {
+      const index = registered.indexOf(info.id);
+      return index === -1 ? registered.length : index;
+    };
+    return matching.reduce((first, info) => (rank(info) < rank(first) ? info : first));
+  }
+
+  /**
+   * A DIDInfo with its keys and services. Move cannot enumerate dynamic
+   * fields, but the RPC API can, so no key or service ID needs to be known.
+   *
+   * @throws ObjectNotFoundError if there is no such DIDInfo
+   */
+  async getDid(didId: string): Promise<OnChainDid> {
+    const info = await this.getDidInfo(didId);
+    const keyType = didFieldKeyType(this.packageId, 'key');
+    const serviceType = didFieldKeyType(this.packageId, 'service');
+
+    const keyFields: string[] = [];
+    const serviceFields: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.suiClient.getDynamicFields({ parentId: info.id, cursor });
+      for (const field of page.data) {
+        const nameType = normalizeStructTag(field.name.type);
+        if (nameType === keyType) {
+          keyFields.push(field.objectId);
+        } else if (nameType === serviceType) {
+          serviceFields.push(field.objectId);
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+    } while (cursor);
+
+    const objects = await this.getFieldObjects([...keyFields, ...serviceFields]);
+    const keys = objects.slice(0, keyFields.length).map((object) => decodeDidKeyField(object, this.packageId));
+    const services = objects.slice(keyFields.length).map((object) => decodeDidServiceField(object, this.packageId));
+    return {
+      info,
+      keys: keys.sort((a, b) => compareText(a.key_id, b.key_id)),
+      services: services.sort((a, b) => compareText(a.id, b.id)),
+    };
+  }
+
+  /**
+   * DIDInfo ID registered under a name, or null if the name is free. The
+   * registry maps names to controllers only; when the controller has several
+   * DIDs, its DIDRegistered events tell which one has the name.
+   */
+  async findDidIdByName(name: MoveBytes): Promise<string | null> {
+    const controller = await this.getDidControllerByName(name);
+    if (controller === null) {
+      return null;
+    }
+    const dids = await this.getDidsByController(controller);
+    if (dids.length === 1) {
+      return dids[0];
+    }
+
+    const wanted = toMoveBytes(name);
+    const registeredType = `${this.packageId}::identity_types::DIDRegistered`;
+    let cursor: EventId | null = null;
+    do {
+      const page = await this.suiClient.queryEvents({ query: { Sender: controller }, cursor, order: 'descending' });
+      for (const event of page.data) {
+        if (normalizeStructTag(event.type) !== normalizeStructTag(registeredType)) {
+          continue;
+        }
+        const fields = event.parsedJson as { name?: unknown };
+        if (Array.isArray(fields?.name) && bytesEqual(Uint8Array.from(fields.name), wanted)) {
+          const registered = decodeIdentityEvent(event, this.packageId);
+          if (registered.type === 'identity_types::DIDRegistered') {
+            return registered.data.did_id;
+          }
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor ?? null : null;
+    } while (cursor);
+    throw new ObjectNotFoundError(`No DIDRegistered event of ${controller} for this name`);
+  }
+
+  // ===== Internals =====
+
+  /** Dynamic field objects with content, in the order given */
+  private async getFieldObjects(ids: string[]): Promise<SuiObjectData[]> {
+    const objects: SuiObjectData[] = [];
+    for (let i = 0; i < ids.length; i += MAX_OBJECTS_PER_REQUEST) {
+      const chunk = ids.slice(i, i + MAX_OBJECTS_PER_REQUEST);
+      const responses = await this.suiClient.multiGetObjects({ ids: chunk, options: { showContent: true } });
+      responses.forEach((response, j) => {
+        if (!response.data) {
+          throw new ObjectNotFoundError(`Dynamic field object ${chunk[j]} not found`);
+        }
+        objects.push(response.data);
+      });
+    }
+    return objects;
+  }
+
+  private async update(
+    action: string,
+    fn: string,
+    signer: Signer,
+    didId: string,
+    args: (tx: Transaction) => TransactionArgument[]
+  ): Promise<IdentityOutcome> {
+    const result = await this.execute(action, signer, (tx) => {
+      tx.moveCall({
+        target: this.target(fn),
+        arguments: [tx.object(didId), ...args(tx)],
+      });
+    });
+    return this.outcome(result);
+  }
+
+  /**
+   * Run a batch function that takes `&mut vector<DIDInfo>`. The DIDInfo
+   * objects are moved into a vector for the call and transferred back to
+   * the signer one by one afterwards; DIDInfo has no `store`, so only
+   * identity_types can transfer it.
+   */
+  private async updateBatch(
+    action: string,
+    fn: string,
+    signer: Signer,
+    entries: { didId: string }[],
+    args: (tx: Transaction) => TransactionArgument[]
+  ): Promise<IdentityBatchOutcome> {
+    checkBatchSize(entries);
+    const didIds = entries.map((entry) => normalizeSuiAddress(entry.didId));
+    if (new Set(didIds).size !== didIds.length) {
+      throw new RangeError('Each DID may appear only once per batch');
+    }
+    const didType = didInfoType(this.packageId);
+    const owner = normalizeSuiAddress(signer.toSuiAddress());
+
+    const { results, response } = await executeBatch(this.executor(), action, signer, (tx) => {
+      const dids = tx.makeMoveVec({ type: didType, elements: didIds.map((id) => tx.object(id)) });
+      tx.moveCall({ target: this.target(fn), arguments: [dids, ...args(tx)] });
+      for (let i = 0; i < didIds.length; i++) {
+        const did = tx.moveCall({ target: '0x1::vector::pop_back', typeArguments: [didType], arguments: [dids] });
+        tx.moveCall({
+          target: `${this.packageId}::identity_types::transfer_did_info`,
+          arguments: [did, tx.pure.address(owner)],
+        });
+      }
+      tx.moveCall({ target: '0x1::vector::destroy_empty', typeArguments: [didType], arguments: [dids] });
+      return 1;
+    });
+    return this.batchOutcome(results, response);
+  }
+
+  /** BCS bytes of the first return value of a read-only did_registry call on the registry */
+  private async inspect(fn: string, args: (tx: Transaction) => TransactionArgument[]): Promise<Uint8Array> {
+    const tx = new Transaction();
+    tx.moveCall({
+      target: this.target(fn),
+      arguments: [tx.object(this.registryId), ...args(tx)],
+    });
+
+    const result = await this.suiClient.devInspectTransactionBlock({
+      sender: INSPECT_SENDER,
+      transactionBlock: tx,
+    });
+    if (result.effects.status.status !== 'success') {
+      throw transactionFailure(
+        `Inspect ${fn}`,
+        result.effects.transactionDigest,
+        result.effects.status.error ?? result.error ?? undefined
+      );
+    }
+    const returned = result.results?.[0]?.returnValues?.[0];
+    if (!returned) {
+      throw new ObjectDecodeError(this.registryId, `did_registry::${fn} returned no value`);
+    }
+    return Uint8Array.from(returned[0]);
+  }
+
+  private target(fn: string): `${string}::${string}::${string}` {
+    return `${this.packageId}::did_registry::${fn}`;
+  }
+
+  private async execute(
+    action: string,
+    signer: Signer,
+    build: (tx: Transaction) => void
+  ): Promise<SuiTransactionBlockResponse> {
+    return executeTransaction(this.executor(), action, signer, build);
+  }
+
+  private executor(): Executor {
+    return { suiClient: this.suiClient, gas: this.gas, retry: this.retry };
+  }
+
+  private batchOutcome(
+    results: IdentityBatchResult[],
+    response: SuiTransactionBlockResponse | null
+  ): IdentityBatchOutcome {
+    return {
+      digest: response?.digest ?? null,
+      events: response ? decodeIdentityEvents(response.events ?? [], this.packageId) : [],
+      results,
+    };
+  }
+
+  private outcome(result: SuiTransactionBlockResponse): IdentityOutcome {
+    return {
+      digest: result.digest,
+      events: decodeIdentityEvents(result.events ?? [], this.packageId),
+    };
+  }
+}
+
+function bytesArgument(tx: Transaction, value: MoveBytes): TransactionArgument {
+  return tx.pure.vector('u8', toMoveBytes(value));
+}
+
+function bytesVectorArgument(tx: Transaction, values: MoveBytes[]): TransactionArgument {
+  return tx.pure(bcs.vector(bcs.vector(bcs.u8())).serialize(values.map((value) => toMoveBytes(value))));
+}
+
+function serviceArguments(tx: Transaction, options: ServiceOptions): TransactionArgument[] {
+  return [
+    bytesArgument(tx, options.serviceId),
+    bytesArgument(tx, options.type),
+    bytesArgument(tx, options.endpoint),
+  ];
+}
+
+function publicKeyBytes(key: PublicKeyInput): Uint8Array {
+  return key instanceof Uint8Array ? key : key.toRawBytes();
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { didForName, didForObject, parseSuiDid } from './did-resolver';
+import { moveBytesToString } from './move-bytes';
+
+function parsedName(did: string): string | null {
+  const target = parseSuiDid(did);
+  return target?.kind === 'name' ? moveBytesToString(target.name) : null;
+}
+
+describe('didForName / parseSuiDid', () => {
+  it('leaves unreserved characters as they are', () => {
+    assert.equal(didForName('robot-7'), 'did:sui:robot-7');
+    assert.equal(didForName('Fleet_A.robot-07'), 'did:sui:Fleet_A.robot-07');
+  });
+
+  it('percent-encodes other bytes', () => {
+    assert.equal(didForName('robot 7/α'), 'did:sui:robot%207%2F%CE%B1');
+    assert.equal(didForName(Uint8Array.from([0x00, 0xff])), 'did:sui:%00%FF');
+  });
+
+  it('encodes a leading 0x so the name is not read as an object ID', () => {
+    assert.equal(didForName('0xabc'), 'did:sui:%30xabc');
+    assert.equal(didForName('0x'), 'did:sui:%30x');
+    assert.equal(didForName('0xabc0xdef'), 'did:sui:%30xabc0xdef');
+    assert.equal(didForName('0Xabc'), 'did:sui:0Xabc');
+    assert.equal(didForName('a0xabc'), 'did:sui:a0xabc');
+  });
+
+  it('round-trips names', () => {
+    for (const name of ['robot-7', '0xabc', '0x', '0x0000000000000000000000000000000000000000000000000000000000000001',
+      '0', 'x0x', 'robot 7/α', '%30x', 'a:b']) {
+      assert.equal(parsedName(didForName(name)), name, name);
+    }
+  });
+
+  it('round-trips raw bytes', () => {
+    const name = Uint8Array.from([0x30, 0x78, 0x00, 0x25, 0xff]);
+    assert.deepEqual(parseSuiDid(didForName(name)), { kind: 'name', name });
+  });
+
+  it('parses object IDs', () => {
+    const didId = `0x${'ab'.repeat(32)}`;
+    assert.deepEqual(parseSuiDid(didForObject(didId)), { kind: 'object', didId });
+    assert.deepEqual(parseSuiDid('did:sui:0xabc'), { kind: 'object', didId: '0xabc' });
+  });
+
+  it('accepts lowercase escapes and colons in names', () => {
+    assert.equal(parsedName('did:sui:%30xabc'), '0xabc');
+    assert.equal(parsedName('did:sui:robot%2f7'), 'robot/7');
+    assert.equal(parsedName('did:sui:fleet:robot-7'), 'fleet:robot-7');
+  });
+
+  it('ignores fragments, paths and queries', () => {
+    assert.equal(parsedName('did:sui:robot-7#key-1'), 'robot-7');
+    assert.equal(parsedName('did:sui:robot-7/path?service=x'), 'robot-7');
+  });
+
+  it('rejects other methods and malformed IDs', () => {
+    assert.equal(parseSuiDid('did:key:z6Mk'), null);
+    assert.equal(parseSuiDid('did:sui:'), null);
+    assert.equal(parseSuiDid('did:sui:robot 7'), null);
+    assert.equal(parseSuiDid('did:sui:%zz'), null);
+    assert.equal(parseSuiDid('robot-7'), null);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * DID Resolver
+ *
+ * Resolves `did:sui` DIDs to W3C DID Core documents in JSON-LD. The
+ * method-specific ID is either a DIDInfo object ID (`did:sui:0x…`) or a name
+ * from the did_registry (`did:sui:robot-7`, percent-encoded outside
+ * `[A-Za-z0-9._-]` and in a leading `0x`). A resolver is bound to the one
+ * network and package of its DidRegistryClient.
+ *
+ * Every KeyInfo becomes an Ed25519VerificationKey2020 verification method.
+ * Keys that are not revoked are also referenced from the verification
+ * relationship named by their purpose; revoked keys are in none, so
+ * verifiers reject proofs made with them. Plugs into the `did-resolver`
+ * package: `new Resolver(getSuiDidResolver(dids))`.
+ */
+
+import { normalizeSuiAddress, toBase58 } from '@mysten/sui/utils';
+import type {
+  DIDDocument,
+  DIDResolutionResult,
+  KeyCapabilitySection,
+  ResolverRegistry,
+  VerificationMethod
+} from 'did-resolver';
+import { DidRegistryClient, OnChainDid } from './did-client';
+import { ObjectDecodeError, ObjectNotFoundError } from './errors';
+import { toMoveBytes } from './move-bytes';
+
+export const SUI_DID_METHOD = 'sui';
+
+export const DID_DOCUMENT_CONTEXT = [
+  'https://www.w3.org/ns/did/v1',
+  'https://w3id.org/security/suites/ed25519-2020/v1',
+] as const;
+
+export const DID_LD_CONTENT_TYPE = 'application/did+ld+json';
+
+/** Verification relationship for each key purpose used on chain */
+const PURPOSE_RELATIONSHIPS: Record<string, KeyCapabilitySection> = {
+  authentication: 'authentication',
+  assertion: 'assertionMethod',
+  assertionMethod: 'assertionMethod',
+  keyAgreement: 'keyAgreement',
+  capabilityInvocation: 'capabilityInvocation',
+  capabilityDelegation: 'capabilityDelegation',
+};
+
+/** Multicodec prefix of an Ed25519 public key (0xed, varint encoded) */
+const ED25519_MULTICODEC = [0xed, 0x01];
+
+const OBJECT_ID_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+/** Target of a `did:sui` DID */
+export type SuiDidTarget = { kind: 'object'; didId: string } | { kind: 'name'; name: Uint8Array };
+
+/** `did:sui:<DIDInfo ID>` */
+export function didForObject(didId: string): string {
+  return `did:${SUI_DID_METHOD}:${didId}`;
+}
+
+/**
+ * `did:sui:<name>`, with bytes outside `[A-Za-z0-9._-]` percent-encoded. The
+ * `0` of a leading `0x` is encoded too (`%30x…`), so the name cannot be
+ * read as an object ID.
+ */
+export function didForName(name: string | Uint8Array): string {
+  const bytes = toMoveBytes(name);
+  const encoded = Array.from(bytes, (byte, i) => {
+    const char = String.fromCharCode(byte);
+    const objectIdPrefix = i === 0 && char === '0' && bytes[1] === 'x'.charCodeAt(0);
+    return /[A-Za-z0-9._-]/.test(char) && !objectIdPrefix ? char : `%${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+  }).join('');
+  return `did:${SUI_DID_METHOD}:${encoded}`;
+}
+
+/**
+ * The DIDInfo ID or registered name a `did:sui` DID refers to, or null if
+ * it is not a valid `did:sui` DID. `0x` followed by hex digits is an object
+ * ID; anything else, including `%30x…`, is a percent-encoded name.
+ * Fragments, paths and queries are ignored.
+ */
+export function parseSuiDid(did: string): SuiDidTarget | null {
+  const match = /^did:([a-z0-9]+):([^/?#]+)/.exec(did);
+  if (!match || match[1] !== SUI_DID_METHOD) {
+    return null;
+  }
+  const id = match[2];
+  if (OBJECT_ID_PATTERN.test(id)) {
+    return { kind: 'object', didId: id };
+  }
+  if (!/^([A-Za-z0-9._:-]|%[0-9A-Fa-f]{2})+$/.test(id)) {
+    return null;
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < id.length; i++) {
+    if (id[i] === '%') {
+      bytes.push(parseInt(id.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(id.charCodeAt(i));
+    }
+  }
+  return { kind: 'name', name: Uint8Array.from(bytes) };
+}
+
+/**
+ * DIDInfo ID a `did:sui` DID refers to. Names are looked up in the registry.
+ *
+ * @throws ObjectNotFoundError if it is not a `did:sui` DID or the name is not registered
+ */
+export async function findSuiDidId(client: DidRegistryClient, did: string): Promise<string> {
+  const target = parseSuiDid(did);
+  if (!target) {
+    throw new ObjectNotFoundError(`${did} is not a did:${SUI_DID_METHOD} DID`);
+  }
+  const didId = target.kind === 'object' ? normalizeSuiAddress(target.didId) : await client.findDidIdByName(target.name);
+  if (didId === null) {
+    throw new ObjectNotFoundError(`No DID is registered under ${did.replace(/[/?#].*$/, '')}`);
+  }
+  return didId;
+}
+
+/** `publicKeyMultibase` of an Ed25519 key: base58btc ('z') of the multicodec-prefixed key */
+export function ed25519Multibase(publicKey: Uint8Array): string {
+  return `z${toBase58(Uint8Array.from([...ED25519_MULTICODEC, ...publicKey]))}`;
+}
+
+/**
+ * W3C DID document of an on-chain DID. `did` becomes the document ID and the
+ * controller of every verification method.
+ */
+export function buildDidDocument(did: string, onChain: OnChainDid): DIDDocument {
+  const verificationMethod: VerificationMethod[] = [];
+  const relationships: { [R in KeyCapabilitySection]?: string[] } = {};
+
+  for (const key of onChain.keys) {
+    const id = `${did}#${encodeURIComponent(key.key_id)}`;
+    verificationMethod.push({
+      id,
+      type: 'Ed25519VerificationKey2020',
+      controller: did,
+      publicKeyMultibase: ed25519Multibase(key.pubkey),
+    });
+    const relationship = PURPOSE_RELATIONSHIPS[key.purpose];
+    if (relationship && !key.revoked) {
+      (relationships[relationship] ??= []).push(id);
+    }
+  }
+
+  return {
+    '@context': [...DID_DOCUMENT_CONTEXT],
+    id: did,
+    verificationMethod,
+    ...relationships,
+    service: onChain.services.map((service) => ({
+      id: `${did}#${encodeURIComponent(service.id)}`,
+      type: service.type,
+      serviceEndpoint: service.endpoint,
+    })),
+  };
+}
+
+/**
+ * Resolve a `did:sui` DID. Failures are reported in `didResolutionMetadata.error`
+ * as the DID Core resolution errors `invalidDid`, `notFound` and `internalError`.
+ */
+export async function resolveSuiDid(client: DidRegistryClient, did: string): Promise<DIDResolutionResult> {
+  const target = parseSuiDid(did);
+  if (!target) {
+    return resolutionError('invalidDid', `${did} is not a did:${SUI_DID_METHOD} DID`);
+  }
+  const baseDid = did.replace(/[/?#].*$/, '');
+
+  try {
+    const onChain = await client.getDid(await findSuiDidId(client, baseDid));
+    const canonicalId = didForObject(onChain.info.id);
+    return {
+      didResolutionMetadata: { contentType: DID_LD_CONTENT_TYPE },
+      didDocument: buildDidDocument(baseDid, onChain),
+      didDocumentMetadata: {
+        created: new Date(Number(onChain.info.created_at)).toISOString(),
+        ...(canonicalId !== baseDid ? { canonicalId } : {}),
+        suiController: onChain.info.controller,
+      },
+    };
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError || error instanceof ObjectDecodeError) {
+      return resolutionError('notFound', error.message);
+    }
+    return resolutionError('internalError', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** `did-resolver` registry entry for the `sui` method */
+export function getSuiDidResolver(client: DidRegistryClient): ResolverRegistry {
+  return {
+    [SUI_DID_METHOD]: (did) => resolveSuiDid(client, did),
+  };
+}
+
+function resolutionError(error: string, message: string): DIDResolutionResult {
+  return {
+    didResolutionMetadata: { error, message },
+    didDocument: null,
+    didDocumentMetadata: {},
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Error types thrown by the Crossy Robot client library.
+ *
+ * Library code never logs or exits; callers decide how to report these.
+ */
+
+export class CrossyRobotError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = new.target.name;
+    if (options && 'cause' in options) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+/** Missing or malformed configuration (environment, deployment info) */
+export class ConfigurationError extends CrossyRobotError {}
+
+/** An RPC endpoint and a package ID or profile belong to different networks */
+export class NetworkMismatchError extends ConfigurationError {}
+
+/** A private key could not be found or decoded */
+export class KeyLoadError extends ConfigurationError {
+  constructor(public readonly source: string, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+/** A direction outside 0-7 was passed to a move call */
+export class InvalidDirectionError extends CrossyRobotError {
+  constructor(public readonly direction: number) {
+    super(`Invalid direction ${direction}; expected an integer from 0 to 7`);
+  }
+}
+
+/** The transaction was executed but its effects report a failure */
+export class TransactionFailedError extends CrossyRobotError {
+  constructor(
+    public readonly action: string,
+    public readonly digest: string,
+    public readonly statusError: string | undefined
+  ) {
+    super(`${action} failed: ${statusError ?? 'unknown error'} (digest ${digest})`);
+  }
+}
+
+/** A transaction signed elsewhere does not do what it was submitted for */
+export class SignedTransactionError extends CrossyRobotError {}
+
+export type SponsorshipRejection = 'not_allowed' | 'rate_limited' | 'unknown_transaction';
+
+/** A gas sponsor refused a transaction */
+export class SponsorshipRejectedError extends CrossyRobotError {
+  constructor(
+    public readonly reason: SponsorshipRejection,
+    message: string,
+    /** For 'rate_limited': when the next request would be accepted */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+}
+
+export type DidAuthenticationFailure =
+  | 'unknown_challenge'
+  | 'expired_challenge'
+  | 'did_not_found'
+  | 'key_not_found'
+  | 'key_revoked'
+  | 'wrong_purpose'
+  | 'bad_signature'
+  | 'invalid_session'
+  | 'expired_session';
+
+/** A robot could not be authenticated against its DID keys, or a session token was rejected */
+export class DidAuthenticationError extends CrossyRobotError {
+  constructor(public readonly reason: DidAuthenticationFailure, message: string) {
+    super(message);
+  }
+}
+
+/** An address does not hold enough SUI for a transaction */
+export class InsufficientGasError extends CrossyRobotError {
+  constructor(
+    public readonly address: string,
+    public readonly required: bigint,
+    public readonly available: bigint,
+    options?: { cause?: unknown }
+  ) {
+    super(`${address} needs ${required} MIST but only ${available} MIST is available`, options);
+  }
+}
+
+/** A dry run priced a transaction above the configured gas budget */
+export class GasBudgetExceededError extends CrossyRobotError {
+  constructor(
+    public readonly action: string,
+    public readonly estimated: bigint,
+    public readonly limit: bigint
+  ) {
+    super(`${action} needs a gas budget of ${estimated} MIST, above the limit of ${limit} MIST`);
+  }
+}
+
+/** An expected object or object change was missing from a response */
+export class ObjectNotFoundError extends CrossyRobotError {}
+
+/** An on-chain event did not match the expected package, type or fields */
+export class EventDecodeError extends CrossyRobotError {
+  constructor(public readonly eventType: string, message: string, options?: { cause?: unknown }) {
+    super(`Cannot decode ${eventType}: ${message}`, options);
+  }
+}
+
+/** An on-chain object did not have the expected type or fields */
+export class ObjectDecodeError extends CrossyRobotError {
+  constructor(public readonly objectId: string, message: string, options?: { cause?: unknown }) {
+    super(`Cannot decode object ${objectId}: ${message}`, options);
+  }
+}
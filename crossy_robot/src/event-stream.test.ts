@@ -0,0 +1,160 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { EventId, SuiEvent } from '@mysten/sui/client';
+import type { CrossyRobotClient } from './client';
+import { EventDecodeError } from './errors';
+import { GameEventStream, GameEventStreamOptions, StreamTransport } from './event-stream';
+
+const packageId = `0x${'5d'.repeat(32)}`;
+const gameId = `0x${'ab'.repeat(32)}`;
+
+function suiEvent(seq: number, name = 'RobotMoved'): SuiEvent {
+  return {
+    id: { txDigest: `D${seq}`, eventSeq: '0' },
+    packageId,
+    transactionModule: 'crowd_robot',
+    sender: '0x1',
+    type: `${packageId}::crowd_robot::${name}`,
+    parsedJson: { game_id: gameId, player: '0x1', direction: 0, timestamp: String(seq), move_number: String(seq), is_new_player: false },
+    bcs: '',
+    bcsEncoding: 'base64',
+  } as SuiEvent;
+}
+
+/**
+ * Node holding `events`, served two per page after the cursor. `failures`
+ * queries fail before the first succeeds; `subscribe` decides whether
+ * subscribeEvent works.
+ */
+function fakeNode(events: SuiEvent[], options: { failures?: number; subscribe?: boolean } = {}) {
+  const cursors: (EventId | null)[] = [];
+  let failures = options.failures ?? 0;
+  const node = {
+    events,
+    cursors,
+    notify: null as (() => void) | null,
+    unsubscribed: false,
+  };
+  const suiClient = {
+    async queryEvents({ cursor }: { cursor: EventId | null }) {
+      cursors.push(cursor);
+      if (failures > 0) {
+        failures--;
+        throw new Error('fetch failed');
+      }
+      const start = cursor ? events.findIndex((event) => event.id.txDigest === cursor.txDigest) + 1 : 0;
+      const data = events.slice(start, start + 2);
+      return { data, nextCursor: data.at(-1)?.id ?? cursor, hasNextPage: start + 2 < events.length };
+    },
+    async subscribeEvent({ onMessage }: { onMessage: () => void }) {
+      if (!options.subscribe) {
+        throw new Error('Method not found');
+      }
+      node.notify = onMessage;
+      return async () => {
+        node.unsubscribed = true;
+        return true;
+      };
+    },
+  };
+  const client = { packageId, suiClient } as unknown as CrossyRobotClient;
+  return { node, client };
+}
+
+const fast: Partial<GameEventStreamOptions> = { transport: 'polling', minPollIntervalMs: 1, maxPollIntervalMs: 2, initialBackoffMs: 1 };
+
+/** The first `count` events of a stream, closing it afterwards */
+async function take(stream: GameEventStream, count: number): Promise<string[]> {
+  const seen: string[] = [];
+  for await (const event of stream) {
+    seen.push(event.id.txDigest);
+    if (seen.length === count) {
+      stream.close();
+    }
+  }
+  return seen;
+}
+
+describe('GameEventStream', () => {
+  it('reads pages in order without overlap', async () => {
+    const { node, client } = fakeNode([1, 2, 3, 4, 5].map((seq) => suiEvent(seq)));
+    const stream = new GameEventStream(client, { module: 'crowd_robot', ...fast });
+    assert.deepEqual(await take(stream, 5), ['D1', 'D2', 'D3', 'D4', 'D5']);
+    assert.deepEqual(node.cursors.map((cursor) => cursor?.txDigest ?? null), [null, 'D2', 'D4']);
+    assert.deepEqual(stream.cursor, { txDigest: 'D5', eventSeq: '0' });
+  });
+
+  it('resumes after the given cursor', async () => {
+    const { node, client } = fakeNode([1, 2, 3].map((seq) => suiEvent(seq)));
+    const stream = new GameEventStream(client, { module: 'crowd_robot', cursor: node.events[1].id, ...fast });
+    assert.deepEqual(await take(stream, 1), ['D3']);
+    assert.equal(node.cursors[0]?.txDigest, 'D2');
+  });
+
+  it('backs off after failed queries and retries from the same cursor', async () => {
+    const errors: unknown[] = [];
+    const { node, client } = fakeNode([suiEvent(1)], { failures: 3 });
+    const started = Date.now();
+    const stream = new GameEventStream(client, {
+      module: 'crowd_robot',
+      ...fast,
+      initialBackoffMs: 20,
+      maxBackoffMs: 30,
+      onError: (error) => errors.push(error),
+    });
+    assert.deepEqual(await take(stream, 1), ['D1']);
+    assert.equal(errors.length, 3);
+    assert.deepEqual(node.cursors, [null, null, null, null]);
+    // 20, then 40 capped to 30, then 30
+    assert.ok(Date.now() - started >= 75);
+  });
+
+  it('reports and skips events it cannot decode', async () => {
+    const errors: unknown[] = [];
+    const { client } = fakeNode([suiEvent(1), suiEvent(2, 'RobotPaused'), suiEvent(3)]);
+    const stream = new GameEventStream(client, { module: 'crowd_robot', ...fast, onError: (error) => errors.push(error) });
+    assert.deepEqual(await take(stream, 2), ['D1', 'D3']);
+    assert.equal(errors.length, 1);
+    assert.ok(errors[0] instanceof EventDecodeError);
+  });
+
+  it('wakes on subscription notifications and unsubscribes when closed', async () => {
+    const transports: StreamTransport[] = [];
+    const { node, client } = fakeNode([], { subscribe: true });
+    const stream = new GameEventStream(client, {
+      module: 'crowd_robot',
+      maxPollIntervalMs: 60_000,
+      onTransportChange: (transport) => transports.push(transport),
+    });
+    const iterator = stream[Symbol.asyncIterator]();
+    const next = iterator.next();
+    while (node.cursors.length === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    assert.equal(stream.transport, 'subscription');
+    node.events.push(suiEvent(1));
+    node.notify!();
+    assert.equal((await next).value?.id.txDigest, 'D1');
+
+    const last = iterator.next();
+    stream.close();
+    assert.equal((await last).done, true);
+    assert.deepEqual(transports, ['subscription']);
+    assert.ok(node.unsubscribed);
+  });
+
+  it('polls when the node refuses subscriptions', async () => {
+    const errors: unknown[] = [];
+    const { client } = fakeNode([suiEvent(1)]);
+    const stream = new GameEventStream(client, { module: 'crowd_robot', ...fast, transport: 'auto', onError: (error) => errors.push(error) });
+    assert.deepEqual(await take(stream, 1), ['D1']);
+    assert.equal(stream.transport, 'polling');
+    assert.match(String(errors[0]), /Method not found/);
+  });
+
+  it('supports a single consumer', () => {
+    const stream = new GameEventStream(fakeNode([]).client, { module: 'crowd_robot' });
+    stream[Symbol.asyncIterator]();
+    assert.throws(() => stream[Symbol.asyncIterator](), /single consumer/);
+  });
+});
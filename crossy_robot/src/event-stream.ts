@@ -0,0 +1,218 @@
+/**
+ * Game Event Stream
+ *
+ * Ordered stream of decoded events for one module, exposed as an async
+ * iterator. Events are always read through non-overlapping `queryEvents`
+ * pages from the last cursor, so delivery order and resume points are exact.
+ *
+ * When the node offers a push transport (WebSocket `subscribeEvent`), each
+ * notification wakes the reader immediately; otherwise the stream polls
+ * adaptively, speeding up while events flow and slowing down while idle.
+ * Query errors back off exponentially and the stream resumes from the last
+ * cursor. An event that cannot be decoded (e.g. a type added by a package
+ * upgrade) is reported through `onError` and skipped.
+ */
+
+import type { EventId, PaginatedEvents } from '@mysten/sui/client';
+import { CrossyRobotClient } from './client';
+import { GameModule } from './constants';
+import { GameEvent, decodeGameEvent } from './events';
+
+export type StreamTransport = 'subscription' | 'polling';
+
+export interface GameEventStreamOptions {
+  module: GameModule;
+  /** Resume after this event; null starts at the module's first event */
+  cursor?: EventId | null;
+  /** 'auto' tries a subscription first and falls back to polling (default: 'auto') */
+  transport?: 'auto' | 'polling';
+  /** Poll interval right after events were seen (default: 250) */
+  minPollIntervalMs?: number;
+  /** Poll interval ceiling while idle; also the safety poll with a subscription (default: 5000) */
+  maxPollIntervalMs?: number;
+  /** First delay after a failed query (default: 1000) */
+  initialBackoffMs?: number;
+  /** Longest delay between failing queries (default: 30000) */
+  maxBackoffMs?: number;
+  /** How long to wait before retrying a failed subscription (default: 60000) */
+  resubscribeIntervalMs?: number;
+  onTransportChange?(transport: StreamTransport): void;
+  /** Query, subscription or event decoding error; the stream keeps going */
+  onError?(error: unknown): void;
+}
+
+export class GameEventStream implements AsyncIterable<GameEvent> {
+  private readonly client: CrossyRobotClient;
+  private readonly module: GameModule;
+  private readonly transportMode: 'auto' | 'polling';
+  private readonly minPollIntervalMs: number;
+  private readonly maxPollIntervalMs: number;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly resubscribeIntervalMs: number;
+  private readonly options: GameEventStreamOptions;
+  private lastCursor: EventId | null;
+  private currentTransport: StreamTransport = 'polling';
+  private unsubscribe: (() => Promise<boolean>) | null = null;
+  private nextSubscribeAttempt = 0;
+  private closed = false;
+  private iterating = false;
+  private wake: (() => void) | null = null;
+  private pendingWake = false;
+
+  constructor(client: CrossyRobotClient, options: GameEventStreamOptions) {
+    this.client = client;
+    this.module = options.module;
+    this.transportMode = options.transport ?? 'auto';
+    this.minPollIntervalMs = options.minPollIntervalMs ?? 250;
+    this.maxPollIntervalMs = options.maxPollIntervalMs ?? 5000;
+    this.initialBackoffMs = options.initialBackoffMs ?? 1000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30_000;
+    this.resubscribeIntervalMs = options.resubscribeIntervalMs ?? 60_000;
+    this.options = options;
+    this.lastCursor = options.cursor ?? null;
+  }
+
+  /** ID of the last event handed to the consumer; a safe resume point */
+  get cursor(): EventId | null {
+    return this.lastCursor;
+  }
+
+  get transport(): StreamTransport {
+    return this.currentTransport;
+  }
+
+  /** End the stream; a pending iteration finishes without another event */
+  close(): void {
+    this.closed = true;
+    this.wakeUp();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<GameEvent> {
+    if (this.iterating) {
+      throw new Error('GameEventStream supports a single consumer');
+    }
+    this.iterating = true;
+    return this.events();
+  }
+
+  private async *events(): AsyncGenerator<GameEvent> {
+    let pollInterval = this.minPollIntervalMs;
+    let backoff = this.initialBackoffMs;
+
+    try {
+      while (!this.closed) {
+        await this.ensureSubscription();
+
+        let page: PaginatedEvents;
+        try {
+          page = await this.client.suiClient.queryEvents({
+            query: { MoveEventModule: { package: this.client.packageId, module: this.module } },
+            cursor: this.lastCursor,
+            order: 'ascending',
+          });
+          backoff = this.initialBackoffMs;
+        } catch (error) {
+          this.options.onError?.(error);
+          await this.sleep(backoff, false);
+          backoff = Math.min(backoff * 2, this.maxBackoffMs);
+          continue;
+        }
+
+        for (const raw of page.data) {
+          if (this.closed) {
+            return;
+          }
+          let event: GameEvent;
+          try {
+            event = decodeGameEvent(raw, this.client.packageId);
+          } catch (error) {
+            this.options.onError?.(error);
+            this.lastCursor = raw.id;
+            continue;
+          }
+          this.lastCursor = event.id;
+          yield event;
+        }
+
+        if (page.hasNextPage) {
+          continue;
+        }
+        pollInterval = page.data.length > 0
+          ? this.minPollIntervalMs
+          : Math.min(pollInterval * 2, this.maxPollIntervalMs);
+
+        // With a live subscription, notifications wake us; the timer is only a safety net
+        await this.sleep(this.unsubscribe ? this.maxPollIntervalMs : pollInterval, true);
+      }
+    } finally {
+      this.iterating = false;
+      await this.dropSubscription();
+    }
+  }
+
+  private async ensureSubscription(): Promise<void> {
+    if (this.transportMode !== 'auto' || this.unsubscribe || Date.now() < this.nextSubscribeAttempt) {
+      return;
+    }
+
+    try {
+      this.unsubscribe = await this.client.suiClient.subscribeEvent({
+        filter: { MoveEventModule: { package: this.client.packageId, module: this.module } },
+        onMessage: () => this.wakeUp(),
+      });
+      this.setTransport('subscription');
+    } catch (error) {
+      this.nextSubscribeAttempt = Date.now() + this.resubscribeIntervalMs;
+      this.options.onError?.(error);
+      this.setTransport('polling');
+    }
+  }
+
+  private async dropSubscription(): Promise<void> {
+    const unsubscribe = this.unsubscribe;
+    this.unsubscribe = null;
+    if (unsubscribe) {
+      await unsubscribe().catch((error) => this.options.onError?.(error));
+    }
+  }
+
+  private setTransport(transport: StreamTransport): void {
+    if (transport !== this.currentTransport) {
+      this.currentTransport = transport;
+      this.options.onTransportChange?.(transport);
+    }
+  }
+
+  private wakeUp(): void {
+    if (this.wake) {
+      this.wake();
+    } else {
+      this.pendingWake = true;
+    }
+  }
+
+  /** Wait for the timer, close(), or (if wakeable) a push notification */
+  private sleep(ms: number, wakeable: boolean): Promise<void> {
+    if (this.closed || (wakeable && this.pendingWake)) {
+      this.pendingWake = false;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        this.pendingWake = false;
+        resolve();
+      };
+      const timer = setTimeout(finish, ms);
+      this.wake = () => {
+        if (wakeable || this.closed) {
+          finish();
+        } else {
+          this.pendingWake = true;
+        }
+      };
+    });
+  }
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SuiEvent } from '@mysten/sui/client';
+import { DIRECTIONS } from './constants';
+import { EventDecodeError } from './errors';
+import { decodeGameEvent, decodeGameEvents, isCrowdRobotEvent } from './events';
+import { readAddressVector, readBytes, readOptionalAddress, readText, readU64, readU8 } from './fields';
+
+const packageId = `0x${'5d'.repeat(32)}`;
+const gameId = `0x${'ab'.repeat(32)}`;
+const player = `0x${'c1'.repeat(32)}`;
+
+function suiEvent(type: string, parsedJson: unknown, seq = 0): SuiEvent {
+  return {
+    id: { txDigest: 'D1', eventSeq: String(seq) },
+    packageId,
+    transactionModule: type.split('::')[0],
+    sender: player,
+    type: `${packageId}::${type}`,
+    parsedJson,
+    bcs: '',
+    bcsEncoding: 'base64',
+    timestampMs: '1767225600000',
+  } as SuiEvent;
+}
+
+const crowdMove = {
+  game_id: gameId,
+  player: `0x${'C1'.repeat(32)}`,
+  direction: DIRECTIONS.UP_LEFT,
+  timestamp: '1767225600123',
+  move_number: 7,
+  is_new_player: true,
+};
+
+describe('decodeGameEvent', () => {
+  it('decodes a payload into bigints and normalized addresses', () => {
+    const event = decodeGameEvent(suiEvent('crowd_robot::RobotMoved', crowdMove), packageId);
+    assert.equal(event.type, 'crowd_robot::RobotMoved');
+    assert.ok(isCrowdRobotEvent(event));
+    assert.deepEqual(event.id, { txDigest: 'D1', eventSeq: '0' });
+    assert.equal(event.timestampMs, 1767225600000n);
+    assert.deepEqual(event.data, {
+      game_id: gameId,
+      player,
+      direction: DIRECTIONS.UP_LEFT,
+      timestamp: 1767225600123n,
+      move_number: 7n,
+      is_new_player: true,
+    });
+  });
+
+  it('tells the GameCreated events of the two modules apart', () => {
+    const crossy = decodeGameEvent(
+      suiEvent('crossy_robot::GameCreated', { game_id: gameId, user: '0x2', payment_amount: '50000000', timestamp: '1' }),
+      packageId
+    );
+    assert.equal(crossy.type, 'crossy_robot::GameCreated');
+    assert.ok(!isCrowdRobotEvent(crossy));
+    assert.equal((crossy.data as { user: string }).user, `0x${'0'.repeat(63)}2`);
+  });
+
+  it('rejects events of other packages and unknown types', () => {
+    const foreign = { ...suiEvent('crowd_robot::RobotMoved', crowdMove), type: '0x2::crowd_robot::RobotMoved' };
+    assert.throws(() => decodeGameEvent(foreign, packageId), /is not from package/);
+    assert.throws(() => decodeGameEvent(suiEvent('crowd_robot::GamePaused', {}), packageId), /Unknown event type crowd_robot::GamePaused/);
+  });
+
+  it('names the malformed field', () => {
+    const decode = (fields: object) => () => decodeGameEvent(suiEvent('crowd_robot::RobotMoved', { ...crowdMove, ...fields }), packageId);
+    assert.throws(decode({ direction: 8 }), (error) => error instanceof EventDecodeError && /direction is not a direction/.test(error.message));
+    assert.throws(decode({ move_number: -1 }), /move_number is not a u64/);
+    assert.throws(decode({ is_new_player: 'yes' }), /is_new_player is not a bool/);
+    assert.throws(decode({ player: 'robot' }), /player is not an address/);
+    assert.throws(() => decodeGameEvent(suiEvent('crowd_robot::RobotMoved', null), packageId), /no parsedJson payload/);
+  });
+});
+
+describe('decodeGameEvents', () => {
+  it('skips events of other packages', () => {
+    const events = decodeGameEvents([
+      { ...suiEvent('crowd_robot::RobotMoved', crowdMove), type: '0x2::coin::CoinCreated' },
+      suiEvent('crowd_robot::RobotMoved', crowdMove, 1),
+    ], packageId);
+    assert.deepEqual(events.map((event) => event.id.eventSeq), ['1']);
+  });
+});
+
+describe('field readers', () => {
+  it('accept u64 strings and safe integers only', () => {
+    assert.equal(readU64({ n: '18446744073709551615' }, 'n'), 18446744073709551615n);
+    assert.equal(readU64({ n: 0 }, 'n'), 0n);
+    for (const n of ['1.5', '-1', '', 2 ** 53, 1.5]) {
+      assert.throws(() => readU64({ n }, 'n'), /n is not a u64/);
+    }
+    assert.throws(() => readU8({ n: 256 }, 'n'), /n is not a u8/);
+  });
+
+  it('read optional addresses and address vectors', () => {
+    assert.equal(readOptionalAddress({ owner: null }, 'owner'), null);
+    assert.equal(readOptionalAddress({}, 'owner'), null);
+    assert.deepEqual(readAddressVector({ list: ['0x1'] }, 'list'), [`0x${'0'.repeat(63)}1`]);
+    assert.throws(() => readAddressVector({ list: ['0x1', 7] }, 'list'), /list\[1\] is not an address/);
+  });
+
+  it('read vector<u8> as bytes and UTF-8 text', () => {
+    assert.deepEqual(readBytes({ data: [1, 2, 255] }, 'data'), new Uint8Array([1, 2, 255]));
+    assert.equal(readText({ name: Array.from(new TextEncoder().encode('robot-1')) }, 'name'), 'robot-1');
+    assert.throws(() => readBytes({ data: [256] }, 'data'), /data is not a vector<u8>/);
+    assert.throws(() => readText({ name: [0xff] }, 'name'), /name is not UTF-8 text/);
+  });
+});
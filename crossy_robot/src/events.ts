@@ -0,0 +1,212 @@
+/**
+ * Typed event model for the crossy_robot and crowd_robot modules.
+ *
+ * Events are discriminated by their fully qualified `module::Name` so the two
+ * modules' `GameCreated` / `RobotMoved` payloads can never be confused. u64
+ * fields are converted to bigint; IDs and addresses are normalized.
+ */
+
+import type { EventId, SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { Direction, GameModule } from './constants';
+import { EventDecodeError } from './errors';
+import { Fields, readAddress, readBool, readDirection, readId, readU64 } from './fields';
+
+// ===== Payloads (field names mirror the Move structs) =====
+
+export interface GameCreatedPayload {
+  game_id: string;
+  user: string;
+  payment_amount: bigint;
+  timestamp: bigint;
+}
+
+export interface RobotConnectedPayload {
+  game_id: string;
+  robot: string;
+  timestamp: bigint;
+}
+
+export interface RobotMovedPayload {
+  game_id: string;
+  direction: Direction;
+  timestamp: bigint;
+}
+
+export interface CrowdGameCreatedPayload {
+  game_id: string;
+  creator: string;
+  created_at: bigint;
+  end_time: bigint;
+}
+
+export interface CrowdRobotMovedPayload {
+  game_id: string;
+  player: string;
+  direction: Direction;
+  timestamp: bigint;
+  move_number: bigint;
+  is_new_player: boolean;
+}
+
+export interface CrowdGameEndedPayload {
+  game_id: string;
+  ended_at: bigint;
+  duration_ms: bigint;
+  total_moves: bigint;
+  unique_players: bigint;
+  creator: string;
+}
+
+// ===== Events =====
+
+/** A decoded event of type `module::Name` with payload P */
+export interface DecodedEvent<T extends string, P> {
+  type: T;
+  /** Event ID (transaction digest + sequence), usable as a query cursor */
+  id: EventId;
+  sender: string;
+  /** Checkpoint timestamp in milliseconds, when the node reports it */
+  timestampMs: bigint | null;
+  data: P;
+}
+
+export type GameCreatedEvent = DecodedEvent<'crossy_robot::GameCreated', GameCreatedPayload>;
+export type RobotConnectedEvent = DecodedEvent<'crossy_robot::RobotConnected', RobotConnectedPayload>;
+export type RobotMovedEvent = DecodedEvent<'crossy_robot::RobotMoved', RobotMovedPayload>;
+export type CrowdGameCreatedEvent = DecodedEvent<'crowd_robot::GameCreated', CrowdGameCreatedPayload>;
+export type CrowdRobotMovedEvent = DecodedEvent<'crowd_robot::RobotMoved', CrowdRobotMovedPayload>;
+export type CrowdGameEndedEvent = DecodedEvent<'crowd_robot::GameEnded', CrowdGameEndedPayload>;
+
+export type CrossyRobotEvent = GameCreatedEvent | RobotConnectedEvent | RobotMovedEvent;
+export type CrowdRobotEvent = CrowdGameCreatedEvent | CrowdRobotMovedEvent | CrowdGameEndedEvent;
+export type GameEvent = CrossyRobotEvent | CrowdRobotEvent;
+
+export type GameEventType = GameEvent['type'];
+
+/** Narrow a decoded event union to a single event type */
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+export const GAME_EVENT_TYPES: readonly GameEventType[] = [
+  'crossy_robot::GameCreated',
+  'crossy_robot::RobotConnected',
+  'crossy_robot::RobotMoved',
+  'crowd_robot::GameCreated',
+  'crowd_robot::RobotMoved',
+  'crowd_robot::GameEnded',
+];
+
+export function isGameEventType(value: string): value is GameEventType {
+  return (GAME_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/** Module that emits a given event type */
+export function eventModule(type: GameEventType): GameModule {
+  return type.split('::')[0] as GameModule;
+}
+
+export function isCrossyRobotEvent(event: GameEvent): event is CrossyRobotEvent {
+  return eventModule(event.type) === 'crossy_robot';
+}
+
+export function isCrowdRobotEvent(event: GameEvent): event is CrowdRobotEvent {
+  return eventModule(event.type) === 'crowd_robot';
+}
+
+// ===== Decoder =====
+
+const PAYLOAD_DECODERS: { [T in GameEventType]: (fields: Fields) => GameEventOf<T>['data'] } = {
+  'crossy_robot::GameCreated': (fields) => ({
+    game_id: readId(fields, 'game_id'),
+    user: readAddress(fields, 'user'),
+    payment_amount: readU64(fields, 'payment_amount'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'crossy_robot::RobotConnected': (fields) => ({
+    game_id: readId(fields, 'game_id'),
+    robot: readAddress(fields, 'robot'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'crossy_robot::RobotMoved': (fields) => ({
+    game_id: readId(fields, 'game_id'),
+    direction: readDirection(fields, 'direction'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'crowd_robot::GameCreated': (fields) => ({
+    game_id: readId(fields, 'game_id'),
+    creator: readAddress(fields, 'creator'),
+    created_at: readU64(fields, 'created_at'),
+    end_time: readU64(fields, 'end_time'),
+  }),
+  'crowd_robot::RobotMoved': (fields) => ({
+    game_id: readId(fields, 'game_id'),
+    player: readAddress(fields, 'player'),
+    direction: readDirection(fields, 'direction'),
+    timestamp: readU64(fields, 'timestamp'),
+    move_number: readU64(fields, 'move_number'),
+    is_new_player: readBool(fields, 'is_new_player'),
+  }),
+  'crowd_robot::GameEnded': (fields) => ({
+    game_id: readId(fields, 'game_id'),
+    ended_at: readU64(fields, 'ended_at'),
+    duration_ms: readU64(fields, 'duration_ms'),
+    total_moves: readU64(fields, 'total_moves'),
+    unique_players: readU64(fields, 'unique_players'),
+    creator: readAddress(fields, 'creator'),
+  }),
+};
+
+/**
+ * Decode a raw Sui event emitted by the given crossy_robot package.
+ *
+ * @throws EventDecodeError if the event comes from another package, is of an
+ * unknown type, or has missing / malformed fields
+ */
+export function decodeGameEvent(event: SuiEvent, packageId: string): GameEvent {
+  const type = localEventType(event, packageId);
+  if (type === null) {
+    throw new EventDecodeError(event.type, `Event is not from package ${packageId}`);
+  }
+  if (!isGameEventType(type)) {
+    throw new EventDecodeError(event.type, `Unknown event type ${type}`);
+  }
+
+  const fields = event.parsedJson;
+  if (typeof fields !== 'object' || fields === null) {
+    throw new EventDecodeError(event.type, 'Event has no parsedJson payload');
+  }
+
+  return {
+    type,
+    id: event.id,
+    sender: event.sender,
+    timestampMs: event.timestampMs ? BigInt(event.timestampMs) : null,
+    data: decodePayload(type, event.type, fields as Fields),
+  } as GameEvent;
+}
+
+/**
+ * Decode every event of the package, skipping events emitted by other packages.
+ */
+export function decodeGameEvents(events: SuiEvent[], packageId: string): GameEvent[] {
+  return events
+    .filter((event) => localEventType(event, packageId) !== null)
+    .map((event) => decodeGameEvent(event, packageId));
+}
+
+/** `module::Name` of an event if it was emitted by the package, otherwise null */
+function localEventType(event: SuiEvent, packageId: string): string | null {
+  const [eventPackage, module, name] = event.type.split('::');
+  if (!module || !name || normalizeSuiAddress(eventPackage) !== normalizeSuiAddress(packageId)) {
+    return null;
+  }
+  return `${module}::${name}`;
+}
+
+function decodePayload<T extends GameEventType>(type: T, rawType: string, fields: Fields): GameEventOf<T>['data'] {
+  try {
+    return PAYLOAD_DECODERS[type](fields);
+  } catch (error) {
+    throw new EventDecodeError(rawType, (error as Error).message, { cause: error });
+  }
+}
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
+import { toBase64 } from '@mysten/sui/utils';
+import { executeTransaction } from './execute';
+
+const signer = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(7));
+
+/** A transaction that builds without reading anything from the network */
+function build(tx: Transaction): void {
+  tx.setGasPrice(1000);
+  tx.setGasBudget(10_000_000);
+  tx.setGasPayment([{ objectId: '0x5', version: '1', digest: '1'.repeat(32) }]);
+  tx.transferObjects([tx.gas], signer.toSuiAddress());
+}
+
+/** A client whose executeTransactionBlock plays `outcomes` in order and records the submitted bytes */
+function fakeClient(outcomes: ('executed' | 'reset' | 'reset-after-execution' | 'refused')[]) {
+  const submitted: string[] = [];
+  const executed = new Map<string, SuiTransactionBlockResponse>();
+  const client = {
+    async executeTransactionBlock({ transactionBlock }: { transactionBlock: Uint8Array }) {
+      submitted.push(toBase64(transactionBlock));
+      const digest = TransactionDataBuilder.getDigestFromBytes(transactionBlock);
+      const response = {
+        digest,
+        effects: { status: { status: 'success' } },
+      } as SuiTransactionBlockResponse;
+      switch (outcomes.shift()) {
+        case 'executed':
+          executed.set(digest, response);
+          return response;
+        case 'reset-after-execution':
+          executed.set(digest, response);
+          throw new Error('read ECONNRESET');
+        case 'refused':
+          throw new Error('connect ECONNREFUSED');
+        default:
+          throw new Error('read ECONNRESET');
+      }
+    },
+    async getTransactionBlock({ digest }: { digest: string }) {
+      const response = executed.get(digest);
+      if (!response) {
+        throw new Error(`Could not find the referenced transaction [TransactionDigest(${digest})]`);
+      }
+      return response;
+    },
+  };
+  return { client: client as unknown as SuiClient, submitted, executed };
+}
+
+const retry = { initialDelayMs: 1, jitter: false };
+
+describe('executeTransaction', () => {
+  it('retries a failure before submission', async () => {
+    const { client, submitted } = fakeClient(['refused', 'executed']);
+    await executeTransaction({ suiClient: client, gas: null, retry }, 'Test', signer, build);
+    assert.equal(submitted.length, 2);
+  });
+
+  it('returns a transaction that executed before the connection was reset', async () => {
+    const { client, submitted, executed } = fakeClient(['reset-after-execution']);
+    const result = await executeTransaction({ suiClient: client, gas: null, retry }, 'Test', signer, build);
+    assert.equal(submitted.length, 1);
+    assert.equal(result, [...executed.values()][0]);
+  });
+
+  it('resubmits the same signed bytes when the transaction is unknown after a reset', async () => {
+    const { client, submitted, executed } = fakeClient(['reset', 'executed']);
+    const result = await executeTransaction({ suiClient: client, gas: null, retry }, 'Test', signer, build);
+    assert.equal(submitted.length, 2);
+    assert.equal(result, [...executed.values()][0]);
+    assert.equal(submitted[0], submitted[1]);
+  });
+
+  it('gives up with the reset once the attempts are used', async () => {
+    const { client, submitted } = fakeClient(['reset', 'reset']);
+    await assert.rejects(
+      executeTransaction({ suiClient: client, gas: null, retry: { ...retry, maxAttempts: 2 } }, 'Test', signer, build),
+      /ECONNRESET/
+    );
+    assert.equal(submitted.length, 2);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Transaction execution shared by the package clients (CrossyRobotClient,
+ * DidRegistryClient, CredentialRegistryClient). Not exported from the
+ * package index.
+ */
+
+import type { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
+import { GasManager, GasReservation } from './gas';
+import { IdentityBatchResult, MAX_IDENTITY_BATCH_SIZE, decodeBatchResults } from './identity-batch';
+import { transactionFailure } from './move-abort';
+import { RetryPolicy, isRetryableError, isUnconfirmedSubmissionError, withRetry } from './retry';
+
+export interface Executor {
+  suiClient: SuiClient;
+  gas: GasManager | null;
+  retry: RetryPolicy;
+}
+
+/**
+ * Build, sign and execute a transaction. Each attempt of the retry policy
+ * builds a fresh transaction, so gas coins and object versions are
+ * resolved again after a conflict.
+ *
+ * When a submission fails without a response (a reset connection, a
+ * gateway error), the transaction is looked up by its digest. If the node
+ * has not executed it, the next attempt resubmits the same signed bytes
+ * instead of building a new transaction, so it runs at most once.
+ */
+export async function executeTransaction(
+  executor: Executor,
+  action: string,
+  signer: Signer,
+  build: (tx: Transaction) => void
+): Promise<SuiTransactionBlockResponse> {
+  const isRetryable = executor.retry.isRetryable ?? isRetryableError;
+  let unconfirmed = null as { submission: SignedSubmission; error: unknown } | null;
+
+  try {
+    return await withRetry(async () => {
+      const submission = unconfirmed?.submission ?? (await signTransaction(executor, action, signer, build));
+      unconfirmed = null;
+
+      let result: SuiTransactionBlockResponse | null = null;
+      try {
+        result = await submitTransaction(executor.suiClient, submission);
+      } catch (error) {
+        if (!isUnconfirmedSubmissionError(error)) {
+          submission.reservation?.release();
+          throw error;
+        }
+        result = await findTransaction(executor.suiClient, submission.digest);
+        if (!result) {
+          unconfirmed = { submission, error };
+          throw error;
+        }
+      }
+      submission.reservation?.release(result);
+
+      if (result.effects?.status?.status !== 'success') {
+        throw transactionFailure(action, result.digest, result.effects?.status?.error);
+      }
+      return result;
+    }, { ...executor.retry, isRetryable: (error) => error === unconfirmed?.error || isRetryable(error) });
+  } finally {
+    // Coins of a submission that may still execute stay reserved until now
+    unconfirmed?.submission.reservation?.release();
+  }
+}
+
+/** A signed transaction and the gas coins reserved for it */
+interface SignedSubmission {
+  bytes: Uint8Array;
+  signature: string;
+  digest: string;
+  reservation: GasReservation | null;
+}
+
+const RESPONSE_OPTIONS = {
+  showEffects: true,
+  showEvents: true,
+  showObjectChanges: true,
+} as const;
+
+async function signTransaction(
+  executor: Executor,
+  action: string,
+  signer: Signer,
+  build: (tx: Transaction) => void
+): Promise<SignedSubmission> {
+  const tx = new Transaction();
+  build(tx);
+  tx.setSenderIfNotSet(signer.toSuiAddress());
+
+  const reservation = executor.gas ? await executor.gas.prepare(tx, signer.toSuiAddress(), { action }) : null;
+  try {
+    const bytes = await tx.build({ client: executor.suiClient });
+    const { signature } = await signer.signTransaction(bytes);
+    return { bytes, signature, digest: TransactionDataBuilder.getDigestFromBytes(bytes), reservation };
+  } catch (error) {
+    reservation?.release();
+    throw error;
+  }
+}
+
+async function submitTransaction(client: SuiClient, submission: SignedSubmission): Promise<SuiTransactionBlockResponse> {
+  return client.executeTransactionBlock({
+    transactionBlock: submission.bytes,
+    signature: submission.signature,
+    options: RESPONSE_OPTIONS,
+  });
+}
+
+/** The executed transaction with this digest, or null if the node does not know it (yet) */
+async function findTransaction(client: SuiClient, digest: string): Promise<SuiTransactionBlockResponse | null> {
+  try {
+    return await client.getTransactionBlock({ digest, options: RESPONSE_OPTIONS });
+  } catch {
+    return null;
+  }
+}
+
+export interface BatchExecution {
+  results: IdentityBatchResult[];
+  /** null when no entry would succeed, so nothing was executed */
+  response: SuiTransactionBlockResponse | null;
+}
+
+/**
+ * Run a suibotics_did batch call as a devInspect with the signer as sender
+ * to read its per-entry results, then execute it if any entry succeeds.
+ * `build` returns the index of the batch command.
+ */
+export async function executeBatch(
+  executor: Executor,
+  action: string,
+  signer: Signer,
+  build: (tx: Transaction) => number
+): Promise<BatchExecution> {
+  const tx = new Transaction();
+  const command = build(tx);
+  const inspection = await executor.suiClient.devInspectTransactionBlock({
+    sender: signer.toSuiAddress(),
+    transactionBlock: tx,
+  });
+  if (inspection.effects.status.status !== 'success') {
+    throw transactionFailure(
+      action,
+      inspection.effects.transactionDigest,
+      inspection.effects.status.error ?? inspection.error ?? undefined
+    );
+  }
+  const returned = inspection.results?.[command]?.returnValues?.[0];
+  if (!returned) {
+    throw new TypeError(`${action} returned no BatchResult vector`);
+  }
+
+  const results = decodeBatchResults(Uint8Array.from(returned[0]));
+  if (!results.some((result) => result.success)) {
+    return { results, response: null };
+  }
+  const response = await executeTransaction(executor, action, signer, (tx) => {
+    build(tx);
+  });
+  return { results, response };
+}
+
+/**
+ * Mark entries the inspection expected to succeed, but that left no event
+ * in the executed transaction, as failed with error code 0. This happens
+ * when the registry changed between the inspection and the execution.
+ */
+export function confirmBatchResults(
+  results: IdentityBatchResult[],
+  confirmed: (index: number) => boolean
+): IdentityBatchResult[] {
+  return results.map((result) =>
+    result.success && !confirmed(result.index) ? { ...result, success: false, errorCode: 0, errorName: null } : result
+  );
+}
+
+/**
+ * @throws RangeError unless there are 1 to MAX_IDENTITY_BATCH_SIZE entries
+ */
+export function checkBatchSize(entries: readonly unknown[]): void {
+  if (entries.length === 0 || entries.length > MAX_IDENTITY_BATCH_SIZE) {
+    throw new RangeError(`A batch takes 1 to ${MAX_IDENTITY_BATCH_SIZE} entries; got ${entries.length}`);
+  }
+}
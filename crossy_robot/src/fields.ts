@@ -0,0 +1,99 @@
+/**
+ * Readers for Move struct fields in JSON-RPC form (event `parsedJson` and
+ * object `content.fields`).
+ *
+ * Each reader throws a plain Error naming the field; callers wrap it in the
+ * error type of what they are decoding. Not exported from the package index.
+ */
+
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import { Direction, isDirection } from './constants';
+import { fromMoveBytes, moveBytesToString } from './move-bytes';
+
+export type Fields = Record<string, unknown>;
+
+export function readAddress(fields: Fields, name: string): string {
+  const value = fields[name];
+  if (typeof value !== 'string' || !isValidSuiAddress(normalizeSuiAddress(value))) {
+    throw new Error(`Field ${name} is not an address`);
+  }
+  return normalizeSuiAddress(value);
+}
+
+// ID and address share the same representation in JSON
+export const readId = readAddress;
+
+/** Option<address>, which JSON-RPC renders as the address or null */
+export function readOptionalAddress(fields: Fields, name: string): string | null {
+  return fields[name] === null || fields[name] === undefined ? null : readAddress(fields, name);
+}
+
+export function readAddressVector(fields: Fields, name: string): string[] {
+  const value = fields[name];
+  if (!Array.isArray(value)) {
+    throw new Error(`Field ${name} is not a vector`);
+  }
+  return value.map((item, i) => readAddress({ [`${name}[${i}]`]: item }, `${name}[${i}]`));
+}
+
+export function readU8(fields: Fields, name: string): number {
+  const value = fields[name];
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 255) {
+    throw new Error(`Field ${name} is not a u8`);
+  }
+  return value;
+}
+
+export function readU64(fields: Fields, name: string): bigint {
+  const value = fields[name];
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  throw new Error(`Field ${name} is not a u64`);
+}
+
+export function readDirection(fields: Fields, name: string): Direction {
+  const value = fields[name];
+  if (typeof value !== 'number' || !isDirection(value)) {
+    throw new Error(`Field ${name} is not a direction (0-7)`);
+  }
+  return value;
+}
+
+export function readBool(fields: Fields, name: string): boolean {
+  const value = fields[name];
+  if (typeof value !== 'boolean') {
+    throw new Error(`Field ${name} is not a bool`);
+  }
+  return value;
+}
+
+/** Fields of a nested struct, such as a Coin held in an Option */
+export function readStruct(fields: Fields, name: string): Fields {
+  const value = fields[name];
+  if (typeof value !== 'object' || value === null || typeof (value as Fields).fields !== 'object') {
+    throw new Error(`Field ${name} is not a struct`);
+  }
+  return (value as { fields: Fields }).fields;
+}
+
+/** vector<u8>, rendered as an array of numbers */
+export function readBytes(fields: Fields, name: string): Uint8Array {
+  try {
+    return fromMoveBytes(fields[name]);
+  } catch {
+    throw new Error(`Field ${name} is not a vector<u8>`);
+  }
+}
+
+/** vector<u8> holding UTF-8 text */
+export function readText(fields: Fields, name: string): string {
+  try {
+    return moveBytesToString(fields[name]);
+  } catch {
+    throw new Error(`Field ${name} is not UTF-8 text`);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Typed on-chain state of crossy_robot::Game, crowd_robot::Game and the
+ * shared Clock.
+ *
+ * Field names mirror the Move structs; u64 fields are bigint. The helpers
+ * evaluate the crowd_robot view functions (`has_expired`, `time_remaining`,
+ * `get_player_count`, `has_player_participated`) against a Clock timestamp,
+ * so expiry is judged by chain time exactly as the contract judges it,
+ * never by the local clock.
+ */
+
+import type { SuiObjectData } from '@mysten/sui/client';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { CROWD_GAME_STATUS, CrowdGameStatus, GAME_STATUS, GameModule, GameStatus } from './constants';
+import { ObjectDecodeError } from './errors';
+import {
+  Fields,
+  readAddress,
+  readAddressVector,
+  readOptionalAddress,
+  readStruct,
+  readU64,
+  readU8
+} from './fields';
+
+const CLOCK_TYPE = '0x2::clock::Clock';
+
+// ===== State =====
+
+/** crossy_robot::Game */
+export interface GameState {
+  id: string;
+  user: string;
+  /** Robot that connected, null while waiting */
+  robot: string | null;
+  status: GameStatus;
+  /** MIST held in escrow until a robot connects, null once released */
+  payment: bigint | null;
+  created_at: bigint;
+}
+
+/** crowd_robot::Game */
+export interface CrowdGameState {
+  id: string;
+  creator: string;
+  /** Players in order of their first move */
+  players: string[];
+  status: CrowdGameStatus;
+  created_at: bigint;
+  end_time: bigint;
+  total_moves: bigint;
+}
+
+/** A crowd game together with the Clock timestamp it was read at */
+export interface CrowdGameView {
+  game: CrowdGameState;
+  /** `clock::timestamp_ms` at the time of the read */
+  nowMs: bigint;
+  /** `has_expired` */
+  expired: boolean;
+  /** `time_remaining` */
+  timeRemainingMs: bigint;
+}
+
+// ===== Decoders =====
+
+/**
+ * Decode a crossy_robot::Game object fetched with `showContent`.
+ *
+ * @throws ObjectDecodeError if it is not a Game of the package
+ */
+export function decodeGameState(object: SuiObjectData, packageId: string): GameState {
+  const { id, fields } = gameFields(object, packageId, 'crossy_robot');
+  return decodeFields(id, () => {
+    const status = readU8(fields, 'status');
+    if (!(Object.values(GAME_STATUS) as number[]).includes(status)) {
+      throw new Error(`Unknown status ${status}`);
+    }
+    return {
+      id,
+      user: readAddress(fields, 'user'),
+      robot: readOptionalAddress(fields, 'robot'),
+      status: status as GameStatus,
+      payment: fields.payment === null ? null : readU64(readStruct(fields, 'payment'), 'balance'),
+      created_at: readU64(fields, 'created_at'),
+    };
+  });
+}
+
+/**
+ * Decode a crowd_robot::Game object fetched with `showContent`.
+ *
+ * @throws ObjectDecodeError if it is not a Game of the package
+ */
+export function decodeCrowdGameState(object: SuiObjectData, packageId: string): CrowdGameState {
+  const { id, fields } = gameFields(object, packageId, 'crowd_robot');
+  return decodeFields(id, () => {
+    const status = readU8(fields, 'status');
+    if (!(Object.values(CROWD_GAME_STATUS) as number[]).includes(status)) {
+      throw new Error(`Unknown status ${status}`);
+    }
+    return {
+      id,
+      creator: readAddress(fields, 'creator'),
+      players: readAddressVector(fields, 'players'),
+      status: status as CrowdGameStatus,
+      created_at: readU64(fields, 'created_at'),
+      end_time: readU64(fields, 'end_time'),
+      total_moves: readU64(fields, 'total_moves'),
+    };
+  });
+}
+
+/**
+ * `clock::timestamp_ms` of the shared Clock object (0x6) fetched with
+ * `showContent`.
+ */
+export function decodeClockTimestamp(object: SuiObjectData): bigint {
+  const content = object.content;
+  if (content?.dataType !== 'moveObject' || normalizeStructTag(content.type) !== normalizeStructTag(CLOCK_TYPE)) {
+    const actual = content?.dataType === 'moveObject' ? content.type : content?.dataType ?? 'no content';
+    throw new ObjectDecodeError(object.objectId, `Expected ${CLOCK_TYPE}, got ${actual}`);
+  }
+  return decodeFields(object.objectId, () => readU64(content.fields as Fields, 'timestamp_ms'));
+}
+
+/** Module whose Game an object fetched with `showContent` is, or null for any other object */
+export function gameModuleOf(object: SuiObjectData, packageId: string): GameModule | null {
+  if (object.content?.dataType !== 'moveObject') {
+    return null;
+  }
+  const [objectPackage, module, name] = object.content.type.split('::');
+  if (name !== 'Game' || normalizeSuiAddress(objectPackage) !== normalizeSuiAddress(packageId)) {
+    return null;
+  }
+  return module === 'crossy_robot' || module === 'crowd_robot' ? module : null;
+}
+
+// ===== View functions =====
+
+/** crowd_robot::has_expired */
+export function hasExpired(game: CrowdGameState, nowMs: bigint): boolean {
+  return nowMs >= game.end_time;
+}
+
+/** crowd_robot::time_remaining (0 once expired) */
+export function timeRemaining(game: CrowdGameState, nowMs: bigint): bigint {
+  return nowMs >= game.end_time ? 0n : game.end_time - nowMs;
+}
+
+/** crowd_robot::get_player_count */
+export function getPlayerCount(game: CrowdGameState): number {
+  return game.players.length;
+}
+
+/** crowd_robot::has_player_participated */
+export function hasPlayerParticipated(game: CrowdGameState, player: string): boolean {
+  return game.players.includes(normalizeSuiAddress(player));
+}
+
+/** Evaluate the time-dependent view functions at a Clock timestamp */
+export function crowdGameView(game: CrowdGameState, nowMs: bigint): CrowdGameView {
+  return {
+    game,
+    nowMs,
+    expired: hasExpired(game, nowMs),
+    timeRemainingMs: timeRemaining(game, nowMs),
+  };
+}
+
+// ===== Helpers =====
+
+function gameFields(
+  object: SuiObjectData,
+  packageId: string,
+  module: GameModule
+): { id: string; fields: Fields } {
+  const content = object.content;
+  if (content?.dataType !== 'moveObject' || gameModuleOf(object, packageId) !== module) {
+    const actual = content?.dataType === 'moveObject' ? content.type : content?.dataType ?? 'no content';
+    throw new ObjectDecodeError(object.objectId, `Expected ${normalizeSuiAddress(packageId)}::${module}::Game, got ${actual}`);
+  }
+  return { id: normalizeSuiAddress(object.objectId), fields: content.fields as Fields };
+}
+
+function decodeFields<T>(objectId: string, decode: () => T): T {
+  try {
+    return decode();
+  } catch (error) {
+    throw new ObjectDecodeError(objectId, (error as Error).message, { cause: error });
+  }
+}
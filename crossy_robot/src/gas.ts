@@ -0,0 +1,416 @@
+/**
+ * Gas Manager
+ *
+ * Prices every transaction with a dry run, picks gas coins for it and sets
+ * an explicit budget. Coins picked for a transaction stay reserved until it
+ * has executed, so parallel senders sharing one address never race for the
+ * same coin object; several small coins are merged into the gas payment
+ * automatically. On networks whose profile allows it (localnet), low
+ * balances are topped up from the faucet.
+ */
+
+import type { DryRunTransactionBlockResponse, SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { requestSuiFromFaucetV2 } from '@mysten/sui/faucet';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { GasBudgetExceededError, InsufficientGasError } from './errors';
+import { transactionFailure } from './move-abort';
+import type { GasSettings, NetworkProfile } from './network';
+
+/** Coins per gas payment allowed by the protocol */
+const MAX_GAS_COINS = 255;
+/** Extra computation units added to a dry-run estimate, as the Sui SDK does */
+const GAS_SAFE_OVERHEAD = 1000n;
+const REFERENCE_GAS_PRICE_TTL_MS = 10 * 60_000;
+const SUI_TYPE = '0x2::sui::SUI';
+
+export interface GasCoin {
+  objectId: string;
+  version: string;
+  digest: string;
+  balance: bigint;
+}
+
+export interface GasEstimate {
+  computationCost: bigint;
+  storageCost: bigint;
+  storageRebate: bigint;
+  /** What the sender pays for gas after the storage rebate */
+  netCost: bigint;
+  /** Budget to set: dry-run cost plus overhead and safety margin */
+  budget: bigint;
+  /** SUI the transaction takes from the gas coin besides gas (e.g. a game payment) */
+  value: bigint;
+  gasPrice: bigint;
+}
+
+export interface PrepareOptions {
+  /** Label used in errors (default: 'Transaction') */
+  action?: string;
+  /** SUI drawn from the gas coin that a dry run cannot see as spent (e.g. split to the sender) */
+  value?: bigint;
+  /** Pay only with coins holding at most this many MIST, e.g. a pool split off with splitGasCoins */
+  maxCoinBalance?: bigint;
+}
+
+/** Gas settings applied to a transaction; release once it has executed */
+export interface GasReservation {
+  estimate: GasEstimate;
+  coins: GasCoin[];
+  /** Unlock the coins, recording the new gas coin version from the effects */
+  release(result?: SuiTransactionBlockResponse): void;
+}
+
+export interface GasManagerOptions {
+  client: SuiClient;
+  /** Budget cap, fixed gas price and auto-funding from the network profile */
+  settings?: GasSettings;
+  /** Faucet used for auto-funding */
+  faucetHost?: string;
+  /** Added on top of the dry-run estimate (default: 20) */
+  safetyMarginPercent?: number;
+  /** How long to wait for a faucet transfer to arrive (default: 30000) */
+  fundingTimeoutMs?: number;
+}
+
+export interface FundingResult {
+  balance: bigint;
+  /** Number of faucet requests made */
+  requests: number;
+}
+
+export class GasManager {
+  public readonly settings: GasSettings;
+  private readonly client: SuiClient;
+  private readonly faucetHost?: string;
+  private readonly safetyMarginPercent: bigint;
+  private readonly fundingTimeoutMs: number;
+  /** Coins picked for a transaction that has not executed yet */
+  private readonly reserved = new Set<string>();
+  /** Newest known refs of coins used as gas, in case the node lags behind */
+  private readonly latestRefs = new Map<string, { version: string; digest: string }>();
+  /** Coins merged away in a gas payment */
+  private readonly spent = new Set<string>();
+  private gasPrice: { value: bigint; fetchedAt: number } | null = null;
+
+  constructor(options: GasManagerOptions) {
+    this.client = options.client;
+    this.settings = options.settings ?? { budget: 10_000_000n };
+    this.faucetHost = options.faucetHost;
+    this.safetyMarginPercent = BigInt(options.safetyMarginPercent ?? 20);
+    this.fundingTimeoutMs = options.fundingTimeoutMs ?? 30_000;
+  }
+
+  static forNetwork(client: SuiClient, profile: NetworkProfile): GasManager {
+    return new GasManager({ client, settings: profile.gas, faucetHost: profile.faucetHost });
+  }
+
+  /**
+   * Dry-run a transaction and derive its budget. The budget cap from the
+   * settings bounds the dry run; estimates above it are rejected. If the
+   * transaction already has another sender, `sender` sponsors its gas.
+   */
+  async estimate(tx: Transaction, sender: string, options: PrepareOptions = {}): Promise<GasEstimate> {
+    const action = options.action ?? 'Transaction';
+    sender = normalizeSuiAddress(sender);
+    const gasPrice = await this.getGasPrice();
+    const coins = await this.freeCoins(sender);
+    const available = sum(coins);
+    if (coins.length === 0) {
+      throw new InsufficientGasError(sender, this.settings.budget, 0n);
+    }
+
+    tx.setSenderIfNotSet(sender);
+    if (normalizeSuiAddress(tx.getData().sender!) !== sender) {
+      tx.setGasOwner(sender);
+    }
+    tx.setGasPrice(gasPrice);
+    tx.setGasBudget(available < this.settings.budget ? available : this.settings.budget);
+    tx.setGasPayment(coins.slice(0, MAX_GAS_COINS).map(toObjectRef));
+
+    const dryRun = await this.client.dryRunTransactionBlock({
+      transactionBlock: await tx.build({ client: this.client }),
+    });
+    if (dryRun.effects.status.status !== 'success') {
+      throw transactionFailure(
+        `${action} dry run`,
+        dryRun.effects.transactionDigest,
+        dryRun.effects.status.error
+      );
+    }
+
+    const { computationCost, storageCost, storageRebate } = dryRun.effects.gasUsed;
+    const computation = BigInt(computationCost) + GAS_SAFE_OVERHEAD * gasPrice;
+    const netCost = BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate);
+    const withStorage = computation + BigInt(storageCost) - BigInt(storageRebate);
+    const needed = withStorage > computation ? withStorage : computation;
+    const budget = (needed * (100n + this.safetyMarginPercent) + 99n) / 100n;
+    if (budget > this.settings.budget) {
+      throw new GasBudgetExceededError(action, budget, this.settings.budget);
+    }
+
+    const spentBySender = -senderSuiChange(dryRun, sender);
+    const drawn = spentBySender - netCost;
+    return {
+      computationCost: BigInt(computationCost),
+      storageCost: BigInt(storageCost),
+      storageRebate: BigInt(storageRebate),
+      netCost,
+      budget,
+      value: (drawn > 0n ? drawn : 0n) + (options.value ?? 0n),
+      gasPrice,
+    };
+  }
+
+  /**
+   * Estimate a transaction, then set its budget, price and gas coins. The
+   * chosen coins are reserved until `release()` is called.
+   */
+  async prepare(tx: Transaction, sender: string, options: PrepareOptions = {}): Promise<GasReservation> {
+    const owner = normalizeSuiAddress(sender);
+    const estimate = await this.estimate(tx, owner, options);
+    const required = estimate.budget + estimate.value;
+
+    // Selection and reservation happen without an await in between
+    const coins = (await this.freeCoins(owner)).filter(
+      (coin) => options.maxCoinBalance === undefined || coin.balance <= options.maxCoinBalance
+    );
+    const selected = selectCoins(coins, required);
+    if (!selected) {
+      throw new InsufficientGasError(owner, required, sum(coins.slice(0, MAX_GAS_COINS)));
+    }
+    selected.forEach((coin) => this.reserved.add(coin.objectId));
+
+    tx.setGasBudget(estimate.budget);
+    tx.setGasPrice(estimate.gasPrice);
+    tx.setGasPayment(selected.map(toObjectRef));
+
+    let released = false;
+    return {
+      estimate,
+      coins: selected,
+      release: (result) => {
+        if (released) {
+          return;
+        }
+        released = true;
+        selected.forEach((coin) => this.reserved.delete(coin.objectId));
+        this.recordGasUsage(selected, result);
+      },
+    };
+  }
+
+  /** All SUI coins of an address, largest first, with any newer refs applied */
+  async getGasCoins(owner: string): Promise<GasCoin[]> {
+    const coins: GasCoin[] = [];
+    let cursor: string | null | undefined = null;
+    do {
+      const page = await this.client.getCoins({ owner, coinType: SUI_TYPE, cursor });
+      for (const coin of page.data) {
+        if (this.spent.has(coin.coinObjectId)) {
+          continue;
+        }
+        const latest = this.latestRefs.get(coin.coinObjectId);
+        const stale = latest && BigInt(latest.version) > BigInt(coin.version);
+        if (latest && !stale) {
+          this.latestRefs.delete(coin.coinObjectId);
+        }
+        coins.push({
+          objectId: coin.coinObjectId,
+          version: stale ? latest.version : coin.version,
+          digest: stale ? latest.digest : coin.digest,
+          balance: BigInt(coin.balance),
+        });
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return coins.sort((a, b) => (a.balance > b.balance ? -1 : a.balance < b.balance ? 1 : 0));
+  }
+
+  /**
+   * Merge an address's unreserved coins into one (up to 255 per transaction),
+   * undoing fragmentation from many small transfers.
+   */
+  async mergeCoins(signer: Signer): Promise<GasCoin | null> {
+    const owner = signer.toSuiAddress();
+    let coins = await this.freeCoins(owner);
+    while (coins.length > 1) {
+      const batch = coins.slice(0, MAX_GAS_COINS);
+      const tx = new Transaction();
+      tx.transferObjects([tx.gas], tx.pure.address(owner));
+      await this.executeWithCoins('Merge gas coins', signer, tx, batch);
+      coins = await this.freeCoins(owner);
+    }
+    return coins[0] ?? null;
+  }
+
+  /**
+   * Split `count` coins of `amount` MIST off the sender's gas, e.g. so each
+   * parallel worker of one address has its own gas coin.
+   */
+  async splitGasCoins(signer: Signer, count: number, amount: bigint): Promise<GasCoin[]> {
+    const owner = signer.toSuiAddress();
+    const tx = new Transaction();
+    const coins = tx.splitCoins(tx.gas, Array.from({ length: count }, () => tx.pure.u64(amount)));
+    tx.transferObjects(
+      Array.from({ length: count }, (_, i) => coins[i]),
+      tx.pure.address(owner)
+    );
+
+    const reservation = await this.prepare(tx, owner, { action: 'Split gas coins', value: amount * BigInt(count) });
+    let result: SuiTransactionBlockResponse | undefined;
+    try {
+      result = await this.run('Split gas coins', signer, tx);
+    } finally {
+      reservation.release(result);
+    }
+
+    return (result.objectChanges ?? []).flatMap((change) =>
+      change.type === 'created' && change.objectType === `0x2::coin::Coin<${SUI_TYPE}>`
+        ? [{ objectId: change.objectId, version: change.version, digest: change.digest, balance: amount }]
+        : []
+    );
+  }
+
+  /**
+   * Make sure an address holds at least `amount` MIST. Networks with
+   * `autoFund` are topped up from the faucet; elsewhere a shortfall throws
+   * {@link InsufficientGasError}.
+   */
+  async ensureBalance(address: string, amount: bigint): Promise<FundingResult> {
+    let balance = await this.getBalance(address);
+    if (balance >= amount) {
+      return { balance, requests: 0 };
+    }
+    if (!this.settings.autoFund || !this.faucetHost) {
+      throw new InsufficientGasError(address, amount, balance);
+    }
+
+    let requests = 0;
+    const deadline = Date.now() + this.fundingTimeoutMs;
+    while (balance < amount && Date.now() < deadline) {
+      const before = balance;
+      try {
+        const response = await requestSuiFromFaucetV2({ host: this.faucetHost, recipient: address });
+        if (response.status !== 'Success') {
+          throw new Error(`Faucet request failed: ${JSON.stringify(response.status)}`);
+        }
+      } catch (error) {
+        throw new InsufficientGasError(address, amount, balance, { cause: error });
+      }
+      requests++;
+      while (balance <= before && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        balance = await this.getBalance(address);
+      }
+    }
+
+    if (balance < amount) {
+      throw new InsufficientGasError(address, amount, balance);
+    }
+    return { balance, requests };
+  }
+
+  private async getBalance(address: string): Promise<bigint> {
+    const balance = await this.client.getBalance({ owner: address });
+    return BigInt(balance.totalBalance);
+  }
+
+  private async getGasPrice(): Promise<bigint> {
+    if (this.settings.price !== undefined) {
+      return this.settings.price;
+    }
+    if (!this.gasPrice || Date.now() - this.gasPrice.fetchedAt > REFERENCE_GAS_PRICE_TTL_MS) {
+      this.gasPrice = { value: await this.client.getReferenceGasPrice(), fetchedAt: Date.now() };
+    }
+    return this.gasPrice.value;
+  }
+
+  private async freeCoins(owner: string): Promise<GasCoin[]> {
+    const coins = await this.getGasCoins(owner);
+    return coins.filter((coin) => !this.reserved.has(coin.objectId));
+  }
+
+  /** Execute with a fixed set of gas coins (all of them are merged) */
+  private async executeWithCoins(
+    action: string,
+    signer: Signer,
+    tx: Transaction,
+    coins: GasCoin[]
+  ): Promise<SuiTransactionBlockResponse> {
+    coins.forEach((coin) => this.reserved.add(coin.objectId));
+    let result: SuiTransactionBlockResponse | undefined;
+    try {
+      tx.setSender(signer.toSuiAddress());
+      tx.setGasPrice(await this.getGasPrice());
+      tx.setGasBudget(this.settings.budget < sum(coins) ? this.settings.budget : sum(coins));
+      tx.setGasPayment(coins.map(toObjectRef));
+      result = await this.run(action, signer, tx);
+      return result;
+    } finally {
+      coins.forEach((coin) => this.reserved.delete(coin.objectId));
+      this.recordGasUsage(coins, result);
+    }
+  }
+
+  private async run(action: string, signer: Signer, tx: Transaction): Promise<SuiTransactionBlockResponse> {
+    const result = await this.client.signAndExecuteTransaction({
+      signer,
+      transaction: tx,
+      options: { showEffects: true, showObjectChanges: true },
+    });
+    if (result.effects?.status?.status !== 'success') {
+      throw transactionFailure(action, result.digest, result.effects?.status?.error);
+    }
+    return result;
+  }
+
+  /** The first payment coin survives with a new version; the rest are merged away */
+  private recordGasUsage(coins: GasCoin[], result?: SuiTransactionBlockResponse): void {
+    const gasObject = result?.effects?.gasObject.reference;
+    if (!gasObject) {
+      return;
+    }
+    this.latestRefs.set(gasObject.objectId, { version: String(gasObject.version), digest: gasObject.digest });
+    for (const coin of coins) {
+      if (coin.objectId !== gasObject.objectId) {
+        this.spent.add(coin.objectId);
+      }
+    }
+  }
+}
+
+/** Fewest coins (largest first) covering the amount, or null */
+function selectCoins(coins: GasCoin[], amount: bigint): GasCoin[] | null {
+  const selected: GasCoin[] = [];
+  let total = 0n;
+  for (const coin of coins.slice(0, MAX_GAS_COINS)) {
+    selected.push(coin);
+    total += coin.balance;
+    if (total >= amount) {
+      return selected;
+    }
+  }
+  return null;
+}
+
+function senderSuiChange(dryRun: DryRunTransactionBlockResponse, sender: string): bigint {
+  return dryRun.balanceChanges
+    .filter((change) =>
+      normalizeStructTag(change.coinType) === normalizeStructTag(SUI_TYPE) &&
+      typeof change.owner === 'object' &&
+      'AddressOwner' in change.owner &&
+      normalizeSuiAddress(change.owner.AddressOwner) === sender
+    )
+    .reduce((total, change) => total + BigInt(change.amount), 0n);
+}
+
+function sum(coins: GasCoin[]): bigint {
+  return coins.reduce((total, coin) => total + coin.balance, 0n);
+}
+
+function toObjectRef(coin: GasCoin): { objectId: string; version: string; digest: string } {
+  return { objectId: coin.objectId, version: coin.version, digest: coin.digest };
+}
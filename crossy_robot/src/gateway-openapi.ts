@@ -0,0 +1,360 @@
+/**
+ * OpenAPI 3.1 description of the game gateway (src/gateway.ts), served at
+ * GET /openapi.json.
+ */
+
+const U64 = { type: 'string', pattern: '^[0-9]+$', description: 'u64 as a decimal string' } as const;
+const ADDRESS = { type: 'string', pattern: '^0x[0-9a-f]{64}$' } as const;
+const MODULE = { type: 'string', enum: ['crossy_robot', 'crowd_robot'] } as const;
+const DIRECTION = {
+  type: 'integer',
+  minimum: 0,
+  maximum: 7,
+  description: '0 UP, 1 DOWN, 2 LEFT, 3 RIGHT, 4 UP_RIGHT, 5 UP_LEFT, 6 DOWN_LEFT, 7 DOWN_RIGHT',
+} as const;
+
+const GAME_ID_PARAMETER = {
+  name: 'gameId',
+  in: 'path',
+  required: true,
+  schema: ADDRESS,
+} as const;
+
+function errorResponse(description: string) {
+  return { description, content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } };
+}
+
+function jsonResponse(description: string, schema: string) {
+  return { description, content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } } };
+}
+
+function jsonBody(schema: object) {
+  return { required: true, content: { 'application/json': { schema } } };
+}
+
+const MOVE_ERRORS = {
+  '400': errorResponse('Invalid direction, transaction or key'),
+  '401': errorResponse('Custodial key used without the bearer token'),
+  '404': errorResponse('No game with this ID'),
+  '409': errorResponse('The move was rejected on chain; `code` is the Move abort constant, e.g. E_GAME_NOT_ACTIVE'),
+  '502': errorResponse('The Sui node could not be reached'),
+};
+
+export const GATEWAY_OPENAPI = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Crossy Robot Game Gateway',
+    version: '1.0.0',
+    description:
+      'REST and Server-Sent Events access to crossy_robot and crowd_robot games. ' +
+      'u64 values are decimal strings. Requests that use a custodial key need ' +
+      '`Authorization: Bearer <token>` when the gateway is started with a token. ' +
+      'A gateway started with a sponsor pays gas for crowd_robot moves through /sponsor.',
+  },
+  paths: {
+    '/health': {
+      get: {
+        summary: 'Gateway status, network and custodial key names',
+        responses: { '200': jsonResponse('Gateway is up', 'Health') },
+      },
+    },
+    '/games': {
+      get: {
+        summary: 'List games, newest first',
+        parameters: [
+          { name: 'module', in: 'query', required: true, schema: MODULE },
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 50, default: 20 } },
+          { name: 'cursor', in: 'query', schema: { type: 'string' }, description: '`nextCursor` of the previous page' },
+        ],
+        responses: {
+          '200': jsonResponse('A page of games', 'GamePage'),
+          '400': errorResponse('Invalid module, limit or cursor'),
+        },
+      },
+      post: {
+        summary: 'Create a game with a custodial key',
+        security: [{ bearer: [] }],
+        requestBody: jsonBody({
+          type: 'object',
+          required: ['module', 'key'],
+          properties: { module: MODULE, key: { type: 'string', description: 'Custodial key name (see /health)' } },
+        }),
+        responses: {
+          '201': jsonResponse('Game created', 'CreatedGame'),
+          '400': errorResponse('Invalid module or unknown key'),
+          '401': errorResponse('Missing or wrong bearer token'),
+          '409': errorResponse('The transaction failed on chain or the key lacks gas'),
+        },
+      },
+    },
+    '/games/{gameId}': {
+      get: {
+        summary: 'Current state of a game',
+        parameters: [GAME_ID_PARAMETER],
+        responses: {
+          '200': jsonResponse('Game state; crowd games include chain time and expiry', 'Game'),
+          '404': errorResponse('No game with this ID'),
+        },
+      },
+    },
+    '/games/{gameId}/moves/prepare': {
+      post: {
+        summary: 'Build an unsigned move transaction for the player to sign',
+        parameters: [GAME_ID_PARAMETER],
+        requestBody: jsonBody({
+          type: 'object',
+          required: ['sender', 'direction'],
+          properties: { sender: ADDRESS, direction: DIRECTION },
+        }),
+        responses: {
+          '200': jsonResponse('Transaction bytes; the sender pays gas', 'PreparedMove'),
+          '400': errorResponse('Invalid sender or direction'),
+          '404': errorResponse('No game with this ID'),
+        },
+      },
+    },
+    '/games/{gameId}/moves': {
+      post: {
+        summary: 'Submit a move, signed by the player or sent with a custodial key',
+        parameters: [GAME_ID_PARAMETER],
+        security: [{ bearer: [] }, {}],
+        requestBody: jsonBody({
+          oneOf: [
+            {
+              type: 'object',
+              title: 'Signed move',
+              required: ['transactionBytes', 'signature'],
+              properties: {
+                transactionBytes: {
+                  type: 'string',
+                  description: 'Base64 bytes from /moves/prepare; may only call move_robot on this game',
+                },
+                signature: {
+                  oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+                  description: 'Base64 serialized signature(s)',
+                },
+              },
+            },
+            {
+              type: 'object',
+              title: 'Custodial move',
+              required: ['direction', 'key'],
+              properties: { direction: DIRECTION, key: { type: 'string' } },
+            },
+          ],
+        }),
+        responses: { '200': jsonResponse('Move executed', 'MoveResult'), ...MOVE_ERRORS },
+      },
+    },
+    '/games/{gameId}/events': {
+      get: {
+        summary: 'Server-Sent Events of one game',
+        description:
+          'Each message has `id` `<txDigest>:<eventSeq>`, `event` the event type (e.g. `crowd_robot::RobotMoved`) ' +
+          'and a GameEvent as `data`. With `history=true` the game\'s past events are sent first. A reconnecting ' +
+          'client that sends `Last-Event-ID` receives the events after that one.',
+        parameters: [
+          GAME_ID_PARAMETER,
+          { name: 'history', in: 'query', schema: { type: 'boolean', default: false } },
+          { name: 'Last-Event-ID', in: 'header', schema: { type: 'string' } },
+        ],
+        responses: {
+          '200': { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+          '404': errorResponse('No game with this ID'),
+        },
+      },
+    },
+    '/sponsor': {
+      post: {
+        summary: 'Have the gateway pay gas for a crowd_robot move',
+        description:
+          'Send a base64 TransactionKind built with `onlyTransactionKind`, or a game and direction for the gateway ' +
+          'to build one. The returned bytes include the sponsor\'s gas; the sender signs them and posts both to ' +
+          '/sponsor/execute before `expiresAt`.',
+        requestBody: jsonBody({
+          oneOf: [
+            {
+              type: 'object',
+              title: 'Transaction kind',
+              required: ['sender', 'transactionKind'],
+              properties: { sender: ADDRESS, transactionKind: { type: 'string', description: 'Base64 TransactionKind' } },
+            },
+            {
+              type: 'object',
+              title: 'Crowd move',
+              required: ['sender', 'gameId', 'direction'],
+              properties: { sender: ADDRESS, gameId: ADDRESS, direction: DIRECTION },
+            },
+          ],
+        }),
+        responses: {
+          '200': jsonResponse('Sponsored transaction for the sender to sign', 'SponsoredTransaction'),
+          '400': errorResponse('Invalid sender, kind or direction'),
+          '403': errorResponse('`not_allowed`: the call is not a sponsored crowd_robot function'),
+          '404': errorResponse('`sponsorship_disabled`: the gateway has no sponsor'),
+          '409': errorResponse('The dry run aborted; `code` is the Move abort constant'),
+          '429': errorResponse('`rate_limited`: too many sponsored moves for this sender or game; see Retry-After'),
+        },
+      },
+    },
+    '/sponsor/execute': {
+      post: {
+        summary: 'Execute a sponsored transaction with the sender\'s signature',
+        requestBody: jsonBody({
+          type: 'object',
+          required: ['transactionBytes', 'signature'],
+          properties: {
+            transactionBytes: { type: 'string', description: 'Base64 bytes from /sponsor' },
+            signature: { type: 'string', description: 'Base64 serialized signature of the sender' },
+          },
+        }),
+        responses: {
+          '200': jsonResponse('Transaction executed', 'SponsoredResult'),
+          '404': errorResponse('`unknown_transaction`: not sponsored here or expired; or `sponsorship_disabled`'),
+          '409': errorResponse('The transaction was rejected on chain'),
+          '502': errorResponse('The Sui node could not be reached'),
+        },
+      },
+    },
+    '/events': {
+      get: {
+        summary: 'Server-Sent Events of every game, live only',
+        parameters: [{ name: 'module', in: 'query', schema: MODULE, description: 'Only this module (default: both)' }],
+        responses: {
+          '200': { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+          '400': errorResponse('Invalid module'),
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearer: { type: 'http', scheme: 'bearer' },
+    },
+    schemas: {
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: {
+            type: 'object',
+            required: ['code', 'message'],
+            properties: { code: { type: 'string' }, message: { type: 'string' } },
+          },
+        },
+      },
+      Health: {
+        type: 'object',
+        properties: {
+          status: { const: 'ok' },
+          network: { type: ['string', 'null'] },
+          packageId: ADDRESS,
+          custodialKeys: { type: 'array', items: { type: 'string' } },
+          sponsor: { oneOf: [ADDRESS, { type: 'null' }], description: 'Address paying for /sponsor; null if disabled' },
+        },
+      },
+      GameSummary: {
+        type: 'object',
+        description: 'A game as announced by its GameCreated event',
+        properties: {
+          gameId: ADDRESS,
+          module: MODULE,
+          creator: ADDRESS,
+          createdAt: U64,
+          endTime: { oneOf: [U64, { type: 'null' }], description: 'crowd_robot only' },
+          paymentAmount: { oneOf: [U64, { type: 'null' }], description: 'crossy_robot only, in MIST' },
+          digest: { type: 'string' },
+        },
+      },
+      GamePage: {
+        type: 'object',
+        properties: {
+          data: { type: 'array', items: { $ref: '#/components/schemas/GameSummary' } },
+          nextCursor: { type: ['string', 'null'] },
+        },
+      },
+      Game: {
+        type: 'object',
+        properties: {
+          gameId: ADDRESS,
+          module: MODULE,
+          state: {
+            type: 'object',
+            description: 'Fields of the Move Game struct; status 0/1 for crossy_robot, 0/1/2 for crowd_robot',
+          },
+          nowMs: { ...U64, description: 'crowd_robot only: Clock timestamp of the read' },
+          expired: { type: 'boolean', description: 'crowd_robot only: has_expired' },
+          timeRemainingMs: { ...U64, description: 'crowd_robot only: time_remaining' },
+        },
+      },
+      CreatedGame: {
+        type: 'object',
+        properties: {
+          gameId: ADDRESS,
+          module: MODULE,
+          digest: { type: 'string' },
+          events: { type: 'array', items: { $ref: '#/components/schemas/GameEvent' } },
+        },
+      },
+      PreparedMove: {
+        type: 'object',
+        properties: {
+          gameId: ADDRESS,
+          module: MODULE,
+          transactionBytes: { type: 'string', description: 'Base64 TransactionData to sign' },
+        },
+      },
+      MoveResult: {
+        type: 'object',
+        description: 'A crowd move after end_time ends the game: events then hold GameEnded and no RobotMoved',
+        properties: {
+          gameId: ADDRESS,
+          digest: { type: 'string' },
+          events: { type: 'array', items: { $ref: '#/components/schemas/GameEvent' } },
+        },
+      },
+      SponsoredTransaction: {
+        type: 'object',
+        properties: {
+          transactionBytes: { type: 'string', description: 'Base64 TransactionData to sign' },
+          sponsorSignature: { type: 'string' },
+          sponsor: ADDRESS,
+          function: { type: 'string', description: 'crowd_robot function called' },
+          gameId: { oneOf: [ADDRESS, { type: 'null' }] },
+          gasBudget: U64,
+          expiresAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      SponsoredResult: {
+        type: 'object',
+        properties: {
+          digest: { type: 'string' },
+          events: { type: 'array', items: { $ref: '#/components/schemas/GameEvent' } },
+        },
+      },
+      GameEvent: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: [
+              'crossy_robot::GameCreated',
+              'crossy_robot::RobotConnected',
+              'crossy_robot::RobotMoved',
+              'crowd_robot::GameCreated',
+              'crowd_robot::RobotMoved',
+              'crowd_robot::GameEnded',
+            ],
+          },
+          id: {
+            type: 'object',
+            properties: { txDigest: { type: 'string' }, eventSeq: { type: 'string' } },
+          },
+          sender: ADDRESS,
+          timestampMs: { oneOf: [U64, { type: 'null' }] },
+          data: { type: 'object', description: 'Event fields as in the Move struct, always including game_id' },
+        },
+      },
+    },
+  },
+} as const;
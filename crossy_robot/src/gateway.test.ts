@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import type { CrossyRobotClient } from './client';
+import { ConfigurationError } from './errors';
+import { GameGateway, GameGatewayOptions } from './gateway';
+import type { MoveSponsor } from './sponsor';
+
+const client = { packageId: '0x1', network: null } as unknown as CrossyRobotClient;
+
+const gateways: GameGateway[] = [];
+after(() => Promise.all(gateways.map((gateway) => gateway.close())));
+
+async function start(options: Partial<GameGatewayOptions> = {}): Promise<string> {
+  const gateway = new GameGateway({ client, ...options });
+  gateways.push(gateway);
+  const address = await gateway.listen(0);
+  return `http://127.0.0.1:${address.port}`;
+}
+
+describe('GameGateway', () => {
+  describe('custodial keys', () => {
+    it('require an API token', () => {
+      const signers = { user: Ed25519Keypair.generate() };
+      assert.throws(() => new GameGateway({ client, signers }), ConfigurationError);
+      assert.throws(() => new GameGateway({ client, signers, apiToken: '' }), ConfigurationError);
+      assert.doesNotThrow(() => new GameGateway({ client, signers, apiToken: 'secret' }));
+      assert.doesNotThrow(() => new GameGateway({ client, signers: {} }));
+    });
+
+    it('reject requests without the bearer token', async () => {
+      const url = await start({ signers: { user: Ed25519Keypair.generate() }, apiToken: 'secret' });
+      const response = await fetch(`${url}/games`, {
+        method: 'POST',
+        body: JSON.stringify({ module: 'crowd_robot', key: 'user' }),
+      });
+      assert.equal(response.status, 401);
+      assert.deepEqual(await response.json(), {
+        error: { code: 'unauthorized', message: 'A valid bearer token is required to use custodial keys' },
+      });
+    });
+  });
+
+  describe('CORS', () => {
+    it('sends no CORS headers by default', async () => {
+      const url = await start();
+      const response = await fetch(`${url}/health`);
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get('access-control-allow-origin'), null);
+
+      const preflight = await fetch(`${url}/games`, { method: 'OPTIONS' });
+      assert.equal(preflight.status, 204);
+      assert.equal(preflight.headers.get('access-control-allow-origin'), null);
+      assert.equal(preflight.headers.get('access-control-allow-methods'), null);
+    });
+
+    it('allows the configured origin', async () => {
+      const url = await start({ corsOrigin: 'https://kiosk.example.com' });
+      const response = await fetch(`${url}/health`);
+      assert.equal(response.headers.get('access-control-allow-origin'), 'https://kiosk.example.com');
+
+      const preflight = await fetch(`${url}/games`, { method: 'OPTIONS' });
+      assert.equal(preflight.headers.get('access-control-allow-origin'), 'https://kiosk.example.com');
+      assert.equal(preflight.headers.get('access-control-allow-methods'), 'GET, POST, OPTIONS');
+    });
+  });
+
+  describe('signed transactions', () => {
+    const gameId = `0x${'ab'.repeat(32)}`;
+
+    async function post(url: string, path: string, body: object): Promise<{ status: number; code: string }> {
+      const response = await fetch(`${url}${path}`, { method: 'POST', body: JSON.stringify(body) });
+      const { error } = (await response.json()) as { error: { code: string } };
+      return { status: response.status, code: error.code };
+    }
+
+    it('reject malformed base64 with 400', async () => {
+      const url = await start({ sponsor: {} as MoveSponsor });
+      const invalid = { status: 400, code: 'invalid_request' };
+      assert.deepEqual(await post(url, `/games/${gameId}/moves`, { transactionBytes: 'not base64!', signature: 'AAAA' }), invalid);
+      assert.deepEqual(await post(url, `/games/${gameId}/moves`, { transactionBytes: 'AAAA', signature: ['AAAA', 'AAA'] }), invalid);
+      assert.deepEqual(await post(url, `/games/${gameId}/moves`, { transactionBytes: '', signature: 'AAAA' }), invalid);
+      assert.deepEqual(await post(url, '/sponsor', { sender: '0x2', transactionKind: '%%%%' }), invalid);
+      assert.deepEqual(await post(url, '/sponsor/execute', { transactionBytes: 'AAAA', signature: 'AA=A' }), invalid);
+    });
+
+    it('reject malformed percent-escapes in the path with 400', async () => {
+      const url = await start();
+      const response = await fetch(`${url}/games/%E0%A4%A`);
+      assert.equal(response.status, 400);
+      assert.equal(((await response.json()) as { error: { code: string } }).error.code, 'invalid_request');
+    });
+  });
+});
@@ -0,0 +1,706 @@
+/**
+ * Game Gateway
+ *
+ * Small HTTP service that exposes games to web and mobile frontends without
+ * the Sui SDK:
+ * - REST endpoints to list, read and create games
+ * - Moves from a transaction the player signed, or from a custodial key
+ * - Gas sponsorship of crowd_robot moves, when a MoveSponsor is configured
+ * - Server-Sent Events of game events, for one game or for all games
+ *
+ * One GameEventStream per module feeds every SSE connection, so spectators do
+ * not multiply node queries. u64 values are sent as decimal strings. The
+ * OpenAPI description is served at /openapi.json.
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { EventId } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { fromBase64, isValidSuiAddress, isValidSuiObjectId, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { CrossyRobotClient } from './client';
+import { GameModule } from './constants';
+import {
+  ConfigurationError,
+  CrossyRobotError,
+  GasBudgetExceededError,
+  InsufficientGasError,
+  InvalidDirectionError,
+  ObjectDecodeError,
+  ObjectNotFoundError,
+  SignedTransactionError,
+  SponsorshipRejectedError,
+  TransactionFailedError
+} from './errors';
+import { GameEvent, eventModule } from './events';
+import { GameEventStream, GameEventStreamOptions } from './event-stream';
+import { GATEWAY_OPENAPI } from './gateway-openapi';
+import { MoveAbortError } from './move-abort';
+import { MoveSponsor } from './sponsor';
+
+const GAME_MODULES: readonly GameModule[] = ['crossy_robot', 'crowd_robot'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+export interface GatewayHandlers {
+  /** A request was answered; event streams are reported when they close */
+  onRequest?(method: string, path: string, status: number, durationMs: number): void;
+  /** Unexpected failures (answered with 5xx) and event stream errors */
+  onError?(error: unknown): void;
+}
+
+export interface GameGatewayOptions {
+  client: CrossyRobotClient;
+  /** Custodial signers by name; requests choose one with `key` */
+  signers?: Record<string, Signer>;
+  /** Pays gas for players' crowd_robot moves on /sponsor; unset disables sponsorship */
+  sponsor?: MoveSponsor;
+  /** Bearer token required on requests that use a custodial key; required when there are signers */
+  apiToken?: string;
+  /** Origin allowed to call the gateway from a browser; unset sends no CORS headers */
+  corsOrigin?: string;
+  /** Event stream tuning (transport, poll intervals, backoff) */
+  streamOptions?: Omit<GameEventStreamOptions, 'module' | 'cursor'>;
+  /** Keep-alive comment interval on event streams (default: 15000) */
+  heartbeatMs?: number;
+  /** Largest accepted request body in bytes (default: 65536) */
+  maxBodyBytes?: number;
+  handlers?: GatewayHandlers;
+}
+
+/** Error answered to the caller as-is */
+class HttpError extends CrossyRobotError {
+  constructor(public readonly status: number, public readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+interface Subscriber {
+  modules: readonly GameModule[];
+  /** Only events of this game; null for every game */
+  gameId: string | null;
+  send(event: GameEvent): void;
+}
+
+interface StreamEntry {
+  /** Null until the starting cursor has been read */
+  stream: GameEventStream | null;
+  loop: Promise<void>;
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  handle(req: http.IncomingMessage, res: http.ServerResponse, url: URL, params: string[]): Promise<void>;
+}
+
+export class GameGateway {
+  private readonly client: CrossyRobotClient;
+  private readonly signers: Record<string, Signer>;
+  private readonly sponsor: MoveSponsor | null;
+  private readonly apiToken: string | null;
+  private readonly corsOrigin: string | null;
+  private readonly streamOptions: Omit<GameEventStreamOptions, 'module' | 'cursor'>;
+  private readonly heartbeatMs: number;
+  private readonly maxBodyBytes: number;
+  private readonly handlers: GatewayHandlers;
+  private readonly routes: Route[];
+  private readonly subscribers = new Set<Subscriber>();
+  private readonly streams = new Map<GameModule, StreamEntry>();
+  private readonly openResponses = new Set<http.ServerResponse>();
+  private server: http.Server | null = null;
+  private closed = false;
+
+  constructor(options: GameGatewayOptions) {
+    if (options.heartbeatMs !== undefined && (!Number.isFinite(options.heartbeatMs) || options.heartbeatMs <= 0)) {
+      throw new RangeError('heartbeatMs must be a positive number');
+    }
+    if (options.maxBodyBytes !== undefined && (!Number.isInteger(options.maxBodyBytes) || options.maxBodyBytes <= 0)) {
+      throw new RangeError('maxBodyBytes must be a positive integer');
+    }
+    if (Object.keys(options.signers ?? {}).length > 0 && !options.apiToken) {
+      throw new ConfigurationError('apiToken is required when the gateway has custodial signers');
+    }
+    this.client = options.client;
+    this.signers = options.signers ?? {};
+    this.sponsor = options.sponsor ?? null;
+    this.apiToken = options.apiToken || null;
+    this.corsOrigin = options.corsOrigin || null;
+    this.streamOptions = options.streamOptions ?? {};
+    this.heartbeatMs = options.heartbeatMs ?? 15_000;
+    this.maxBodyBytes = options.maxBodyBytes ?? 65_536;
+    this.handlers = options.handlers ?? {};
+    this.routes = [
+      { method: 'GET', pattern: /^\/openapi\.json$/, handle: async (_req, res) => this.sendJson(res, 200, GATEWAY_OPENAPI) },
+      { method: 'GET', pattern: /^\/health$/, handle: (_req, res) => this.health(res) },
+      { method: 'GET', pattern: /^\/events$/, handle: (req, res, url) => this.streamEvents(req, res, url, null) },
+      { method: 'GET', pattern: /^\/games$/, handle: (_req, res, url) => this.listGames(res, url) },
+      { method: 'POST', pattern: /^\/games$/, handle: (req, res) => this.createGame(req, res) },
+      { method: 'GET', pattern: /^\/games\/([^/]+)$/, handle: (_req, res, _url, [id]) => this.readGame(res, id) },
+      {
+        method: 'GET',
+        pattern: /^\/games\/([^/]+)\/events$/,
+        handle: (req, res, url, [id]) => this.streamEvents(req, res, url, id),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/games\/([^/]+)\/moves\/prepare$/,
+        handle: (req, res, _url, [id]) => this.prepareMove(req, res, id),
+      },
+      { method: 'POST', pattern: /^\/games\/([^/]+)\/moves$/, handle: (req, res, _url, [id]) => this.submitMove(req, res, id) },
+      { method: 'POST', pattern: /^\/sponsor$/, handle: (req, res) => this.sponsorTransaction(req, res) },
+      { method: 'POST', pattern: /^\/sponsor\/execute$/, handle: (req, res) => this.executeSponsored(req, res) },
+    ];
+  }
+
+  /** Request listener, for `http.createServer` or an existing server */
+  readonly handle = (req: http.IncomingMessage, res: http.ServerResponse): void => {
+    const startedAt = Date.now();
+    const url = new URL(req.url ?? '/', 'http://gateway');
+    res.once('close', () => {
+      this.handlers.onRequest?.(req.method ?? 'GET', url.pathname, res.statusCode, Date.now() - startedAt);
+    });
+    this.dispatch(req, res, url).catch((error) => this.sendError(res, error));
+  };
+
+  /** Start an HTTP server; resolves with the bound address */
+  listen(port: number, host: string = '127.0.0.1'): Promise<AddressInfo> {
+    if (this.server) {
+      throw new Error('GameGateway is already listening');
+    }
+    const server = http.createServer(this.handle);
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve(server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /** Stop the event streams, end open event connections and close the server */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const { stream } of this.streams.values()) {
+      stream?.close();
+    }
+    for (const res of this.openResponses) {
+      res.end();
+    }
+    await Promise.all([...this.streams.values()].map(({ loop }) => loop));
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    }
+  }
+
+  private async dispatch(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+    // Cross-origin access is opt-in: without corsOrigin browsers only allow same-origin pages
+    if (this.corsOrigin !== null) {
+      res.setHeader('Access-Control-Allow-Origin', this.corsOrigin);
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, this.corsOrigin === null ? {} : {
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type, Last-Event-ID',
+        'Access-Control-Max-Age': '600',
+      });
+      res.end();
+      return;
+    }
+
+    const matches = this.routes
+      .map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+      .filter(({ match }) => match !== null);
+    if (matches.length === 0) {
+      throw new HttpError(404, 'not_found', `No route for ${url.pathname}`);
+    }
+    const found = matches.find(({ route }) => route.method === req.method);
+    if (!found) {
+      res.setHeader('Allow', [...new Set(matches.map(({ route }) => route.method))].join(', '));
+      throw new HttpError(405, 'method_not_allowed', `${req.method} is not allowed on ${url.pathname}`);
+    }
+    await found.route.handle(req, res, url, found.match!.slice(1).map(decodePathSegment));
+  }
+
+  // ===== Games =====
+
+  private async health(res: http.ServerResponse): Promise<void> {
+    this.sendJson(res, 200, {
+      status: 'ok',
+      network: this.client.network?.name ?? null,
+      packageId: this.client.packageId,
+      custodialKeys: Object.keys(this.signers),
+      sponsor: this.sponsor?.address ?? null,
+    });
+  }
+
+  private async listGames(res: http.ServerResponse, url: URL): Promise<void> {
+    const module = parseModule(url.searchParams.get('module'));
+    const limit = parseLimit(url.searchParams.get('limit'));
+    const page = await this.client.queryGameEvents(module, {
+      eventName: 'GameCreated',
+      order: 'descending',
+      cursor: decodeCursor(url.searchParams.get('cursor')),
+      limit,
+    });
+
+    this.sendJson(res, 200, {
+      data: page.data.map((event) => {
+        switch (event.type) {
+          case 'crossy_robot::GameCreated':
+            return {
+              gameId: event.data.game_id,
+              module,
+              creator: event.data.user,
+              createdAt: event.data.timestamp,
+              endTime: null,
+              paymentAmount: event.data.payment_amount,
+              digest: event.id.txDigest,
+            };
+          case 'crowd_robot::GameCreated':
+            return {
+              gameId: event.data.game_id,
+              module,
+              creator: event.data.creator,
+              createdAt: event.data.created_at,
+              endTime: event.data.end_time,
+              paymentAmount: null,
+              digest: event.id.txDigest,
+            };
+          default:
+            throw new Error(`Unexpected ${event.type} in a GameCreated query`);
+        }
+      }),
+      nextCursor: page.hasNextPage && page.nextCursor ? encodeCursor(page.nextCursor) : null,
+    });
+  }
+
+  private async readGame(res: http.ServerResponse, id: string): Promise<void> {
+    const gameId = parseObjectId(id);
+    const module = await this.client.getGameModule(gameId);
+    if (module === 'crossy_robot') {
+      this.sendJson(res, 200, { gameId, module, state: await this.client.getGame(gameId) });
+      return;
+    }
+    const { game, nowMs, expired, timeRemainingMs } = await this.client.getCrowdGameView(gameId);
+    this.sendJson(res, 200, { gameId, module, state: game, nowMs, expired, timeRemainingMs });
+  }
+
+  private async createGame(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readBody(req);
+    const module = parseModule(body.module);
+    const signer = this.custodialSigner(req, body.key);
+    const result = module === 'crowd_robot'
+      ? await this.client.createCrowdGame(signer)
+      : await this.client.createGame(signer);
+    this.sendJson(res, 201, { gameId: result.gameId, module, digest: result.digest, events: result.events });
+  }
+
+  // ===== Moves =====
+
+  private async prepareMove(req: http.IncomingMessage, res: http.ServerResponse, id: string): Promise<void> {
+    const gameId = parseObjectId(id);
+    const body = await this.readBody(req);
+    if (typeof body.sender !== 'string' || !isValidSuiAddress(normalizeSuiAddress(body.sender))) {
+      throw new HttpError(400, 'invalid_request', 'sender must be a Sui address');
+    }
+    const direction = parseDirectionField(body.direction);
+    const module = await this.client.getGameModule(gameId);
+    const bytes = await this.client.buildMoveTransaction(module, body.sender, gameId, direction);
+    this.sendJson(res, 200, { gameId, module, transactionBytes: toBase64(bytes) });
+  }
+
+  private async submitMove(req: http.IncomingMessage, res: http.ServerResponse, id: string): Promise<void> {
+    const gameId = parseObjectId(id);
+    const body = await this.readBody(req);
+
+    if (body.transactionBytes !== undefined) {
+      const signature = body.signature;
+      const validSignature = isBase64(signature) ||
+        (Array.isArray(signature) && signature.length > 0 && signature.every(isBase64));
+      if (!isBase64(body.transactionBytes) || !validSignature) {
+        throw new HttpError(400, 'invalid_request', 'transactionBytes and signature must be base64 strings');
+      }
+      const result = await this.client.executeSignedMove(gameId, fromBase64(body.transactionBytes), signature as string | string[]);
+      this.sendJson(res, 200, { gameId, digest: result.digest, events: result.events });
+      return;
+    }
+
+    const direction = parseDirectionField(body.direction);
+    const signer = this.custodialSigner(req, body.key);
+    const module = await this.client.getGameModule(gameId);
+    const result = module === 'crowd_robot'
+      ? await this.client.moveCrowdRobot(signer, gameId, direction)
+      : await this.client.moveRobot(signer, gameId, direction);
+    this.sendJson(res, 200, { gameId, digest: result.digest, events: result.events });
+  }
+
+  // ===== Sponsorship =====
+
+  /**
+   * Add the sponsor's gas to a player's crowd_robot transaction kind. The
+   * kind is sent base64 encoded, or built here from `gameId` and `direction`.
+   */
+  private async sponsorTransaction(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sponsor = this.requireSponsor();
+    const body = await this.readBody(req);
+    if (typeof body.sender !== 'string' || !isValidSuiAddress(normalizeSuiAddress(body.sender))) {
+      throw new HttpError(400, 'invalid_request', 'sender must be a Sui address');
+    }
+
+    let kind: Uint8Array;
+    if (typeof body.transactionKind === 'string') {
+      if (!isBase64(body.transactionKind)) {
+        throw new HttpError(400, 'invalid_request', 'transactionKind must be a base64 string');
+      }
+      kind = fromBase64(body.transactionKind);
+    } else if (typeof body.gameId === 'string') {
+      kind = await this.client.buildCrowdMoveKind(parseObjectId(body.gameId), parseDirectionField(body.direction));
+    } else {
+      throw new HttpError(400, 'invalid_request', 'Send transactionKind, or gameId and direction');
+    }
+
+    const sponsored = await sponsor.sponsor(body.sender, kind);
+    this.sendJson(res, 200, {
+      transactionBytes: toBase64(sponsored.transactionBytes),
+      sponsorSignature: sponsored.sponsorSignature,
+      sponsor: sponsor.address,
+      function: sponsored.function,
+      gameId: sponsored.gameId,
+      gasBudget: sponsored.estimate.budget,
+      expiresAt: new Date(sponsored.expiresAt).toISOString(),
+    });
+  }
+
+  private async executeSponsored(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const sponsor = this.requireSponsor();
+    const body = await this.readBody(req);
+    if (!isBase64(body.transactionBytes) || !isBase64(body.signature)) {
+      throw new HttpError(400, 'invalid_request', 'transactionBytes and signature must be base64 strings');
+    }
+    const result = await sponsor.execute(fromBase64(body.transactionBytes), body.signature);
+    this.sendJson(res, 200, { digest: result.digest, events: result.events });
+  }
+
+  private requireSponsor(): MoveSponsor {
+    if (!this.sponsor) {
+      throw new HttpError(404, 'sponsorship_disabled', 'This gateway does not sponsor gas');
+    }
+    return this.sponsor;
+  }
+
+  private custodialSigner(req: http.IncomingMessage, key: unknown): Signer {
+    if (this.apiToken !== null) {
+      const header = req.headers.authorization ?? '';
+      const expected = Buffer.from(`Bearer ${this.apiToken}`);
+      const given = Buffer.from(header);
+      if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+        throw new HttpError(401, 'unauthorized', 'A valid bearer token is required to use custodial keys');
+      }
+    }
+    if (typeof key !== 'string' || !Object.prototype.hasOwnProperty.call(this.signers, key)) {
+      const known = Object.keys(this.signers);
+      throw new HttpError(400, 'unknown_key',
+        known.length > 0 ? `key must be one of: ${known.join(', ')}` : 'This gateway has no custodial keys');
+    }
+    return this.signers[key];
+  }
+
+  // ===== Event streams =====
+
+  /**
+   * Server-Sent Events of one game (`gameId`) or of every game. A game
+   * stream replays the game's history first with `?history=true`, or from
+   * just after the `Last-Event-ID` a reconnecting browser sends.
+   */
+  private async streamEvents(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+    id: string | null
+  ): Promise<void> {
+    let modules: readonly GameModule[];
+    let gameId: string | null = null;
+    if (id !== null) {
+      gameId = parseObjectId(id);
+      modules = [await this.client.getGameModule(gameId)];
+    } else {
+      const module = url.searchParams.get('module');
+      modules = module === null ? GAME_MODULES : [parseModule(module)];
+    }
+    const lastEventId = req.headers['last-event-id'];
+    const replay = gameId !== null && (url.searchParams.get('history') === 'true' || typeof lastEventId === 'string');
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 3000\n\n');
+    this.openResponses.add(res);
+
+    // Live events that arrive during a replay are buffered, and may repeat
+    // the end of the history; the shared stream delivers each event once after
+    let buffered: GameEvent[] | null = replay ? [] : null;
+    let sent: Set<string> | null = replay ? new Set() : null;
+    const write = (event: GameEvent) => {
+      const key = eventKey(event.id);
+      if (sent) {
+        if (sent.has(key)) {
+          return;
+        }
+        sent.add(key);
+      }
+      res.write(`id: ${key}\nevent: ${event.type}\ndata: ${toJson(event)}\n\n`);
+    };
+    const subscriber: Subscriber = {
+      modules,
+      gameId,
+      send: (event) => (buffered ? buffered.push(event) : write(event)),
+    };
+    this.subscribers.add(subscriber);
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), this.heartbeatMs);
+    res.once('close', () => {
+      clearInterval(heartbeat);
+      this.subscribers.delete(subscriber);
+      this.openResponses.delete(res);
+    });
+
+    for (const module of modules) {
+      this.ensureStream(module);
+    }
+
+    if (replay) {
+      try {
+        const history = await this.gameHistory(gameId!);
+        const resumeAt = typeof lastEventId === 'string'
+          ? history.findIndex((event) => eventKey(event.id) === lastEventId) + 1
+          : 0;
+        history.slice(resumeAt).forEach(write);
+      } catch (error) {
+        this.handlers.onError?.(error);
+        res.write(`event: error\ndata: ${toJson({ code: 'history_unavailable', message: errorMessage(error) })}\n\n`);
+      }
+      const live = buffered!;
+      buffered = null;
+      live.forEach(write);
+      sent = null;
+    }
+  }
+
+  private async gameHistory(gameId: string): Promise<GameEvent[]> {
+    const events: GameEvent[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.client.queryGameHistory(gameId, { cursor });
+      events.push(...page.data);
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    return events;
+  }
+
+  /** Start the module's shared event stream on first use */
+  private ensureStream(module: GameModule): void {
+    if (this.streams.has(module) || this.closed) {
+      return;
+    }
+    const entry: StreamEntry = { stream: null, loop: Promise.resolve() };
+    entry.loop = this.runStream(module, entry)
+      .catch((error) => this.handlers.onError?.(error))
+      .finally(() => {
+        // The next subscriber starts a fresh stream
+        if (this.streams.get(module) === entry) {
+          this.streams.delete(module);
+        }
+      });
+    this.streams.set(module, entry);
+  }
+
+  private async runStream(module: GameModule, entry: StreamEntry): Promise<void> {
+    // Subscribers replay history themselves, so live events start at the newest one
+    const cursor = await this.client.latestEventCursor(module);
+    if (this.closed) {
+      return;
+    }
+    entry.stream = new GameEventStream(this.client, {
+      onError: (error) => this.handlers.onError?.(error),
+      ...this.streamOptions,
+      module,
+      cursor,
+    });
+
+    for await (const event of entry.stream) {
+      for (const subscriber of this.subscribers) {
+        if (subscriber.modules.includes(eventModule(event.type)) &&
+          (subscriber.gameId === null || subscriber.gameId === event.data.game_id)) {
+          subscriber.send(event);
+        }
+      }
+    }
+  }
+
+  // ===== HTTP helpers =====
+
+  private async readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > this.maxBodyBytes) {
+        throw new HttpError(413, 'body_too_large', `Request body is larger than ${this.maxBodyBytes} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    let body: unknown;
+    try {
+      body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+    } catch {
+      throw new HttpError(400, 'invalid_json', 'Request body is not valid JSON');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new HttpError(400, 'invalid_json', 'Request body must be a JSON object');
+    }
+    return body as Record<string, unknown>;
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(toJson(body));
+  }
+
+  private sendError(res: http.ServerResponse, error: unknown): void {
+    const { status, code } = errorStatus(error);
+    if (status >= 500) {
+      this.handlers.onError?.(error);
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (error instanceof SponsorshipRejectedError && error.retryAfterMs !== undefined) {
+      res.setHeader('Retry-After', Math.ceil(error.retryAfterMs / 1000));
+    }
+    this.sendJson(res, status, { error: { code, message: errorMessage(error) } });
+  }
+}
+
+// ===== Parsing =====
+
+function decodePathSegment(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new HttpError(400, 'invalid_request', `${value} is not a valid percent-encoded path segment`);
+  }
+}
+
+function parseModule(value: unknown): GameModule {
+  if (!GAME_MODULES.includes(value as GameModule)) {
+    throw new HttpError(400, 'invalid_request', `module must be one of: ${GAME_MODULES.join(', ')}`);
+  }
+  return value as GameModule;
+}
+
+function parseObjectId(value: string): string {
+  if (!isValidSuiObjectId(normalizeSuiAddress(value))) {
+    throw new HttpError(400, 'invalid_request', `${value} is not an object ID`);
+  }
+  return normalizeSuiAddress(value);
+}
+
+function parseDirectionField(value: unknown): number {
+  if (typeof value !== 'number') {
+    throw new HttpError(400, 'invalid_request', 'direction must be an integer from 0 to 7');
+  }
+  return value;
+}
+
+function parseLimit(value: string | null): number {
+  if (value === null) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new HttpError(400, 'invalid_request', `limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  return limit;
+}
+
+/** Non-empty standard base64, as the SDK encodes transactions and signatures */
+function isBase64(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length % 4 === 0 &&
+    /^[A-Za-z0-9+/]*={0,2}$/.test(value);
+}
+
+/** Opaque page cursor: base64url of the event ID */
+function encodeCursor(cursor: EventId): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string | null): EventId | null {
+  if (value === null) {
+    return null;
+  }
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof cursor?.txDigest === 'string' && typeof cursor?.eventSeq === 'string') {
+      return { txDigest: cursor.txDigest, eventSeq: cursor.eventSeq };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new HttpError(400, 'invalid_request', 'cursor is not a cursor returned by this gateway');
+}
+
+/** SSE event ID; also what a reconnecting browser sends as Last-Event-ID */
+function eventKey(id: EventId): string {
+  return `${id.txDigest}:${id.eventSeq}`;
+}
+
+// ===== Responses =====
+
+/** JSON with bigints as decimal strings */
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, field) => (typeof field === 'bigint' ? field.toString() : field));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function errorStatus(error: unknown): { status: number; code: string } {
+  if (error instanceof HttpError) {
+    return { status: error.status, code: error.code };
+  }
+  if (error instanceof InvalidDirectionError) {
+    return { status: 400, code: 'invalid_direction' };
+  }
+  if (error instanceof SignedTransactionError) {
+    return { status: 400, code: 'invalid_transaction' };
+  }
+  if (error instanceof SponsorshipRejectedError) {
+    const status = { not_allowed: 403, rate_limited: 429, unknown_transaction: 404 }[error.reason];
+    return { status, code: error.reason };
+  }
+  if (error instanceof ObjectNotFoundError || error instanceof ObjectDecodeError) {
+    return { status: 404, code: 'game_not_found' };
+  }
+  if (error instanceof MoveAbortError) {
+    return { status: 409, code: error.abortName ?? 'move_abort' };
+  }
+  if (error instanceof TransactionFailedError) {
+    return { status: 409, code: 'transaction_failed' };
+  }
+  if (error instanceof InsufficientGasError || error instanceof GasBudgetExceededError) {
+    return { status: 409, code: 'insufficient_gas' };
+  }
+  return { status: 502, code: 'upstream_error' };
+}
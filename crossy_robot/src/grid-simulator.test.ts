@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ActuatorError, MotionCommand } from './actuator';
+import { DIRECTIONS, Direction } from './constants';
+import { GridSimulatorActuator } from './grid-simulator';
+
+const { UP, LEFT, RIGHT, UP_RIGHT, DOWN_LEFT } = DIRECTIONS;
+
+const bounds = { minX: 0, maxX: 2, minY: 0, maxY: 2 };
+
+function command(direction: Direction): MotionCommand {
+  return { direction, gameId: '0x1', timestamp: 0n };
+}
+
+describe('GridSimulatorActuator', () => {
+  it('moves one cell and turns to face the commanded direction', async () => {
+    const actuator = new GridSimulatorActuator({ now: () => 42 });
+    const ack = await actuator.execute(command(UP_RIGHT));
+    assert.deepEqual(ack.pose, { x: 1, y: 1, heading: 45 });
+    assert.equal(ack.truncated, false);
+    assert.equal(ack.completedAt, 42);
+    assert.deepEqual(actuator.history, [
+      { x: 0, y: 0, heading: 0 },
+      { x: 1, y: 1, heading: 45 },
+    ]);
+  });
+
+  it('is unbounded without bounds', async () => {
+    const actuator = new GridSimulatorActuator();
+    await actuator.execute(command(DOWN_LEFT));
+    assert.deepEqual(actuator.position, { x: -1, y: -1, heading: 225 });
+  });
+
+  describe("boundaryPolicy 'reject'", () => {
+    it('is the default', async () => {
+      const actuator = new GridSimulatorActuator({ bounds });
+      await assert.rejects(actuator.execute(command(LEFT)), (error) => {
+        assert.ok(error instanceof ActuatorError);
+        assert.equal(error.code, 'OUT_OF_BOUNDS');
+        return true;
+      });
+    });
+
+    it('leaves the pose and history unchanged', async () => {
+      const actuator = new GridSimulatorActuator({ bounds, start: { x: 2, y: 2, heading: 0 } });
+      await assert.rejects(actuator.execute(command(UP_RIGHT)), ActuatorError);
+      assert.deepEqual(actuator.position, { x: 2, y: 2, heading: 0 });
+      assert.equal(actuator.history.length, 1);
+    });
+
+    it('allows moves onto the edge', async () => {
+      const actuator = new GridSimulatorActuator({ bounds, start: { x: 1, y: 1, heading: 0 } });
+      const ack = await actuator.execute(command(UP_RIGHT));
+      assert.deepEqual(ack.pose, { x: 2, y: 2, heading: 45 });
+      assert.equal(ack.truncated, false);
+    });
+  });
+
+  describe("boundaryPolicy 'clamp'", () => {
+    it('stops at the edge, turns, and reports the move as truncated', async () => {
+      const actuator = new GridSimulatorActuator({ bounds, boundaryPolicy: 'clamp', start: { x: 2, y: 1, heading: 0 } });
+      const ack = await actuator.execute(command(UP_RIGHT));
+      assert.deepEqual(ack.pose, { x: 2, y: 2, heading: 45 });
+      assert.equal(ack.truncated, true);
+    });
+
+    it('stays in place in a corner', async () => {
+      const actuator = new GridSimulatorActuator({ bounds, boundaryPolicy: 'clamp' });
+      const ack = await actuator.execute(command(DOWN_LEFT));
+      assert.deepEqual(ack.pose, { x: 0, y: 0, heading: 225 });
+      assert.equal(ack.truncated, true);
+      assert.equal(actuator.history.length, 2);
+    });
+
+    it('does not truncate moves inside the arena', async () => {
+      const actuator = new GridSimulatorActuator({ bounds, boundaryPolicy: 'clamp' });
+      const ack = await actuator.execute(command(RIGHT));
+      assert.deepEqual(ack.pose, { x: 1, y: 0, heading: 90 });
+      assert.equal(ack.truncated, false);
+    });
+  });
+
+  it('rejects a command while another is in progress', async () => {
+    const actuator = new GridSimulatorActuator({ stepDurationMs: 5 });
+    const first = actuator.execute(command(UP));
+    await assert.rejects(actuator.execute(command(UP)), (error) => {
+      assert.ok(error instanceof ActuatorError);
+      assert.equal(error.code, 'BUSY');
+      return true;
+    });
+    await first;
+    assert.deepEqual(actuator.position, { x: 0, y: 1, heading: 0 });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Grid Simulator Actuator
+ *
+ * Deterministic 2D grid backend: each command moves the robot one cell in the
+ * commanded direction and turns it to face that way. Used to exercise the
+ * event → motion pipeline without hardware.
+ */
+
+import { Actuator, ActuatorError, DIRECTION_HEADINGS, DIRECTION_VECTORS, MotionAck, MotionCommand, Pose } from './actuator';
+
+export interface GridBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface GridSimulatorOptions {
+  /** Starting pose (default: origin, facing UP) */
+  start?: Pose;
+  /** Arena limits; unbounded when omitted */
+  bounds?: GridBounds;
+  /** 'reject' fails moves that would leave the arena, 'clamp' stops at the edge (default: 'reject') */
+  boundaryPolicy?: 'reject' | 'clamp';
+  /** Simulated travel time per move (default: 0) */
+  stepDurationMs?: number;
+  /** Clock used for acknowledgements (default: Date.now) */
+  now?: () => number;
+}
+
+export class GridSimulatorActuator implements Actuator {
+  public readonly name = 'grid-simulator';
+  private pose: Pose;
+  private readonly trail: Pose[];
+  private readonly bounds?: GridBounds;
+  private readonly boundaryPolicy: 'reject' | 'clamp';
+  private readonly stepDurationMs: number;
+  private readonly now: () => number;
+  private busy = false;
+
+  constructor(options: GridSimulatorOptions = {}) {
+    this.pose = { ...(options.start ?? { x: 0, y: 0, heading: 0 }) };
+    this.trail = [{ ...this.pose }];
+    this.bounds = options.bounds;
+    this.boundaryPolicy = options.boundaryPolicy ?? 'reject';
+    this.stepDurationMs = options.stepDurationMs ?? 0;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Current pose */
+  get position(): Pose {
+    return { ...this.pose };
+  }
+
+  /** Every pose visited, starting with the initial one */
+  get history(): Pose[] {
+    return this.trail.map((pose) => ({ ...pose }));
+  }
+
+  async execute(command: MotionCommand): Promise<MotionAck> {
+    if (this.busy) {
+      throw new ActuatorError('BUSY', command, 'a motion is already in progress');
+    }
+
+    const startedAt = this.now();
+    const { dx, dy } = DIRECTION_VECTORS[command.direction];
+    let x = this.pose.x + dx;
+    let y = this.pose.y + dy;
+    let truncated = false;
+
+    if (this.bounds && !this.inBounds(x, y)) {
+      if (this.boundaryPolicy === 'reject') {
+        throw new ActuatorError('OUT_OF_BOUNDS', command, `(${x}, ${y}) is outside the arena`);
+      }
+      x = Math.min(Math.max(x, this.bounds.minX), this.bounds.maxX);
+      y = Math.min(Math.max(y, this.bounds.minY), this.bounds.maxY);
+      truncated = true;
+    }
+
+    this.busy = true;
+    try {
+      if (this.stepDurationMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.stepDurationMs));
+      }
+      this.pose = { x, y, heading: DIRECTION_HEADINGS[command.direction] };
+      this.trail.push({ ...this.pose });
+    } finally {
+      this.busy = false;
+    }
+
+    return {
+      command,
+      actuator: this.name,
+      startedAt,
+      completedAt: this.now(),
+      pose: this.position,
+      truncated,
+    };
+  }
+
+  async stop(): Promise<void> {
+    // Motions are atomic on the grid; nothing to interrupt
+  }
+
+  /** Return to a pose and clear the history */
+  reset(pose: Pose = { x: 0, y: 0, heading: 0 }): void {
+    this.pose = { ...pose };
+    this.trail.length = 0;
+    this.trail.push({ ...pose });
+  }
+
+  private inBounds(x: number, y: number): boolean {
+    const { minX, maxX, minY, maxY } = this.bounds!;
+    return x >= minX && x <= maxX && y >= minY && y <= maxY;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Batch results of the suibotics_did batch functions.
+ *
+ * register_dids_batch, add_keys_batch, add_services_batch and
+ * issue_credentials_batch process every entry and report each one in a
+ * `BatchResult { index, success, error_code }` instead of aborting. Return
+ * values are not part of executed transaction effects, so the clients read
+ * them from a devInspect of the same transaction before executing it.
+ */
+
+import { bcs } from '@mysten/sui/bcs';
+import type { IdentityEvent } from './identity-events';
+import { IDENTITY_ABORT_CODES, IdentityAbortName } from './move-abort';
+
+/** identity_types::max_batch_size() */
+export const MAX_IDENTITY_BATCH_SIZE = 50;
+
+/** One entry of a batch call */
+export interface IdentityBatchResult {
+  /** Position of the entry in the batch */
+  index: number;
+  success: boolean;
+  /** identity_types error code; 0 on success */
+  errorCode: number;
+  /** Name of `errorCode`, e.g. 'E_NAME_ALREADY_EXISTS'; null on success or for unknown codes */
+  errorName: IdentityAbortName | null;
+}
+
+export interface IdentityBatchOutcome {
+  /** null when no entry would succeed, so nothing was executed */
+  digest: string | null;
+  events: IdentityEvent[];
+  /** One per entry, in order */
+  results: IdentityBatchResult[];
+}
+
+const BatchResultBcs = bcs.struct('BatchResult', {
+  index: bcs.u64(),
+  success: bcs.bool(),
+  error_code: bcs.u64(),
+});
+
+/** Decode the BCS `vector<BatchResult>` returned by a batch function */
+export function decodeBatchResults(bytes: Uint8Array): IdentityBatchResult[] {
+  return bcs.vector(BatchResultBcs).parse(bytes).map((result) => {
+    const errorCode = Number(result.error_code);
+    return {
+      index: Number(result.index),
+      success: result.success,
+      errorCode,
+      errorName: result.success
+        ? null
+        : IDENTITY_ABORT_CODES[errorCode as keyof typeof IDENTITY_ABORT_CODES] ?? null,
+    };
+  });
+}
@@ -0,0 +1,221 @@
+/**
+ * Typed event model for the suibotics_did package.
+ *
+ * Its events are emitted by identity_types, on behalf of did_registry and
+ * credential_registry, so types are `identity_types::Name`. The batch
+ * functions of credential_registry also emit their own CredentialIssued and
+ * CredentialRevoked, alongside the identity_types ones. u64 fields
+ * are converted to bigint; `vector<u8>` text fields (names, key IDs,
+ * purposes, service entries, schemas) are decoded as UTF-8.
+ */
+
+import type { SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { EventDecodeError } from './errors';
+import { DecodedEvent } from './events';
+import { Fields, readAddress, readText, readU64 } from './fields';
+
+// ===== Payloads (field names mirror the Move structs) =====
+
+export interface DidRegisteredPayload {
+  did_id: string;
+  controller: string;
+  name: string;
+  timestamp: bigint;
+}
+
+export interface KeyAddedPayload {
+  did_id: string;
+  key_id: string;
+  purpose: string;
+  timestamp: bigint;
+}
+
+export interface KeyRevokedPayload {
+  did_id: string;
+  key_id: string;
+  timestamp: bigint;
+}
+
+export interface ServiceAddedPayload {
+  did_id: string;
+  service_id: string;
+  service_type: string;
+  endpoint: string;
+  timestamp: bigint;
+}
+
+export interface ServiceRemovedPayload {
+  did_id: string;
+  service_id: string;
+  timestamp: bigint;
+}
+
+export interface ServiceUpdatedPayload {
+  did_id: string;
+  service_id: string;
+  old_type: string;
+  new_type: string;
+  old_endpoint: string;
+  new_endpoint: string;
+  timestamp: bigint;
+}
+
+export interface CredentialIssuedPayload {
+  credential_id: string;
+  subject: string;
+  issuer: string;
+  schema: string;
+  timestamp: bigint;
+}
+
+export interface CredentialRevokedPayload {
+  credential_id: string;
+  issuer: string;
+  timestamp: bigint;
+}
+
+// ===== Events =====
+
+export type DidRegisteredEvent = DecodedEvent<'identity_types::DIDRegistered', DidRegisteredPayload>;
+export type KeyAddedEvent = DecodedEvent<'identity_types::KeyAdded', KeyAddedPayload>;
+export type KeyRevokedEvent = DecodedEvent<'identity_types::KeyRevoked', KeyRevokedPayload>;
+export type ServiceAddedEvent = DecodedEvent<'identity_types::ServiceAdded', ServiceAddedPayload>;
+export type ServiceRemovedEvent = DecodedEvent<'identity_types::ServiceRemoved', ServiceRemovedPayload>;
+export type ServiceUpdatedEvent = DecodedEvent<'identity_types::ServiceUpdated', ServiceUpdatedPayload>;
+export type CredentialIssuedEvent = DecodedEvent<'identity_types::CredentialIssued', CredentialIssuedPayload>;
+export type CredentialRevokedEvent = DecodedEvent<'identity_types::CredentialRevoked', CredentialRevokedPayload>;
+/** Second CredentialIssued of each credential issued by issue_credentials_batch */
+export type RegistryCredentialIssuedEvent = DecodedEvent<'credential_registry::CredentialIssued', CredentialIssuedPayload>;
+/** Second CredentialRevoked of each credential revoked by revoke_credentials_batch */
+export type RegistryCredentialRevokedEvent = DecodedEvent<'credential_registry::CredentialRevoked', CredentialRevokedPayload>;
+
+export type IdentityEvent =
+  | DidRegisteredEvent
+  | KeyAddedEvent
+  | KeyRevokedEvent
+  | ServiceAddedEvent
+  | ServiceRemovedEvent
+  | ServiceUpdatedEvent
+  | CredentialIssuedEvent
+  | CredentialRevokedEvent
+  | RegistryCredentialIssuedEvent
+  | RegistryCredentialRevokedEvent;
+
+export type IdentityEventType = IdentityEvent['type'];
+
+/** Narrow a decoded event union to a single event type */
+export type IdentityEventOf<T extends IdentityEventType> = Extract<IdentityEvent, { type: T }>;
+
+// ===== Decoder =====
+
+const PAYLOAD_DECODERS: { [T in IdentityEventType]: (fields: Fields) => IdentityEventOf<T>['data'] } = {
+  'identity_types::DIDRegistered': (fields) => ({
+    did_id: readAddress(fields, 'did_id'),
+    controller: readAddress(fields, 'controller'),
+    name: readText(fields, 'name'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'identity_types::KeyAdded': (fields) => ({
+    did_id: readAddress(fields, 'did_id'),
+    key_id: readText(fields, 'key_id'),
+    purpose: readText(fields, 'purpose'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'identity_types::KeyRevoked': (fields) => ({
+    did_id: readAddress(fields, 'did_id'),
+    key_id: readText(fields, 'key_id'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'identity_types::ServiceAdded': (fields) => ({
+    did_id: readAddress(fields, 'did_id'),
+    service_id: readText(fields, 'service_id'),
+    service_type: readText(fields, 'service_type'),
+    endpoint: readText(fields, 'endpoint'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'identity_types::ServiceRemoved': (fields) => ({
+    did_id: readAddress(fields, 'did_id'),
+    service_id: readText(fields, 'service_id'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'identity_types::ServiceUpdated': (fields) => ({
+    did_id: readAddress(fields, 'did_id'),
+    service_id: readText(fields, 'service_id'),
+    old_type: readText(fields, 'old_type'),
+    new_type: readText(fields, 'new_type'),
+    old_endpoint: readText(fields, 'old_endpoint'),
+    new_endpoint: readText(fields, 'new_endpoint'),
+    timestamp: readU64(fields, 'timestamp'),
+  }),
+  'identity_types::CredentialIssued': decodeCredentialIssued,
+  'identity_types::CredentialRevoked': decodeCredentialRevoked,
+  'credential_registry::CredentialIssued': decodeCredentialIssued,
+  'credential_registry::CredentialRevoked': decodeCredentialRevoked,
+};
+
+function decodeCredentialIssued(fields: Fields): CredentialIssuedPayload {
+  return {
+    credential_id: readAddress(fields, 'credential_id'),
+    subject: readAddress(fields, 'subject'),
+    issuer: readAddress(fields, 'issuer'),
+    schema: readText(fields, 'schema'),
+    timestamp: readU64(fields, 'timestamp'),
+  };
+}
+
+function decodeCredentialRevoked(fields: Fields): CredentialRevokedPayload {
+  return {
+    credential_id: readAddress(fields, 'credential_id'),
+    issuer: readAddress(fields, 'issuer'),
+    timestamp: readU64(fields, 'timestamp'),
+  };
+}
+
+export function isIdentityEventType(value: string): value is IdentityEventType {
+  return Object.prototype.hasOwnProperty.call(PAYLOAD_DECODERS, value);
+}
+
+/**
+ * Decode a raw Sui event emitted by the given suibotics_did package.
+ *
+ * @throws EventDecodeError if the event comes from another package, is of an
+ * unknown type, or has missing / malformed fields
+ */
+export function decodeIdentityEvent(event: SuiEvent, packageId: string): IdentityEvent {
+  const [eventPackage, module, name] = event.type.split('::');
+  if (!module || !name || normalizeSuiAddress(eventPackage) !== normalizeSuiAddress(packageId)) {
+    throw new EventDecodeError(event.type, `Event is not from package ${packageId}`);
+  }
+  const type = `${module}::${name}`;
+  if (!isIdentityEventType(type)) {
+    throw new EventDecodeError(event.type, `Unknown event type ${type}`);
+  }
+
+  const fields = event.parsedJson;
+  if (typeof fields !== 'object' || fields === null) {
+    throw new EventDecodeError(event.type, 'Event has no parsedJson payload');
+  }
+
+  let data: IdentityEvent['data'];
+  try {
+    data = PAYLOAD_DECODERS[type](fields as Fields);
+  } catch (error) {
+    throw new EventDecodeError(event.type, (error as Error).message, { cause: error });
+  }
+  return {
+    type,
+    id: event.id,
+    sender: event.sender,
+    timestampMs: event.timestampMs ? BigInt(event.timestampMs) : null,
+    data,
+  } as IdentityEvent;
+}
+
+/** Decode every event of the package, skipping events emitted by other packages */
+export function decodeIdentityEvents(events: SuiEvent[], packageId: string): IdentityEvent[] {
+  const id = normalizeSuiAddress(packageId);
+  return events
+    .filter((event) => normalizeSuiAddress(event.type.split('::')[0]) === id)
+    .map((event) => decodeIdentityEvent(event, packageId));
+}
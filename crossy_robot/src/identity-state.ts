@@ -0,0 +1,166 @@
+/**
+ * Typed on-chain state of the suibotics_did package's objects.
+ *
+ * Field names mirror the Move structs; u64 fields are bigint. Keys and
+ * services are dynamic fields of a DIDInfo, keyed by KeyFieldKey and
+ * ServiceFieldKey; their IDs and text are decoded as UTF-8.
+ */
+
+import type { SuiObjectData } from '@mysten/sui/client';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { ObjectDecodeError } from './errors';
+import { Fields, readAddress, readBool, readBytes, readStruct, readText, readU64 } from './fields';
+
+const DYNAMIC_FIELD_TYPE = normalizeStructTag('0x2::dynamic_field::Field');
+
+// ===== State =====
+
+/** identity_types::DIDInfo, owned by its controller */
+export interface DidInfoState {
+  id: string;
+  controller: string;
+  /** Epoch timestamp of registration in milliseconds */
+  created_at: bigint;
+}
+
+/** identity_types::KeyInfo, stored under KeyFieldKey { key_id } */
+export interface DidKeyState {
+  key_id: string;
+  /** Raw Ed25519 public key */
+  pubkey: Uint8Array;
+  purpose: string;
+  revoked: boolean;
+}
+
+/** identity_types::ServiceInfo, stored under ServiceFieldKey { service_id } */
+export interface DidServiceState {
+  id: string;
+  type: string;
+  endpoint: string;
+}
+
+/** identity_types::CredentialInfo, owned by its subject */
+export interface CredentialInfoState {
+  id: string;
+  subject: string;
+  issuer: string;
+  schema: string;
+  /** SHA-256 of the off-chain credential JSON */
+  data_hash: Uint8Array;
+  revoked: boolean;
+  /** Epoch timestamp of issuance in milliseconds */
+  issued_at: bigint;
+}
+
+/** Struct tag of identity_types::DIDInfo for a package */
+export function didInfoType(packageId: string): string {
+  return normalizeStructTag(`${packageId}::identity_types::DIDInfo`);
+}
+
+/** Struct tag of identity_types::CredentialInfo for a package */
+export function credentialInfoType(packageId: string): string {
+  return normalizeStructTag(`${packageId}::identity_types::CredentialInfo`);
+}
+
+/** Struct tag of the dynamic field key under which a DIDInfo holds keys or services */
+export function didFieldKeyType(packageId: string, kind: 'key' | 'service'): string {
+  return normalizeStructTag(`${packageId}::identity_types::${kind === 'key' ? 'KeyFieldKey' : 'ServiceFieldKey'}`);
+}
+
+// ===== Decoders =====
+
+/**
+ * Decode an identity_types::DIDInfo object fetched with `showContent`.
+ *
+ * @throws ObjectDecodeError if it is not a DIDInfo of the package
+ */
+export function decodeDidInfo(object: SuiObjectData, packageId: string): DidInfoState {
+  const { id, fields } = structFields(object, didInfoType(packageId));
+  return decodeFields(id, () => ({
+    id,
+    controller: readAddress(fields, 'controller'),
+    created_at: readU64(fields, 'created_at'),
+  }));
+}
+
+/**
+ * Decode an identity_types::CredentialInfo object fetched with `showContent`.
+ *
+ * @throws ObjectDecodeError if it is not a CredentialInfo of the package
+ */
+export function decodeCredentialInfo(object: SuiObjectData, packageId: string): CredentialInfoState {
+  const { id, fields } = structFields(object, credentialInfoType(packageId));
+  return decodeFields(id, () => ({
+    id,
+    subject: readAddress(fields, 'subject'),
+    issuer: readAddress(fields, 'issuer'),
+    schema: readText(fields, 'schema'),
+    data_hash: readBytes(fields, 'data_hash'),
+    revoked: readBool(fields, 'revoked'),
+    issued_at: readU64(fields, 'issued_at'),
+  }));
+}
+
+/**
+ * Decode the dynamic field object holding one key of a DIDInfo, fetched
+ * with `showContent`.
+ *
+ * @throws ObjectDecodeError if it is not a KeyFieldKey -> KeyInfo field of the package
+ */
+export function decodeDidKeyField(object: SuiObjectData, packageId: string): DidKeyState {
+  const { id, name, value } = dynamicFieldContent(object, didFieldKeyType(packageId, 'key'));
+  return decodeFields(id, () => ({
+    key_id: readText(name, 'key_id'),
+    pubkey: readBytes(value, 'pubkey'),
+    purpose: readText(value, 'purpose'),
+    revoked: readBool(value, 'revoked'),
+  }));
+}
+
+/**
+ * Decode the dynamic field object holding one service of a DIDInfo, fetched
+ * with `showContent`.
+ *
+ * @throws ObjectDecodeError if it is not a ServiceFieldKey -> ServiceInfo field of the package
+ */
+export function decodeDidServiceField(object: SuiObjectData, packageId: string): DidServiceState {
+  const { id, value } = dynamicFieldContent(object, didFieldKeyType(packageId, 'service'));
+  return decodeFields(id, () => ({
+    id: readText(value, 'id'),
+    type: readText(value, 'type_'),
+    endpoint: readText(value, 'endpoint'),
+  }));
+}
+
+/** Fields of an object whose type must be `expected` */
+function structFields(object: SuiObjectData, expected: string): { id: string; fields: Fields } {
+  const content = object.content;
+  if (content?.dataType !== 'moveObject' || normalizeStructTag(content.type) !== expected) {
+    const actual = content?.dataType === 'moveObject' ? content.type : content?.dataType ?? 'no content';
+    throw new ObjectDecodeError(object.objectId, `Expected ${expected}, got ${actual}`);
+  }
+  return { id: normalizeSuiAddress(object.objectId), fields: content.fields as Fields };
+}
+
+/** Name and value structs of a `dynamic_field::Field<K, V>` object whose key type is K */
+function dynamicFieldContent(
+  object: SuiObjectData,
+  keyType: string
+): { id: string; name: Fields; value: Fields } {
+  const id = normalizeSuiAddress(object.objectId);
+  const content = object.content;
+  const type = content?.dataType === 'moveObject' ? normalizeStructTag(content.type) : null;
+  if (content?.dataType !== 'moveObject' || !type?.startsWith(`${DYNAMIC_FIELD_TYPE}<${keyType},`)) {
+    throw new ObjectDecodeError(id, `Expected a dynamic field keyed by ${keyType}, got ${type ?? content?.dataType ?? 'no content'}`);
+  }
+  const fields = content.fields as Fields;
+  return decodeFields(id, () => ({ id, name: readStruct(fields, 'name'), value: readStruct(fields, 'value') }));
+}
+
+function decodeFields<T>(objectId: string, decode: () => T): T {
+  try {
+    return decode();
+  } catch (error) {
+    throw new ObjectDecodeError(objectId, (error as Error).message, { cause: error });
+  }
+}
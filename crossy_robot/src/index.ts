@@ -0,0 +1,45 @@
+/**
+ * Crossy Robot client library
+ *
+ * Importable building blocks for robot software, frontends and the E2E scripts.
+ */
+
+export * from './constants';
+export * from './errors';
+export * from './move-abort';
+export * from './move-bytes';
+export * from './move-calls';
+export * from './retry';
+export * from './keys';
+export * from './keystore';
+export * from './deployment';
+export * from './network';
+export * from './gas';
+export * from './publish';
+export * from './localnet';
+export * from './events';
+export * from './game-state';
+export * from './client';
+export * from './event-stream';
+export * from './identity-events';
+export * from './identity-state';
+export * from './did-client';
+export * from './did-resolver';
+export * from './did-auth';
+export * from './credential-client';
+export * from './credentials';
+export * from './identity-batch';
+export * from './provisioning';
+export * from './state-store';
+export * from './robot-agent';
+export * from './actuator';
+export * from './grid-simulator';
+export * from './crowd-vote';
+export * from './teleop';
+export * from './replay';
+export * from './keeper';
+export * from './gateway';
+export * from './gateway-openapi';
+export * from './sponsor';
+export * from './load-generator';
+export * from './scenario';
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, describe, it } from 'node:test';
+import type { Signer } from '@mysten/sui/cryptography';
+import type { CrossyRobotClient, EndGameResult } from './client';
+import { CROWD_GAME_STATUS, CrowdGameStatus } from './constants';
+import type { CrowdGameEndedEvent } from './events';
+import { CrowdGameKeeper, CrowdGameKeeperState, INITIAL_CROWD_GAME_KEEPER_STATE, KeeperGameEnded } from './keeper';
+import { transactionFailure } from './move-abort';
+import { JsonStateStore } from './state-store';
+
+const gameId = `0x${'ab'.repeat(32)}`;
+const creator = `0x${'c1'.repeat(32)}`;
+const signer = {} as Signer;
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'keeper-test-'));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const gameEnded: CrowdGameEndedEvent = {
+  type: 'crowd_robot::GameEnded',
+  id: { txDigest: 'ENDED', eventSeq: '0' },
+  sender: creator,
+  timestampMs: null,
+  data: { game_id: gameId, ended_at: 5_000n, duration_ms: 5_000n, total_moves: 4n, unique_players: 2n, creator },
+};
+
+const notActive = () => transactionFailure(
+  'Game ending',
+  'ABORTED',
+  'MoveAbort(MoveLocation { module: ModuleId { address: 1, name: Identifier("crowd_robot") }, ' +
+  'function: 3, instruction: 0, function_name: Some("end_game") }, 3) in command 0'
+);
+
+/** Client for one crowd game whose end_game calls play `endGame` in order */
+function fakeClient(status: CrowdGameStatus, endGame: (() => EndGameResult | Error)[]) {
+  const calls = { endGame: 0 };
+  const client = {
+    packageId: `0x${'5d'.repeat(32)}`,
+    suiClient: { queryEvents: async () => ({ data: [], nextCursor: null, hasNextPage: false }) },
+    getChainTime: async () => 10_000n,
+    getCrowdGameView: async (id: string) => ({
+      game: { id, creator, players: [], status, created_at: 0n, end_time: 5_000n, total_moves: 4n },
+      nowMs: 10_000n,
+      expired: true,
+      timeRemainingMs: 0n,
+    }),
+    async endCrowdGame() {
+      const outcome = endGame[calls.endGame++]();
+      if (outcome instanceof Error) {
+        throw outcome;
+      }
+      return outcome;
+    },
+    queryGameHistory: async () => ({ data: [gameEnded], nextCursor: null, hasNextPage: false }),
+  };
+  return { client: client as unknown as CrossyRobotClient, calls };
+}
+
+/** Run a keeper tracking the game until it reports the game ended */
+async function keep(client: CrossyRobotClient) {
+  const store = new JsonStateStore<CrowdGameKeeperState>(
+    path.join(directory, `${Math.random().toString(36).slice(2)}.json`),
+    INITIAL_CROWD_GAME_KEEPER_STATE
+  );
+  store.save({ ...INITIAL_CROWD_GAME_KEEPER_STATE, games: { [gameId]: '5000' } });
+
+  const failures: unknown[] = [];
+  let resolve!: (result: KeeperGameEnded) => void;
+  const ended = new Promise<KeeperGameEnded>((done) => (resolve = done));
+  const keeper = new CrowdGameKeeper({
+    client,
+    signer,
+    stateStore: store,
+    graceMs: 5,
+    retryDelayMs: 5,
+    streamOptions: { transport: 'polling', minPollIntervalMs: 5, maxPollIntervalMs: 10 },
+    handlers: { onGameEnded: resolve, onEndFailed: (_, error) => void failures.push(error) },
+  });
+  const running = keeper.start();
+  const result = await ended;
+  await keeper.stop();
+  await running;
+  return { result, failures, keeper, saved: store.load() };
+}
+
+describe('CrowdGameKeeper', () => {
+  it('ends an expired game', async () => {
+    const { client, calls } = fakeClient(CROWD_GAME_STATUS.ACTIVE, [() => ({ digest: 'END', events: [gameEnded] })]);
+    const { result, keeper, saved } = await keep(client);
+    assert.deepEqual(result, { gameId, endedBy: 'keeper', event: gameEnded, digest: 'END' });
+    assert.equal(calls.endGame, 1);
+    assert.deepEqual(keeper.stats, { endedByKeeper: 1, endedByOthers: 0 });
+    assert.deepEqual(saved.games, {});
+  });
+
+  it('reports a game that already ended without calling end_game', async () => {
+    const { client, calls } = fakeClient(CROWD_GAME_STATUS.ENDED, []);
+    const { result, keeper } = await keep(client);
+    assert.deepEqual(result, { gameId, endedBy: 'other', event: gameEnded });
+    assert.equal(calls.endGame, 0);
+    assert.deepEqual(keeper.stats, { endedByKeeper: 0, endedByOthers: 1 });
+  });
+
+  it('credits another transaction when end_game emits no GameEnded', async () => {
+    const { client } = fakeClient(CROWD_GAME_STATUS.ACTIVE, [() => ({ digest: 'NOOP', events: [] })]);
+    const { result } = await keep(client);
+    assert.deepEqual(result, { gameId, endedBy: 'other', event: gameEnded, digest: 'NOOP' });
+  });
+
+  it('waits and tries again on E_GAME_NOT_ACTIVE without reporting a failure', async () => {
+    const { client, calls } = fakeClient(CROWD_GAME_STATUS.ACTIVE, [notActive, () => ({ digest: 'END', events: [gameEnded] })]);
+    const { result, failures } = await keep(client);
+    assert.equal(result.endedBy, 'keeper');
+    assert.equal(calls.endGame, 2);
+    assert.deepEqual(failures, []);
+  });
+
+  it('reports other end_game failures and retries them', async () => {
+    const { client, calls } = fakeClient(CROWD_GAME_STATUS.ACTIVE, [
+      () => new Error('Insufficient gas'),
+      () => ({ digest: 'END', events: [gameEnded] }),
+    ]);
+    const { result, failures } = await keep(client);
+    assert.equal(result.endedBy, 'keeper');
+    assert.equal(calls.endGame, 2);
+    assert.equal(failures.length, 1);
+  });
+});
@@ -0,0 +1,378 @@
+/**
+ * Crowd Game Keeper
+ *
+ * Long-running loop that ends expired crowd_robot games, so abandoned games
+ * do not stay ACTIVE forever:
+ * 1. Track every crowd_robot::GameCreated with its end_time
+ * 2. Sleep until the earliest end_time, measured against the chain Clock
+ * 3. Call end_game once the game has expired, and report its GameEnded stats
+ *
+ * Games ended by someone else (a late move or another keeper) are reported
+ * with the stats of their GameEnded event. The event cursor and tracked games
+ * are persisted, so a restarted keeper picks up games it has not ended yet.
+ */
+
+import type { EventId } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { CrossyRobotClient, EndGameResult } from './client';
+import { CROWD_GAME_STATUS } from './constants';
+import { CrowdGameEndedEvent, GameEvent } from './events';
+import { GameEventStream, GameEventStreamOptions } from './event-stream';
+import { isAbort } from './move-abort';
+import { JsonStateStore } from './state-store';
+
+export interface CrowdGameKeeperState {
+  /** Last fully processed event */
+  cursor: EventId | null;
+  /** Games not ended yet: game ID → end_time in ms (decimal string) */
+  games: Record<string, string>;
+  /** Games this keeper ended */
+  endedByKeeper: number;
+  /** Tracked games that were ended by someone else */
+  endedByOthers: number;
+}
+
+export const INITIAL_CROWD_GAME_KEEPER_STATE: CrowdGameKeeperState = {
+  cursor: null,
+  games: {},
+  endedByKeeper: 0,
+  endedByOthers: 0,
+};
+
+export interface KeeperGameEnded {
+  gameId: string;
+  /** Whether this keeper's end_game call emitted the GameEnded event */
+  endedBy: 'keeper' | 'other';
+  /** The GameEnded event with the final stats; null if the node no longer has it */
+  event: CrowdGameEndedEvent | null;
+  /** Digest of this keeper's end_game transaction, if it sent one */
+  digest?: string;
+}
+
+/** Callbacks through which the keeper reports what it is doing */
+export interface CrowdGameKeeperHandlers {
+  /** A new game is tracked until its end_time */
+  onGameTracked?(gameId: string, endTime: bigint): void | Promise<void>;
+  onGameEnded?(result: KeeperGameEnded): void | Promise<void>;
+  /** Ending a game failed; it is retried after `retryDelayMs` */
+  onEndFailed?(gameId: string, error: unknown): void | Promise<void>;
+  /** Event stream, chain time or handler error; the keeper keeps running */
+  onError?(error: unknown): void;
+}
+
+export interface CrowdGameKeeperOptions {
+  client: CrossyRobotClient;
+  /** Wallet paying gas for end_game */
+  signer: Signer;
+  stateStore: JsonStateStore<CrowdGameKeeperState>;
+  handlers?: CrowdGameKeeperHandlers;
+  /** Event stream tuning (transport, poll intervals, backoff) */
+  streamOptions?: Omit<GameEventStreamOptions, 'module' | 'cursor'>;
+  /** Wait this long past end_time before calling end_game (default: 1000) */
+  graceMs?: number;
+  /** Longest sleep before chain time is read again (default: 30000) */
+  maxSleepMs?: number;
+  /** Delay before a failed game is tried again (default: 10000) */
+  retryDelayMs?: number;
+  /**
+   * Where to start when no cursor was saved yet. 'beginning' also ends games
+   * abandoned before the keeper first ran (default: 'beginning')
+   */
+  startFrom?: 'latest' | 'beginning';
+}
+
+export class CrowdGameKeeper {
+  private readonly client: CrossyRobotClient;
+  private readonly signer: Signer;
+  private readonly stateStore: JsonStateStore<CrowdGameKeeperState>;
+  private readonly handlers: CrowdGameKeeperHandlers;
+  private readonly streamOptions: Omit<GameEventStreamOptions, 'module' | 'cursor'>;
+  private readonly graceMs: number;
+  private readonly maxSleepMs: number;
+  private readonly retryDelayMs: number;
+  private readonly startFrom: 'latest' | 'beginning';
+  private state: CrowdGameKeeperState;
+  /** Local time before which a failed game is not tried again */
+  private readonly retryAfter = new Map<string, number>();
+  /** Last chain time read and the local time it was read at */
+  private chainClock: { chainMs: bigint; localMs: number } | null = null;
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private stream: GameEventStream | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<void> | null = null;
+  /** Game the sweep is ending right now */
+  private ending: string | null = null;
+
+  constructor(options: CrowdGameKeeperOptions) {
+    for (const name of ['graceMs', 'maxSleepMs', 'retryDelayMs'] as const) {
+      const value = options[name];
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        throw new RangeError(`${name} must be a non-negative number`);
+      }
+    }
+    this.client = options.client;
+    this.signer = options.signer;
+    this.stateStore = options.stateStore;
+    this.handlers = options.handlers ?? {};
+    this.streamOptions = options.streamOptions ?? {};
+    this.graceMs = options.graceMs ?? 1000;
+    this.maxSleepMs = options.maxSleepMs ?? 30_000;
+    this.retryDelayMs = options.retryDelayMs ?? 10_000;
+    this.startFrom = options.startFrom ?? 'beginning';
+    this.state = this.stateStore.load();
+  }
+
+  /** Tracked games that have not ended yet, with their end_time */
+  get pendingGames(): Map<string, bigint> {
+    return new Map(Object.entries(this.state.games).map(([gameId, endTime]) => [gameId, BigInt(endTime)]));
+  }
+
+  get stats(): { endedByKeeper: number; endedByOthers: number } {
+    return { endedByKeeper: this.state.endedByKeeper, endedByOthers: this.state.endedByOthers };
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start tracking and ending games. Resolves once the keeper has been stopped.
+   */
+  start(): Promise<void> {
+    if (this.loop) {
+      return this.loop;
+    }
+    this.running = true;
+    this.loop = this.run().finally(() => {
+      this.running = false;
+      this.loop = null;
+    });
+    return this.loop;
+  }
+
+  /**
+   * Stop after the event and the end_game call in progress, and persist the state.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.stream?.close();
+    this.clearTimer();
+    await this.loop;
+  }
+
+  /** Start tracking a game that was missed, e.g. one created before the saved cursor */
+  async track(gameId: string): Promise<void> {
+    const game = await this.client.getCrowdGame(gameId);
+    if (game.status !== CROWD_GAME_STATUS.ENDED) {
+      await this.addGame(game.id, game.end_time);
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.state.cursor === null && this.startFrom === 'latest') {
+      this.state = { ...this.state, cursor: await this.client.latestEventCursor('crowd_robot') };
+      this.persist();
+    }
+
+    const stream = new GameEventStream(this.client, {
+      onError: (error) => this.handlers.onError?.(error),
+      ...this.streamOptions,
+      module: 'crowd_robot',
+      cursor: this.state.cursor,
+    });
+    this.stream = stream;
+    if (!this.running) {
+      stream.close();
+    }
+
+    // Games saved by a previous run are due straight away if they expired meanwhile
+    this.schedule(0);
+
+    try {
+      for await (const event of stream) {
+        await this.handleEvent(event);
+        this.state = { ...this.state, cursor: event.id };
+        this.persist();
+      }
+    } finally {
+      this.clearTimer();
+      await this.sweeping;
+      this.stream = null;
+      this.persist();
+    }
+  }
+
+  private async handleEvent(event: GameEvent): Promise<void> {
+    try {
+      switch (event.type) {
+        case 'crowd_robot::GameCreated':
+          await this.addGame(event.data.game_id, event.data.end_time);
+          break;
+        case 'crowd_robot::GameEnded':
+          // A game being ended right now is reported by the sweep
+          if (this.state.games[event.data.game_id] !== undefined && this.ending !== event.data.game_id) {
+            await this.finish({ gameId: event.data.game_id, endedBy: 'other', event });
+          }
+          break;
+      }
+    } catch (error) {
+      // Handler failures are reported but never block the cursor
+      this.handlers.onError?.(error);
+    }
+  }
+
+  private async addGame(gameId: string, endTime: bigint): Promise<void> {
+    if (this.state.games[gameId] !== undefined) {
+      return;
+    }
+    this.state = { ...this.state, games: { ...this.state.games, [gameId]: endTime.toString() } };
+    this.persist();
+    await this.handlers.onGameTracked?.(gameId, endTime);
+    this.schedule();
+  }
+
+  private async finish(result: KeeperGameEnded): Promise<void> {
+    const games = { ...this.state.games };
+    delete games[result.gameId];
+    this.state = {
+      ...this.state,
+      games,
+      endedByKeeper: this.state.endedByKeeper + (result.endedBy === 'keeper' ? 1 : 0),
+      endedByOthers: this.state.endedByOthers + (result.endedBy === 'other' ? 1 : 0),
+    };
+    this.retryAfter.delete(result.gameId);
+    this.persist();
+    await this.handlers.onGameEnded?.(result);
+  }
+
+  // ===== Scheduling =====
+
+  /** Chain time extrapolated from the last reading, or null before the first */
+  private estimatedChainTime(): bigint | null {
+    if (!this.chainClock) {
+      return null;
+    }
+    return this.chainClock.chainMs + BigInt(Date.now() - this.chainClock.localMs);
+  }
+
+  /** Arm the timer for the earliest game; `delayMs` overrides the computed delay */
+  private schedule(delayMs?: number): void {
+    if (!this.running || this.sweeping) {
+      return;
+    }
+    this.clearTimer();
+
+    const games = Object.entries(this.state.games);
+    if (games.length === 0) {
+      return;
+    }
+    if (delayMs === undefined) {
+      const now = this.estimatedChainTime();
+      delayMs = now === null ? 0 : Math.min(...games.map(([gameId, endTime]) => Math.max(
+        Number(BigInt(endTime) - now) + this.graceMs,
+        (this.retryAfter.get(gameId) ?? 0) - Date.now()
+      )));
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.sweeping = this.sweep()
+        .catch((error) => this.handlers.onError?.(error))
+        .finally(() => {
+          this.sweeping = null;
+          this.schedule();
+        });
+    }, Math.min(Math.max(delayMs, 0), this.maxSleepMs));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** End every tracked game whose end_time has passed on chain */
+  private async sweep(): Promise<void> {
+    const chainMs = await this.client.getChainTime();
+    this.chainClock = { chainMs, localMs: Date.now() };
+
+    const due = Object.entries(this.state.games)
+      .map(([gameId, endTime]) => ({ gameId, endTime: BigInt(endTime) }))
+      .filter(({ gameId, endTime }) => endTime <= chainMs && (this.retryAfter.get(gameId) ?? 0) <= Date.now())
+      .sort((a, b) => (a.endTime < b.endTime ? -1 : a.endTime > b.endTime ? 1 : 0));
+
+    for (const { gameId } of due) {
+      if (!this.running) {
+        break;
+      }
+      // The event stream may have seen it end meanwhile
+      if (this.state.games[gameId] === undefined) {
+        continue;
+      }
+      this.ending = gameId;
+      try {
+        await this.endGame(gameId);
+      } catch (error) {
+        this.retryAfter.set(gameId, Date.now() + this.retryDelayMs);
+        await this.handlers.onEndFailed?.(gameId, error);
+      } finally {
+        this.ending = null;
+      }
+    }
+  }
+
+  private async endGame(gameId: string): Promise<void> {
+    const view = await this.client.getCrowdGameView(gameId);
+    if (view.game.status === CROWD_GAME_STATUS.ENDED) {
+      await this.finish({ gameId, endedBy: 'other', event: await this.findGameEnded(gameId) });
+      return;
+    }
+    if (!view.expired) {
+      // The node answering this read is behind the one that gave the chain time
+      this.retryAfter.set(gameId, Date.now() + this.graceMs);
+      return;
+    }
+
+    let outcome: EndGameResult;
+    try {
+      outcome = await this.client.endCrowdGame(this.signer, gameId);
+    } catch (error) {
+      // A node behind the Clock can still see the game as running
+      if (isAbort(error, 'E_GAME_NOT_ACTIVE')) {
+        this.retryAfter.set(gameId, Date.now() + this.graceMs);
+        return;
+      }
+      throw error;
+    }
+
+    const event = outcome.events.find(
+      (event): event is CrowdGameEndedEvent => event.type === 'crowd_robot::GameEnded'
+    );
+    // end_game is a no-op if another transaction ended the game first
+    await this.finish(event
+      ? { gameId, endedBy: 'keeper', event, digest: outcome.digest }
+      : { gameId, endedBy: 'other', event: await this.findGameEnded(gameId), digest: outcome.digest });
+  }
+
+  /** The GameEnded event of a game, searching its history newest first */
+  private async findGameEnded(gameId: string): Promise<CrowdGameEndedEvent | null> {
+    let cursor: string | null = null;
+    do {
+      const page = await this.client.queryGameHistory(gameId, { cursor, order: 'descending' });
+      const event = page.data.find(
+        (event): event is CrowdGameEndedEvent => event.type === 'crowd_robot::GameEnded'
+      );
+      if (event) {
+        return event;
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    return null;
+  }
+
+  private persist(): void {
+    this.stateStore.save(this.state);
+  }
+}
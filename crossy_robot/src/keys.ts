@@ -0,0 +1,115 @@
+/**
+ * Keypair loading shared by every client and script.
+ *
+ * Accepts all Sui signing schemes (ED25519, Secp256k1, Secp256r1) in Sui CLI
+ * format (suiprivkey1...), keystore format (base64 flag || secret) or legacy
+ * base64 ED25519 secrets.
+ */
+
+import { Keypair, decodeSuiPrivateKey, SIGNATURE_FLAG_TO_SCHEME } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Secp256k1Keypair } from '@mysten/sui/keypairs/secp256k1';
+import { Secp256r1Keypair } from '@mysten/sui/keypairs/secp256r1';
+import { fromB64 } from '@mysten/sui/utils';
+import { KeyLoadError } from './errors';
+
+export const KEY_SCHEMES = ['ED25519', 'Secp256k1', 'Secp256r1'] as const;
+export type KeyScheme = typeof KEY_SCHEMES[number];
+
+export function isKeyScheme(value: string): value is KeyScheme {
+  return (KEY_SCHEMES as readonly string[]).includes(value);
+}
+
+/** Case-insensitive scheme lookup ('ed25519', 'secp256r1', ...) */
+export function parseKeyScheme(value: string): KeyScheme {
+  const scheme = KEY_SCHEMES.find((candidate) => candidate.toLowerCase() === value.toLowerCase());
+  if (!scheme) {
+    throw new KeyLoadError(value, `Unknown key scheme "${value}"; expected one of ${KEY_SCHEMES.join(', ')}`);
+  }
+  return scheme;
+}
+
+/** Fresh random keypair */
+export function generateKeypair(scheme: KeyScheme = 'ED25519'): Keypair {
+  switch (scheme) {
+    case 'ED25519':
+      return new Ed25519Keypair();
+    case 'Secp256k1':
+      return new Secp256k1Keypair();
+    case 'Secp256r1':
+      return new Secp256r1Keypair();
+  }
+}
+
+/** Keypair from a raw 32-byte secret */
+export function keypairFromSecretKey(scheme: KeyScheme, secretKey: Uint8Array): Keypair {
+  switch (scheme) {
+    case 'ED25519':
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case 'Secp256k1':
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case 'Secp256r1':
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+  }
+}
+
+/**
+ * Decode a private key in Sui CLI format (suiprivkey1...), keystore format
+ * or legacy base64.
+ */
+export function keypairFromPrivateKey(privateKey: string, source: string = 'private key'): Keypair {
+  try {
+    if (privateKey.startsWith('suiprivkey1')) {
+      const { schema, secretKey } = decodeSuiPrivateKey(privateKey);
+      if (!isKeyScheme(schema)) {
+        throw new Error(`${schema} keys cannot sign transactions directly`);
+      }
+      return keypairFromSecretKey(schema, secretKey);
+    }
+
+    const bytes = fromB64(privateKey);
+    if (bytes.length === 33) {
+      const scheme = SIGNATURE_FLAG_TO_SCHEME[bytes[0] as keyof typeof SIGNATURE_FLAG_TO_SCHEME];
+      if (!scheme || !isKeyScheme(scheme)) {
+        throw new Error(`Unsupported key flag ${bytes[0]}`);
+      }
+      return keypairFromSecretKey(scheme, bytes.slice(1));
+    }
+    return Ed25519Keypair.fromSecretKey(bytes);
+  } catch (error) {
+    throw new KeyLoadError(
+      source,
+      `Invalid private key format for ${source}: expected Sui CLI format (suiprivkey1...) or base64`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Load a keypair from an environment variable.
+ */
+export function loadKeypairFromEnv(
+  envVar: string,
+  env: NodeJS.ProcessEnv = process.env
+): Keypair {
+  const privateKey = env[envVar];
+  if (!privateKey) {
+    throw new KeyLoadError(envVar, `${envVar} not found in environment variables`);
+  }
+  return keypairFromPrivateKey(privateKey, envVar);
+}
+
+/**
+ * Like {@link loadKeypairFromEnv} but returns null when the variable is unset.
+ */
+export function loadOptionalKeypairFromEnv(
+  envVar: string,
+  env: NodeJS.ProcessEnv = process.env
+): Keypair | null {
+  return env[envVar] ? loadKeypairFromEnv(envVar, env) : null;
+}
+
+/** Environment variable holding a role's key: 'player2' → PLAYER2_PRIVATE_KEY */
+export function roleEnvVar(role: string): string {
+  return `${role.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_PRIVATE_KEY`;
+}
@@ -0,0 +1,141 @@
+/**
+ * Sui CLI keystore import/export.
+ *
+ * `sui.keystore` is a JSON array of base64 `flag || secret key` strings;
+ * the sibling `sui.aliases` maps an alias to each key's public key. Keys
+ * written here can be used with `sui client` and vice versa.
+ */
+
+import { Keypair, decodeSuiPrivateKey, SIGNATURE_SCHEME_TO_FLAG } from '@mysten/sui/cryptography';
+import { normalizeSuiAddress, toB64 } from '@mysten/sui/utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeyLoadError } from './errors';
+import { keypairFromPrivateKey } from './keys';
+
+export const DEFAULT_SUI_KEYSTORE_PATH = path.join(os.homedir(), '.sui', 'sui_config', 'sui.keystore');
+
+export interface KeystoreAlias {
+  alias: string;
+  public_key_base64: string;
+}
+
+export interface KeystoreEntry {
+  keypair: Keypair;
+  address: string;
+  /** Alias from sui.aliases, if present */
+  alias?: string;
+}
+
+export interface ExportKeystoreResult {
+  /** Addresses appended to the keystore */
+  added: string[];
+  /** Addresses that were already present */
+  skipped: string[];
+}
+
+/** Base64 `flag || secret key` as stored in sui.keystore */
+export function toKeystoreString(keypair: Keypair): string {
+  const { schema, secretKey } = decodeSuiPrivateKey(keypair.getSecretKey());
+  const bytes = new Uint8Array(secretKey.length + 1);
+  bytes[0] = SIGNATURE_SCHEME_TO_FLAG[schema];
+  bytes.set(secretKey, 1);
+  return toB64(bytes);
+}
+
+/** All keys in a keystore, with their aliases when a sui.aliases file exists */
+export function readSuiKeystore(keystorePath: string = DEFAULT_SUI_KEYSTORE_PATH): KeystoreEntry[] {
+  const aliases = new Map(readAliases(keystorePath).map((entry) => [entry.public_key_base64, entry.alias]));
+
+  return readKeystoreStrings(keystorePath).map((value, index) => {
+    const keypair = keypairFromPrivateKey(value, `${keystorePath}[${index}]`);
+    return {
+      keypair,
+      address: keypair.toSuiAddress(),
+      alias: aliases.get(keypair.getPublicKey().toSuiPublicKey()),
+    };
+  });
+}
+
+/** Find a key by address or alias */
+export function findKeystoreEntry(entries: KeystoreEntry[], addressOrAlias: string): KeystoreEntry | undefined {
+  const address = addressOrAlias.startsWith('0x') ? normalizeSuiAddress(addressOrAlias) : null;
+  return entries.find((entry) => entry.address === address || entry.alias === addressOrAlias);
+}
+
+/**
+ * Append keys to a keystore (creating it if needed). Keys already present
+ * are skipped; aliases are added to sui.aliases when that file exists or
+ * the keystore is new.
+ */
+export function exportToSuiKeystore(
+  keys: { keypair: Keypair; alias: string }[],
+  keystorePath: string = DEFAULT_SUI_KEYSTORE_PATH
+): ExportKeystoreResult {
+  const isNew = !fs.existsSync(keystorePath);
+  const stored = isNew ? [] : readKeystoreStrings(keystorePath);
+  const aliasesPath = aliasesPathFor(keystorePath);
+  const writeAliases = isNew || fs.existsSync(aliasesPath);
+  const aliases = writeAliases ? readAliases(keystorePath) : [];
+  const takenAliases = new Set(aliases.map((entry) => entry.alias));
+  const present = new Set(stored.map((value) => keypairFromPrivateKey(value, keystorePath).toSuiAddress()));
+
+  const result: ExportKeystoreResult = { added: [], skipped: [] };
+  for (const { keypair, alias } of keys) {
+    const address = keypair.toSuiAddress();
+    if (present.has(address)) {
+      result.skipped.push(address);
+      continue;
+    }
+    present.add(address);
+    stored.push(toKeystoreString(keypair));
+    aliases.push({ alias: uniqueAlias(alias, takenAliases), public_key_base64: keypair.getPublicKey().toSuiPublicKey() });
+    result.added.push(address);
+  }
+
+  fs.mkdirSync(path.dirname(keystorePath), { recursive: true });
+  fs.writeFileSync(keystorePath, JSON.stringify(stored, null, 2), { mode: 0o600 });
+  if (writeAliases) {
+    fs.writeFileSync(aliasesPath, JSON.stringify(aliases, null, 2), { mode: 0o600 });
+  }
+  return result;
+}
+
+function readKeystoreStrings(keystorePath: string): string[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(fs.readFileSync(keystorePath, 'utf8'));
+  } catch (error) {
+    throw new KeyLoadError(keystorePath, `Could not read Sui keystore ${keystorePath}`, { cause: error });
+  }
+  if (!Array.isArray(values) || values.some((value) => typeof value !== 'string')) {
+    throw new KeyLoadError(keystorePath, `${keystorePath} is not a Sui keystore (expected an array of base64 keys)`);
+  }
+  return values;
+}
+
+function readAliases(keystorePath: string): KeystoreAlias[] {
+  const aliasesPath = aliasesPathFor(keystorePath);
+  if (!fs.existsSync(aliasesPath)) {
+    return [];
+  }
+  try {
+    return JSON.parse(fs.readFileSync(aliasesPath, 'utf8'));
+  } catch (error) {
+    throw new KeyLoadError(aliasesPath, `Could not read Sui aliases ${aliasesPath}`, { cause: error });
+  }
+}
+
+function aliasesPathFor(keystorePath: string): string {
+  return path.join(path.dirname(keystorePath), 'sui.aliases');
+}
+
+function uniqueAlias(alias: string, taken: Set<string>): string {
+  let candidate = alias;
+  for (let suffix = 2; taken.has(candidate); suffix++) {
+    candidate = `${alias}-${suffix}`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
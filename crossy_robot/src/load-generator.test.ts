@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InsufficientGasError } from './errors';
+import { classifyLoadFailure, percentile, summarizeLatencies } from './load-generator';
+import { transactionFailure } from './move-abort';
+
+describe('percentile', () => {
+  const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+  it('takes the nearest rank', () => {
+    assert.equal(percentile(sorted, 50), 50);
+    assert.equal(percentile(sorted, 95), 100);
+    assert.equal(percentile(sorted, 91), 100);
+    assert.equal(percentile(sorted, 90), 90);
+    assert.equal(percentile(sorted, 100), 100);
+  });
+
+  it('clamps to the first and last values', () => {
+    assert.equal(percentile(sorted, 0), 10);
+    assert.equal(percentile([7], 99), 7);
+  });
+
+  it('is 0 for an empty list', () => {
+    assert.equal(percentile([], 50), 0);
+  });
+});
+
+describe('summarizeLatencies', () => {
+  it('summarizes unsorted latencies', () => {
+    const summary = summarizeLatencies([300, 100, 200, 400]);
+    assert.equal(summary.count, 4);
+    assert.equal(summary.minMs, 100);
+    assert.equal(summary.meanMs, 250);
+    assert.equal(summary.p50Ms, 200);
+    assert.equal(summary.p95Ms, 400);
+    assert.equal(summary.p99Ms, 400);
+    assert.equal(summary.maxMs, 400);
+  });
+
+  it('counts each latency in the first bucket that holds it', () => {
+    const { histogram } = summarizeLatencies([0, 100, 101, 250, 999, 1000, 1001], [100, 250, 1000]);
+    assert.deepEqual(histogram, [
+      { upToMs: 100, count: 2 },
+      { upToMs: 250, count: 2 },
+      { upToMs: 1000, count: 2 },
+      { upToMs: null, count: 1 },
+    ]);
+  });
+
+  it('reports zeros and empty buckets for no samples', () => {
+    const summary = summarizeLatencies([], [100]);
+    assert.deepEqual(summary, {
+      count: 0,
+      minMs: 0,
+      meanMs: 0,
+      p50Ms: 0,
+      p95Ms: 0,
+      p99Ms: 0,
+      maxMs: 0,
+      histogram: [{ upToMs: 100, count: 0 }, { upToMs: null, count: 0 }],
+    });
+  });
+});
+
+describe('classifyLoadFailure', () => {
+  it('groups failures by cause', () => {
+    const abort = transactionFailure(
+      'Move',
+      'D1',
+      'MoveAbort(MoveLocation { module: ModuleId { address: 1, name: Identifier("crowd_robot") }, ' +
+      'function: 0, instruction: 0, function_name: None }, 1)'
+    );
+    assert.equal(classifyLoadFailure(new InsufficientGasError('0x1', 10n, 5n)), 'insufficient_gas');
+    assert.equal(classifyLoadFailure(new Error('Transaction was cancelled: SharedObjectCongestion')), 'shared_object_congestion');
+    assert.equal(classifyLoadFailure(new Error('Object 0x1 is already locked by a different transaction')), 'object_version_conflict');
+    assert.equal(classifyLoadFailure(abort), 'move_abort');
+    assert.equal(classifyLoadFailure(new Error('Unexpected status code: 429')), 'rate_limited');
+    assert.equal(classifyLoadFailure(new Error('Request timed out')), 'timeout');
+    assert.equal(classifyLoadFailure(new Error('read ECONNRESET')), 'rpc_error');
+    assert.equal(classifyLoadFailure('something else'), 'other');
+  });
+});
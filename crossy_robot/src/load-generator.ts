@@ -0,0 +1,501 @@
+/**
+ * Load Generator
+ *
+ * Drives crowd_robot::move_robot against shared Game objects to find how many
+ * concurrent players one game sustains. Two modes:
+ * - closed loop: every player sends its next move once the previous one
+ *   finished (plus an optional think time)
+ * - open loop: moves arrive at a target rate regardless of completions; an
+ *   arrival with no idle player is dropped and counted
+ *
+ * Both ramp up linearly. Latencies are summarized as percentiles and a
+ * histogram, failures are grouped by cause, and the report is plain JSON.
+ */
+
+import type { Signer } from '@mysten/sui/cryptography';
+import { CrossyRobotClient } from './client';
+import { Direction } from './constants';
+import { InsufficientGasError } from './errors';
+import { MoveAbortError } from './move-abort';
+
+export type LoadMode = 'closed' | 'open';
+
+/** Final status of one move attempt */
+export type LoadOutcome =
+  | 'moved'
+  /** Executed, but the game had expired and auto-ended instead of moving */
+  | 'expired'
+  | 'failed';
+
+export type FailureCause =
+  | 'shared_object_congestion'
+  | 'object_version_conflict'
+  | 'insufficient_gas'
+  | 'move_abort'
+  | 'rate_limited'
+  | 'timeout'
+  | 'rpc_error'
+  | 'other';
+
+export interface LoadSample {
+  /** Index into the players array */
+  player: number;
+  gameId: string;
+  direction: Direction;
+  /** When the move was sent, relative to the start of the run */
+  offsetMs: number;
+  latencyMs: number;
+  outcome: LoadOutcome;
+  cause?: FailureCause;
+  error?: string;
+}
+
+export interface LoadGeneratorHandlers {
+  onSample?(sample: LoadSample): void;
+  /** A game was created (the first one, or a rollover) */
+  onGameCreated?(gameId: string, endTime: number): void;
+}
+
+export interface LoadGeneratorOptions {
+  client: CrossyRobotClient;
+  /** One virtual player per signer */
+  players: Signer[];
+  /** Default: 'closed' */
+  mode?: LoadMode;
+  /** Open loop: target moves per second across all players after ramp-up (default: 5) */
+  ratePerSecond?: number;
+  /** Closed loop: pause between a player's moves (default: 0) */
+  thinkTimeMs?: number;
+  /** Time to go from zero to full load (default: 0) */
+  rampUpMs?: number;
+  /** Total run time including ramp-up (default: 60000, or unlimited with movesPerPlayer) */
+  durationMs?: number;
+  /** Closed loop: stop each player after this many moves */
+  movesPerPlayer?: number;
+  /**
+   * Open loop: concurrent moves per player (default: 1). More than one needs
+   * that many gas coins per player, see GasManager.splitGasCoins.
+   */
+  maxInFlightPerPlayer?: number;
+  /** Use an existing game instead of creating (and rolling over) games */
+  gameId?: string;
+  /** Creates the games (default: the first player) */
+  creator?: Signer;
+  /** Start the next game this long before the current one ends (default: 5000) */
+  rolloverMarginMs?: number;
+  /** Direction of a player's n-th move (default: random) */
+  direction?(player: number, move: number): Direction;
+  handlers?: LoadGeneratorHandlers;
+}
+
+export interface HistogramBucket {
+  /** Upper bound in milliseconds; null for the overflow bucket */
+  upToMs: number | null;
+  count: number;
+}
+
+export interface LatencySummary {
+  count: number;
+  minMs: number;
+  meanMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+  histogram: HistogramBucket[];
+}
+
+export interface LoadReport {
+  config: {
+    mode: LoadMode;
+    players: number;
+    ratePerSecond: number | null;
+    thinkTimeMs: number | null;
+    rampUpMs: number;
+    durationMs: number | null;
+    movesPerPlayer: number | null;
+    maxInFlightPerPlayer: number;
+  };
+  /** ISO timestamp */
+  startedAt: string;
+  elapsedMs: number;
+  games: string[];
+  totals: {
+    attempted: number;
+    moved: number;
+    expired: number;
+    failed: number;
+    /** Open-loop arrivals with no idle player */
+    dropped: number;
+  };
+  throughput: {
+    attemptedPerSecond: number;
+    movedPerSecond: number;
+  };
+  /** Latency of executed moves (moved or expired) */
+  latency: LatencySummary;
+  failures: Partial<Record<FailureCause, { count: number; examples: string[] }>>;
+  perPlayer: { address: string; attempted: number; moved: number; failed: number }[];
+  /** Per-second view of the run, by when moves were sent */
+  timeline: { second: number; attempted: number; moved: number; failed: number; p95Ms: number }[];
+}
+
+export const DEFAULT_LATENCY_BUCKETS_MS: readonly number[] = [
+  100, 250, 500, 750, 1000, 1500, 2000, 3000, 5000, 10000, 30000,
+];
+
+const MAX_FAILURE_EXAMPLES = 3;
+const OPEN_LOOP_TICK_MS = 10;
+
+interface ActiveGame {
+  id: string;
+  endTime: number;
+}
+
+export class LoadGenerator {
+  private readonly client: CrossyRobotClient;
+  private readonly players: Signer[];
+  private readonly mode: LoadMode;
+  private readonly ratePerSecond: number;
+  private readonly thinkTimeMs: number;
+  private readonly rampUpMs: number;
+  private readonly durationMs: number;
+  private readonly movesPerPlayer: number;
+  private readonly maxInFlightPerPlayer: number;
+  private readonly creator: Signer;
+  private readonly rolloverMarginMs: number;
+  private readonly chooseDirection: (player: number, move: number) => Direction;
+  private readonly handlers: LoadGeneratorHandlers;
+  private readonly options: LoadGeneratorOptions;
+
+  private game: ActiveGame | null = null;
+  private pendingGame: Promise<ActiveGame> | null = null;
+  private games: string[] = [];
+  private samples: LoadSample[] = [];
+  private sent: number[] = [];
+  private inFlight: number[] = [];
+  private dropped = 0;
+  private startTime = 0;
+  private stopped = false;
+
+  constructor(options: LoadGeneratorOptions) {
+    if (options.players.length === 0) {
+      throw new RangeError('LoadGenerator needs at least one player');
+    }
+    if (options.mode === 'open' && options.ratePerSecond !== undefined && options.ratePerSecond <= 0) {
+      throw new RangeError('Open-loop rate must be positive');
+    }
+    this.client = options.client;
+    this.players = options.players;
+    this.mode = options.mode ?? 'closed';
+    this.ratePerSecond = options.ratePerSecond ?? 5;
+    this.thinkTimeMs = options.thinkTimeMs ?? 0;
+    this.rampUpMs = options.rampUpMs ?? 0;
+    this.durationMs = options.durationMs ?? (options.movesPerPlayer !== undefined ? Infinity : 60_000);
+    this.movesPerPlayer = options.movesPerPlayer ?? Infinity;
+    this.maxInFlightPerPlayer = options.maxInFlightPerPlayer ?? 1;
+    this.creator = options.creator ?? options.players[0];
+    this.rolloverMarginMs = options.rolloverMarginMs ?? 5_000;
+    this.chooseDirection = options.direction ?? (() => Math.floor(Math.random() * 8) as Direction);
+    this.handlers = options.handlers ?? {};
+    this.options = options;
+    if (options.gameId) {
+      this.game = { id: options.gameId, endTime: Infinity };
+      this.games.push(options.gameId);
+    }
+  }
+
+  /** Generate load until the duration elapses (or stop() is called) and report */
+  async run(): Promise<LoadReport> {
+    this.samples = [];
+    this.dropped = 0;
+    this.sent = this.players.map(() => 0);
+    this.inFlight = this.players.map(() => 0);
+    this.stopped = false;
+
+    // The first game is created before the clock starts
+    await this.currentGame();
+    this.startTime = Date.now();
+
+    if (this.mode === 'closed') {
+      await Promise.all(this.players.map((_, i) => this.runClosedLoopPlayer(i)));
+    } else {
+      await this.runOpenLoop();
+    }
+    return this.report(Date.now() - this.startTime);
+  }
+
+  /** Stop sending; moves already in flight still complete and are reported */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startTime;
+  }
+
+  private running(): boolean {
+    return !this.stopped && this.elapsed() < this.durationMs;
+  }
+
+  private async runClosedLoopPlayer(player: number): Promise<void> {
+    // Players join one after another over the ramp-up
+    await sleep((this.rampUpMs * player) / this.players.length);
+    while (this.running() && this.sent[player] < this.movesPerPlayer) {
+      await this.sendMove(player);
+      if (this.thinkTimeMs > 0) {
+        await sleep(this.thinkTimeMs);
+      }
+    }
+  }
+
+  private async runOpenLoop(): Promise<void> {
+    const pending = new Set<Promise<void>>();
+    let issued = 0;
+    while (this.running()) {
+      const due = Math.floor(this.arrivalsDue(this.elapsed()));
+      for (; issued < due; issued++) {
+        const player = this.idlePlayer();
+        if (player === null) {
+          this.dropped++;
+          continue;
+        }
+        const move = this.sendMove(player).finally(() => pending.delete(move));
+        pending.add(move);
+      }
+      await sleep(OPEN_LOOP_TICK_MS);
+    }
+    await Promise.all(pending);
+  }
+
+  /** Arrivals scheduled by `t` ms: the rate ramps linearly to ratePerSecond */
+  private arrivalsDue(t: number): number {
+    const rate = this.ratePerSecond / 1000;
+    if (t <= this.rampUpMs) {
+      return (rate * t * t) / (2 * this.rampUpMs);
+    }
+    return (rate * this.rampUpMs) / 2 + rate * (t - this.rampUpMs);
+  }
+
+  /** Least busy player with room for another move */
+  private idlePlayer(): number | null {
+    let best: number | null = null;
+    this.inFlight.forEach((count, i) => {
+      if (count < this.maxInFlightPerPlayer && (best === null || count < this.inFlight[best])) {
+        best = i;
+      }
+    });
+    return best;
+  }
+
+  private async sendMove(player: number): Promise<void> {
+    const move = this.sent[player]++;
+    const direction = this.chooseDirection(player, move);
+    const offsetMs = this.elapsed();
+    this.inFlight[player]++;
+
+    let gameId = this.game?.id ?? '';
+    let startTime = Date.now();
+    let sample: LoadSample;
+    try {
+      gameId = (await this.currentGame()).id;
+      startTime = Date.now();
+      const { events } = await this.client.moveCrowdRobot(this.players[player], gameId, direction);
+      const moved = events.some((event) => event.type === 'crowd_robot::RobotMoved');
+      sample = {
+        player,
+        gameId,
+        direction,
+        offsetMs,
+        latencyMs: Date.now() - startTime,
+        outcome: moved ? 'moved' : 'expired',
+      };
+    } catch (error) {
+      sample = {
+        player,
+        gameId,
+        direction,
+        offsetMs,
+        latencyMs: Date.now() - startTime,
+        outcome: 'failed',
+        cause: classifyLoadFailure(error),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      this.inFlight[player]--;
+    }
+
+    this.samples.push(sample);
+    this.handlers.onSample?.(sample);
+  }
+
+  /** The game to move in, creating the next one when the current is about to end */
+  private async currentGame(): Promise<ActiveGame> {
+    if (this.game && Date.now() < this.game.endTime - this.rolloverMarginMs) {
+      return this.game;
+    }
+    this.pendingGame ??= this.createGame().finally(() => {
+      this.pendingGame = null;
+    });
+    return this.pendingGame;
+  }
+
+  private async createGame(): Promise<ActiveGame> {
+    const { gameId, events } = await this.client.createCrowdGame(this.creator);
+    const created = events.find((event) => event.type === 'crowd_robot::GameCreated');
+    const endTime = created?.type === 'crowd_robot::GameCreated'
+      ? Number(created.data.end_time)
+      : Number((await this.client.getCrowdGame(gameId)).end_time);
+
+    this.game = { id: gameId, endTime };
+    this.games.push(gameId);
+    this.handlers.onGameCreated?.(gameId, endTime);
+    return this.game;
+  }
+
+  private report(elapsedMs: number): LoadReport {
+    const count = (outcome: LoadOutcome, samples: LoadSample[] = this.samples) =>
+      samples.filter((sample) => sample.outcome === outcome).length;
+    const executed = (samples: LoadSample[]) =>
+      samples.filter((sample) => sample.outcome !== 'failed').map((sample) => sample.latencyMs);
+    const seconds = elapsedMs / 1000 || 1;
+
+    const failures: LoadReport['failures'] = {};
+    for (const sample of this.samples) {
+      if (sample.outcome !== 'failed' || !sample.cause) {
+        continue;
+      }
+      const group = (failures[sample.cause] ??= { count: 0, examples: [] });
+      group.count++;
+      if (sample.error && group.examples.length < MAX_FAILURE_EXAMPLES && !group.examples.includes(sample.error)) {
+        group.examples.push(sample.error);
+      }
+    }
+
+    const bySecond = new Map<number, LoadSample[]>();
+    for (const sample of this.samples) {
+      const second = Math.floor(sample.offsetMs / 1000);
+      const bucket = bySecond.get(second);
+      if (bucket) {
+        bucket.push(sample);
+      } else {
+        bySecond.set(second, [sample]);
+      }
+    }
+
+    return {
+      config: {
+        mode: this.mode,
+        players: this.players.length,
+        ratePerSecond: this.mode === 'open' ? this.ratePerSecond : null,
+        thinkTimeMs: this.mode === 'closed' ? this.thinkTimeMs : null,
+        rampUpMs: this.rampUpMs,
+        durationMs: Number.isFinite(this.durationMs) ? this.durationMs : null,
+        movesPerPlayer: this.options.movesPerPlayer ?? null,
+        maxInFlightPerPlayer: this.maxInFlightPerPlayer,
+      },
+      startedAt: new Date(this.startTime).toISOString(),
+      elapsedMs,
+      games: [...this.games],
+      totals: {
+        attempted: this.samples.length,
+        moved: count('moved'),
+        expired: count('expired'),
+        failed: count('failed'),
+        dropped: this.dropped,
+      },
+      throughput: {
+        attemptedPerSecond: this.samples.length / seconds,
+        movedPerSecond: count('moved') / seconds,
+      },
+      latency: summarizeLatencies(executed(this.samples)),
+      failures,
+      perPlayer: this.players.map((signer, i) => {
+        const samples = this.samples.filter((sample) => sample.player === i);
+        return {
+          address: signer.toSuiAddress(),
+          attempted: samples.length,
+          moved: count('moved', samples),
+          failed: count('failed', samples),
+        };
+      }),
+      timeline: [...bySecond.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([second, samples]) => ({
+          second,
+          attempted: samples.length,
+          moved: count('moved', samples),
+          failed: count('failed', samples),
+          p95Ms: percentile([...executed(samples)].sort((a, b) => a - b), 95),
+        })),
+    };
+  }
+}
+
+// ===== Statistics =====
+
+/** Nearest-rank percentile of an ascending list (0 for an empty list) */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+export function summarizeLatencies(
+  latencies: number[],
+  bucketsMs: readonly number[] = DEFAULT_LATENCY_BUCKETS_MS
+): LatencySummary {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const histogram: HistogramBucket[] = [...bucketsMs.map((upToMs) => ({ upToMs, count: 0 })), { upToMs: null, count: 0 }];
+  for (const latency of sorted) {
+    const bucket = histogram.find(({ upToMs }) => upToMs === null || latency <= upToMs)!;
+    bucket.count++;
+  }
+
+  return {
+    count: sorted.length,
+    minMs: sorted[0] ?? 0,
+    meanMs: sorted.length > 0 ? sorted.reduce((total, latency) => total + latency, 0) / sorted.length : 0,
+    p50Ms: percentile(sorted, 50),
+    p95Ms: percentile(sorted, 95),
+    p99Ms: percentile(sorted, 99),
+    maxMs: sorted[sorted.length - 1] ?? 0,
+    histogram,
+  };
+}
+
+/** Group a failed move by what went wrong, based on the error type and message */
+export function classifyLoadFailure(error: unknown): FailureCause {
+  if (error instanceof InsufficientGasError) {
+    return 'insufficient_gas';
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (/SharedObjectCongestion|congest/i.test(message)) {
+    return 'shared_object_congestion';
+  }
+  if (/ObjectVersionUnavailable|not available for consumption|equivocat|already locked|reserved for another transaction/i.test(message)) {
+    return 'object_version_conflict';
+  }
+  if (/InsufficientGas|GasBalanceTooLow|InsufficientCoinBalance|No valid gas coins/i.test(message)) {
+    return 'insufficient_gas';
+  }
+  if (error instanceof MoveAbortError) {
+    return 'move_abort';
+  }
+  if (/\b429\b|Too Many Requests|rate limit/i.test(message)) {
+    return 'rate_limited';
+  }
+  if (/timed? ?out|ETIMEDOUT|TimeoutError/i.test(message)) {
+    return 'timeout';
+  }
+  if (/fetch failed|ECONNRESET|ECONNREFUSED|socket hang up|Unexpected status code|JSON-RPC/i.test(message)) {
+    return 'rpc_error';
+  }
+  return 'other';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
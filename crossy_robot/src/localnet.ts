@@ -0,0 +1,128 @@
+/**
+ * Local Sui network
+ *
+ * Runs `sui start --with-faucet --force-regenesis` as a child process, waits
+ * until the RPC and faucet answer, and stops it again. Each start is a fresh
+ * genesis, so packages must be republished and wallets refunded every run.
+ */
+
+import { SuiClient } from '@mysten/sui/client';
+import { ChildProcess, spawn } from 'child_process';
+import { CrossyRobotError } from './errors';
+
+export interface LocalnetOptions {
+  /** Sui CLI binary (default: 'sui') */
+  suiBinary?: string;
+  rpcUrl?: string;
+  faucetHost?: string;
+  /** How long to wait for the RPC and faucet (default: 180000) */
+  startupTimeoutMs?: number;
+  /** Receives every line the node writes, e.g. for a log file */
+  onOutput?(line: string): void;
+}
+
+/** The local network failed to start, stopped early or was already running */
+export class LocalnetError extends CrossyRobotError {}
+
+export class Localnet {
+  public readonly rpcUrl: string;
+  public readonly faucetHost: string;
+  private readonly suiBinary: string;
+  private readonly startupTimeoutMs: number;
+  private readonly options: LocalnetOptions;
+  private child: ChildProcess | null = null;
+  private exited: Promise<void> | null = null;
+
+  constructor(options: LocalnetOptions = {}) {
+    this.suiBinary = options.suiBinary ?? 'sui';
+    this.rpcUrl = options.rpcUrl ?? 'http://127.0.0.1:9000';
+    this.faucetHost = options.faucetHost ?? 'http://127.0.0.1:9123';
+    this.startupTimeoutMs = options.startupTimeoutMs ?? 180_000;
+    this.options = options;
+  }
+
+  get isRunning(): boolean {
+    return this.child !== null;
+  }
+
+  /** Start a fresh network and resolve once RPC and faucet respond */
+  async start(): Promise<SuiClient> {
+    if (this.child) {
+      throw new LocalnetError('Localnet is already started');
+    }
+    const client = new SuiClient({ url: this.rpcUrl });
+    if (await respondsToRpc(client)) {
+      throw new LocalnetError(`Another Sui node is already serving ${this.rpcUrl}; stop it first`);
+    }
+
+    const child = spawn(this.suiBinary, ['start', '--with-faucet', '--force-regenesis'], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    this.child = child;
+    let exitError: Error | null = null;
+    this.exited = new Promise((resolve) => {
+      child.once('error', (error) => {
+        exitError = error;
+        resolve();
+      });
+      child.once('exit', (code, signal) => {
+        exitError ??= new Error(`exited with ${signal ?? `code ${code}`}`);
+        resolve();
+      });
+    });
+    for (const stream of [child.stdout, child.stderr]) {
+      stream?.setEncoding('utf8');
+      stream?.on('data', (chunk: string) => {
+        chunk.split('\n').filter(Boolean).forEach((line) => this.options.onOutput?.(line));
+      });
+    }
+
+    const deadline = Date.now() + this.startupTimeoutMs;
+    while (Date.now() < deadline) {
+      if (exitError) {
+        this.child = null;
+        throw new LocalnetError(`sui start failed: ${(exitError as Error).message}`, { cause: exitError });
+      }
+      if (await respondsToRpc(client) && await respondsToHttp(this.faucetHost)) {
+        return client;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+
+    await this.stop();
+    throw new LocalnetError(`Localnet did not become ready within ${this.startupTimeoutMs}ms`);
+  }
+
+  /** Stop the node (SIGINT, then SIGKILL after a grace period) */
+  async stop(gracePeriodMs: number = 10_000): Promise<void> {
+    const child = this.child;
+    if (!child || !this.exited) {
+      return;
+    }
+    this.child = null;
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill('SIGINT');
+      const timer = setTimeout(() => child.kill('SIGKILL'), gracePeriodMs);
+      await this.exited;
+      clearTimeout(timer);
+    }
+  }
+}
+
+async function respondsToRpc(client: SuiClient): Promise<boolean> {
+  try {
+    await client.getChainIdentifier();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function respondsToHttp(url: string): Promise<boolean> {
+  try {
+    await fetch(url, { signal: AbortSignal.timeout(2000) });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TransactionFailedError } from './errors';
+import {
+  CrowdRobotAbortError,
+  IdentityAbortError,
+  MoveAbortError,
+  isAbort,
+  parseMoveAbort,
+  transactionFailure,
+} from './move-abort';
+
+function status(module: string, code: number, options: { functionName?: string; command?: number } = {}): string {
+  const functionName = options.functionName ? `Some("${options.functionName}")` : 'None';
+  const command = options.command === undefined ? '' : ` in command ${options.command}`;
+  return (
+    'MoveAbort(MoveLocation { module: ModuleId { address: 8f3a, name: Identifier("' + module + '") }, ' +
+    `function: 4, instruction: 17, function_name: ${functionName} }, ${code})${command}`
+  );
+}
+
+describe('parseMoveAbort', () => {
+  it('parses the abort location and code', () => {
+    assert.deepEqual(parseMoveAbort(status('crowd_robot', 2, { functionName: 'move_robot', command: 1 })), {
+      address: '0x0000000000000000000000000000000000000000000000000000000000008f3a',
+      module: 'crowd_robot',
+      functionName: 'move_robot',
+      functionIndex: 4,
+      instruction: 17,
+      code: 2,
+      command: 1,
+    });
+  });
+
+  it('leaves a missing function name and command null', () => {
+    const abort = parseMoveAbort(status('did_registry', 4));
+    assert.equal(abort?.functionName, null);
+    assert.equal(abort?.command, null);
+  });
+
+  it('returns null for other failures', () => {
+    assert.equal(parseMoveAbort(undefined), null);
+    assert.equal(parseMoveAbort('InsufficientGas'), null);
+    assert.equal(parseMoveAbort('MoveObjectTooBig { object_size: 1, max_object_size: 0 }'), null);
+  });
+});
+
+describe('transactionFailure', () => {
+  it('names aborts of known modules', () => {
+    const error = transactionFailure('Movement command', 'D1', status('crowd_robot', 2, { functionName: 'move_robot' }));
+    assert.ok(error instanceof CrowdRobotAbortError);
+    assert.equal(error.abortName, 'E_INVALID_DIRECTION');
+    assert.match(error.message, /crowd_robot::move_robot with E_INVALID_DIRECTION \(digest D1\)/);
+    assert.ok(isAbort(error, 'E_INVALID_DIRECTION'));
+    assert.ok(!isAbort(error, 'E_GAME_ALREADY_ENDED'));
+  });
+
+  it('maps suibotics_did modules to identity abort names', () => {
+    const error = transactionFailure('DID registration', 'D2', status('did_registry', 4));
+    assert.ok(error instanceof IdentityAbortError);
+    assert.equal(error.abortName, 'E_NAME_ALREADY_EXISTS');
+  });
+
+  it('keeps unknown codes and modules as plain aborts', () => {
+    const unknownCode = transactionFailure('Call', 'D3', status('crossy_robot', 99));
+    assert.ok(unknownCode instanceof MoveAbortError);
+    assert.equal(unknownCode.abortName, null);
+    assert.match(unknownCode.message, /with code 99/);
+
+    const unknownModule = transactionFailure('Call', 'D4', status('coin', 1));
+    assert.equal(unknownModule.constructor, MoveAbortError);
+  });
+
+  it('returns a TransactionFailedError for other failures', () => {
+    const error = transactionFailure('Call', 'D5', 'InsufficientGas');
+    assert.equal(error.constructor, TransactionFailedError);
+    assert.ok(!isAbort(error, 'E_NAME_ALREADY_EXISTS'));
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Move abort codes
+ *
+ * Parses the `MoveAbort(...)` status string of a failed transaction and maps
+ * the code to the named constant in the Move sources of the packages in this
+ * repository:
+ * - crossy_robot: `crossy_robot::E_*` and `crowd_robot::E_*`
+ * - suibotics_did: `identity_types::e_*()`, raised from did_registry and
+ *   credential_registry
+ * - swarm_logistics: `events::e_*()`, raised from drone_registry
+ *
+ * Modules are matched by name rather than package address, because an
+ * upgraded package reports aborts under its original ID.
+ */
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { TransactionFailedError } from './errors';
+import type { MovePackageName } from './network';
+
+export interface MoveAbort {
+  /** Address of the package the module belongs to */
+  address: string;
+  module: string;
+  functionName: string | null;
+  functionIndex: number;
+  instruction: number;
+  code: number;
+  /** Index of the programmable transaction command that aborted */
+  command: number | null;
+}
+
+export const CROSSY_ROBOT_ABORT_CODES = {
+  1: 'E_GAME_NOT_WAITING',
+  2: 'E_GAME_ALREADY_ACTIVE',
+  3: 'E_INVALID_PAYMENT',
+  4: 'E_INVALID_DIRECTION',
+  5: 'E_GAME_NOT_ACTIVE',
+} as const;
+
+export const CROWD_ROBOT_ABORT_CODES = {
+  1: 'E_GAME_ALREADY_ENDED',
+  2: 'E_INVALID_DIRECTION',
+  /** end_game before the game expired */
+  3: 'E_GAME_NOT_ACTIVE',
+} as const;
+
+export const IDENTITY_ABORT_CODES = {
+  1: 'E_INVALID_CONTROLLER',
+  2: 'E_KEY_NOT_FOUND',
+  3: 'E_KEY_ALREADY_EXISTS',
+  4: 'E_NAME_ALREADY_EXISTS',
+  5: 'E_INVALID_PUBLIC_KEY',
+  6: 'E_INVALID_DATA_HASH',
+  7: 'E_EMPTY_FIELD',
+  8: 'E_FIELD_TOO_LONG',
+  9: 'E_INVALID_ADDRESS',
+  10: 'E_BATCH_TOO_LARGE',
+  11: 'E_BATCH_SIZE_MISMATCH',
+  12: 'E_BATCH_EMPTY',
+  20: 'E_CREDENTIAL_NOT_FOUND',
+  21: 'E_CREDENTIAL_ALREADY_REVOKED',
+  22: 'E_UNAUTHORIZED_REVOCATION',
+  23: 'E_INVALID_SCHEMA',
+  24: 'E_CREDENTIAL_EXPIRED',
+  30: 'E_SERVICE_NOT_FOUND',
+  31: 'E_SERVICE_ALREADY_EXISTS',
+  32: 'E_INVALID_SERVICE_TYPE',
+  33: 'E_INVALID_ENDPOINT',
+  40: 'E_REGISTRY_NOT_FOUND',
+  41: 'E_REGISTRY_FULL',
+  42: 'E_INDEX_CORRUPTED',
+} as const;
+
+export const SWARM_ABORT_CODES = {
+  1: 'E_INVALID_OPERATION_MODE',
+  2: 'E_INSUFFICIENT_BATTERY',
+  3: 'E_PAYLOAD_TOO_HEAVY',
+  4: 'E_OUT_OF_RANGE',
+  5: 'E_DRONE_NOT_AVAILABLE',
+  6: 'E_INVALID_AUTONOMY_LEVEL',
+  7: 'E_MAINTENANCE_OVERDUE',
+  8: 'E_INSUFFICIENT_FUNDS',
+  9: 'E_INVALID_COORDINATES',
+  10: 'E_AIRSPACE_CONFLICT',
+  11: 'E_EMERGENCY_ACTIVE',
+  12: 'E_UNAUTHORIZED_ACCESS',
+  13: 'E_INVALID_PROPOSAL',
+  14: 'E_VOTING_PERIOD_ENDED',
+  15: 'E_SWARM_COORDINATION_FAILED',
+} as const;
+
+export type CrossyRobotAbortName = (typeof CROSSY_ROBOT_ABORT_CODES)[keyof typeof CROSSY_ROBOT_ABORT_CODES];
+export type CrowdRobotAbortName = (typeof CROWD_ROBOT_ABORT_CODES)[keyof typeof CROWD_ROBOT_ABORT_CODES];
+export type IdentityAbortName = (typeof IDENTITY_ABORT_CODES)[keyof typeof IDENTITY_ABORT_CODES];
+export type SwarmAbortName = (typeof SWARM_ABORT_CODES)[keyof typeof SWARM_ABORT_CODES];
+
+/** Abort code tables by module name */
+const MODULE_ABORT_CODES: Record<string, { package: MovePackageName; codes: Record<number, string> }> = {
+  crossy_robot: { package: 'crossy_robot', codes: CROSSY_ROBOT_ABORT_CODES },
+  crowd_robot: { package: 'crossy_robot', codes: CROWD_ROBOT_ABORT_CODES },
+  did_registry: { package: 'suibotics_did', codes: IDENTITY_ABORT_CODES },
+  credential_registry: { package: 'suibotics_did', codes: IDENTITY_ABORT_CODES },
+  identity_types: { package: 'suibotics_did', codes: IDENTITY_ABORT_CODES },
+  drone_registry: { package: 'swarm_logistics', codes: SWARM_ABORT_CODES },
+  events: { package: 'swarm_logistics', codes: SWARM_ABORT_CODES },
+};
+
+const MOVE_ABORT_PATTERN = new RegExp(
+  'MoveAbort\\(MoveLocation \\{ module: ModuleId \\{ address: (\\w+), name: Identifier\\("(\\w+)"\\) \\}, ' +
+  'function: (\\d+), instruction: (\\d+), function_name: (?:Some\\("(\\w+)"\\)|None) \\}, (\\d+)\\)' +
+  '(?: in command (\\d+))?'
+);
+
+/** Parse a `MoveAbort(...)` execution status; null for any other failure */
+export function parseMoveAbort(statusError: string | undefined): MoveAbort | null {
+  const match = statusError?.match(MOVE_ABORT_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, address, module, functionIndex, instruction, functionName, code, command] = match;
+  return {
+    address: normalizeSuiAddress(address),
+    module,
+    functionName: functionName ?? null,
+    functionIndex: Number(functionIndex),
+    instruction: Number(instruction),
+    code: Number(code),
+    command: command === undefined ? null : Number(command),
+  };
+}
+
+/** Package and constant name of an abort raised by one of this repository's modules */
+export function abortCodeName(abort: MoveAbort): { package: MovePackageName; name: string } | null {
+  const table = MODULE_ABORT_CODES[abort.module];
+  const name = table?.codes[abort.code];
+  return table && name ? { package: table.package, name } : null;
+}
+
+// ===== Errors =====
+
+/** The transaction aborted in Move code */
+export class MoveAbortError extends TransactionFailedError {
+  /** Constant name such as E_GAME_NOT_WAITING, if the module is known */
+  public readonly abortName: string | null;
+
+  constructor(action: string, digest: string, statusError: string, public readonly abort: MoveAbort) {
+    super(action, digest, statusError);
+    this.abortName = abortCodeName(abort)?.name ?? null;
+    const location = `${abort.module}::${abort.functionName ?? `#${abort.functionIndex}`}`;
+    this.message = `${action} aborted in ${location} with ${this.abortName ?? `code ${abort.code}`} (digest ${digest})`;
+  }
+}
+
+/** crossy_robot::crossy_robot abort; E_GAME_NOT_WAITING / E_GAME_ALREADY_ACTIVE mean another robot connected first */
+export class CrossyRobotAbortError extends MoveAbortError {
+  declare public readonly abortName: CrossyRobotAbortName;
+}
+
+/** crossy_robot::crowd_robot abort */
+export class CrowdRobotAbortError extends MoveAbortError {
+  declare public readonly abortName: CrowdRobotAbortName;
+}
+
+/** suibotics_did abort (identity_types error codes) */
+export class IdentityAbortError extends MoveAbortError {
+  declare public readonly abortName: IdentityAbortName;
+}
+
+/** swarm_logistics abort (events error codes) */
+export class SwarmAbortError extends MoveAbortError {
+  declare public readonly abortName: SwarmAbortName;
+}
+
+/**
+ * The error for a transaction whose effects report a failure: a typed
+ * MoveAbortError subclass for aborts in known modules, a plain
+ * MoveAbortError for other aborts, and TransactionFailedError otherwise.
+ */
+export function transactionFailure(
+  action: string,
+  digest: string,
+  statusError: string | undefined
+): TransactionFailedError {
+  const abort = parseMoveAbort(statusError);
+  if (!abort || statusError === undefined) {
+    return new TransactionFailedError(action, digest, statusError);
+  }
+
+  const known = abortCodeName(abort);
+  if (known?.package === 'crossy_robot') {
+    return abort.module === 'crowd_robot'
+      ? new CrowdRobotAbortError(action, digest, statusError, abort)
+      : new CrossyRobotAbortError(action, digest, statusError, abort);
+  }
+  if (known?.package === 'suibotics_did') {
+    return new IdentityAbortError(action, digest, statusError, abort);
+  }
+  if (known?.package === 'swarm_logistics') {
+    return new SwarmAbortError(action, digest, statusError, abort);
+  }
+  return new MoveAbortError(action, digest, statusError, abort);
+}
+
+/** True if `error` is a Move abort with one of the given constant names */
+export function isAbort(error: unknown, ...names: string[]): error is MoveAbortError {
+  return error instanceof MoveAbortError && error.abortName !== null && names.includes(error.abortName);
+}
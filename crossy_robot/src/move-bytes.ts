@@ -0,0 +1,43 @@
+/**
+ * Conversion between TypeScript values and Move `vector<u8>`.
+ *
+ * suibotics_did stores names, key IDs, purposes, service entries and
+ * schemas as `vector<u8>`. Strings are encoded as UTF-8; byte arrays
+ * (public keys, hashes) are passed through unchanged.
+ */
+
+/** A `vector<u8>` argument: a UTF-8 string or raw bytes */
+export type MoveBytes = string | Uint8Array;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+/** Bytes of a `vector<u8>` argument */
+export function toMoveBytes(value: MoveBytes): Uint8Array {
+  return typeof value === 'string' ? encoder.encode(value) : value;
+}
+
+/** Bytes of a `vector<u8>` as the JSON-RPC API renders it (an array of numbers) */
+export function fromMoveBytes(value: unknown): Uint8Array {
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+  if (Array.isArray(value) && value.every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255)) {
+    return Uint8Array.from(value);
+  }
+  throw new TypeError('Value is not a vector<u8>');
+}
+
+/**
+ * A `vector<u8>` holding UTF-8 text, such as a DID name or service endpoint.
+ *
+ * @throws TypeError if the value is not a byte vector or not valid UTF-8
+ */
+export function moveBytesToString(value: unknown): string {
+  const bytes = fromMoveBytes(value);
+  try {
+    return decoder.decode(bytes);
+  } catch {
+    throw new TypeError('Value is not UTF-8 text');
+  }
+}
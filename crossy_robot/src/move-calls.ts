@@ -0,0 +1,50 @@
+/**
+ * Inspection of transactions built outside this process.
+ *
+ * Services that execute or sponsor transactions signed by players use these
+ * helpers to see which Move functions a transaction calls, and on which
+ * objects, before they spend anything on it.
+ */
+
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+export type TransactionContents = ReturnType<Transaction['getData']>;
+
+export interface MoveCallSummary {
+  /** Normalized package ID */
+  package: string;
+  module: string;
+  function: string;
+  /** Object ID of each argument passed as an object input; null for other arguments */
+  objectArguments: (string | null)[];
+  /** Whether any argument is the gas coin */
+  usesGasCoin: boolean;
+}
+
+/**
+ * Summary of every command of a transaction, in order. Commands other than
+ * MoveCall (SplitCoins, TransferObjects, ...) are null.
+ */
+export function summarizeMoveCalls(data: TransactionContents): (MoveCallSummary | null)[] {
+  return data.commands.map((command) => {
+    const call = command.MoveCall;
+    if (!call) {
+      return null;
+    }
+    return {
+      package: normalizeSuiAddress(call.package),
+      module: call.module,
+      function: call.function,
+      objectArguments: call.arguments.map((argument) => {
+        const input = argument.$kind === 'Input' ? data.inputs[argument.Input] : undefined;
+        const objectId = input?.Object?.SharedObject?.objectId ??
+          input?.Object?.ImmOrOwnedObject?.objectId ??
+          input?.Object?.Receiving?.objectId ??
+          input?.UnresolvedObject?.objectId;
+        return objectId === undefined ? null : normalizeSuiAddress(objectId);
+      }),
+      usesGasCoin: call.arguments.some((argument) => argument.$kind === 'GasCoin'),
+    };
+  });
+}
@@ -0,0 +1,254 @@
+/**
+ * Network profiles
+ *
+ * One profile per Sui network, read from networks.json: RPC URL, package IDs
+ * and shared objects of each Move package, and gas settings. Tools pick a
+ * profile with SUI_NETWORK and never combine one network's package IDs with
+ * another network's RPC.
+ */
+
+import { SuiClient } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import * as fs from 'fs';
+import { ConfigurationError, NetworkMismatchError } from './errors';
+
+export const DEFAULT_NETWORKS_PATH = './networks.json';
+
+export const NETWORK_NAMES = ['localnet', 'devnet', 'testnet', 'mainnet'] as const;
+export type NetworkName = typeof NETWORK_NAMES[number];
+
+/** Move packages in this repository */
+export const MOVE_PACKAGES = ['crossy_robot', 'suibotics_did', 'swarm_logistics'] as const;
+export type MovePackageName = typeof MOVE_PACKAGES[number];
+
+export interface PackageDeployment {
+  packageId: string;
+  upgradeCap?: string;
+  /** Shared objects created by the package's init functions, by name */
+  sharedObjects: Record<string, string>;
+}
+
+export interface GasSettings {
+  /** Gas budget per transaction in MIST */
+  budget: bigint;
+  /** Fixed gas price in MIST; the reference gas price is used when omitted */
+  price?: bigint;
+  /** Top up low balances from the faucet before a run (localnet) */
+  autoFund?: boolean;
+}
+
+export interface NetworkProfile {
+  name: NetworkName;
+  rpcUrl: string;
+  /** Expected `sui_getChainIdentifier`; omitted for networks that are regularly wiped */
+  chainIdentifier?: string;
+  faucetHost?: string;
+  packages: Partial<Record<MovePackageName, PackageDeployment>>;
+  gas: GasSettings;
+}
+
+export interface LoadNetworkProfileOptions {
+  /** Profile name (default: SUI_NETWORK, then 'testnet') */
+  network?: string;
+  /** Profiles file (default: NETWORKS_PATH, then ./networks.json) */
+  filePath?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Load the selected network profile.
+ *
+ * SUI_RPC_URL may point the profile at another node of the same network
+ * (e.g. a private RPC provider), but not at a URL that belongs to a
+ * different profile. GAS_BUDGET overrides the profile's budget cap.
+ */
+export function loadNetworkProfile(options: LoadNetworkProfileOptions = {}): NetworkProfile {
+  const env = options.env ?? process.env;
+  const name = options.network ?? env.SUI_NETWORK ?? 'testnet';
+  const filePath = options.filePath ?? env.NETWORKS_PATH ?? DEFAULT_NETWORKS_PATH;
+
+  if (!isNetworkName(name)) {
+    throw new ConfigurationError(`Unknown network "${name}"; expected one of ${NETWORK_NAMES.join(', ')}`);
+  }
+
+  const profiles = readNetworkProfiles(filePath);
+  const profile = profiles[name];
+  if (!profile) {
+    throw new ConfigurationError(`${filePath} has no "${name}" profile`);
+  }
+
+  let selected = profile;
+  const rpcUrl = env.SUI_RPC_URL;
+  if (rpcUrl && rpcUrl !== profile.rpcUrl) {
+    const owner = Object.values(profiles).find((other) => other && other.name !== name && other.rpcUrl === rpcUrl);
+    if (owner) {
+      throw new NetworkMismatchError(
+        `SUI_RPC_URL ${rpcUrl} is the ${owner.name} RPC but SUI_NETWORK selects ${name}`
+      );
+    }
+    selected = { ...selected, rpcUrl };
+  }
+
+  if (env.GAS_BUDGET) {
+    if (!/^\d+$/.test(env.GAS_BUDGET)) {
+      throw new ConfigurationError(`GAS_BUDGET must be an integer amount of MIST, got "${env.GAS_BUDGET}"`);
+    }
+    selected = { ...selected, gas: { ...selected.gas, budget: BigInt(env.GAS_BUDGET) } };
+  }
+  return selected;
+}
+
+/** Parse every profile in a networks file */
+export function readNetworkProfiles(filePath: string = DEFAULT_NETWORKS_PATH): Partial<Record<NetworkName, NetworkProfile>> {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new ConfigurationError(`Could not load network profiles from ${filePath}`, { cause: error });
+  }
+
+  const profiles: Partial<Record<NetworkName, NetworkProfile>> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (!isNetworkName(name)) {
+      throw new ConfigurationError(`${filePath}: unknown network "${name}"`);
+    }
+    profiles[name] = parseProfile(name, value, filePath);
+  }
+  return profiles;
+}
+
+/** Write profiles in the networks.json format, e.g. after publishing to a fresh localnet */
+export function writeNetworkProfiles(
+  filePath: string,
+  profiles: Partial<Record<NetworkName, NetworkProfile>>
+): void {
+  const raw: Record<string, unknown> = {};
+  for (const profile of Object.values(profiles)) {
+    if (!profile) {
+      continue;
+    }
+    const { name, gas, ...rest } = profile;
+    raw[name] = {
+      ...rest,
+      gas: {
+        budget: Number(gas.budget),
+        ...(gas.price !== undefined ? { price: Number(gas.price) } : {}),
+        ...(gas.autoFund ? { autoFund: true } : {}),
+      },
+    };
+  }
+  fs.writeFileSync(filePath, `${JSON.stringify(raw, null, 2)}\n`);
+}
+
+/** Deployment of a package on the profile's network, or a ConfigurationError */
+export function requirePackage(profile: NetworkProfile, packageName: MovePackageName): PackageDeployment {
+  const deployment = profile.packages[packageName];
+  if (!deployment) {
+    throw new ConfigurationError(`${packageName} is not deployed on ${profile.name} (no package ID in its network profile)`);
+  }
+  return deployment;
+}
+
+/** ID of a named shared object, or a ConfigurationError */
+export function requireSharedObject(
+  profile: NetworkProfile,
+  packageName: MovePackageName,
+  objectName: string
+): string {
+  const objectId = requirePackage(profile, packageName).sharedObjects[objectName];
+  if (!objectId) {
+    throw new ConfigurationError(`No ${packageName} ${objectName} object in the ${profile.name} profile`);
+  }
+  return objectId;
+}
+
+/**
+ * Check that a node really serves the profile's network: the chain
+ * identifier must match (when the profile pins one) and every listed
+ * package must exist there as a Move package.
+ */
+export async function verifyNetwork(
+  client: SuiClient,
+  profile: NetworkProfile,
+  packageNames: MovePackageName[] = []
+): Promise<void> {
+  if (profile.chainIdentifier) {
+    const chainIdentifier = await client.getChainIdentifier();
+    if (chainIdentifier !== profile.chainIdentifier) {
+      throw new NetworkMismatchError(
+        `${profile.rpcUrl} serves chain ${chainIdentifier}, not ${profile.name} (${profile.chainIdentifier})`
+      );
+    }
+  }
+
+  for (const packageName of packageNames) {
+    const { packageId } = requirePackage(profile, packageName);
+    const object = await client.getObject({ id: packageId, options: { showType: true } });
+    if (object.data?.type !== 'package') {
+      throw new NetworkMismatchError(
+        `${packageName} package ${packageId} does not exist on ${profile.rpcUrl}; is it from another network?`
+      );
+    }
+  }
+}
+
+/** SuiClient for a profile, verified against the packages the caller needs */
+export async function connectNetwork(
+  profile: NetworkProfile,
+  packageNames: MovePackageName[] = []
+): Promise<SuiClient> {
+  const client = new SuiClient({ url: profile.rpcUrl });
+  await verifyNetwork(client, profile, packageNames);
+  return client;
+}
+
+function isNetworkName(name: string): name is NetworkName {
+  return (NETWORK_NAMES as readonly string[]).includes(name);
+}
+
+function parseProfile(name: NetworkName, value: unknown, filePath: string): NetworkProfile {
+  const where = `${filePath}: ${name}`;
+  const raw = value as Record<string, any>;
+  if (!raw || typeof raw.rpcUrl !== 'string') {
+    throw new ConfigurationError(`${where} needs an rpcUrl`);
+  }
+
+  const packages: Partial<Record<MovePackageName, PackageDeployment>> = {};
+  for (const [packageName, deployment] of Object.entries<Record<string, any>>(raw.packages ?? {})) {
+    if (!(MOVE_PACKAGES as readonly string[]).includes(packageName)) {
+      throw new ConfigurationError(`${where}: unknown package "${packageName}"`);
+    }
+    if (typeof deployment?.packageId !== 'string') {
+      throw new ConfigurationError(`${where}: ${packageName} needs a packageId`);
+    }
+    const sharedObjects: Record<string, string> = {};
+    for (const [objectName, objectId] of Object.entries<string>(deployment.sharedObjects ?? {})) {
+      sharedObjects[objectName] = normalizeSuiAddress(objectId);
+    }
+    packages[packageName as MovePackageName] = {
+      packageId: normalizeSuiAddress(deployment.packageId),
+      upgradeCap: deployment.upgradeCap ? normalizeSuiAddress(deployment.upgradeCap) : undefined,
+      sharedObjects,
+    };
+  }
+
+  let gas: GasSettings;
+  try {
+    gas = {
+      budget: BigInt(raw.gas?.budget ?? 10_000_000),
+      price: raw.gas?.price === undefined ? undefined : BigInt(raw.gas.price),
+      autoFund: raw.gas?.autoFund === true,
+    };
+  } catch (error) {
+    throw new ConfigurationError(`${where}: gas settings must be integers`, { cause: error });
+  }
+
+  return {
+    name,
+    rpcUrl: raw.rpcUrl,
+    chainIdentifier: raw.chainIdentifier,
+    faucetHost: raw.faucetHost,
+    packages,
+    gas,
+  };
+}
@@ -0,0 +1,286 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { normalizeSuiAddress, toBase64, toHex } from '@mysten/sui/utils';
+import type { CredentialRegistryClient } from './credential-client';
+import type { DidRegistryClient, OnChainDid } from './did-client';
+import { ConfigurationError } from './errors';
+import type { IdentityBatchResult } from './identity-batch';
+import type { CredentialInfoState } from './identity-state';
+import { FleetProvisioner, ProvisioningReport, decodeEd25519PublicKey, parseProvisioningManifest } from './provisioning';
+
+const signer = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(3));
+const controller = normalizeSuiAddress(signer.toSuiAddress());
+const publicKey = new Uint8Array(32).fill(9);
+const hex = toHex(publicKey);
+const dataHash = 'ab'.repeat(32);
+
+describe('parseProvisioningManifest', () => {
+  it('reads a JSON manifest', () => {
+    const [robot] = parseProvisioningManifest(JSON.stringify({
+      robots: [{
+        name: 'robot-1',
+        publicKey: hex,
+        keys: [{ keyId: 'backup', publicKey: `0x${hex}`, purpose: 'assertion' }],
+        services: [{ id: 'telemetry', type: 'MQTT', endpoint: 'mqtts://fleet.example.com' }],
+        credentials: [{ schema: 'FirmwareCertV1', dataHash }],
+      }],
+    }), 'json');
+    assert.equal(robot.row, 1);
+    assert.equal(robot.name, 'robot-1');
+    assert.deepEqual(robot.publicKey, publicKey);
+    assert.equal(robot.purpose, 'authentication');
+    assert.deepEqual(robot.keys, [{ keyId: 'backup', publicKey, purpose: 'assertion' }]);
+    assert.deepEqual(robot.services, [{ id: 'telemetry', type: 'MQTT', endpoint: 'mqtts://fleet.example.com' }]);
+    assert.equal(robot.credentials[0].schema, 'FirmwareCertV1');
+    assert.equal(toHex(robot.credentials[0].dataHash), dataHash);
+  });
+
+  it('reads a CSV manifest with quoted cells and lists', () => {
+    const robots = parseProvisioningManifest(
+      'name,publicKey,keys,services,credentials\r\n' +
+      `robot-1,${hex},"backup|${hex}; spare|${hex}|assertion","web|Http|https://a.example.com/?q=1|2",FirmwareCertV1|${dataHash}\r\n` +
+      '\n' +
+      `"robot ""2""",${toBase64(publicKey)},,,\n`,
+      'csv'
+    );
+    assert.deepEqual(robots.map((robot) => [robot.row, robot.name]), [[1, 'robot-1'], [2, 'robot "2"']]);
+    assert.deepEqual(robots[0].keys.map((key) => [key.keyId, key.purpose]), [['backup', 'authentication'], ['spare', 'assertion']]);
+    assert.equal(robots[0].services[0].endpoint, 'https://a.example.com/?q=1|2');
+    assert.deepEqual(robots[1].publicKey, publicKey);
+    assert.deepEqual(robots[1].keys, []);
+  });
+
+  it('names the row of a malformed entry', () => {
+    const csv = (row: string) => () => parseProvisioningManifest(`name,publicKey,keys,credentials\nrobot-1,${hex},,\n${row}\n`, 'csv');
+    assert.throws(csv(`robot-2,${hex.slice(2)},,`), (error) => error instanceof ConfigurationError && /^Manifest row 2: .*Ed25519/.test(error.message));
+    assert.throws(csv(`,${hex},,`), /^ConfigurationError: Manifest row 2: name must be a non-empty string/);
+    assert.throws(csv(`robot-2,${hex},a|${hex};a|${hex},`), /Manifest row 2: key a appears more than once/);
+    assert.throws(csv(`robot-2,${hex},,S|${dataHash};S|${dataHash}`), /Manifest row 2: credential .* appears more than once/);
+    assert.throws(csv(`robot-2,${hex},,S|abcd`), /Manifest row 2: credential dataHash must be 32 bytes in hex/);
+    assert.throws(csv(`robot-1,${hex},,`), /Manifest row 2: name robot-1 appears more than once/);
+  });
+
+  it('rejects manifests without robots or a header', () => {
+    assert.throws(() => parseProvisioningManifest('{}', 'json'), ConfigurationError);
+    assert.throws(() => parseProvisioningManifest('{', 'json'), ConfigurationError);
+    assert.throws(() => parseProvisioningManifest(`robot-1,${hex}\n`, 'csv'), ConfigurationError);
+  });
+});
+
+describe('decodeEd25519PublicKey', () => {
+  it('accepts hex, base64 and flagged base64', () => {
+    assert.deepEqual(decodeEd25519PublicKey(hex), publicKey);
+    assert.deepEqual(decodeEd25519PublicKey(`0x${hex}`), publicKey);
+    assert.deepEqual(decodeEd25519PublicKey(toBase64(publicKey)), publicKey);
+    assert.deepEqual(decodeEd25519PublicKey(toBase64(new Uint8Array([0, ...publicKey]))), publicKey);
+  });
+
+  it('rejects other lengths and Sui schemes', () => {
+    assert.throws(() => decodeEd25519PublicKey(hex.slice(2)), RangeError);
+    assert.throws(() => decodeEd25519PublicKey(toBase64(new Uint8Array([1, ...publicKey]))), RangeError);
+    assert.throws(() => decodeEd25519PublicKey('not a key'), RangeError);
+  });
+});
+
+describe('FleetProvisioner', () => {
+  const didId = (name: string) => normalizeSuiAddress(toHex(new TextEncoder().encode(name)));
+  const result = (index: number, errorCode = 0, errorName: IdentityBatchResult['errorName'] = null): IdentityBatchResult =>
+    ({ index, success: errorCode === 0, errorCode, errorName });
+
+  /**
+   * Registry holding `names` (mapped to their controller) and `keys`. A batch
+   * listed in `throwing` applies its entries and then throws, as a batch
+   * whose response was lost.
+   */
+  function registry(chain: {
+    names?: Record<string, string>;
+    keys?: Record<string, { key_id: string; pubkey: Uint8Array; purpose: string }[]>;
+    throwing?: ('register' | 'key')[];
+  }) {
+    const names = { ...chain.names };
+    const keys: Record<string, OnChainDid['keys']> = Object.fromEntries(
+      Object.entries(chain.keys ?? {}).map(([id, list]) => [id, list.map((key) => ({ ...key, revoked: false }))])
+    );
+    const lost = (operation: 'register' | 'key') => {
+      if (chain.throwing?.includes(operation)) {
+        throw new Error('read ECONNRESET');
+      }
+    };
+    const dids = {
+      async registerDidsBatch(_: unknown, entries: { name: string }[]) {
+        const results = entries.map(({ name }, i) => {
+          if (name in names) {
+            return result(i, 4, 'E_NAME_ALREADY_EXISTS');
+          }
+          names[name] = controller;
+          return result(i);
+        });
+        lost('register');
+        return {
+          digest: 'register',
+          events: [],
+          results,
+          didIds: results.map((entry, i) => (entry.success ? didId(entries[i].name) : null)),
+          controller,
+        };
+      },
+      async addKeysBatch(_: unknown, entries: { didId: string; keyId: string; publicKey: Uint8Array; purpose: string }[]) {
+        const results = entries.map((entry, i) => {
+          const list = (keys[entry.didId] ??= []);
+          if (list.some((key) => key.key_id === entry.keyId)) {
+            return result(i, 3, 'E_KEY_ALREADY_EXISTS');
+          }
+          list.push({ key_id: entry.keyId, pubkey: entry.publicKey, purpose: entry.purpose, revoked: false });
+          return result(i);
+        });
+        lost('key');
+        return { digest: 'keys', events: [], results };
+      },
+      async getDidControllerByName(name: string) {
+        return names[name] ?? null;
+      },
+      async findDidIdByName(name: string) {
+        return name in names ? didId(name) : null;
+      },
+      async getDid(id: string) {
+        return { info: { id, controller, created_at: 0n }, keys: keys[id] ?? [], services: [] };
+      },
+    };
+    return dids as unknown as DidRegistryClient;
+  }
+
+  /**
+   * Credential registry holding the CredentialInfo objects issued to the
+   * controller. With `dropping` set, a batch is issued and then the node
+   * goes away: the batch throws and lookups fail while `lost` is set.
+   */
+  function credentialRegistry() {
+    const chain = { owned: [] as CredentialInfoState[], issued: 0, dropping: false, lost: false };
+    const credentials = {
+      async issueCredentialsBatch(_: unknown, entries: { schema: string; dataHash: Uint8Array }[]) {
+        const credentialIds = entries.map(({ schema, dataHash: hash }) => {
+          const id = normalizeSuiAddress(`0xc${++chain.issued}`);
+          chain.owned.push({ id, subject: controller, issuer: controller, schema, data_hash: hash, revoked: false, issued_at: 0n });
+          return id;
+        });
+        if (chain.dropping) {
+          chain.lost = true;
+          throw new Error('read ECONNRESET');
+        }
+        return { digest: 'credentials', events: [], results: entries.map((__, i) => result(i)), credentialIds, issuer: controller };
+      },
+      async findCredentials(subject: string) {
+        if (chain.lost) {
+          throw new Error('read ECONNRESET');
+        }
+        return chain.owned.filter((info) => info.subject === subject);
+      },
+    };
+    return { credentials: credentials as unknown as CredentialRegistryClient, chain };
+  }
+
+  const manifest = (...names: string[]) => parseProvisioningManifest(JSON.stringify(names.map((name) => ({
+    name,
+    publicKey: hex,
+    keys: [{ keyId: 'backup', publicKey: hex }],
+  }))), 'json');
+  const steps = (report: ProvisioningReport) =>
+    report.rows.map((row) => row.steps.map((step) => `${step.step} ${step.status}`));
+
+  it('provisions every step', async () => {
+    const report = await new FleetProvisioner({ dids: registry({}), signer }).provision(manifest('robot-1', 'robot-2'));
+    assert.deepEqual(steps(report), [['register succeeded', 'key:backup succeeded'], ['register succeeded', 'key:backup succeeded']]);
+    assert.equal(report.rows[0].didId, didId('robot-1'));
+    assert.equal(report.succeeded, 2);
+  });
+
+  it('keeps the steps of batches that executed although their submission failed', async () => {
+    const batches: [string, number, number][] = [];
+    const report = await new FleetProvisioner({
+      dids: registry({ throwing: ['register', 'key'] }),
+      signer,
+      handlers: { onBatch: (batch) => batches.push([batch.operation, batch.succeeded, batch.failed]) },
+    }).provision(manifest('robot-1'));
+    assert.deepEqual(steps(report), [['register succeeded', 'key:backup succeeded']]);
+    assert.equal(report.rows[0].didId, didId('robot-1'));
+    assert.equal(report.rows[0].steps[0].digest, null);
+    assert.deepEqual(batches, [['register', 1, 0], ['key', 1, 0]]);
+  });
+
+  it('recognises names and keys an earlier run applied', async () => {
+    const dids = registry({
+      names: { 'robot-1': controller },
+      keys: { [didId('robot-1')]: [{ key_id: 'backup', pubkey: publicKey, purpose: 'authentication' }] },
+    });
+    const report = await new FleetProvisioner({ dids, signer }).provision(manifest('robot-1'));
+    assert.deepEqual(steps(report), [['register succeeded', 'key:backup succeeded']]);
+    assert.equal(report.rows[0].steps[0].objectId, didId('robot-1'));
+  });
+
+  it('fails names of another controller and keys that differ', async () => {
+    const other = normalizeSuiAddress('0xee');
+    const dids = registry({
+      names: { 'robot-1': other, 'robot-2': controller },
+      keys: { [didId('robot-2')]: [{ key_id: 'backup', pubkey: new Uint8Array(32), purpose: 'authentication' }] },
+    });
+    const report = await new FleetProvisioner({ dids, signer }).provision(manifest('robot-1', 'robot-2'));
+    assert.deepEqual(steps(report), [['register failed', 'key:backup skipped'], ['register succeeded', 'key:backup failed']]);
+    assert.equal(report.rows[0].steps[0].error, 'E_NAME_ALREADY_EXISTS');
+    assert.equal(report.rows[1].steps[1].errorCode, 3);
+  });
+
+  it('names credential steps by schema and data hash', async () => {
+    const { credentials } = credentialRegistry();
+    const robots = parseProvisioningManifest(JSON.stringify([{
+      name: 'robot-1',
+      publicKey: hex,
+      credentials: [{ schema: 'FirmwareCertV1', dataHash }, { schema: 'SafetyCertV1', dataHash }],
+    }]), 'json');
+    const provisioner = new FleetProvisioner({ dids: registry({}), credentials, signer });
+    const report = await provisioner.provision(robots);
+    assert.deepEqual(steps(report), [[
+      'register succeeded',
+      `credential:FirmwareCertV1:${dataHash} succeeded`,
+      `credential:SafetyCertV1:${dataHash} succeeded`,
+    ]]);
+
+    // Reordered credentials are carried over rather than issued again
+    robots[0].credentials.reverse();
+    let issued = 0;
+    const counting = { issueCredentialsBatch: async () => { issued++; return {}; } } as unknown as CredentialRegistryClient;
+    const reordered = await new FleetProvisioner({ dids: registry({}), credentials: counting, signer }).provision(robots, report);
+    assert.equal(issued, 0);
+    assert.equal(reordered.rows[0].status, 'succeeded');
+  });
+
+  it('takes over credentials an unconfirmed batch issued instead of issuing them again', async () => {
+    const { credentials, chain } = credentialRegistry();
+    const robots = parseProvisioningManifest(JSON.stringify(['robot-1', 'robot-2'].map((name) => ({
+      name,
+      publicKey: hex,
+      credentials: [{ schema: 'FirmwareCertV1', dataHash }],
+    }))), 'json');
+    const dids = registry({});
+    chain.dropping = true;
+    const report = await new FleetProvisioner({ dids, credentials, signer }).provision(robots);
+    assert.deepEqual(report.rows.map((row) => row.steps[1].status), ['failed', 'failed']);
+    assert.equal(chain.issued, 2);
+
+    chain.dropping = chain.lost = false;
+    const rerun = await new FleetProvisioner({ dids, credentials, signer }).provision(robots, report);
+    assert.equal(chain.issued, 2);
+    assert.equal(rerun.succeeded, 2);
+    assert.deepEqual(rerun.rows.map((row) => row.steps[1].objectId).sort(), chain.owned.map((info) => info.id));
+
+    // A credential another step records is not taken over
+    const third = parseProvisioningManifest(JSON.stringify([{
+      name: 'robot-3',
+      publicKey: hex,
+      credentials: [{ schema: 'FirmwareCertV1', dataHash }],
+    }]), 'json');
+    const added = await new FleetProvisioner({ dids, credentials, signer }).provision(third, rerun);
+    assert.equal(chain.issued, 3);
+    assert.equal(added.rows[0].steps[1].objectId, chain.owned[2].id);
+  });
+});
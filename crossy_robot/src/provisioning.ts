@@ -0,0 +1,658 @@
+/**
+ * Fleet Provisioning
+ *
+ * Commissions many robots at once from a manifest: registers their DIDs,
+ * adds extra keys and service endpoints, and issues their credentials
+ * through the suibotics_did batch functions, at most
+ * MAX_IDENTITY_BATCH_SIZE entries per transaction. The signer becomes the
+ * controller of every DID and the issuer of every credential.
+ *
+ * Every manifest row gets a report of its steps. Pass a previous report to
+ * `provision` to re-run only what did not succeed: steps that succeeded are
+ * carried over and never submitted twice. A registration, key or service
+ * that already exists on chain as the manifest describes it (because a
+ * batch executed although its submission failed) counts as succeeded.
+ * Credentials can be issued twice, so before issuing one the signer's
+ * CredentialInfo objects are searched for the same schema and data hash;
+ * one that no succeeded step records is taken over instead.
+ */
+
+import type { Signer } from '@mysten/sui/cryptography';
+import { fromBase64, fromHex, normalizeSuiAddress, toHex } from '@mysten/sui/utils';
+import { CREDENTIAL_HASH_LENGTH, CredentialRegistryClient } from './credential-client';
+import { VerifiableCredential, credentialDataHash, credentialSchemaName } from './credentials';
+import { DEFAULT_KEY_PURPOSE, DidRegistryClient } from './did-client';
+import { ConfigurationError } from './errors';
+import { IdentityBatchOutcome, MAX_IDENTITY_BATCH_SIZE } from './identity-batch';
+import { IdentityAbortName, MoveAbortError } from './move-abort';
+
+export type ManifestFormat = 'json' | 'csv';
+
+export interface ManifestKey {
+  keyId: string;
+  /** Raw Ed25519 public key */
+  publicKey: Uint8Array;
+  purpose: string;
+}
+
+export interface ManifestService {
+  id: string;
+  type: string;
+  endpoint: string;
+}
+
+export interface ManifestCredential {
+  schema: string;
+  /** SHA-256 of the off-chain credential */
+  dataHash: Uint8Array;
+}
+
+/** One robot of a provisioning manifest */
+export interface ManifestRobot {
+  /** 1-based position in the manifest */
+  row: number;
+  /** DID name, unique in the manifest */
+  name: string;
+  /** Initial key, registered as INITIAL_KEY_ID */
+  publicKey: Uint8Array;
+  purpose: string;
+  keys: ManifestKey[];
+  services: ManifestService[];
+  credentials: ManifestCredential[];
+}
+
+export type ProvisioningOperation = 'register' | 'key' | 'service' | 'credential';
+
+export type ProvisioningStepStatus = 'succeeded' | 'failed' | 'skipped';
+
+export interface ProvisioningStep {
+  /** 'register', 'key:<keyId>', 'service:<id>' or 'credential:<schema>:<dataHash hex>' */
+  step: string;
+  status: ProvisioningStepStatus;
+  /** DIDInfo or CredentialInfo the step created */
+  objectId: string | null;
+  digest: string | null;
+  /** identity_types error code of a failed entry or abort */
+  errorCode: number | null;
+  /** Why the step failed or was skipped */
+  error: string | null;
+}
+
+export interface ProvisioningRowReport {
+  row: number;
+  name: string;
+  didId: string | null;
+  /** 'succeeded' when every step succeeded */
+  status: 'succeeded' | 'failed';
+  steps: ProvisioningStep[];
+}
+
+/** JSON-serializable outcome of a provisioning run */
+export interface ProvisioningReport {
+  /** Controller of the DIDs and issuer of the credentials */
+  controller: string;
+  rows: ProvisioningRowReport[];
+  succeeded: number;
+  failed: number;
+}
+
+/** A batch transaction submitted (or only inspected) by the provisioner */
+export interface ProvisioningBatch {
+  operation: ProvisioningOperation;
+  /** Manifest rows of the entries */
+  rows: number[];
+  /** null when no entry would succeed or the batch failed as a whole */
+  digest: string | null;
+  succeeded: number;
+  failed: number;
+  /** Set when the batch failed as a whole */
+  error: string | null;
+}
+
+/** Callbacks through which the provisioner reports progress */
+export interface FleetProvisionerHandlers {
+  onBatch?(batch: ProvisioningBatch): void;
+}
+
+export interface FleetProvisionerOptions {
+  dids: DidRegistryClient;
+  /** Needed only for manifests with credentials */
+  credentials?: CredentialRegistryClient;
+  /** Controller of the DIDs and issuer of the credentials */
+  signer: Signer;
+  /** Entries per transaction (default and maximum: MAX_IDENTITY_BATCH_SIZE) */
+  batchSize?: number;
+  handlers?: FleetProvisionerHandlers;
+}
+
+/** A step waiting to be submitted */
+interface PendingStep<Entry> {
+  robot: ManifestRobot;
+  step: ProvisioningStep;
+  entry: Entry;
+  didId: string;
+}
+
+const NAME_LIMIT = 255;
+
+/** Error of an entry that may have been applied by an earlier batch */
+const ALREADY_APPLIED: Partial<Record<ProvisioningOperation, IdentityAbortName>> = {
+  register: 'E_NAME_ALREADY_EXISTS',
+  key: 'E_KEY_ALREADY_EXISTS',
+  service: 'E_SERVICE_ALREADY_EXISTS',
+};
+
+// ===== Manifest =====
+
+/**
+ * Parse a manifest. JSON is an array of robots (or `{ "robots": [...] }`):
+ *
+ *   { "name": "robot-7", "publicKey": "<hex or base64>", "purpose": "authentication",
+ *     "keys": [{ "keyId": "key_1", "publicKey": "...", "purpose": "assertionMethod" }],
+ *     "services": [{ "id": "mqtt1", "type": "MQTTBroker", "endpoint": "wss://..." }],
+ *     "credentials": [{ "schema": "FirmwareCertV1", "dataHash": "<hex>" }, { "credential": { ... } }] }
+ *
+ * A credential given as W3C credential JSON is anchored by its schema and
+ * credentialDataHash. CSV has a header row with the columns name and
+ * publicKey, and optionally purpose, keys, services and credentials. List
+ * cells hold `;`-separated items of `|`-separated fields:
+ * `keyId|publicKey[|purpose]`, `id|type|endpoint`, `schema|dataHash`.
+ *
+ * @throws ConfigurationError naming the row of the first malformed entry
+ */
+export function parseProvisioningManifest(text: string, format: ManifestFormat): ManifestRobot[] {
+  const records = format === 'json' ? jsonRecords(text) : csvRecords(text);
+  const robots = records.map((record, index) => {
+    try {
+      return manifestRobot(record, index + 1);
+    } catch (error) {
+      throw new ConfigurationError(`Manifest row ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+
+  const names = new Set<string>();
+  for (const robot of robots) {
+    if (names.has(robot.name)) {
+      throw new ConfigurationError(`Manifest row ${robot.row}: name ${robot.name} appears more than once`);
+    }
+    names.add(robot.name);
+  }
+  return robots;
+}
+
+/** Raw Ed25519 public key from hex (64 digits, optional 0x), base64, or base64 with the Sui scheme flag */
+export function decodeEd25519PublicKey(value: string): Uint8Array {
+  const hex = value.startsWith('0x') ? value.slice(2) : value;
+  if (/^[0-9a-fA-F]{64}$/.test(hex)) {
+    return fromHex(hex);
+  }
+  const bytes = /^[A-Za-z0-9+/]+={0,2}$/.test(value) ? fromBase64(value) : new Uint8Array();
+  if (bytes.length === 32) {
+    return bytes;
+  }
+  if (bytes.length === 33 && bytes[0] === 0x00) {
+    return bytes.slice(1);
+  }
+  throw new RangeError(`${value} is not a 32-byte Ed25519 public key in hex or base64`);
+}
+
+// ===== Provisioner =====
+
+export class FleetProvisioner {
+  public readonly controller: string;
+  private readonly dids: DidRegistryClient;
+  private readonly credentials: CredentialRegistryClient | null;
+  private readonly signer: Signer;
+  private readonly batchSize: number;
+  private readonly handlers: FleetProvisionerHandlers;
+
+  constructor(options: FleetProvisionerOptions) {
+    const batchSize = options.batchSize ?? MAX_IDENTITY_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_IDENTITY_BATCH_SIZE) {
+      throw new RangeError(`batchSize must be an integer from 1 to ${MAX_IDENTITY_BATCH_SIZE}`);
+    }
+    this.dids = options.dids;
+    this.credentials = options.credentials ?? null;
+    this.signer = options.signer;
+    this.controller = normalizeSuiAddress(options.signer.toSuiAddress());
+    this.batchSize = batchSize;
+    this.handlers = options.handlers ?? {};
+  }
+
+  /**
+   * Provision every robot of a manifest. Failures of entries and of whole
+   * batches are recorded in the report rather than thrown.
+   *
+   * @param previous report of an earlier run by the same signer; its
+   * succeeded steps are kept and not submitted again
+   * @throws ConfigurationError if the manifest has credentials but no
+   * CredentialRegistryClient was given, or `previous` has another controller
+   */
+  async provision(robots: ManifestRobot[], previous?: ProvisioningReport): Promise<ProvisioningReport> {
+    if (!this.credentials && robots.some((robot) => robot.credentials.length > 0)) {
+      throw new ConfigurationError('The manifest has credentials; pass a CredentialRegistryClient');
+    }
+    if (previous && normalizeSuiAddress(previous.controller) !== this.controller) {
+      throw new ConfigurationError(`The previous report is of controller ${previous.controller}, not ${this.controller}`);
+    }
+
+    const earlier = new Map(previous?.rows.map((row) => [row.name, row]) ?? []);
+    const reports = robots.map((robot) => planRow(robot, earlier.get(robot.name)));
+    const byRow = new Map(reports.map((report, i) => [robots[i].row, report]));
+    const stepOf = (robot: ManifestRobot, name: string) => byRow.get(robot.row)!.steps.find((step) => step.step === name)!;
+    const pending = (robot: ManifestRobot, name: string) => stepOf(robot, name).status !== 'succeeded';
+
+    // DIDs
+    const registrations = robots.filter((robot) => pending(robot, 'register'));
+    for (const batch of chunk(registrations, this.batchSize)) {
+      const entries = batch.map((robot) => ({ robot, step: stepOf(robot, 'register') }));
+      await this.runBatch('register', entries, async () => {
+        const outcome = await this.dids.registerDidsBatch(
+          this.signer,
+          batch.map((robot) => ({ name: robot.name, publicKey: robot.publicKey, purpose: robot.purpose }))
+        );
+        return { outcome, objectIds: outcome.didIds };
+      }, (i) => this.registeredDidId(batch[i]));
+    }
+    for (const robot of robots) {
+      const report = byRow.get(robot.row)!;
+      const register = stepOf(robot, 'register');
+      report.didId = register.status === 'succeeded' ? register.objectId : null;
+    }
+
+    // Keys, services and credentials of the registered DIDs
+    const keys: PendingStep<ManifestKey>[] = [];
+    const services: PendingStep<ManifestService>[] = [];
+    const credentials: PendingStep<ManifestCredential>[] = [];
+    for (const robot of robots) {
+      const report = byRow.get(robot.row)!;
+      const collect = <Entry>(list: PendingStep<Entry>[], name: string, entry: Entry) => {
+        const step = stepOf(robot, name);
+        if (step.status === 'succeeded') {
+          return;
+        }
+        if (report.didId === null) {
+          updateStep(step, { status: 'skipped', objectId: null, digest: null, errorCode: null, error: 'The DID is not registered' });
+        } else {
+          list.push({ robot, step, entry, didId: report.didId });
+        }
+      };
+      robot.keys.forEach((key) => collect(keys, `key:${key.keyId}`, key));
+      robot.services.forEach((service) => collect(services, `service:${service.id}`, service));
+      robot.credentials.forEach((credential) => collect(credentials, credentialStep(credential), credential));
+    }
+
+    for (const batch of this.didBatches(keys)) {
+      await this.runBatch('key', batch, async () => ({
+        outcome: await this.dids.addKeysBatch(
+          this.signer,
+          batch.map(({ didId, entry }) => ({ didId, keyId: entry.keyId, publicKey: entry.publicKey, purpose: entry.purpose }))
+        ),
+      }), async (i) => {
+        const { didId, entry } = batch[i];
+        const key = (await this.dids.getDid(didId)).keys.find((candidate) => candidate.key_id === entry.keyId);
+        return key && toHex(key.pubkey) === toHex(entry.publicKey) && key.purpose === entry.purpose ? { objectId: null } : null;
+      });
+    }
+    for (const batch of this.didBatches(services)) {
+      await this.runBatch('service', batch, async () => ({
+        outcome: await this.dids.addServicesBatch(
+          this.signer,
+          batch.map(({ didId, entry }) => ({ didId, serviceId: entry.id, type: entry.type, endpoint: entry.endpoint }))
+        ),
+      }), async (i) => {
+        const { didId, entry } = batch[i];
+        const service = (await this.dids.getDid(didId)).services.find((candidate) => candidate.id === entry.id);
+        return service && service.type === entry.type && service.endpoint === entry.endpoint ? { objectId: null } : null;
+      });
+    }
+
+    // A batch of this or an earlier run may have issued credentials it could not confirm
+    const claimed = () => new Set(
+      [...reports, ...(previous?.rows ?? [])]
+        .flatMap((row) => row.steps)
+        .filter((step) => step.step.startsWith('credential:') && step.status === 'succeeded' && step.objectId !== null)
+        .map((step) => normalizeSuiAddress(step.objectId!))
+    );
+    let unissued = credentials;
+    if (credentials.length > 0) {
+      try {
+        const issued = await this.issuedCredentials(claimed());
+        unissued = credentials.filter(({ step }) => {
+          const objectId = issued.get(step.step)?.shift();
+          if (objectId !== undefined) {
+            updateStep(step, { status: 'succeeded', objectId, digest: null, errorCode: null, error: null });
+          }
+          return objectId === undefined;
+        });
+      } catch (error) {
+        // Issuing without the check could duplicate credentials
+        const message = `Could not list the credentials issued earlier: ${error instanceof Error ? error.message : String(error)}`;
+        credentials.forEach(({ step }) => updateStep(step, { status: 'failed', objectId: null, digest: null, errorCode: null, error: message }));
+        unissued = [];
+      }
+    }
+    for (const batch of chunk(unissued, this.batchSize)) {
+      let issued: Promise<Map<string, string[]>> | null = null;
+      await this.runBatch('credential', batch, async () => {
+        const outcome = await this.credentials!.issueCredentialsBatch(
+          this.signer,
+          batch.map(({ entry }) => ({ subject: this.controller, schema: entry.schema, dataHash: entry.dataHash }))
+        );
+        return { outcome, objectIds: outcome.credentialIds };
+      }, async (i) => {
+        issued = issued ?? this.issuedCredentials(claimed());
+        const objectId = (await issued).get(batch[i].step.step)?.shift();
+        return objectId === undefined ? null : { objectId };
+      });
+    }
+
+    for (const report of reports) {
+      report.status = report.steps.every((step) => step.status === 'succeeded') ? 'succeeded' : 'failed';
+    }
+    const succeeded = reports.filter((report) => report.status === 'succeeded').length;
+    return { controller: this.controller, rows: reports, succeeded, failed: reports.length - succeeded };
+  }
+
+  /**
+   * Submit one batch and record its result in the steps of its entries.
+   * Entries that failed because they already exist, and every entry of a
+   * batch that failed as a whole, are checked with `applied`: the batch may
+   * have executed although its submission failed, here or in an earlier run.
+   */
+  private async runBatch(
+    operation: ProvisioningOperation,
+    entries: { robot: ManifestRobot; step: ProvisioningStep }[],
+    submit: () => Promise<{ outcome: IdentityBatchOutcome; objectIds?: (string | null)[] }>,
+    applied?: (index: number) => Promise<{ objectId: string | null } | null>
+  ): Promise<void> {
+    let batch: Omit<ProvisioningBatch, 'rows' | 'succeeded' | 'failed'>;
+    const unknown: number[] = [];
+    try {
+      const { outcome, objectIds } = await submit();
+      outcome.results.forEach((result, i) => {
+        updateStep(entries[i].step, {
+          status: result.success ? 'succeeded' : 'failed',
+          objectId: objectIds?.[i] ?? null,
+          digest: result.success ? outcome.digest : null,
+          errorCode: result.success ? null : result.errorCode,
+          error: result.success
+            ? null
+            : result.errorName ?? (result.errorCode === 0 ? 'Not applied; the registry changed during the batch' : `code ${result.errorCode}`),
+        });
+        if (!result.success && result.errorName !== null && result.errorName === ALREADY_APPLIED[operation]) {
+          unknown.push(i);
+        }
+      });
+      batch = { operation, digest: outcome.digest, error: null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const errorCode = error instanceof MoveAbortError ? error.abort.code : null;
+      entries.forEach(({ step }, i) => {
+        updateStep(step, { status: 'failed', objectId: null, digest: null, errorCode, error: message });
+        unknown.push(i);
+      });
+      batch = { operation, digest: null, error: message };
+    }
+
+    if (applied) {
+      for (const i of unknown) {
+        // A failed check leaves the step failed with the original error
+        const found = await applied(i).catch(() => null);
+        if (found) {
+          updateStep(entries[i].step, { status: 'succeeded', objectId: found.objectId, digest: null, errorCode: null, error: null });
+        }
+      }
+    }
+    const succeeded = entries.filter(({ step }) => step.status === 'succeeded').length;
+    this.handlers.onBatch?.({
+      ...batch,
+      rows: entries.map(({ robot }) => robot.row),
+      succeeded,
+      failed: entries.length - succeeded,
+    });
+  }
+
+  /** ID of the robot's DID if the signer already registered its name */
+  private async registeredDidId(robot: ManifestRobot): Promise<{ objectId: string } | null> {
+    if ((await this.dids.getDidControllerByName(robot.name)) !== this.controller) {
+      return null;
+    }
+    const didId = await this.dids.findDidIdByName(robot.name);
+    return didId === null ? null : { objectId: didId };
+  }
+
+  /**
+   * Unrevoked CredentialInfo objects the signer issued to itself and no
+   * step in `claimed` records, by the name of their credential step
+   */
+  private async issuedCredentials(claimed: Set<string>): Promise<Map<string, string[]>> {
+    const issued = new Map<string, string[]>();
+    for (const info of await this.credentials!.findCredentials(this.controller)) {
+      if (info.issuer !== this.controller || info.revoked || claimed.has(info.id)) {
+        continue;
+      }
+      const step = credentialStep({ schema: info.schema, dataHash: info.data_hash });
+      issued.set(step, [...(issued.get(step) ?? []), info.id]);
+    }
+    return issued;
+  }
+
+  /** Batches of at most batchSize steps with no DID twice in a batch */
+  private didBatches<Entry>(steps: PendingStep<Entry>[]): PendingStep<Entry>[][] {
+    const batches: PendingStep<Entry>[][] = [];
+    for (const step of steps) {
+      const batch = batches.find(
+        (candidate) => candidate.length < this.batchSize && !candidate.some((other) => other.didId === step.didId)
+      );
+      if (batch) {
+        batch.push(step);
+      } else {
+        batches.push([step]);
+      }
+    }
+    return batches;
+  }
+}
+
+function updateStep(step: ProvisioningStep, update: Omit<ProvisioningStep, 'step'>): void {
+  Object.assign(step, update);
+}
+
+/** Fresh report of a row, keeping the steps that succeeded in an earlier run */
+function planRow(robot: ManifestRobot, earlier: ProvisioningRowReport | undefined): ProvisioningRowReport {
+  const names = [
+    'register',
+    ...robot.keys.map((key) => `key:${key.keyId}`),
+    ...robot.services.map((service) => `service:${service.id}`),
+    ...robot.credentials.map(credentialStep),
+  ];
+  return {
+    row: robot.row,
+    name: robot.name,
+    didId: null,
+    status: 'failed',
+    steps: names.map((name) => {
+      const done = earlier?.steps.find((step) => step.step === name && step.status === 'succeeded');
+      return done
+        ? { ...done }
+        : { step: name, status: 'skipped', objectId: null, digest: null, errorCode: null, error: 'Not submitted' };
+    }),
+  };
+}
+
+function credentialStep(credential: ManifestCredential): string {
+  return `credential:${credential.schema}:${toHex(credential.dataHash)}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// ===== Manifest parsing =====
+
+type ManifestRecord = Record<string, unknown>;
+
+function jsonRecords(text: string): ManifestRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigurationError(`Manifest is not valid JSON: ${(error as Error).message}`);
+  }
+  const robots = Array.isArray(parsed) ? parsed : (parsed as { robots?: unknown } | null)?.robots;
+  if (!Array.isArray(robots)) {
+    throw new ConfigurationError('A JSON manifest is an array of robots or an object with a "robots" array');
+  }
+  return robots as ManifestRecord[];
+}
+
+function csvRecords(text: string): ManifestRecord[] {
+  const [header, ...rows] = parseCsv(text).filter((row) => row.some((cell) => cell.trim() !== ''));
+  if (!header || !header.includes('name') || !header.includes('publicKey')) {
+    throw new ConfigurationError('A CSV manifest needs a header row with at least name and publicKey');
+  }
+  const items = (cell: string | undefined) => (cell ?? '').split(';').map((item) => item.trim()).filter(Boolean);
+  return rows.map((row) => {
+    const cell = (column: string) => {
+      const value = row[header.indexOf(column)]?.trim();
+      return value === '' ? undefined : value;
+    };
+    return {
+      name: cell('name'),
+      publicKey: cell('publicKey'),
+      purpose: cell('purpose'),
+      keys: items(cell('keys')).map((item) => {
+        const [keyId, publicKey, purpose] = item.split('|');
+        return { keyId, publicKey, purpose };
+      }),
+      services: items(cell('services')).map((item) => {
+        const [id, type, ...endpoint] = item.split('|');
+        return { id, type, endpoint: endpoint.join('|') };
+      }),
+      credentials: items(cell('credentials')).map((item) => {
+        const [schema, dataHash] = item.split('|');
+        return { schema, dataHash };
+      }),
+    };
+  });
+}
+
+/** RFC 4180 rows: comma separated, double-quoted cells may hold commas, quotes ("") and newlines */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    rows.push([...row, cell]);
+  }
+  return rows;
+}
+
+function manifestRobot(record: ManifestRecord, row: number): ManifestRobot {
+  if (typeof record !== 'object' || record === null) {
+    throw new RangeError('expected an object');
+  }
+  const name = text(record.name, 'name');
+  if (new TextEncoder().encode(name).length > NAME_LIMIT) {
+    throw new RangeError(`name is longer than ${NAME_LIMIT} bytes`);
+  }
+  const robot: ManifestRobot = {
+    row,
+    name,
+    publicKey: decodeEd25519PublicKey(text(record.publicKey, 'publicKey')),
+    purpose: record.purpose === undefined ? DEFAULT_KEY_PURPOSE : text(record.purpose, 'purpose'),
+    keys: list(record.keys, 'keys').map((key) => ({
+      keyId: text(key.keyId, 'keyId'),
+      publicKey: decodeEd25519PublicKey(text(key.publicKey, 'key publicKey')),
+      purpose: key.purpose === undefined ? DEFAULT_KEY_PURPOSE : text(key.purpose, 'key purpose'),
+    })),
+    services: list(record.services, 'services').map((service) => ({
+      id: text(service.id, 'service id'),
+      type: text(service.type, 'service type'),
+      endpoint: text(service.endpoint, 'service endpoint'),
+    })),
+    credentials: list(record.credentials, 'credentials').map(manifestCredential),
+  };
+
+  for (const [kind, ids] of [
+    ['key', robot.keys.map((key) => key.keyId)],
+    ['service', robot.services.map((service) => service.id)],
+    ['credential', robot.credentials.map((credential) => `${credential.schema}|${toHex(credential.dataHash)}`)],
+  ] as const) {
+    const repeated = ids.find((id, i) => ids.indexOf(id) !== i);
+    if (repeated !== undefined) {
+      throw new RangeError(`${kind} ${repeated} appears more than once`);
+    }
+  }
+  return robot;
+}
+
+function manifestCredential(record: ManifestRecord): ManifestCredential {
+  if (record.credential !== undefined) {
+    const credential = record.credential as VerifiableCredential;
+    const schema = credentialSchemaName(credential);
+    if (schema === null) {
+      throw new RangeError('credential has no schema type');
+    }
+    return { schema, dataHash: credentialDataHash(credential) };
+  }
+  const schema = text(record.schema, 'credential schema');
+  if (new TextEncoder().encode(schema).length > NAME_LIMIT) {
+    throw new RangeError(`credential schema is longer than ${NAME_LIMIT} bytes`);
+  }
+  const hash = text(record.dataHash, 'credential dataHash').replace(/^0x/, '');
+  if (!new RegExp(`^[0-9a-fA-F]{${CREDENTIAL_HASH_LENGTH * 2}}$`).test(hash)) {
+    throw new RangeError(`credential dataHash must be ${CREDENTIAL_HASH_LENGTH} bytes in hex`);
+  }
+  return { schema, dataHash: fromHex(hash) };
+}
+
+function text(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value === '') {
+    throw new RangeError(`${field} must be a non-empty string`);
+  }
+  return value;
+}
+
+function list(value: unknown, field: string): ManifestRecord[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new RangeError(`${field} must be an array`);
+  }
+  return value;
+}
@@ -0,0 +1,127 @@
+/**
+ * Build and publish Move packages from TypeScript.
+ *
+ * Compilation uses the Sui CLI (`sui move build --dump-bytecode-as-base64`);
+ * publishing goes through the SDK so the result comes back as a
+ * {@link PackageDeployment} ready for a network profile.
+ */
+
+import type { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Transaction } from '@mysten/sui/transactions';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { CrossyRobotError, TransactionFailedError } from './errors';
+import { transactionFailure } from './move-abort';
+import type { PackageDeployment } from './network';
+
+const execFileAsync = promisify(execFile);
+
+export interface CompiledPackage {
+  modules: string[];
+  dependencies: string[];
+}
+
+export interface BuildOptions {
+  /** Sui CLI binary (default: 'sui') */
+  suiBinary?: string;
+  /** Reuse cached git dependencies instead of fetching them (default: true) */
+  skipFetchDeps?: boolean;
+  /** Give up after this long (default: 600000) */
+  timeoutMs?: number;
+}
+
+export interface PublishResult extends PackageDeployment {
+  digest: string;
+}
+
+/** `sui move build` failed or produced no bytecode */
+export class MoveBuildError extends CrossyRobotError {
+  constructor(public readonly packagePath: string, message: string, options?: { cause?: unknown }) {
+    super(`Could not build ${packagePath}: ${message}`, options);
+  }
+}
+
+/** Compile a Move package to base64 modules plus dependency IDs */
+export async function buildMovePackage(packagePath: string, options: BuildOptions = {}): Promise<CompiledPackage> {
+  const args = ['move', 'build', '--dump-bytecode-as-base64', '--path', packagePath];
+  if (options.skipFetchDeps ?? true) {
+    args.push('--skip-fetch-latest-git-deps');
+  }
+
+  let stdout: string;
+  try {
+    ({ stdout } = await execFileAsync(options.suiBinary ?? 'sui', args, {
+      maxBuffer: 64 * 1024 * 1024,
+      timeout: options.timeoutMs ?? 600_000,
+    }));
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new MoveBuildError(packagePath, stderr || (error as Error).message, { cause: error });
+  }
+
+  // Build progress may precede the JSON document
+  const json = stdout.split('\n').reverse().find((line) => line.trim().startsWith('{'));
+  try {
+    const compiled = JSON.parse(json ?? '');
+    if (!Array.isArray(compiled.modules) || !Array.isArray(compiled.dependencies)) {
+      throw new Error('missing modules or dependencies');
+    }
+    return { modules: compiled.modules, dependencies: compiled.dependencies };
+  } catch (error) {
+    throw new MoveBuildError(packagePath, 'unexpected build output', { cause: error });
+  }
+}
+
+/**
+ * Publish compiled modules and keep the UpgradeCap with the signer. Shared
+ * objects created by init functions are keyed by module name (or
+ * `module::Struct` if a module shares several).
+ */
+export async function publishPackage(
+  client: SuiClient,
+  signer: Signer,
+  compiled: CompiledPackage
+): Promise<PublishResult> {
+  const tx = new Transaction();
+  const upgradeCap = tx.publish({ modules: compiled.modules, dependencies: compiled.dependencies });
+  tx.transferObjects([upgradeCap], tx.pure.address(signer.toSuiAddress()));
+
+  const result = await client.signAndExecuteTransaction({
+    signer,
+    transaction: tx,
+    options: { showEffects: true, showObjectChanges: true },
+  });
+  if (result.effects?.status?.status !== 'success') {
+    throw transactionFailure('Package publish', result.digest, result.effects?.status?.error);
+  }
+  await client.waitForTransaction({ digest: result.digest });
+
+  return { digest: result.digest, ...deploymentFromPublish(result) };
+}
+
+function deploymentFromPublish(result: SuiTransactionBlockResponse): PackageDeployment {
+  const changes = result.objectChanges ?? [];
+  const published = changes.find((change) => change.type === 'published');
+  if (!published || published.type !== 'published') {
+    throw new TransactionFailedError('Package publish', result.digest, 'no published package in object changes');
+  }
+
+  const deployment: PackageDeployment = { packageId: published.packageId, sharedObjects: {} };
+  for (const change of changes) {
+    if (change.type !== 'created') {
+      continue;
+    }
+    if (change.objectType === '0x2::package::UpgradeCap') {
+      deployment.upgradeCap = change.objectId;
+      continue;
+    }
+    const isShared = typeof change.owner === 'object' && 'Shared' in change.owner;
+    if (isShared && change.objectType.startsWith(`${published.packageId}::`)) {
+      const [, module, struct] = change.objectType.split('::');
+      const name = deployment.sharedObjects[module] ? `${module}::${struct}` : module;
+      deployment.sharedObjects[name] = change.objectId;
+    }
+  }
+  return deployment;
+}
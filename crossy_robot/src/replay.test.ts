@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DIRECTIONS, Direction } from './constants';
+import type { CrowdGameCreatedEvent, CrowdGameEndedEvent, CrowdRobotMovedEvent, GameEvent, RobotMovedEvent } from './events';
+import { buildReplay, replayToCsv } from './replay';
+
+const gameId = `0x${'ab'.repeat(32)}`;
+const alice = `0x${'a1'.repeat(32)}`;
+const bob = `0x${'b0'.repeat(32)}`;
+
+let digests = 0;
+const eventId = () => ({ txDigest: `D${++digests}`, eventSeq: '0' });
+
+function created(endTime = 10_000n): CrowdGameCreatedEvent {
+  return {
+    type: 'crowd_robot::GameCreated',
+    id: eventId(),
+    sender: alice,
+    timestampMs: null,
+    data: { game_id: gameId, creator: alice, created_at: 0n, end_time: endTime },
+  };
+}
+
+function moved(moveNumber: number, direction: Direction, options: { timestamp?: number; sender?: string } = {}): CrowdRobotMovedEvent {
+  const sender = options.sender ?? alice;
+  return {
+    type: 'crowd_robot::RobotMoved',
+    id: eventId(),
+    sender,
+    timestampMs: null,
+    data: {
+      game_id: gameId,
+      player: sender,
+      direction,
+      timestamp: BigInt(options.timestamp ?? moveNumber * 100),
+      move_number: BigInt(moveNumber),
+      is_new_player: false,
+    },
+  };
+}
+
+function ended(totalMoves: number): CrowdGameEndedEvent {
+  return {
+    type: 'crowd_robot::GameEnded',
+    id: eventId(),
+    sender: bob,
+    timestampMs: null,
+    data: { game_id: gameId, ended_at: 10_000n, duration_ms: 10_000n, total_moves: BigInt(totalMoves), unique_players: 1n, creator: alice },
+  };
+}
+
+const replay = (events: GameEvent[]) => buildReplay(gameId, 'crowd_robot', events);
+const kinds = (events: GameEvent[]) => replay(events).issues.map((issue) => [issue.kind, issue.moveNumber]);
+
+describe('buildReplay', () => {
+  it('replays moves in move_number order', () => {
+    const result = replay([
+      created(),
+      moved(2, DIRECTIONS.RIGHT, { sender: bob }),
+      moved(1, DIRECTIONS.UP),
+      moved(3, DIRECTIONS.DOWN_LEFT),
+      ended(3),
+    ]);
+    assert.deepEqual(result.issues, []);
+    assert.deepEqual(result.steps.map((step) => [step.moveNumber, step.directionName, step.x, step.y, step.heading]), [
+      [1n, 'UP', 0, 1, 0],
+      [2n, 'RIGHT', 1, 1, 90],
+      [3n, 'DOWN_LEFT', 0, 0, 225],
+    ]);
+    assert.deepEqual(result.finalPose, { x: 0, y: 0, heading: 225 });
+    assert.deepEqual(result.bounds, { minX: 0, maxX: 1, minY: 0, maxY: 1 });
+    assert.deepEqual(result.players, [{ player: alice, moves: 2 }, { player: bob, moves: 1 }]);
+    assert.equal(result.creator, alice);
+    assert.equal(result.endTime, 10_000n);
+  });
+
+  it('reports gaps', () => {
+    assert.deepEqual(kinds([moved(1, 0), moved(3, 0), moved(7, 0)]), [['gap', 2n], ['gap', 4n]]);
+    assert.match(replay([moved(1, 0), moved(7, 0)]).issues[0].message, /Moves 2-6 are missing/);
+  });
+
+  it('reports duplicate move numbers and replays the first', () => {
+    const first = moved(2, DIRECTIONS.UP);
+    const result = replay([moved(1, 0), first, moved(2, DIRECTIONS.DOWN)]);
+    assert.deepEqual(result.issues.map((issue) => [issue.kind, issue.moveNumber]), [['duplicate', 2n]]);
+    assert.equal(result.steps.length, 2);
+    assert.equal(result.steps[1].txDigest, first.id.txDigest);
+  });
+
+  it('ignores an event delivered twice', () => {
+    const move = moved(1, 0);
+    assert.deepEqual(kinds([move, { ...move }]), []);
+  });
+
+  it('reports timestamps that go backwards', () => {
+    assert.deepEqual(kinds([moved(1, 0, { timestamp: 500 }), moved(2, 0, { timestamp: 400 })]), [['out_of_order', 2n]]);
+  });
+
+  it("reports moves at or after the game's end time", () => {
+    assert.deepEqual(kinds([created(1_000n), moved(1, 0, { timestamp: 999 }), moved(2, 0, { timestamp: 1_000 })]), [['after_end', 2n]]);
+  });
+
+  it('reports a GameEnded total that disagrees with the moves', () => {
+    const issues = replay([moved(1, 0), moved(2, 0), ended(3)]).issues;
+    assert.deepEqual(issues.map((issue) => issue.kind), ['count_mismatch']);
+    assert.match(issues[0].message, /reports 3 moves but 2/);
+  });
+
+  it('skips events of other games and modules', () => {
+    const other = moved(1, 0);
+    other.data = { ...other.data, game_id: `0x${'cd'.repeat(32)}` };
+    const crossy: RobotMovedEvent = {
+      type: 'crossy_robot::RobotMoved',
+      id: eventId(),
+      sender: alice,
+      timestampMs: null,
+      data: { game_id: gameId, direction: DIRECTIONS.UP, timestamp: 1n },
+    };
+    assert.equal(replay([other, crossy]).steps.length, 0);
+  });
+
+  it('keeps transaction order for crossy_robot games', () => {
+    const crossy = (direction: Direction, timestamp: bigint): RobotMovedEvent => ({
+      type: 'crossy_robot::RobotMoved',
+      id: eventId(),
+      sender: alice,
+      timestampMs: null,
+      data: { game_id: gameId, direction, timestamp },
+    });
+    const result = buildReplay(gameId, 'crossy_robot', [crossy(DIRECTIONS.LEFT, 2n), crossy(DIRECTIONS.UP, 1n)]);
+    assert.deepEqual(result.steps.map((step) => [step.directionName, step.moveNumber]), [['LEFT', null], ['UP', null]]);
+    assert.deepEqual(result.issues.map((issue) => [issue.kind, issue.moveNumber]), [['out_of_order', undefined]]);
+  });
+});
+
+describe('replayToCsv', () => {
+  it('writes one row per step', () => {
+    const csv = replayToCsv(replay([moved(1, DIRECTIONS.UP, { timestamp: 0 })])).split('\n');
+    assert.equal(csv[0], 'step,move_number,player,direction,direction_name,timestamp_ms,time,x,y,heading,tx_digest');
+    assert.match(csv[1], new RegExp(`^1,1,${alice},0,UP,0,1970-01-01T00:00:00.000Z,0,1,0,D\\d+$`));
+    assert.equal(csv[2], '');
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Game Replay
+ *
+ * Rebuilds what a robot was told to do from a game's on-chain event history.
+ * RobotMoved events are ordered (by move_number for crowd games) and
+ * replayed on the 8-direction grid. Each step keeps its transaction digest
+ * as proof. Gaps and duplicates in move numbers, timestamps that go
+ * backwards, moves after the end time and totals that disagree with
+ * GameEnded are reported as issues rather than thrown.
+ */
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DIRECTION_HEADINGS, DIRECTION_VECTORS, Pose } from './actuator';
+import { CrossyRobotClient } from './client';
+import { DIRECTION_NAMES, Direction, DirectionName, GameModule } from './constants';
+import type { CrowdGameEndedPayload, GameEvent } from './events';
+import type { GridBounds } from './grid-simulator';
+
+export interface TrajectoryStep {
+  /** Position in the replay, starting at 1 */
+  step: number;
+  /** crowd_robot move_number; null for crossy_robot games */
+  moveNumber: bigint | null;
+  /** Transaction sender */
+  player: string;
+  direction: Direction;
+  directionName: DirectionName;
+  /** On-chain Clock timestamp of the move */
+  timestamp: bigint;
+  txDigest: string;
+  eventSeq: string;
+  /** Pose after the move */
+  x: number;
+  y: number;
+  heading: number;
+}
+
+export type ReplayIssueKind = 'gap' | 'duplicate' | 'out_of_order' | 'after_end' | 'count_mismatch';
+
+export interface ReplayIssue {
+  kind: ReplayIssueKind;
+  /** First move number concerned, if the issue is about specific moves */
+  moveNumber?: bigint;
+  message: string;
+}
+
+export interface PlayerSummary {
+  player: string;
+  moves: number;
+}
+
+export interface GameReplay {
+  gameId: string;
+  module: GameModule;
+  /** Game creator (crowd) or paying user (crossy), if GameCreated was found */
+  creator: string | null;
+  /** Robot that connected (crossy_robot only) */
+  robot: string | null;
+  createdAt: bigint | null;
+  /** Scheduled end of a crowd game */
+  endTime: bigint | null;
+  ended: CrowdGameEndedPayload | null;
+  steps: TrajectoryStep[];
+  issues: ReplayIssue[];
+  /** Players by number of moves, most active first */
+  players: PlayerSummary[];
+  start: Pose;
+  finalPose: Pose;
+  /** Smallest rectangle holding every visited cell */
+  bounds: GridBounds;
+}
+
+export interface BuildReplayOptions {
+  /** Pose before the first move (default: origin, facing UP) */
+  start?: Pose;
+}
+
+// ===== History =====
+
+/** Every event of one game, oldest first, paging through its transactions */
+export async function fetchGameHistory(
+  client: CrossyRobotClient,
+  gameId: string,
+  options: { pageSize?: number } = {}
+): Promise<GameEvent[]> {
+  const events: GameEvent[] = [];
+  let cursor: string | null = null;
+  do {
+    const page = await client.queryGameHistory(gameId, { cursor, limit: options.pageSize });
+    events.push(...page.data);
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+  return events;
+}
+
+/** Fetch a game's history and replay it */
+export async function loadReplay(
+  client: CrossyRobotClient,
+  gameId: string,
+  options: BuildReplayOptions = {}
+): Promise<GameReplay> {
+  const [module, events] = await Promise.all([client.getGameModule(gameId), fetchGameHistory(client, gameId)]);
+  return buildReplay(gameId, module, events, options);
+}
+
+// ===== Replay =====
+
+/** Order a game's moves, replay them on the grid and check the sequence */
+export function buildReplay(
+  gameId: string,
+  module: GameModule,
+  events: GameEvent[],
+  options: BuildReplayOptions = {}
+): GameReplay {
+  const id = normalizeSuiAddress(gameId);
+  const seen = new Set<string>();
+  const gameEvents = events.filter((event) => {
+    const key = `${event.id.txDigest}:${event.id.eventSeq}`;
+    if (event.data.game_id !== id || !event.type.startsWith(`${module}::`) || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const replay: GameReplay = {
+    gameId: id,
+    module,
+    creator: null,
+    robot: null,
+    createdAt: null,
+    endTime: null,
+    ended: null,
+    steps: [],
+    issues: [],
+    players: [],
+    start: { ...(options.start ?? { x: 0, y: 0, heading: 0 }) },
+    finalPose: { ...(options.start ?? { x: 0, y: 0, heading: 0 }) },
+    bounds: { minX: 0, maxX: 0, minY: 0, maxY: 0 },
+  };
+
+  const moves: { event: GameEvent; moveNumber: bigint | null; direction: Direction; timestamp: bigint }[] = [];
+  for (const event of gameEvents) {
+    switch (event.type) {
+      case 'crossy_robot::GameCreated':
+        replay.creator = event.data.user;
+        replay.createdAt = event.data.timestamp;
+        break;
+      case 'crossy_robot::RobotConnected':
+        replay.robot = event.data.robot;
+        break;
+      case 'crowd_robot::GameCreated':
+        replay.creator = event.data.creator;
+        replay.createdAt = event.data.created_at;
+        replay.endTime = event.data.end_time;
+        break;
+      case 'crowd_robot::GameEnded':
+        replay.ended = event.data;
+        break;
+      case 'crossy_robot::RobotMoved':
+        moves.push({ event, moveNumber: null, direction: event.data.direction, timestamp: event.data.timestamp });
+        break;
+      case 'crowd_robot::RobotMoved':
+        moves.push({
+          event,
+          moveNumber: event.data.move_number,
+          direction: event.data.direction,
+          timestamp: event.data.timestamp,
+        });
+        break;
+    }
+  }
+
+  // Crowd moves are numbered on-chain; crossy moves keep transaction order
+  const ordered = module === 'crowd_robot'
+    ? [...moves].sort((a, b) => (a.moveNumber! < b.moveNumber! ? -1 : a.moveNumber! > b.moveNumber! ? 1 : 0))
+    : moves;
+  const accepted = module === 'crowd_robot' ? checkMoveNumbers(ordered, replay.issues) : ordered;
+
+  let pose = { ...replay.start };
+  const bounds = { minX: pose.x, maxX: pose.x, minY: pose.y, maxY: pose.y };
+  const perPlayer = new Map<string, number>();
+  let previous: (typeof accepted)[number] | null = null;
+
+  for (const move of accepted) {
+    if (previous && move.timestamp < previous.timestamp) {
+      replay.issues.push({
+        kind: 'out_of_order',
+        moveNumber: move.moveNumber ?? undefined,
+        message: `${describeMove(move)} is timestamped before the move preceding it`,
+      });
+    }
+    if (replay.endTime !== null && move.timestamp >= replay.endTime) {
+      replay.issues.push({
+        kind: 'after_end',
+        moveNumber: move.moveNumber ?? undefined,
+        message: `${describeMove(move)} is timestamped at or after the game's end time`,
+      });
+    }
+
+    const { dx, dy } = DIRECTION_VECTORS[move.direction];
+    pose = { x: pose.x + dx, y: pose.y + dy, heading: DIRECTION_HEADINGS[move.direction] };
+    bounds.minX = Math.min(bounds.minX, pose.x);
+    bounds.maxX = Math.max(bounds.maxX, pose.x);
+    bounds.minY = Math.min(bounds.minY, pose.y);
+    bounds.maxY = Math.max(bounds.maxY, pose.y);
+    perPlayer.set(move.event.sender, (perPlayer.get(move.event.sender) ?? 0) + 1);
+
+    replay.steps.push({
+      step: replay.steps.length + 1,
+      moveNumber: move.moveNumber,
+      player: move.event.sender,
+      direction: move.direction,
+      directionName: DIRECTION_NAMES[move.direction],
+      timestamp: move.timestamp,
+      txDigest: move.event.id.txDigest,
+      eventSeq: move.event.id.eventSeq,
+      ...pose,
+    });
+    previous = move;
+  }
+
+  if (replay.ended && replay.ended.total_moves !== BigInt(replay.steps.length)) {
+    replay.issues.push({
+      kind: 'count_mismatch',
+      message: `GameEnded reports ${replay.ended.total_moves} moves but ${replay.steps.length} RobotMoved events were found`,
+    });
+  }
+
+  replay.finalPose = pose;
+  replay.bounds = bounds;
+  replay.players = [...perPlayer]
+    .map(([player, count]) => ({ player, moves: count }))
+    .sort((a, b) => b.moves - a.moves);
+  return replay;
+}
+
+/** Report gaps and duplicates in sorted crowd moves; returns the moves to replay */
+function checkMoveNumbers<T extends { moveNumber: bigint | null; event: GameEvent }>(moves: T[], issues: ReplayIssue[]): T[] {
+  const accepted: T[] = [];
+  let expected = 1n;
+  for (const move of moves) {
+    const moveNumber = move.moveNumber!;
+    if (moveNumber < expected) {
+      issues.push({
+        kind: 'duplicate',
+        moveNumber,
+        message: `Move ${moveNumber} appears more than once (also in ${move.event.id.txDigest}); the first is replayed`,
+      });
+      continue;
+    }
+    if (moveNumber > expected) {
+      issues.push({
+        kind: 'gap',
+        moveNumber: expected,
+        message: moveNumber - expected === 1n
+          ? `Move ${expected} is missing`
+          : `Moves ${expected}-${moveNumber - 1n} are missing`,
+      });
+    }
+    accepted.push(move);
+    expected = moveNumber + 1n;
+  }
+  return accepted;
+}
+
+function describeMove(move: { moveNumber: bigint | null; event: GameEvent }): string {
+  return move.moveNumber !== null ? `Move ${move.moveNumber}` : `Move in ${move.event.id.txDigest}`;
+}
+
+// ===== Export =====
+
+/** JSON with u64 values as strings */
+export function replayToJson(replay: GameReplay): string {
+  return `${JSON.stringify(replay, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2)}\n`;
+}
+
+const CSV_COLUMNS = [
+  'step', 'move_number', 'player', 'direction', 'direction_name', 'timestamp_ms', 'time', 'x', 'y', 'heading', 'tx_digest',
+];
+
+/** One row per trajectory step */
+export function replayToCsv(replay: GameReplay): string {
+  const rows = replay.steps.map((step) => [
+    step.step,
+    step.moveNumber ?? '',
+    step.player,
+    step.direction,
+    step.directionName,
+    step.timestamp,
+    new Date(Number(step.timestamp)).toISOString(),
+    step.x,
+    step.y,
+    step.heading,
+    step.txDigest,
+  ].map((value) => csvField(String(value))).join(','));
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Text plot of the path, +y up: S start, E end, digits count visits of
+ * the other cells (9 for nine or more).
+ */
+export function renderAsciiPath(replay: GameReplay): string {
+  const { minX, maxX, minY, maxY } = replay.bounds;
+  const visits = new Map<string, number>();
+  for (const step of replay.steps) {
+    const key = `${step.x},${step.y}`;
+    visits.set(key, (visits.get(key) ?? 0) + 1);
+  }
+
+  const lines: string[] = [];
+  for (let y = maxY; y >= minY; y--) {
+    let line = '';
+    for (let x = minX; x <= maxX; x++) {
+      const count = visits.get(`${x},${y}`) ?? 0;
+      if (x === replay.finalPose.x && y === replay.finalPose.y && replay.steps.length > 0) {
+        line += 'E';
+      } else if (x === replay.start.x && y === replay.start.y) {
+        line += 'S';
+      } else {
+        line += count === 0 ? '.' : String(Math.min(count, 9));
+      }
+      line += x < maxX ? ' ' : '';
+    }
+    lines.push(line);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/** SVG drawing of the grid and the path, start in green and end in red */
+export function renderSvgPath(replay: GameReplay, options: { cellSize?: number } = {}): string {
+  const cell = options.cellSize ?? 24;
+  const { minX, maxX, minY, maxY } = replay.bounds;
+  const columns = maxX - minX + 1;
+  const rows = maxY - minY + 1;
+  const width = columns * cell;
+  const height = rows * cell;
+  const cx = (x: number) => (x - minX + 0.5) * cell;
+  const cy = (y: number) => (maxY - y + 0.5) * cell;
+
+  const grid: string[] = [];
+  for (let i = 0; i <= columns; i++) {
+    grid.push(`<line x1="${i * cell}" y1="0" x2="${i * cell}" y2="${height}"/>`);
+  }
+  for (let i = 0; i <= rows; i++) {
+    grid.push(`<line x1="0" y1="${i * cell}" x2="${width}" y2="${i * cell}"/>`);
+  }
+
+  const points = [replay.start, ...replay.steps].map((pose) => `${cx(pose.x)},${cy(pose.y)}`).join(' ');
+  const title = `${replay.module} game ${replay.gameId}: ${replay.steps.length} moves`;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <title>${title}</title>`,
+    '  <rect width="100%" height="100%" fill="white"/>',
+    `  <g stroke="#ddd" stroke-width="1">${grid.join('')}</g>`,
+    `  <polyline points="${points}" fill="none" stroke="#2563eb" stroke-width="${Math.max(cell / 8, 1)}" ` +
+      'stroke-linejoin="round" stroke-linecap="round"/>',
+    `  <circle cx="${cx(replay.start.x)}" cy="${cy(replay.start.y)}" r="${cell / 4}" fill="#16a34a"/>`,
+    `  <circle cx="${cx(replay.finalPose.x)}" cy="${cy(replay.finalPose.y)}" r="${cell / 4}" fill="#dc2626"/>`,
+    '</svg>',
+    '',
+  ].join('\n');
+}
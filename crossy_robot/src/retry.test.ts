@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InsufficientGasError } from './errors';
+import { transactionFailure } from './move-abort';
+import { isRetryableError, isUnconfirmedSubmissionError, withRetry } from './retry';
+
+const fast = { initialDelayMs: 1, jitter: false };
+
+describe('isRetryableError', () => {
+  it('retries failures before the transaction was accepted', () => {
+    assert.ok(isRetryableError(new Error('Unexpected status code: 429 Too Many Requests')));
+    assert.ok(isRetryableError(new Error('connect ECONNREFUSED 127.0.0.1:9000')));
+    assert.ok(isRetryableError(new Error('getaddrinfo ENOTFOUND fullnode.testnet.sui.io')));
+    assert.ok(isRetryableError(new Error('Transaction was cancelled: SharedObjectCongestion')));
+    assert.ok(isRetryableError(new Error('Object 0x1 version 0x5 is not available for consumption')));
+  });
+
+  it('finds the failure in the cause chain', () => {
+    assert.ok(isRetryableError(Object.assign(new Error('fetch failed'), { cause: new Error('connect ECONNREFUSED') })));
+  });
+
+  it('does not retry failures after which the transaction may have executed', () => {
+    assert.ok(!isRetryableError(new Error('read ECONNRESET')));
+    assert.ok(!isRetryableError(new Error('socket hang up')));
+    assert.ok(!isRetryableError(new Error('Unexpected status code: 502 Bad Gateway')));
+    assert.ok(!isRetryableError(new Error('Unexpected status code: 503 Service Unavailable')));
+    assert.ok(!isRetryableError(new Error('Request timed out')));
+  });
+
+  it('does not retry lock conflicts', () => {
+    assert.ok(!isRetryableError(new Error('Object 0x1 is already locked by a different transaction')));
+    assert.ok(!isRetryableError(new Error('Failed to sign transaction by a quorum of validators because of locked objects (equivocation)')));
+  });
+
+  it('does not retry Move aborts or gas shortfalls', () => {
+    const abort = transactionFailure(
+      'Call',
+      'D1',
+      'MoveAbort(MoveLocation { module: ModuleId { address: 1, name: Identifier("crowd_robot") }, ' +
+      'function: 0, instruction: 0, function_name: None }, 1) 429'
+    );
+    assert.ok(!isRetryableError(abort));
+    assert.ok(!isRetryableError(new InsufficientGasError('0x1', 10n, 5n)));
+  });
+});
+
+describe('isUnconfirmedSubmissionError', () => {
+  it('matches failures that leave the outcome unknown', () => {
+    assert.ok(isUnconfirmedSubmissionError(new Error('read ECONNRESET')));
+    assert.ok(isUnconfirmedSubmissionError(Object.assign(new Error('fetch failed'), { cause: new Error('socket hang up') })));
+    assert.ok(isUnconfirmedSubmissionError(new Error('Unexpected status code: 503')));
+    assert.ok(isUnconfirmedSubmissionError(new Error('Request timed out')));
+  });
+
+  it('does not match failures before submission', () => {
+    assert.ok(!isUnconfirmedSubmissionError(new Error('connect ECONNREFUSED')));
+    assert.ok(!isUnconfirmedSubmissionError(new Error('429 Too Many Requests')));
+  });
+});
+
+describe('withRetry', () => {
+  it('returns the first successful attempt', async () => {
+    const attempts: number[] = [];
+    const result = await withRetry(async (attempt) => {
+      attempts.push(attempt);
+      if (attempt < 3) {
+        throw new Error('ECONNREFUSED');
+      }
+      return 'done';
+    }, fast);
+    assert.equal(result, 'done');
+    assert.deepEqual(attempts, [1, 2, 3]);
+  });
+
+  it('gives up after maxAttempts with the last error', async () => {
+    let attempts = 0;
+    await assert.rejects(
+      withRetry(async (attempt) => {
+        attempts++;
+        throw new Error(`ECONNREFUSED ${attempt}`);
+      }, { ...fast, maxAttempts: 2 }),
+      /ECONNREFUSED 2/
+    );
+    assert.equal(attempts, 2);
+  });
+
+  it('does not retry other errors', async () => {
+    let attempts = 0;
+    await assert.rejects(
+      withRetry(async () => {
+        attempts++;
+        throw new Error('read ECONNRESET');
+      }, fast),
+      /ECONNRESET/
+    );
+    assert.equal(attempts, 1);
+  });
+
+  it('backs off exponentially up to maxDelayMs', async () => {
+    const delays: number[] = [];
+    await assert.rejects(
+      withRetry(async () => {
+        throw new Error('429');
+      }, { initialDelayMs: 1, backoffFactor: 3, maxDelayMs: 5, maxAttempts: 4, jitter: false, onRetry: (_, __, delayMs) => delays.push(delayMs) })
+    );
+    assert.deepEqual(delays, [1, 3, 5]);
+  });
+
+  it('uses the policy to decide what is retried', async () => {
+    const retried: unknown[] = [];
+    const result = await withRetry(async (attempt) => {
+      if (attempt === 1) {
+        throw new Error('custom');
+      }
+      return attempt;
+    }, { ...fast, isRetryable: (error) => error instanceof Error && error.message === 'custom', onRetry: (error) => retried.push(error) });
+    assert.equal(result, 2);
+    assert.equal(retried.length, 1);
+  });
+});
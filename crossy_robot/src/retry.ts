@@ -0,0 +1,114 @@
+/**
+ * Retry policy for transactions
+ *
+ * Only failures that certainly happened before the transaction was
+ * accepted are retried: rate limiting, refused connections, unresolvable
+ * hosts, shared-object congestion and stale object versions. Move aborts,
+ * gas shortfalls, configuration errors and object lock conflicts fail
+ * immediately.
+ *
+ * Reset connections, gateway errors and timeouts leave the outcome unknown:
+ * the node may have accepted the transaction. The transaction executor
+ * looks those up by digest and resubmits the same signed bytes rather than
+ * retrying them here.
+ */
+
+import { ConfigurationError, GasBudgetExceededError, InsufficientGasError } from './errors';
+import { MoveAbortError } from './move-abort';
+
+export interface RetryPolicy {
+  /** Attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay (default: 8000) */
+  maxDelayMs?: number;
+  /** Delay multiplier per retry (default: 2) */
+  backoffFactor?: number;
+  /** Randomize each delay between 50% and 100% (default: true) */
+  jitter?: boolean;
+  /** Decides which errors are retried (default: isRetryableError) */
+  isRetryable?(error: unknown): boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?(error: unknown, attempt: number, delayMs: number): void;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, 'onRetry'>> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 8_000,
+  backoffFactor: 2,
+  jitter: true,
+  isRetryable: isRetryableError,
+};
+
+const RETRYABLE_PATTERNS = [
+  // Shared object congestion (the transaction was cancelled, not executed)
+  /SharedObjectCongestion/i,
+  // Stale object versions (validators reject the transaction without locking its objects)
+  /ObjectVersionUnavailableForConsumption|not available for consumption/i,
+  // Rate limiting and connection problems before the request was sent
+  /\b429\b|Too Many Requests|rate limit/i,
+  /ECONNREFUSED|ENOTFOUND|EAI_AGAIN/i,
+];
+
+/** Failures after which the node may or may not have accepted the transaction */
+const UNCONFIRMED_PATTERNS = [
+  /\b50[234]\b|Service Unavailable|Bad Gateway|Gateway Timeout/i,
+  /ECONNRESET|ETIMEDOUT|socket hang up|timed? ?out/i,
+];
+
+/** Whether a failed transaction is worth submitting again */
+export function isRetryableError(error: unknown): boolean {
+  return !isTransactionError(error) && matchesAny(error, RETRYABLE_PATTERNS);
+}
+
+/**
+ * Whether a submission failed in a way that leaves its outcome unknown, so
+ * the transaction has to be looked up by digest before it is sent again
+ */
+export function isUnconfirmedSubmissionError(error: unknown): boolean {
+  return !isTransactionError(error) && matchesAny(error, UNCONFIRMED_PATTERNS);
+}
+
+/** Errors raised for a transaction the network has rejected or executed */
+function isTransactionError(error: unknown): boolean {
+  return (
+    error instanceof MoveAbortError ||
+    error instanceof InsufficientGasError ||
+    error instanceof GasBudgetExceededError ||
+    error instanceof ConfigurationError
+  );
+}
+
+/** Whether the message of the error or one of its causes matches */
+function matchesAny(error: unknown, patterns: RegExp[]): boolean {
+  const messages: string[] = [];
+  for (let current: unknown = error; current && messages.length < 5; current = (current as { cause?: unknown }).cause) {
+    messages.push(current instanceof Error ? current.message : String(current));
+  }
+  return messages.some((message) => patterns.some((pattern) => pattern.test(message)));
+}
+
+/** Run `operation`, retrying retryable failures with exponential backoff */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = {}
+): Promise<T> {
+  const settings = { ...DEFAULT_RETRY_POLICY, ...policy };
+  let delayMs = settings.initialDelayMs;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= settings.maxAttempts || !settings.isRetryable(error)) {
+        throw error;
+      }
+      const wait = Math.round(settings.jitter ? delayMs * (0.5 + Math.random() / 2) : delayMs);
+      policy.onRetry?.(error, attempt, wait);
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      delayMs = Math.min(delayMs * settings.backoffFactor, settings.maxDelayMs);
+    }
+  }
+}
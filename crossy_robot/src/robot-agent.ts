@@ -0,0 +1,248 @@
+/**
+ * Robot Agent
+ *
+ * Long-running loop that lets a robot take part in crossy_robot games:
+ * 1. Watch for GameCreated and call connect_robot to collect the payment
+ * 2. Follow RobotMoved events for the game it is connected to
+ *
+ * The event cursor and the active game are persisted after every event, so a
+ * restarted agent resumes exactly where it stopped. A hard crash while a
+ * handler is running re-delivers only that one event.
+ */
+
+import type { EventId } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { ConnectRobotResult, CrossyRobotClient } from './client';
+import {
+  CrossyRobotEvent,
+  GameCreatedEvent,
+  RobotConnectedEvent,
+  RobotMovedEvent,
+  isCrossyRobotEvent
+} from './events';
+import { GameEventStream, GameEventStreamOptions } from './event-stream';
+import { JsonStateStore } from './state-store';
+
+export interface RobotAgentState {
+  /** Last fully processed event */
+  cursor: EventId | null;
+  /** Game the robot is connected to, if any */
+  activeGameId: string | null;
+  /** Local time of the last activity in the active game */
+  lastActivityAt: number | null;
+}
+
+export const INITIAL_ROBOT_AGENT_STATE: RobotAgentState = {
+  cursor: null,
+  activeGameId: null,
+  lastActivityAt: null,
+};
+
+export type GameReleaseReason = 'idle' | 'manual';
+
+/** Callbacks through which the agent reports what it is doing */
+export interface RobotAgentHandlers {
+  onGameConnected?(result: ConnectRobotResult, event: GameCreatedEvent): void | Promise<void>;
+  /** connect_robot failed, e.g. because another robot took the game first */
+  onConnectFailed?(gameId: string, error: unknown): void | Promise<void>;
+  /** A RobotMoved command for the active game */
+  onMove?(event: RobotMovedEvent): void | Promise<void>;
+  onGameReleased?(gameId: string, reason: GameReleaseReason): void | Promise<void>;
+  /** Event stream or handler error; the agent keeps running */
+  onError?(error: unknown): void;
+}
+
+export interface RobotAgentOptions {
+  client: CrossyRobotClient;
+  /** Robot wallet used for connect_robot */
+  signer: Signer;
+  stateStore: JsonStateStore<RobotAgentState>;
+  handlers?: RobotAgentHandlers;
+  /** Event stream tuning (transport, poll intervals, backoff) */
+  streamOptions?: Omit<GameEventStreamOptions, 'module' | 'cursor'>;
+  /** Release the active game after this long without moves; 0 disables (default: 300000) */
+  idleTimeoutMs?: number;
+  /** Where to start when no cursor was saved yet (default: 'latest') */
+  startFrom?: 'latest' | 'beginning';
+}
+
+export class RobotAgent {
+  private readonly client: CrossyRobotClient;
+  private readonly signer: Signer;
+  private readonly address: string;
+  private readonly stateStore: JsonStateStore<RobotAgentState>;
+  private readonly handlers: RobotAgentHandlers;
+  private readonly streamOptions: Omit<GameEventStreamOptions, 'module' | 'cursor'>;
+  private readonly idleTimeoutMs: number;
+  private readonly startFrom: 'latest' | 'beginning';
+  private state: RobotAgentState;
+  private running = false;
+  private loop: Promise<void> | null = null;
+  private stream: GameEventStream | null = null;
+
+  constructor(options: RobotAgentOptions) {
+    this.client = options.client;
+    this.signer = options.signer;
+    this.address = normalizeSuiAddress(options.signer.toSuiAddress());
+    this.stateStore = options.stateStore;
+    this.handlers = options.handlers ?? {};
+    this.streamOptions = options.streamOptions ?? {};
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 300_000;
+    this.startFrom = options.startFrom ?? 'latest';
+    this.state = this.stateStore.load();
+  }
+
+  get activeGameId(): string | null {
+    return this.state.activeGameId;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start processing events. Resolves once the agent has been stopped.
+   */
+  start(): Promise<void> {
+    if (this.loop) {
+      return this.loop;
+    }
+    this.running = true;
+    this.loop = this.run().finally(() => {
+      this.running = false;
+      this.loop = null;
+    });
+    return this.loop;
+  }
+
+  /**
+   * Stop after the event currently being handled and persist the state.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.stream?.close();
+    await this.loop;
+  }
+
+  /** Give up the active game so the robot accepts new ones */
+  async releaseGame(reason: GameReleaseReason = 'manual'): Promise<void> {
+    const gameId = this.state.activeGameId;
+    if (!gameId) {
+      return;
+    }
+    this.state = { ...this.state, activeGameId: null, lastActivityAt: null };
+    this.persist();
+    await this.handlers.onGameReleased?.(gameId, reason);
+  }
+
+  private async run(): Promise<void> {
+    if (this.state.cursor === null && this.startFrom === 'latest') {
+      this.state = { ...this.state, cursor: await this.client.latestEventCursor('crossy_robot') };
+      this.persist();
+    }
+
+    const stream = new GameEventStream(this.client, {
+      onError: (error) => this.handlers.onError?.(error),
+      ...this.streamOptions,
+      module: 'crossy_robot',
+      cursor: this.state.cursor,
+    });
+    this.stream = stream;
+    if (!this.running) {
+      stream.close();
+    }
+
+    const idleCheck = this.idleTimeoutMs > 0
+      ? setInterval(() => {
+        this.releaseIfIdle().catch((error) => this.handlers.onError?.(error));
+      }, Math.min(this.idleTimeoutMs, 5000))
+      : null;
+
+    try {
+      for await (const event of stream) {
+        if (isCrossyRobotEvent(event)) {
+          await this.handleEvent(event);
+        }
+        this.state = { ...this.state, cursor: event.id };
+        this.persist();
+      }
+    } finally {
+      if (idleCheck) {
+        clearInterval(idleCheck);
+      }
+      this.stream = null;
+    }
+  }
+
+  private async handleEvent(event: CrossyRobotEvent): Promise<void> {
+    try {
+      switch (event.type) {
+        case 'crossy_robot::GameCreated':
+          await this.handleGameCreated(event);
+          break;
+        case 'crossy_robot::RobotConnected':
+          this.handleRobotConnected(event);
+          break;
+        case 'crossy_robot::RobotMoved':
+          await this.handleRobotMoved(event);
+          break;
+      }
+    } catch (error) {
+      // Handler failures are reported but never block the cursor
+      this.handlers.onError?.(error);
+    }
+  }
+
+  private async handleGameCreated(event: GameCreatedEvent): Promise<void> {
+    if (this.state.activeGameId) {
+      return;
+    }
+
+    const gameId = event.data.game_id;
+    try {
+      const result = await this.client.connectRobot(this.signer, gameId);
+      this.activate(gameId);
+      await this.handlers.onGameConnected?.(result, event);
+    } catch (error) {
+      await this.handlers.onConnectFailed?.(gameId, error);
+    }
+  }
+
+  /**
+   * Adopts a game this robot connected to, covering a crash between the
+   * connect_robot transaction and persisting the state.
+   */
+  private handleRobotConnected(event: RobotConnectedEvent): void {
+    if (event.data.robot === this.address && this.state.activeGameId === null) {
+      this.activate(event.data.game_id);
+    }
+  }
+
+  private async handleRobotMoved(event: RobotMovedEvent): Promise<void> {
+    if (event.data.game_id !== this.state.activeGameId) {
+      return;
+    }
+    this.state = { ...this.state, lastActivityAt: Date.now() };
+    await this.handlers.onMove?.(event);
+  }
+
+  private activate(gameId: string): void {
+    this.state = { ...this.state, activeGameId: gameId, lastActivityAt: Date.now() };
+    this.persist();
+  }
+
+  private async releaseIfIdle(): Promise<void> {
+    const { activeGameId, lastActivityAt } = this.state;
+    if (!activeGameId || this.idleTimeoutMs <= 0 || lastActivityAt === null) {
+      return;
+    }
+    if (Date.now() - lastActivityAt >= this.idleTimeoutMs) {
+      await this.releaseGame('idle');
+    }
+  }
+
+  private persist(): void {
+    this.stateStore.save(this.state);
+  }
+}
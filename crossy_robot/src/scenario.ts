@@ -0,0 +1,372 @@
+/**
+ * Scenario runner for the E2E flows
+ *
+ * A scenario is an ordered list of named steps run against a live network.
+ * Every step has its own timeout; after the first failure the remaining steps
+ * are skipped, but cleanup hooks always run (last registered first). Results
+ * can be written as JUnit XML for CI and as JSON for other tooling.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CrossyRobotError } from './errors';
+import { GameEvent, GameEventOf, GameEventType } from './events';
+
+export type StepStatus = 'passed' | 'failed' | 'skipped';
+
+export interface StepContext {
+  /** Aborted when the step times out */
+  signal: AbortSignal;
+}
+
+/** A step passes unless it throws or rejects; its return value is ignored */
+export type StepFn = (context: StepContext) => unknown;
+
+export interface StepOptions {
+  /** Fail the step after this long (default: the scenario's defaultTimeoutMs) */
+  timeoutMs?: number;
+}
+
+export interface StepResult {
+  name: string;
+  phase: 'step' | 'cleanup';
+  status: StepStatus;
+  durationMs: number;
+  error?: {
+    name: string;
+    message: string;
+    stack?: string;
+  };
+}
+
+export interface ScenarioResult {
+  name: string;
+  status: 'passed' | 'failed';
+  /** ISO timestamp */
+  startedAt: string;
+  durationMs: number;
+  steps: StepResult[];
+  cleanup: StepResult[];
+}
+
+export interface ScenarioHandlers {
+  onStepStart?(name: string, phase: StepResult['phase']): void;
+  onStepEnd?(result: StepResult): void;
+}
+
+export interface ScenarioOptions extends ScenarioHandlers {
+  /** Per-step timeout unless the step sets its own (default: 60000) */
+  defaultTimeoutMs?: number;
+}
+
+export interface WaitForOptions {
+  /** Default: 30000 */
+  timeoutMs?: number;
+  /** Default: 500 */
+  intervalMs?: number;
+  signal?: AbortSignal;
+  /** Used in the timeout message */
+  description?: string;
+}
+
+export interface ScenarioReportPaths {
+  junitPath: string;
+  jsonPath: string;
+}
+
+/** A scenario assertion did not hold */
+export class AssertionError extends CrossyRobotError {
+  constructor(message: string, public readonly expected?: unknown, public readonly actual?: unknown) {
+    super(expected === undefined && actual === undefined
+      ? message
+      : `${message}: expected ${formatValue(expected)}, got ${formatValue(actual)}`);
+  }
+}
+
+/** A step or a waitFor condition did not finish in time */
+export class ScenarioTimeoutError extends CrossyRobotError {
+  constructor(public readonly operation: string, public readonly timeoutMs: number) {
+    super(`${operation} did not finish within ${timeoutMs}ms`);
+  }
+}
+
+interface StepDefinition {
+  name: string;
+  fn: StepFn;
+  timeoutMs: number;
+}
+
+export class Scenario {
+  public readonly name: string;
+  private readonly defaultTimeoutMs: number;
+  private readonly handlers: ScenarioHandlers;
+  private readonly steps: StepDefinition[] = [];
+  private readonly cleanups: StepDefinition[] = [];
+
+  constructor(name: string, options: ScenarioOptions = {}) {
+    this.name = name;
+    this.defaultTimeoutMs = options.defaultTimeoutMs ?? 60_000;
+    this.handlers = options;
+  }
+
+  /** Add a step; steps run in the order they were added */
+  step(name: string, fn: StepFn, options: StepOptions = {}): this {
+    this.steps.push({ name, fn, timeoutMs: options.timeoutMs ?? this.defaultTimeoutMs });
+    return this;
+  }
+
+  /**
+   * Add a cleanup hook. Hooks run after the steps whether they passed or not,
+   * newest first, and may also be added from inside a running step.
+   */
+  cleanup(name: string, fn: StepFn, options: StepOptions = {}): this {
+    this.cleanups.push({ name, fn, timeoutMs: options.timeoutMs ?? this.defaultTimeoutMs });
+    return this;
+  }
+
+  async run(): Promise<ScenarioResult> {
+    const startedAt = new Date();
+    const steps: StepResult[] = [];
+    let failed = false;
+
+    for (const step of this.steps) {
+      if (failed) {
+        const skipped: StepResult = { name: step.name, phase: 'step', status: 'skipped', durationMs: 0 };
+        steps.push(skipped);
+        this.handlers.onStepEnd?.(skipped);
+        continue;
+      }
+      const result = await this.runStep(step, 'step');
+      steps.push(result);
+      failed = result.status === 'failed';
+    }
+
+    const cleanup: StepResult[] = [];
+    for (const hook of [...this.cleanups].reverse()) {
+      const result = await this.runStep(hook, 'cleanup');
+      cleanup.push(result);
+      failed ||= result.status === 'failed';
+    }
+
+    return {
+      name: this.name,
+      status: failed ? 'failed' : 'passed',
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      steps,
+      cleanup,
+    };
+  }
+
+  private async runStep(step: StepDefinition, phase: StepResult['phase']): Promise<StepResult> {
+    this.handlers.onStepStart?.(step.name, phase);
+    const startTime = Date.now();
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    let result: StepResult;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new ScenarioTimeoutError(`Step "${step.name}"`, step.timeoutMs);
+          controller.abort(error);
+          reject(error);
+        }, step.timeoutMs);
+      });
+      await Promise.race([Promise.resolve().then(() => step.fn({ signal: controller.signal })), timeout]);
+      result = { name: step.name, phase, status: 'passed', durationMs: Date.now() - startTime };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      result = {
+        name: step.name,
+        phase,
+        status: 'failed',
+        durationMs: Date.now() - startTime,
+        error: { name: err.name, message: err.message, stack: err.stack },
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    this.handlers.onStepEnd?.(result);
+    return result;
+  }
+}
+
+// ===== Assertions =====
+
+export function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new AssertionError(message);
+  }
+}
+
+/** Strict equality; arrays and plain objects are compared element by element */
+export function assertEqual<T>(actual: T, expected: T, message: string): void {
+  if (!isEqual(actual, expected)) {
+    throw new AssertionError(message, expected, actual);
+  }
+}
+
+/** The first event of a type (optionally matching a predicate), or an AssertionError */
+export function assertEvent<T extends GameEventType>(
+  events: GameEvent[],
+  type: T,
+  predicate?: (event: GameEventOf<T>) => boolean,
+  message: string = `Expected a ${type} event`
+): GameEventOf<T> {
+  const match = eventsOfType(events, type).find((event) => !predicate || predicate(event));
+  if (!match) {
+    const seen = events.map((event) => event.type).join(', ') || 'none';
+    throw new AssertionError(`${message} (events: ${seen})`);
+  }
+  return match;
+}
+
+/** All events of a type, after checking how many there are */
+export function assertEventCount<T extends GameEventType>(
+  events: GameEvent[],
+  type: T,
+  count: number,
+  message: string = `Number of ${type} events`
+): GameEventOf<T>[] {
+  const matches = eventsOfType(events, type);
+  assertEqual(matches.length, count, message);
+  return matches;
+}
+
+/** Poll until `check` returns something other than undefined, null or false */
+export async function waitFor<T>(
+  check: () => T | undefined | null | false | Promise<T | undefined | null | false>,
+  options: WaitForOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const intervalMs = options.intervalMs ?? 500;
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    if (options.signal?.aborted) {
+      throw options.signal.reason ?? new ScenarioTimeoutError(`Waiting for ${options.description ?? 'condition'}`, timeoutMs);
+    }
+    const value = await check();
+    if (value !== undefined && value !== null && value !== false) {
+      return value;
+    }
+    if (Date.now() >= deadline) {
+      throw new ScenarioTimeoutError(`Waiting for ${options.description ?? 'condition'}`, timeoutMs);
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(intervalMs, Math.max(deadline - Date.now(), 0))));
+  }
+}
+
+function eventsOfType<T extends GameEventType>(events: GameEvent[], type: T): GameEventOf<T>[] {
+  return events.filter((event): event is GameEventOf<T> => event.type === type);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => isEqual(value, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'bigint'
+    ? `${value}n`
+    : JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? `${v}n` : v)) ?? String(value);
+}
+
+// ===== Reports =====
+
+/** One JUnit <testsuite> per scenario, one <testcase> per step and cleanup hook */
+export function toJUnitXml(results: ScenarioResult[], suiteName: string = 'crossy-robot-e2e'): string {
+  const count = (status: StepStatus) =>
+    results.reduce((total, result) => total + allSteps(result).filter((step) => step.status === status).length, 0);
+  const tests = results.reduce((total, result) => total + allSteps(result).length, 0);
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(suiteName)}" tests="${tests}" failures="${count('failed')}" ` +
+      `skipped="${count('skipped')}" time="${seconds(results.reduce((total, result) => total + result.durationMs, 0))}">`,
+  ];
+  for (const result of results) {
+    const steps = allSteps(result);
+    lines.push(
+      `  <testsuite name="${escapeXml(result.name)}" tests="${steps.length}" ` +
+      `failures="${steps.filter((step) => step.status === 'failed').length}" ` +
+      `skipped="${steps.filter((step) => step.status === 'skipped').length}" ` +
+      `timestamp="${result.startedAt}" time="${seconds(result.durationMs)}">`
+    );
+    for (const step of steps) {
+      const name = step.phase === 'cleanup' ? `cleanup: ${step.name}` : step.name;
+      const open = `    <testcase classname="${escapeXml(result.name)}" name="${escapeXml(name)}" time="${seconds(step.durationMs)}"`;
+      if (step.status === 'passed') {
+        lines.push(`${open}/>`);
+      } else if (step.status === 'skipped') {
+        lines.push(`${open}>`, '      <skipped/>', '    </testcase>');
+      } else {
+        lines.push(
+          `${open}>`,
+          `      <failure type="${escapeXml(step.error?.name ?? 'Error')}" message="${escapeXml(step.error?.message ?? '')}">` +
+          `${escapeXml(step.error?.stack ?? step.error?.message ?? '')}</failure>`,
+          '    </testcase>'
+        );
+      }
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+export function toJsonReport(results: ScenarioResult[]): string {
+  return `${JSON.stringify({
+    status: results.every((result) => result.status === 'passed') ? 'passed' : 'failed',
+    scenarios: results,
+  }, null, 2)}\n`;
+}
+
+/** Write `<basename>.junit.xml` and `<basename>.json` into a directory */
+export function writeScenarioReports(results: ScenarioResult[], dir: string, basename: string): ScenarioReportPaths {
+  fs.mkdirSync(dir, { recursive: true });
+  const junitPath = path.join(dir, `${basename}.junit.xml`);
+  const jsonPath = path.join(dir, `${basename}.json`);
+  fs.writeFileSync(junitPath, toJUnitXml(results));
+  fs.writeFileSync(jsonPath, toJsonReport(results));
+  return { junitPath, jsonPath };
+}
+
+/** One console line for a finished step, e.g. `✅ Create game (1.2s)` */
+export function formatStepResult(result: StepResult): string {
+  const icon = { passed: '✅', failed: '❌', skipped: '⏭️ ' }[result.status];
+  const label = result.phase === 'cleanup' ? `cleanup: ${result.name}` : result.name;
+  const detail = result.error ? `: ${result.error.message}` : '';
+  return `${icon} ${label} (${(result.durationMs / 1000).toFixed(1)}s)${detail}`;
+}
+
+function allSteps(result: ScenarioResult): StepResult[] {
+  return [...result.steps, ...result.cleanup];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab/newline/CR are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
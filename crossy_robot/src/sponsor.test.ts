@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { SuiClient } from '@mysten/sui/client';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { CrossyRobotClient } from './client';
+import { SponsorshipRejectedError } from './errors';
+import type { GasManager, PrepareOptions } from './gas';
+import { MoveSponsor, MoveSponsorOptions, SlidingWindowLimiter } from './sponsor';
+
+const packageId = normalizeSuiAddress(`0x${'5d'.repeat(32)}`);
+const gameId = `0x${'ab'.repeat(32)}`;
+const sponsorKey = Ed25519Keypair.fromSecretKey(new Uint8Array(32).fill(5));
+const sender = (byte: string) => `0x${byte.repeat(32)}`;
+
+/** Transaction kind with one Move call; all inputs are resolved, so no node is needed */
+async function kind(options: { module?: string; fn?: string; game?: string; gasCoin?: boolean; calls?: number } = {}) {
+  const tx = new Transaction();
+  for (let i = 0; i < (options.calls ?? 1); i++) {
+    tx.moveCall({
+      target: `${packageId}::${options.module ?? 'crowd_robot'}::${options.fn ?? 'move_robot'}`,
+      arguments: options.gasCoin
+        ? [tx.gas]
+        : [
+          tx.sharedObjectRef({ objectId: options.game ?? gameId, initialSharedVersion: 1, mutable: true }),
+          tx.pure.u8(0),
+          tx.sharedObjectRef({ objectId: '0x6', initialSharedVersion: 1, mutable: false }),
+        ],
+    });
+  }
+  return tx.build({ onlyTransactionKind: true });
+}
+
+/** Sponsor over a gas manager that hands out a new coin per transaction */
+function sponsor(options: Partial<MoveSponsorOptions> = {}) {
+  const gas = { prepared: 0, released: 0, maxCoinBalance: [] as (bigint | undefined)[] };
+  const gasManager = {
+    async prepare(tx: Transaction, _: string, prepareOptions: PrepareOptions) {
+      gas.prepared++;
+      gas.maxCoinBalance.push(prepareOptions.maxCoinBalance);
+      tx.setGasPrice(1000);
+      tx.setGasBudget(5_000_000);
+      tx.setGasPayment([{ objectId: normalizeSuiAddress(`0x${gas.prepared.toString(16)}`), version: '1', digest: '1'.repeat(32) }]);
+      let released = false;
+      return {
+        estimate: { computationCost: 0n, storageCost: 0n, storageRebate: 0n, netCost: 0n, budget: 5_000_000n, value: 0n, gasPrice: 1000n },
+        coins: [],
+        release: () => {
+          if (!released) {
+            released = true;
+            gas.released++;
+          }
+        },
+      };
+    },
+  };
+  const client = { packageId, suiClient: {} as SuiClient, gas: null } as unknown as CrossyRobotClient;
+  const moveSponsor = new MoveSponsor({ client, sponsor: sponsorKey, gas: gasManager as unknown as GasManager, ...options });
+  return { moveSponsor, gas };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<SponsorshipRejectedError> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof SponsorshipRejectedError);
+    return error;
+  }
+  assert.fail('expected a SponsorshipRejectedError');
+}
+
+describe('SlidingWindowLimiter', () => {
+  it('allows maxRequests per window and reports when the next is allowed', () => {
+    const limiter = new SlidingWindowLimiter({ maxRequests: 2, windowMs: 1000 });
+    limiter.record('a', 0);
+    assert.equal(limiter.retryAfter('a', 100), 0);
+    limiter.record('a', 100);
+    assert.equal(limiter.retryAfter('a', 200), 800);
+    assert.equal(limiter.retryAfter('b', 200), 0);
+    assert.equal(limiter.retryAfter('a', 999), 1);
+    assert.equal(limiter.retryAfter('a', 1000), 0);
+  });
+
+  it('forgets keys that are not used again', () => {
+    const limiter = new SlidingWindowLimiter({ maxRequests: 1, windowMs: 1000 });
+    for (let i = 0; i < 100; i++) {
+      limiter.record(`sender-${i}`, i);
+    }
+    assert.equal(limiter.size, 100);
+    limiter.record('late', 5000);
+    assert.equal(limiter.size, 1);
+  });
+});
+
+describe('MoveSponsor', () => {
+  it('co-signs an allowed call with gas from the pool', async () => {
+    const { moveSponsor, gas } = sponsor();
+    const sponsored = await moveSponsor.sponsor(sender('a1'), await kind());
+    assert.equal(sponsored.function, 'move_robot');
+    assert.equal(sponsored.gameId, normalizeSuiAddress(gameId));
+    assert.equal(sponsored.sender, sender('a1'));
+    assert.deepEqual(gas.maxCoinBalance, [50_000_000n]);
+    assert.equal(moveSponsor.pendingCount, 1);
+    moveSponsor.close();
+    assert.equal(gas.released, 1);
+  });
+
+  it('sponsors only single allowed crowd_robot calls without the gas coin', async () => {
+    const { moveSponsor, gas } = sponsor();
+    const refused = async (bytes: Uint8Array) => (await rejection(moveSponsor.sponsor(sender('a1'), bytes))).message;
+    assert.match(await refused(await kind({ module: 'crossy_robot' })), /Only calls into .*::crowd_robot/);
+    assert.match(await refused(await kind({ fn: 'end_game' })), /crowd_robot::end_game is not sponsored/);
+    assert.match(await refused(await kind({ calls: 2 })), /single Move call/);
+    assert.match(await refused(await kind({ gasCoin: true })), /gas coin/);
+    assert.match(await refused(new Uint8Array([1, 2, 3])), /could not be decoded/);
+    assert.equal(gas.prepared, 0);
+
+    const custom = sponsor({ allowedFunctions: ['end_game'] }).moveSponsor;
+    assert.equal((await custom.sponsor(sender('a1'), await kind({ fn: 'end_game' }))).function, 'end_game');
+    custom.close();
+  });
+
+  it('rate-limits senders and games', async () => {
+    const { moveSponsor } = sponsor({ perAddress: { maxRequests: 1, windowMs: 60_000 }, perGame: { maxRequests: 2, windowMs: 60_000 } });
+    await moveSponsor.sponsor(sender('a1'), await kind());
+    const bySender = await rejection(moveSponsor.sponsor(sender('a1'), await kind({ game: '0xcd' })));
+    assert.equal(bySender.reason, 'rate_limited');
+    assert.ok(bySender.retryAfterMs! > 59_000);
+
+    await moveSponsor.sponsor(sender('b2'), await kind());
+    assert.equal((await rejection(moveSponsor.sponsor(sender('c3'), await kind()))).reason, 'rate_limited');
+    await moveSponsor.sponsor(sender('c3'), await kind({ game: '0xcd' }));
+    moveSponsor.close();
+  });
+
+  it('caps sponsorships awaiting execution per sender and in total', async () => {
+    const { moveSponsor, gas } = sponsor({ perAddress: null, perGame: null, maxPendingPerSender: 2, maxPending: 3 });
+    await moveSponsor.sponsor(sender('a1'), await kind());
+    await moveSponsor.sponsor(sender('a1'), await kind());
+    const perSender = await rejection(moveSponsor.sponsor(sender('a1'), await kind()));
+    assert.match(perSender.message, /for this sender/);
+    assert.ok(perSender.retryAfterMs! > 0 && perSender.retryAfterMs! <= 20_000);
+
+    await moveSponsor.sponsor(sender('b2'), await kind());
+    const total = await rejection(moveSponsor.sponsor(sender('c3'), await kind()));
+    assert.equal(total.reason, 'rate_limited');
+    assert.doesNotMatch(total.message, /for this sender/);
+    assert.equal(gas.prepared, 3);
+    moveSponsor.close();
+  });
+
+  it('releases the gas and the slot of an expired signature', async () => {
+    const { moveSponsor, gas } = sponsor({ perAddress: null, maxPendingPerSender: 1, signatureTtlMs: 20 });
+    const sponsored = await moveSponsor.sponsor(sender('a1'), await kind());
+    await rejection(moveSponsor.sponsor(sender('a1'), await kind()));
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    assert.equal(moveSponsor.pendingCount, 0);
+    assert.equal(gas.released, 1);
+    assert.equal((await rejection(moveSponsor.execute(sponsored.transactionBytes, 'signature'))).reason, 'unknown_transaction');
+
+    await moveSponsor.sponsor(sender('a1'), await kind());
+    moveSponsor.close();
+  });
+
+  it('releases the slot when preparing gas fails', async () => {
+    const failing = new MoveSponsor({
+      client: { packageId, suiClient: {}, gas: null } as unknown as CrossyRobotClient,
+      sponsor: sponsorKey,
+      gas: { prepare: async () => { throw new Error('No valid gas coins'); } } as unknown as GasManager,
+      perAddress: null,
+      maxPendingPerSender: 1,
+    });
+    await assert.rejects(failing.sponsor(sender('a1'), await kind()), /No valid gas coins/);
+    await assert.rejects(failing.sponsor(sender('a1'), await kind()), /No valid gas coins/);
+  });
+
+  it('splits coins off until the gas pool is full', async () => {
+    const splits: [number, bigint][] = [];
+    const coin = (balance: bigint) => ({ objectId: '0x1', version: '1', digest: '1'.repeat(32), balance });
+    const pooled = new MoveSponsor({
+      client: { packageId, suiClient: {}, gas: null } as unknown as CrossyRobotClient,
+      sponsor: sponsorKey,
+      gasCoinBalance: 1_000n,
+      gas: {
+        getGasCoins: async () => [coin(1_000_000n), coin(1_000n), coin(400n)],
+        splitGasCoins: async (_: unknown, count: number, amount: bigint) => void splits.push([count, amount]),
+      } as unknown as GasManager,
+    });
+    assert.equal(await pooled.fillGasPool(5), 5);
+    assert.deepEqual(splits, [[3, 1_000n]]);
+    assert.equal(await pooled.fillGasPool(2), 2);
+    assert.equal(splits.length, 1);
+  });
+
+  it('validates its options', () => {
+    const client = { packageId, suiClient: {}, gas: null } as unknown as CrossyRobotClient;
+    assert.throws(() => new MoveSponsor({ client, sponsor: sponsorKey, maxPending: 0 }), RangeError);
+    assert.throws(() => new MoveSponsor({ client, sponsor: sponsorKey, maxPendingPerSender: 1.5 }), RangeError);
+    assert.throws(() => new MoveSponsor({ client, sponsor: sponsorKey, gasCoinBalance: 0n }), RangeError);
+    assert.throws(() => new MoveSponsor({ client, sponsor: sponsorKey, perAddress: { maxRequests: 0, windowMs: 1 } }), RangeError);
+  });
+});
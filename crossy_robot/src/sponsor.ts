@@ -0,0 +1,393 @@
+/**
+ * Move Sponsor
+ *
+ * Pays gas for crowd_robot calls so players need no SUI. A player builds a
+ * transaction kind (`buildCrowdMoveKind`) and sends it with their address.
+ * The sponsor checks it and adds its own gas coins. It then dry-runs and
+ * co-signs the transaction. The player signs the same bytes, and the
+ * transaction executes with both signatures.
+ *
+ * Only calls into the package's crowd_robot module are sponsored, one call
+ * per transaction, and never with the gas coin as an argument. Each sender
+ * and each game has a sliding-window rate limit, counted when the sponsor
+ * signs. Senders are not authenticated, so the number of sponsorships
+ * awaiting execution is also capped per sender and in total. Each one
+ * reserves a small coin from a pool split off in advance (`fillGasPool`)
+ * until the transaction has executed through `execute` or the signature
+ * expires.
+ */
+
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { CrossyRobotClient, TransactionOutcome } from './client';
+import { CLOCK_OBJECT_ID } from './constants';
+import { ConfigurationError, SponsorshipRejectedError } from './errors';
+import { decodeGameEvents } from './events';
+import { GasEstimate, GasManager, GasReservation } from './gas';
+import { transactionFailure } from './move-abort';
+import { TransactionContents, summarizeMoveCalls } from './move-calls';
+
+export interface RateLimit {
+  /** Sponsored transactions allowed per window */
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface SponsoredTransaction {
+  /** Full transaction data with the sponsor's gas; the sender signs these bytes */
+  transactionBytes: Uint8Array;
+  sponsorSignature: string;
+  sender: string;
+  /** crowd_robot function called */
+  function: string;
+  /** Game passed to the call, if any */
+  gameId: string | null;
+  estimate: GasEstimate;
+  /** Local time after which `execute` no longer accepts the transaction */
+  expiresAt: number;
+}
+
+/** Callbacks through which the sponsor reports what it pays for */
+export interface MoveSponsorHandlers {
+  onSponsored?(transaction: SponsoredTransaction): void;
+  onRejected?(sender: string, error: SponsorshipRejectedError): void;
+  onExecuted?(transaction: SponsoredTransaction, outcome: TransactionOutcome): void;
+}
+
+export interface MoveSponsorOptions {
+  client: CrossyRobotClient;
+  /** Wallet paying the gas */
+  sponsor: Signer;
+  /** Coin selection and budgets (default: the client's GasManager) */
+  gas?: GasManager;
+  /** crowd_robot functions that may be sponsored (default: ['move_robot']) */
+  allowedFunctions?: string[];
+  /** Limit per sender; null disables it (default: 30 per minute) */
+  perAddress?: RateLimit | null;
+  /** Limit per game; null disables it (default: 300 per minute) */
+  perGame?: RateLimit | null;
+  /** Sponsorships of one sender awaiting execution (default: 2) */
+  maxPendingPerSender?: number;
+  /** Sponsorships awaiting execution across all senders (default: 100) */
+  maxPending?: number;
+  /**
+   * Pay each transaction from coins of at most this many MIST, split off
+   * with `fillGasPool`; null lets a transaction reserve any coin
+   * (default: 50_000_000)
+   */
+  gasCoinBalance?: bigint | null;
+  /** How long a sponsor signature holds its gas coins (default: 20000) */
+  signatureTtlMs?: number;
+  handlers?: MoveSponsorHandlers;
+}
+
+/** Counts requests per key within a sliding window */
+export class SlidingWindowLimiter {
+  private readonly hits = new Map<string, number[]>();
+  private lastSweep = 0;
+
+  constructor(private readonly limit: RateLimit) {}
+
+  /** Keys with requests in the current window */
+  get size(): number {
+    return this.hits.size;
+  }
+
+  /** Milliseconds until `key` may be used again; 0 if it may be used now */
+  retryAfter(key: string, now: number): number {
+    const recent = this.prune(key, now);
+    return recent.length < this.limit.maxRequests ? 0 : recent[0] + this.limit.windowMs - now;
+  }
+
+  record(key: string, now: number): void {
+    this.hits.set(key, [...this.prune(key, now), now]);
+    // Keys that are never used again are dropped once per window
+    if (now - this.lastSweep >= this.limit.windowMs) {
+      this.lastSweep = now;
+      for (const stale of this.hits.keys()) {
+        this.prune(stale, now);
+      }
+    }
+  }
+
+  private prune(key: string, now: number): number[] {
+    const recent = (this.hits.get(key) ?? []).filter((time) => time > now - this.limit.windowMs);
+    if (recent.length === 0) {
+      this.hits.delete(key);
+    }
+    return recent;
+  }
+}
+
+interface PendingTransaction {
+  transaction: SponsoredTransaction;
+  reservation: GasReservation;
+  timer: NodeJS.Timeout;
+}
+
+export class MoveSponsor {
+  public readonly address: string;
+  private readonly client: CrossyRobotClient;
+  private readonly signer: Signer;
+  private readonly gas: GasManager;
+  private readonly allowedFunctions: readonly string[];
+  private readonly addressLimiter: SlidingWindowLimiter | null;
+  private readonly gameLimiter: SlidingWindowLimiter | null;
+  private readonly maxPendingPerSender: number;
+  private readonly maxPending: number;
+  private readonly gasCoinBalance: bigint | null;
+  private readonly signatureTtlMs: number;
+  private readonly handlers: MoveSponsorHandlers;
+  /** Signed but not yet executed, by base64 transaction bytes */
+  private readonly pending = new Map<string, PendingTransaction>();
+  /** Sponsorships being signed or awaiting execution, per sender */
+  private readonly outstanding = new Map<string, number>();
+  private outstandingTotal = 0;
+
+  constructor(options: MoveSponsorOptions) {
+    for (const [name, limit] of [['perAddress', options.perAddress], ['perGame', options.perGame]] as const) {
+      if (limit && (!Number.isInteger(limit.maxRequests) || limit.maxRequests < 1 || !(limit.windowMs > 0))) {
+        throw new RangeError(`${name} needs a positive integer maxRequests and a positive windowMs`);
+      }
+    }
+    for (const name of ['maxPendingPerSender', 'maxPending'] as const) {
+      const value = options[name];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new RangeError(`${name} must be a positive integer`);
+      }
+    }
+    if (options.gasCoinBalance !== undefined && options.gasCoinBalance !== null && options.gasCoinBalance <= 0n) {
+      throw new RangeError('gasCoinBalance must be positive');
+    }
+    if (options.signatureTtlMs !== undefined && !(options.signatureTtlMs > 0)) {
+      throw new RangeError('signatureTtlMs must be a positive number');
+    }
+    this.client = options.client;
+    this.signer = options.sponsor;
+    this.address = normalizeSuiAddress(options.sponsor.toSuiAddress());
+    this.gas = options.gas ?? options.client.gas ?? new GasManager({ client: options.client.suiClient });
+    this.allowedFunctions = options.allowedFunctions ?? ['move_robot'];
+    const perAddress = options.perAddress === undefined ? { maxRequests: 30, windowMs: 60_000 } : options.perAddress;
+    const perGame = options.perGame === undefined ? { maxRequests: 300, windowMs: 60_000 } : options.perGame;
+    this.addressLimiter = perAddress ? new SlidingWindowLimiter(perAddress) : null;
+    this.gameLimiter = perGame ? new SlidingWindowLimiter(perGame) : null;
+    this.maxPendingPerSender = options.maxPendingPerSender ?? 2;
+    this.maxPending = options.maxPending ?? 100;
+    this.gasCoinBalance = options.gasCoinBalance === undefined ? 50_000_000n : options.gasCoinBalance;
+    this.signatureTtlMs = options.signatureTtlMs ?? 20_000;
+    this.handlers = options.handlers ?? {};
+  }
+
+  /** Sponsor signatures whose transaction has not executed through `execute` yet */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Split coins of `gasCoinBalance` off the sponsor's larger coins until it
+   * holds `size` of them. Returns the number of pool coins.
+   *
+   * @throws ConfigurationError if the sponsor has no gasCoinBalance
+   */
+  async fillGasPool(size: number): Promise<number> {
+    if (this.gasCoinBalance === null) {
+      throw new ConfigurationError('The sponsor pays from any coin; set gasCoinBalance to use a gas pool');
+    }
+    if (!Number.isInteger(size) || size < 1) {
+      throw new RangeError('size must be a positive integer');
+    }
+    const coins = await this.gas.getGasCoins(this.address);
+    const pooled = coins.filter((coin) => coin.balance <= this.gasCoinBalance!).length;
+    if (pooled < size) {
+      await this.gas.splitGasCoins(this.signer, size - pooled, this.gasCoinBalance);
+    }
+    return Math.max(pooled, size);
+  }
+
+  /**
+   * Check a player's transaction kind, add gas and co-sign it.
+   *
+   * @throws SponsorshipRejectedError if the call is not allowed, a rate
+   * limit is reached or too many sponsorships await execution; errors from
+   * the dry run (e.g. a Move abort) pass through
+   */
+  async sponsor(sender: string, transactionKind: Uint8Array): Promise<SponsoredTransaction> {
+    const owner = normalizeSuiAddress(sender);
+    try {
+      return await this.sponsorChecked(owner, transactionKind);
+    } catch (error) {
+      if (error instanceof SponsorshipRejectedError) {
+        this.handlers.onRejected?.(owner, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Execute a sponsored transaction with the sender's signature over its bytes.
+   *
+   * @throws SponsorshipRejectedError ('unknown_transaction') if the bytes were
+   * not signed by this sponsor or the signature expired
+   */
+  async execute(transactionBytes: Uint8Array, senderSignature: string): Promise<TransactionOutcome> {
+    const key = toBase64(transactionBytes);
+    const entry = this.pending.get(key);
+    if (!entry) {
+      throw new SponsorshipRejectedError('unknown_transaction', 'Transaction was not sponsored here or its signature expired');
+    }
+    this.pending.delete(key);
+    clearTimeout(entry.timer);
+    this.settle(entry.transaction.sender);
+
+    let result: SuiTransactionBlockResponse | undefined;
+    try {
+      result = await this.client.suiClient.executeTransactionBlock({
+        transactionBlock: transactionBytes,
+        signature: [senderSignature, entry.transaction.sponsorSignature],
+        options: { showEffects: true, showEvents: true },
+      });
+    } finally {
+      entry.reservation.release(result);
+    }
+    if (result.effects?.status?.status !== 'success') {
+      throw transactionFailure('Sponsored transaction', result.digest, result.effects?.status?.error);
+    }
+
+    const outcome = { digest: result.digest, events: decodeGameEvents(result.events ?? [], this.client.packageId) };
+    this.handlers.onExecuted?.(entry.transaction, outcome);
+    return outcome;
+  }
+
+  /** Release the gas coins of every unexecuted sponsorship */
+  close(): void {
+    for (const { reservation, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reservation.release();
+    }
+    this.pending.clear();
+    this.outstanding.clear();
+    this.outstandingTotal = 0;
+  }
+
+  private async sponsorChecked(sender: string, transactionKind: Uint8Array): Promise<SponsoredTransaction> {
+    let tx: Transaction;
+    try {
+      tx = Transaction.fromKind(transactionKind);
+    } catch {
+      throw new SponsorshipRejectedError('not_allowed', 'Transaction kind could not be decoded');
+    }
+    const { function: fn, gameId } = this.allowedCall(tx.getData());
+
+    const now = Date.now();
+    const retryAfterMs = Math.max(
+      this.addressLimiter?.retryAfter(sender, now) ?? 0,
+      gameId ? this.gameLimiter?.retryAfter(gameId, now) ?? 0 : 0
+    );
+    if (retryAfterMs > 0) {
+      throw new SponsorshipRejectedError('rate_limited', `Sponsorship limit reached; retry in ${retryAfterMs}ms`, retryAfterMs);
+    }
+    const perSender = (this.outstanding.get(sender) ?? 0) >= this.maxPendingPerSender;
+    if (perSender || this.outstandingTotal >= this.maxPending) {
+      const retryAfter = this.pendingExpiry(perSender ? sender : null, now);
+      throw new SponsorshipRejectedError(
+        'rate_limited',
+        `Too many sponsored transactions await execution${perSender ? ' for this sender' : ''}; retry in ${retryAfter}ms`,
+        retryAfter
+      );
+    }
+    this.addressLimiter?.record(sender, now);
+    if (gameId) {
+      this.gameLimiter?.record(gameId, now);
+    }
+
+    this.outstanding.set(sender, (this.outstanding.get(sender) ?? 0) + 1);
+    this.outstandingTotal++;
+    tx.setSender(sender);
+    let reservation: GasReservation;
+    try {
+      reservation = await this.gas.prepare(tx, this.address, {
+        action: `Sponsored ${fn}`,
+        maxCoinBalance: this.gasCoinBalance ?? undefined,
+      });
+    } catch (error) {
+      this.settle(sender);
+      throw error;
+    }
+    let transaction: SponsoredTransaction;
+    try {
+      if (reservation.estimate.value > 0n) {
+        throw new SponsorshipRejectedError('not_allowed', 'Transaction draws SUI from the sponsor beyond gas');
+      }
+      const transactionBytes = await tx.build({ client: this.client.suiClient });
+      const { signature } = await this.signer.signTransaction(transactionBytes);
+      transaction = {
+        transactionBytes,
+        sponsorSignature: signature,
+        sender,
+        function: fn,
+        gameId,
+        estimate: reservation.estimate,
+        expiresAt: Date.now() + this.signatureTtlMs,
+      };
+    } catch (error) {
+      reservation.release();
+      this.settle(sender);
+      throw error;
+    }
+
+    const key = toBase64(transaction.transactionBytes);
+    const timer = setTimeout(() => {
+      // The sender may have executed it directly; the coins' new versions are re-read
+      this.pending.delete(key);
+      this.settle(sender);
+      reservation.release();
+    }, this.signatureTtlMs);
+    timer.unref();
+    this.pending.set(key, { transaction, reservation, timer });
+    this.handlers.onSponsored?.(transaction);
+    return transaction;
+  }
+
+  /** A sponsorship of `sender` no longer awaits execution */
+  private settle(sender: string): void {
+    const count = (this.outstanding.get(sender) ?? 0) - 1;
+    if (count > 0) {
+      this.outstanding.set(sender, count);
+    } else {
+      this.outstanding.delete(sender);
+    }
+    this.outstandingTotal = Math.max(this.outstandingTotal - 1, 0);
+  }
+
+  /** Milliseconds until the first signature of `sender` (or any sender) expires */
+  private pendingExpiry(sender: string | null, now: number): number {
+    const expiries = [...this.pending.values()]
+      .filter(({ transaction }) => sender === null || transaction.sender === sender)
+      .map(({ transaction }) => transaction.expiresAt);
+    // Sponsorships still being signed hold their slot for a full signature lifetime
+    return expiries.length > 0 ? Math.max(Math.min(...expiries) - now, 1) : this.signatureTtlMs;
+  }
+
+  /** The single allowed crowd_robot call of a transaction kind */
+  private allowedCall(data: TransactionContents): { function: string; gameId: string | null } {
+    const calls = summarizeMoveCalls(data);
+    const call = calls[0];
+    if (calls.length !== 1 || !call) {
+      throw new SponsorshipRejectedError('not_allowed', 'Only a single Move call is sponsored');
+    }
+    if (call.package !== this.client.packageId || call.module !== 'crowd_robot') {
+      throw new SponsorshipRejectedError('not_allowed', `Only calls into ${this.client.packageId}::crowd_robot are sponsored`);
+    }
+    if (!this.allowedFunctions.includes(call.function)) {
+      throw new SponsorshipRejectedError('not_allowed', `crowd_robot::${call.function} is not sponsored`);
+    }
+    if (call.usesGasCoin) {
+      throw new SponsorshipRejectedError('not_allowed', 'The gas coin cannot be passed to a sponsored call');
+    }
+    // Every crowd_robot entry point that takes a game takes it first; create_game only takes the Clock
+    const first = call.objectArguments[0] ?? null;
+    return { function: call.function, gameId: first === normalizeSuiAddress(CLOCK_OBJECT_ID) ? null : first };
+  }
+}
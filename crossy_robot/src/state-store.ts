@@ -0,0 +1,45 @@
+/**
+ * Durable JSON state for long-running processes.
+ *
+ * Writes go to a temporary file that is renamed over the target, so a crash
+ * mid-write leaves the previous state intact.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigurationError } from './errors';
+
+export class JsonStateStore<T extends object> {
+  constructor(
+    public readonly filePath: string,
+    private readonly initialState: T
+  ) {}
+
+  /** Read the stored state, or the initial state if nothing was saved yet */
+  load(): T {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.initialState;
+      }
+      throw new ConfigurationError(`Could not read state file ${this.filePath}`, { cause: error });
+    }
+
+    try {
+      return { ...this.initialState, ...JSON.parse(raw) };
+    } catch (error) {
+      throw new ConfigurationError(`State file ${this.filePath} is not valid JSON`, { cause: error });
+    }
+  }
+
+  save(state: T): void {
+    const tmpPath = path.join(
+      path.dirname(this.filePath),
+      `.${path.basename(this.filePath)}.${process.pid}.tmp`
+    );
+    fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
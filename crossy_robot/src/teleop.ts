@@ -0,0 +1,262 @@
+/**
+ * Teleoperation Controller
+ *
+ * Drives one game from key presses. Keys map to the eight directions
+ * (arrows, numpad, QWE/ASD/ZXC). Moves are sent one at a time from a short
+ * queue, so key repeat cannot flood the shared Game object. Further presses
+ * are dropped while the queue is full. Every command is tracked from queued
+ * through in flight to confirmed, with its latency.
+ *
+ * The robot's position is dead-reckoned on the grid from the game's
+ * RobotMoved events, which include other players' moves in crowd games.
+ */
+
+import type { Signer } from '@mysten/sui/cryptography';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DIRECTION_HEADINGS, DIRECTION_VECTORS, Pose } from './actuator';
+import { CrossyRobotClient } from './client';
+import { DIRECTIONS, Direction, GameModule } from './constants';
+import { GameEvent } from './events';
+
+// ===== Key bindings =====
+
+/**
+ * Terminal input for each direction. QWE/ASD/ZXC and the numpad digits
+ * follow the keyboard grid; S and 5 are the centre and send nothing.
+ * Home/PgUp/End/PgDn cover the numpad diagonals with NumLock off.
+ */
+export const TELEOP_KEY_BINDINGS: Readonly<Record<string, Direction>> = {
+  // Arrow keys (normal and application cursor mode)
+  '\x1b[A': DIRECTIONS.UP,
+  '\x1b[B': DIRECTIONS.DOWN,
+  '\x1b[C': DIRECTIONS.RIGHT,
+  '\x1b[D': DIRECTIONS.LEFT,
+  '\x1bOA': DIRECTIONS.UP,
+  '\x1bOB': DIRECTIONS.DOWN,
+  '\x1bOC': DIRECTIONS.RIGHT,
+  '\x1bOD': DIRECTIONS.LEFT,
+  // Numpad with NumLock on
+  '8': DIRECTIONS.UP,
+  '2': DIRECTIONS.DOWN,
+  '4': DIRECTIONS.LEFT,
+  '6': DIRECTIONS.RIGHT,
+  '9': DIRECTIONS.UP_RIGHT,
+  '7': DIRECTIONS.UP_LEFT,
+  '1': DIRECTIONS.DOWN_LEFT,
+  '3': DIRECTIONS.DOWN_RIGHT,
+  // Numpad diagonals with NumLock off
+  '\x1b[H': DIRECTIONS.UP_LEFT,
+  '\x1b[1~': DIRECTIONS.UP_LEFT,
+  '\x1bOH': DIRECTIONS.UP_LEFT,
+  '\x1b[5~': DIRECTIONS.UP_RIGHT,
+  '\x1b[F': DIRECTIONS.DOWN_LEFT,
+  '\x1b[4~': DIRECTIONS.DOWN_LEFT,
+  '\x1bOF': DIRECTIONS.DOWN_LEFT,
+  '\x1b[6~': DIRECTIONS.DOWN_RIGHT,
+  // Letter grid
+  'w': DIRECTIONS.UP,
+  'x': DIRECTIONS.DOWN,
+  'a': DIRECTIONS.LEFT,
+  'd': DIRECTIONS.RIGHT,
+  'e': DIRECTIONS.UP_RIGHT,
+  'q': DIRECTIONS.UP_LEFT,
+  'z': DIRECTIONS.DOWN_LEFT,
+  'c': DIRECTIONS.DOWN_RIGHT,
+};
+
+/** Direction bound to a key, or null for unbound keys */
+export function keyDirection(key: string): Direction | null {
+  return TELEOP_KEY_BINDINGS[key.length === 1 ? key.toLowerCase() : key] ?? null;
+}
+
+/**
+ * Split a chunk of raw terminal input into keys. Key repeat and pasting
+ * deliver several keys per chunk; escape sequences are kept whole.
+ */
+export function splitKeys(chunk: string): string[] {
+  return chunk.match(/\x1b\[[0-9;]*[A-Za-z~]|\x1bO[A-Za-z]|\x1b|[\s\S]/g) ?? [];
+}
+
+// ===== Controller =====
+
+export type TeleopCommandStatus = 'queued' | 'in_flight' | 'confirmed' | 'expired' | 'failed';
+
+export interface TeleopCommand {
+  /** Sequential command number, starting at 1 */
+  id: number;
+  direction: Direction;
+  status: TeleopCommandStatus;
+  queuedAt: number;
+  sentAt?: number;
+  settledAt?: number;
+  /** Time from sending to the executed transaction */
+  latencyMs?: number;
+  digest?: string;
+  error?: unknown;
+}
+
+export interface TeleopStats {
+  sent: number;
+  confirmed: number;
+  /** Executed after a crowd game expired; the game ended instead of moving */
+  expired: number;
+  failed: number;
+  /** Key presses ignored because the queue was full */
+  dropped: number;
+}
+
+export interface TeleopHandlers {
+  /** Commands, pose or stats changed */
+  onChange?(): void;
+  /** A command failed; it is also kept in `commands` with status 'failed' */
+  onError?(error: unknown, command: TeleopCommand): void;
+}
+
+export interface TeleopControllerOptions {
+  client: CrossyRobotClient;
+  signer: Signer;
+  gameId: string;
+  module: GameModule;
+  /** Moves that may wait behind the one in flight (default: 2) */
+  maxQueued?: number;
+  /** Settled commands kept in `commands` (default: 10) */
+  historySize?: number;
+  /** Pose before the game's first move (default: origin, facing UP) */
+  start?: Pose;
+  handlers?: TeleopHandlers;
+}
+
+export class TeleopController {
+  private readonly client: CrossyRobotClient;
+  private readonly signer: Signer;
+  private readonly gameId: string;
+  private readonly module: GameModule;
+  private readonly maxQueued: number;
+  private readonly historySize: number;
+  private readonly handlers: TeleopHandlers;
+  private readonly queue: TeleopCommand[] = [];
+  private readonly history: TeleopCommand[] = [];
+  private inFlight: TeleopCommand | null = null;
+  private idle: Promise<void> = Promise.resolve();
+  private nextId = 1;
+  private currentPose: Pose;
+  private moveCount = 0;
+  private readonly counters: TeleopStats = { sent: 0, confirmed: 0, expired: 0, failed: 0, dropped: 0 };
+
+  constructor(options: TeleopControllerOptions) {
+    if (options.maxQueued !== undefined && (!Number.isInteger(options.maxQueued) || options.maxQueued < 0)) {
+      throw new RangeError('maxQueued must be a non-negative integer');
+    }
+    if (options.historySize !== undefined && (!Number.isInteger(options.historySize) || options.historySize < 0)) {
+      throw new RangeError('historySize must be a non-negative integer');
+    }
+    this.client = options.client;
+    this.signer = options.signer;
+    this.gameId = normalizeSuiAddress(options.gameId);
+    this.module = options.module;
+    this.maxQueued = options.maxQueued ?? 2;
+    this.historySize = options.historySize ?? 10;
+    this.handlers = options.handlers ?? {};
+    this.currentPose = { ...(options.start ?? { x: 0, y: 0, heading: 0 }) };
+  }
+
+  /** Settled commands (oldest first), then the one in flight, then the queue */
+  get commands(): TeleopCommand[] {
+    return [...this.history, ...(this.inFlight ? [this.inFlight] : []), ...this.queue].map((command) => ({ ...command }));
+  }
+
+  /** Last known pose, from the game's RobotMoved events */
+  get pose(): Pose {
+    return { ...this.currentPose };
+  }
+
+  /** RobotMoved events applied to the pose */
+  get moves(): number {
+    return this.moveCount;
+  }
+
+  get stats(): TeleopStats {
+    return { ...this.counters };
+  }
+
+  /** Queue a move; returns null if the queue is full and the press was dropped */
+  press(direction: Direction): TeleopCommand | null {
+    if (this.queue.length >= this.maxQueued && this.inFlight) {
+      this.counters.dropped++;
+      this.handlers.onChange?.();
+      return null;
+    }
+
+    const command: TeleopCommand = { id: this.nextId++, direction, status: 'queued', queuedAt: Date.now() };
+    this.queue.push(command);
+    if (!this.inFlight) {
+      this.idle = this.drainQueue();
+    }
+    this.handlers.onChange?.();
+    return { ...command };
+  }
+
+  /** Drop queued moves that have not been sent; returns how many */
+  clear(): number {
+    const cleared = this.queue.splice(0).length;
+    if (cleared > 0) {
+      this.handlers.onChange?.();
+    }
+    return cleared;
+  }
+
+  /** Resolves once the queue is empty and nothing is in flight */
+  async drain(): Promise<void> {
+    await this.idle;
+  }
+
+  /** Apply a decoded event; RobotMoved events of this game move the pose */
+  applyEvent(event: GameEvent): void {
+    if (event.data.game_id !== this.gameId) {
+      return;
+    }
+    if (event.type === 'crossy_robot::RobotMoved' || event.type === 'crowd_robot::RobotMoved') {
+      const { dx, dy } = DIRECTION_VECTORS[event.data.direction];
+      this.currentPose = {
+        x: this.currentPose.x + dx,
+        y: this.currentPose.y + dy,
+        heading: DIRECTION_HEADINGS[event.data.direction],
+      };
+      this.moveCount++;
+      this.handlers.onChange?.();
+    }
+  }
+
+  private async drainQueue(): Promise<void> {
+    let command: TeleopCommand | undefined;
+    while ((command = this.queue.shift())) {
+      this.inFlight = command;
+      command.status = 'in_flight';
+      command.sentAt = Date.now();
+      this.counters.sent++;
+      this.handlers.onChange?.();
+
+      try {
+        const { digest, events } = this.module === 'crowd_robot'
+          ? await this.client.moveCrowdRobot(this.signer, this.gameId, command.direction)
+          : await this.client.moveRobot(this.signer, this.gameId, command.direction);
+        command.digest = digest;
+        // A crowd move after end_time executes but only ends the game
+        command.status = events.some((event) => event.type === `${this.module}::RobotMoved`) ? 'confirmed' : 'expired';
+        this.counters[command.status === 'confirmed' ? 'confirmed' : 'expired']++;
+      } catch (error) {
+        command.status = 'failed';
+        command.error = error;
+        this.counters.failed++;
+        this.handlers.onError?.(error, { ...command });
+      }
+
+      command.settledAt = Date.now();
+      command.latencyMs = command.settledAt - command.sentAt;
+      this.inFlight = null;
+      this.history.push(command);
+      this.history.splice(0, Math.max(this.history.length - this.historySize, 0));
+      this.handlers.onChange?.();
+    }
+  }
+}
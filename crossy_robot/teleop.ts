@@ -0,0 +1,301 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Crossy Robot Teleop
+ *
+ * Interactive keyboard controller for demos and manual robot tests. Arrow
+ * keys, the numpad and QWE/ASD/ZXC send the eight directions. The screen
+ * shows queued, in-flight and confirmed commands with their latency, the
+ * robot's last known position and the game status.
+ *
+ * Usage:
+ *   npx ts-node teleop.ts --game <id> [options]
+ *   npx ts-node teleop.ts --create [--crowd] [options]
+ *
+ * Options:
+ *   --game <id>        Drive an existing crossy_robot or crowd_robot game
+ *   --create           Create a new game first (crossy_robot games need a
+ *                      robot to connect before moves are accepted)
+ *   --crowd            With --create: create a crowd_robot game
+ *   --key <role>       Key role from .env (default: user)
+ *   --queue <n>        Moves that may wait behind the one in flight; extra
+ *                      key presses are dropped (default: 2)
+ *   --network <name>   Network profile (default: SUI_NETWORK, then testnet)
+ *
+ * Keys: Esc clears the queue, Ctrl+C quits after the move in flight lands.
+ * The position is relative to where the robot stood when teleop started.
+ */
+
+import * as dotenv from 'dotenv';
+import {
+  CROWD_GAME_STATUS,
+  CrossyRobotClient,
+  CrowdGameView,
+  DIRECTION_NAMES,
+  GAME_STATUS,
+  GameEventStream,
+  GameModule,
+  GameState,
+  MoveAbortError,
+  TeleopCommand,
+  TeleopController,
+  keyDirection,
+  loadKeypairFromEnv,
+  loadNetworkProfile,
+  roleEnvVar,
+  splitKeys
+} from './src';
+
+// Load environment variables
+dotenv.config();
+
+const STATUS_REFRESH_MS = 2000;
+const HEADING_ARROWS: Record<number, string> = { 0: '↑', 45: '↗', 90: '→', 135: '↘', 180: '↓', 225: '↙', 270: '←', 315: '↖' };
+
+interface Options {
+  gameId?: string;
+  create: boolean;
+  crowd: boolean;
+  role: string;
+  maxQueued: number;
+  network?: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { create: false, crowd: false, role: 'user', maxQueued: 2 };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) {
+        throw new Error(`${arg} needs a value`);
+      }
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '--game':
+        options.gameId = value();
+        break;
+      case '--create':
+        options.create = true;
+        break;
+      case '--crowd':
+        options.crowd = true;
+        break;
+      case '--key':
+        options.role = value();
+        break;
+      case '--queue':
+        options.maxQueued = parseInt(value());
+        if (!Number.isInteger(options.maxQueued) || options.maxQueued < 0) {
+          throw new Error('--queue must be a non-negative integer');
+        }
+        break;
+      case '--network':
+        options.network = value();
+        break;
+      default:
+        throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  if (!options.gameId === !options.create) {
+    throw new Error('Pass either --game <id> or --create');
+  }
+  return options;
+}
+
+// ===== Screen =====
+
+type GameStatusView =
+  | { module: 'crossy_robot'; game: GameState }
+  | { module: 'crowd_robot'; view: CrowdGameView };
+
+function statusLine(status: GameStatusView | null): string {
+  if (!status) {
+    return 'loading...';
+  }
+  if (status.module === 'crossy_robot') {
+    const { game } = status;
+    return game.status === GAME_STATUS.ACTIVE
+      ? `ACTIVE, robot ${game.robot}`
+      : 'WAITING_FOR_ROBOT (moves are rejected until a robot connects)';
+  }
+  const { game, expired, timeRemainingMs } = status.view;
+  const state = game.status === CROWD_GAME_STATUS.ENDED ? 'ENDED'
+    : expired ? 'EXPIRED (not yet ended)'
+    : game.status === CROWD_GAME_STATUS.ACTIVE ? 'ACTIVE' : 'WAITING';
+  const remaining = expired ? '' : `, ${Math.ceil(Number(timeRemainingMs) / 1000)}s left`;
+  return `${state}${remaining}, ${game.total_moves} moves by ${game.players.length} players`;
+}
+
+function commandLine(command: TeleopCommand): string {
+  const labels: Record<TeleopCommand['status'], string> = {
+    queued: '⏳ queued',
+    in_flight: '🚀 in flight',
+    confirmed: '✅ confirmed',
+    expired: '⌛ game over',
+    failed: '❌ failed',
+  };
+  const latency = command.latencyMs !== undefined
+    ? `${command.latencyMs}ms`
+    : command.sentAt !== undefined ? `${Date.now() - command.sentAt}ms…` : '';
+  const detail = command.status === 'failed'
+    ? errorText(command.error)
+    : command.digest ?? '';
+  return `  ${String(command.id).padStart(4)}  ${DIRECTION_NAMES[command.direction].padEnd(10)}  ` +
+    `${labels[command.status].padEnd(13)}  ${latency.padStart(8)}  ${detail}`;
+}
+
+function errorText(error: unknown): string {
+  if (error instanceof MoveAbortError && error.abortName) {
+    return error.abortName;
+  }
+  return (error instanceof Error ? error.message : String(error)).slice(0, 80);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!process.stdin.isTTY) {
+    throw new Error('teleop needs an interactive terminal');
+  }
+
+  const signer = loadKeypairFromEnv(roleEnvVar(options.role));
+  const client = await CrossyRobotClient.connect(loadNetworkProfile({ network: options.network }));
+
+  let gameId: string;
+  let module: GameModule;
+  if (options.create) {
+    module = options.crowd ? 'crowd_robot' : 'crossy_robot';
+    console.log(`🎮 Creating ${module} game...`);
+    gameId = (options.crowd ? await client.createCrowdGame(signer) : await client.createGame(signer)).gameId;
+  } else {
+    gameId = options.gameId!;
+    module = await client.getGameModule(gameId);
+  }
+
+  let status: GameStatusView | null = null;
+  let lastError = '';
+  let renderScheduled = false;
+
+  const render = () => {
+    renderScheduled = false;
+    const { x, y, heading } = controller.pose;
+    const stats = controller.stats;
+    const lines = [
+      `🎮 Crossy Robot Teleop (${module} game ${gameId})`,
+      `   Status: ${statusLine(status)}`,
+      `   Robot: (${x}, ${y}) facing ${HEADING_ARROWS[heading] ?? `${heading}°`}  after ${controller.moves} moves`,
+      `   Sent ${stats.sent}, confirmed ${stats.confirmed}, failed ${stats.failed}, dropped ${stats.dropped}` +
+        (stats.expired > 0 ? `, after game end ${stats.expired}` : ''),
+      '',
+      '   Q W E    7 8 9    ↖ ↑ ↗',
+      '   A   D    4   6    ←   →     arrows, numpad or letters; Esc clears the queue',
+      '   Z X C    1 2 3    ↙ ↓ ↘     Ctrl+C quits',
+      '',
+      '     #    Direction   Status          Latency  Transaction',
+      ...controller.commands.map(commandLine),
+      '',
+      lastError ? `⚠️  ${lastError}` : '',
+    ];
+    process.stdout.write(`\x1b[H\x1b[2J${lines.join('\n')}\n`);
+  };
+  const scheduleRender = () => {
+    if (!renderScheduled) {
+      renderScheduled = true;
+      setImmediate(render);
+    }
+  };
+
+  const controller: TeleopController = new TeleopController({
+    client,
+    signer,
+    gameId,
+    module,
+    maxQueued: options.maxQueued,
+    handlers: {
+      onChange: scheduleRender,
+      onError: (error) => {
+        lastError = errorText(error);
+      },
+    },
+  });
+
+  // Follow the game's moves, including other players', for the position
+  const stream = new GameEventStream(client, {
+    module,
+    cursor: await client.latestEventCursor(module),
+    onError: (error) => {
+      lastError = `event stream: ${errorText(error)}`;
+      scheduleRender();
+    },
+  });
+  const eventLoop = (async () => {
+    for await (const event of stream) {
+      controller.applyEvent(event);
+    }
+  })();
+
+  const refreshStatus = async () => {
+    try {
+      status = module === 'crossy_robot'
+        ? { module, game: await client.getGame(gameId) }
+        : { module, view: await client.getCrowdGameView(gameId) };
+    } catch (error) {
+      lastError = `status: ${errorText(error)}`;
+    }
+    scheduleRender();
+  };
+  await refreshStatus();
+  const statusTimer = setInterval(refreshStatus, STATUS_REFRESH_MS);
+  // Keep in-flight latencies ticking
+  const renderTimer = setInterval(scheduleRender, 250);
+
+  let quitting = false;
+  let quit!: () => void;
+  const quitRequested = new Promise<void>((resolve) => (quit = resolve));
+
+  process.stdin.setRawMode(true);
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', (chunk: string) => {
+    for (const key of splitKeys(chunk)) {
+      if (key === '\x03' || key === '\x04') {
+        quitting = true;
+        quit();
+        return;
+      }
+      if (key === '\x1b') {
+        controller.clear();
+        continue;
+      }
+      const direction = keyDirection(key);
+      if (direction !== null && !quitting) {
+        controller.press(direction);
+      }
+    }
+  });
+  render();
+
+  await quitRequested;
+  controller.clear();
+  await controller.drain();
+  clearInterval(statusTimer);
+  clearInterval(renderTimer);
+  stream.close();
+  await eventLoop;
+  render();
+  process.stdin.setRawMode(false);
+  process.stdin.pause();
+  console.log('👋 Teleop stopped');
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    if (process.stdin.isTTY) {
+      process.stdin.setRawMode(false);
+    }
+    console.error('❌', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}